@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  reactStrictMode: true
+  reactStrictMode: true,
+  outputFileTracingIncludes: {
+    "/api/export-pdf": ["./node_modules/pretendard/dist/public/static/alternative/*.ttf"]
+  }
 };
 
 export default nextConfig;
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { adminAuthError } from "@/lib/admin-auth";
+import { addAgencyAlias, retireAgencyAlias } from "@/lib/agency-registry";
+
+export const runtime = "nodejs";
+
+const addSchema = z.object({
+  alias: z.string().min(1),
+  canonical: z.string().min(1),
+  effectiveFrom: z.string().optional()
+});
+
+const retireSchema = z.object({
+  id: z.string().min(1),
+  retiredFrom: z.string().optional()
+});
+
+export async function POST(request: Request) {
+  const authError = adminAuthError(request);
+  if (authError) {
+    return NextResponse.json({ error: authError }, { status: 401 });
+  }
+
+  try {
+    const parsed = addSchema.parse(await request.json());
+    const alias = addAgencyAlias(parsed);
+    return NextResponse.json({ alias });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "별칭 등록 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const authError = adminAuthError(request);
+  if (authError) {
+    return NextResponse.json({ error: authError }, { status: 401 });
+  }
+
+  try {
+    const parsed = retireSchema.parse(await request.json());
+    const alias = retireAgencyAlias(parsed.id, parsed.retiredFrom);
+    return NextResponse.json({ alias });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "별칭 종료 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { adminAuthError } from "@/lib/admin-auth";
+import { addClub1000Member, retireClub1000Member } from "@/lib/agency-registry";
+
+export const runtime = "nodejs";
+
+const addSchema = z.object({
+  agency: z.string().min(1),
+  effectiveFrom: z.string().optional()
+});
+
+const retireSchema = z.object({
+  id: z.string().min(1),
+  retiredFrom: z.string().optional()
+});
+
+export async function POST(request: Request) {
+  const authError = adminAuthError(request);
+  if (authError) {
+    return NextResponse.json({ error: authError }, { status: 401 });
+  }
+
+  try {
+    const parsed = addSchema.parse(await request.json());
+    const member = addClub1000Member(parsed);
+    return NextResponse.json({ member });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Club 1000 등록 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const authError = adminAuthError(request);
+  if (authError) {
+    return NextResponse.json({ error: authError }, { status: 401 });
+  }
+
+  try {
+    const parsed = retireSchema.parse(await request.json());
+    const member = retireClub1000Member(parsed.id, parsed.retiredFrom);
+    return NextResponse.json({ member });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Club 1000 종료 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
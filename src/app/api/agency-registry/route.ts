@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+
+import { readAgencyRegistry } from "@/lib/agency-registry";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ registry: readAgencyRegistry() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "대리점 레지스트리 조회 오류";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+import { POST } from "@/app/api/analyze/compare/route";
+import { getDatasetRepository } from "@/lib/datasets/repository";
+import type { AnalysisDataset, AnalysisResult } from "@/types/domain";
+
+vi.hoisted(() => {
+  process.env.DATASET_STORE = "tmp";
+});
+
+const savedIds: string[] = [];
+
+afterAll(() => {
+  delete process.env.DATASET_STORE;
+  for (const id of savedIds) {
+    fs.rmSync(path.join("/tmp", "desker-sales-sessions", `${id}.json`), { force: true });
+    fs.rmSync(path.join("/tmp", "desker-sales-sessions", `${id}.meta.json`), { force: true });
+  }
+});
+
+/** [대리점, 금액, 주문일] 목록으로 주문만 있는 데이터셋을 만든다. */
+function ordersOnly(rows: Array<[string, number, string]>): AnalysisDataset {
+  return {
+    orders: rows.map(([agency, orderAmount, date], index) => ({
+      orderNo: `o${index + 1}`,
+      bizNo: `b${index + 1}`,
+      agency,
+      memberType: "",
+      orderAmount,
+      orderDate: new Date(date),
+      city: "",
+      district: "",
+      dong: ""
+    })),
+    customers: [],
+    products: []
+  };
+}
+
+async function saveDataset(): Promise<string> {
+  const meta = await getDatasetRepository().save(
+    ordersOnly([
+      ["DM가", 100, "2024-03-10"],
+      ["DM가", 300, "2024-04-10"],
+      ["DM나", 200, "2024-04-12"],
+      ["DM다", 50, "2024-04-20"]
+    ]),
+    { name: "비교", owner: null, source: "upload", quality: null }
+  );
+  savedIds.push(meta.id);
+  return meta.id;
+}
+
+function compareRequest(body: unknown): Request {
+  return new Request("http://localhost/api/analyze/compare", { method: "POST", body: JSON.stringify(body) });
+}
+
+describe("POST /api/analyze/compare", () => {
+  it("선택한 대리점마다 같은 기간·비교 기준의 분석을 순서대로 돌려준다", async () => {
+    const sessionId = await saveDataset();
+    const response = await POST(compareRequest({ sessionId, agencies: ["DM나", "DM가"], period: { from: "2024-04-01", to: "2024-04-30" } }));
+    const { analyses } = (await response.json()) as { analyses: AnalysisResult[] };
+
+    expect(response.status).toBe(200);
+    expect(analyses.map((analysis) => analysis.agency)).toEqual(["DM나", "DM가"]);
+    expect(analyses.map((analysis) => analysis.kpis.find((card) => card.id === "sales")?.value)).toEqual(["200원", "300원"]);
+    expect(analyses[1].comparison).toEqual({ mode: "previousPeriod", from: "2024-03-01", to: "2024-03-31" });
+  });
+
+  it("대리점 수·중복·데이터에 없는 대리점을 검증한다", async () => {
+    const sessionId = await saveDataset();
+    const errorOf = async (agencies: string[]) => {
+      const response = await POST(compareRequest({ sessionId, agencies }));
+      expect(response.status).toBe(400);
+      return ((await response.json()) as { error: string }).error;
+    };
+
+    expect(await errorOf(["DM가"])).toContain("2개 이상");
+    expect(await errorOf(["DM가", "DM나", "DM다", "DM라", "DM마", "DM바"])).toContain("최대 5개");
+    expect(await errorOf(["DM가", "DM가"])).toContain("중복");
+    expect(await errorOf(["DM가", "DM없음"])).toBe("데이터에 없는 대리점입니다: DM없음");
+  });
+
+  it("없는 데이터셋은 404", async () => {
+    const response = await POST(compareRequest({ sessionId: "missing", agencies: ["DM가", "DM나"] }));
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { calculateAnalysis } from "@/features/metrics/calculate";
+import { analysisPeriodSchema } from "@/features/metrics/period";
+import { getDatasetRepository } from "@/lib/datasets/repository";
+import { readSalesTargets } from "@/lib/sales-targets";
+
+export const runtime = "nodejs";
+
+const requestSchema = z.object({
+  sessionId: z.string().min(1),
+  agencies: z
+    .array(z.string().min(1))
+    .min(2, "비교할 대리점을 2개 이상 선택해주세요.")
+    .max(5, "대리점은 최대 5개까지 비교할 수 있습니다.")
+    .refine((agencies) => new Set(agencies).size === agencies.length, "같은 대리점이 중복 선택되었습니다."),
+  benchmark: z.enum(["overall", "club1000"]).default("overall"),
+  period: analysisPeriodSchema.optional(),
+  comparison: z.enum(["previousPeriod", "yearOverYear"]).default("previousPeriod")
+});
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const parsed = requestSchema.parse(body);
+
+    const stored = await getDatasetRepository().get(parsed.sessionId);
+    if (!stored) {
+      return NextResponse.json({ error: "데이터셋을 찾을 수 없습니다. 기본 데이터를 다시 불러와주세요." }, { status: 404 });
+    }
+
+    const knownAgencies = new Set(stored.meta.agencies);
+    const unknown = parsed.agencies.filter((agency) => !knownAgencies.has(agency));
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `데이터에 없는 대리점입니다: ${unknown.join(", ")}` }, { status: 400 });
+    }
+
+    const { targets } = readSalesTargets();
+    const analyses = parsed.agencies.map((agency) =>
+      calculateAnalysis(stored.dataset, agency, parsed.benchmark, parsed.period, parsed.comparison, targets)
+    );
+    return NextResponse.json({ analyses });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "비교 분석 요청 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -2,14 +2,18 @@ import { NextResponse } from "next/server";
 import { z } from "zod";
 
 import { calculateAnalysis } from "@/features/metrics/calculate";
-import { getSession } from "@/lib/session-store";
+import { analysisPeriodSchema } from "@/features/metrics/period";
+import { getDatasetRepository } from "@/lib/datasets/repository";
+import { readSalesTargets } from "@/lib/sales-targets";
 
 export const runtime = "nodejs";
 
 const requestSchema = z.object({
   sessionId: z.string().min(1),
   agency: z.string().min(1),
-  benchmark: z.enum(["overall", "club1000"]).default("overall")
+  benchmark: z.enum(["overall", "club1000"]).default("overall"),
+  period: analysisPeriodSchema.optional(),
+  comparison: z.enum(["previousPeriod", "yearOverYear"]).default("previousPeriod")
 });
 
 export async function POST(request: Request) {
@@ -17,12 +21,20 @@ export async function POST(request: Request) {
     const body = await request.json();
     const parsed = requestSchema.parse(body);
 
-    const dataset = getSession(parsed.sessionId);
-    if (!dataset) {
-      return NextResponse.json({ error: "세션이 만료되었습니다. 기본 데이터를 다시 불러와주세요." }, { status: 404 });
+    const stored = await getDatasetRepository().get(parsed.sessionId);
+    if (!stored) {
+      return NextResponse.json({ error: "데이터셋을 찾을 수 없습니다. 기본 데이터를 다시 불러와주세요." }, { status: 404 });
     }
+    const { dataset } = stored;
 
-    const analysis = calculateAnalysis(dataset, parsed.agency, parsed.benchmark);
+    const analysis = calculateAnalysis(
+      dataset,
+      parsed.agency,
+      parsed.benchmark,
+      parsed.period,
+      parsed.comparison,
+      readSalesTargets().targets
+    );
     return NextResponse.json({ analysis });
   } catch (error) {
     const message = error instanceof Error ? error.message : "분석 요청 오류";
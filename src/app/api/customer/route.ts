@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { calculateCustomerDetail } from "@/features/metrics/calculate";
+import { analysisPeriodSchema } from "@/features/metrics/period";
+import { getDatasetRepository } from "@/lib/datasets/repository";
+
+export const runtime = "nodejs";
+
+const requestSchema = z.object({
+  sessionId: z.string().min(1),
+  agency: z.string().min(1),
+  bizNo: z.string().min(1),
+  period: analysisPeriodSchema.optional()
+});
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const parsed = requestSchema.parse(body);
+
+    const stored = await getDatasetRepository().get(parsed.sessionId);
+    if (!stored) {
+      return NextResponse.json({ error: "데이터셋을 찾을 수 없습니다. 기본 데이터를 다시 불러와주세요." }, { status: 404 });
+    }
+
+    const customer = calculateCustomerDetail(stored.dataset, parsed.agency, parsed.bizNo, parsed.period);
+    if (!customer) {
+      return NextResponse.json({ error: "해당 대리점에서 이 사업자번호의 고객을 찾을 수 없습니다." }, { status: 404 });
+    }
+
+    return NextResponse.json({ customer });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "고객 상세 요청 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,51 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { GET } from "@/app/api/datasets/route";
+import { getDatasetRepository } from "@/lib/datasets/repository";
+
+vi.hoisted(() => {
+  process.env.DATASET_STORE = "tmp";
+});
+
+const savedIds: string[] = [];
+
+beforeEach(() => {
+  vi.stubEnv("ADMIN_API_TOKEN", "secret");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  delete process.env.DATASET_STORE;
+  for (const id of savedIds) {
+    fs.rmSync(path.join("/tmp", "desker-sales-sessions", `${id}.json`), { force: true });
+    fs.rmSync(path.join("/tmp", "desker-sales-sessions", `${id}.meta.json`), { force: true });
+  }
+});
+
+describe("GET /api/datasets", () => {
+  it("관리자 토큰 없이는 다른 담당자의 업로드 목록을 돌려주지 않는다", async () => {
+    const meta = await getDatasetRepository().save({ orders: [], customers: [], products: [] }, { name: "남의 업로드", owner: "kim", source: "upload", quality: null });
+    savedIds.push(meta.id);
+
+    const anonymous = await GET(new Request("http://localhost/api/datasets?owner=kim"));
+    expect(anonymous.status).toBe(401);
+
+    const admin = await GET(new Request("http://localhost/api/datasets?owner=kim", { headers: { Authorization: "Bearer secret" } }));
+    const payload = (await admin.json()) as { datasets: Array<{ id: string }> };
+    expect(admin.status).toBe(200);
+    expect(payload.datasets.map((item) => item.id)).toContain(meta.id);
+  });
+
+  it("id로 여는 조회는 토큰 없이 허용하고 없는 id는 404", async () => {
+    const meta = await getDatasetRepository().save({ orders: [], customers: [], products: [] }, { name: "내 업로드", owner: null, source: "upload", quality: null });
+    savedIds.push(meta.id);
+
+    const opened = await GET(new Request(`http://localhost/api/datasets?id=${meta.id}`));
+    expect(opened.status).toBe(200);
+    expect(((await opened.json()) as { sessionId: string }).sessionId).toBe(meta.id);
+
+    expect((await GET(new Request("http://localhost/api/datasets?id=missing"))).status).toBe(404);
+  });
+});
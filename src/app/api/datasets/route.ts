@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+
+import { adminAuthError } from "@/lib/admin-auth";
+import { getDatasetRepository } from "@/lib/datasets/repository";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get("id");
+    const repository = getDatasetRepository();
+
+    if (!id) {
+      // 목록에는 모든 담당자의 업로드가 보인다. owner는 인증된 값이 아니므로 목록 자체를 관리자에게만 연다.
+      const authError = adminAuthError(request);
+      if (authError) {
+        return NextResponse.json({ error: authError }, { status: 401 });
+      }
+      const owner = searchParams.get("owner") ?? undefined;
+      return NextResponse.json({ datasets: await repository.list({ owner }) });
+    }
+
+    const stored = await repository.get(id);
+    if (!stored) {
+      return NextResponse.json({ error: "데이터셋을 찾을 수 없습니다. 보관 기간이 지났을 수 있습니다." }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      sessionId: stored.meta.id,
+      dataset: stored.meta,
+      agencies: stored.meta.agencies,
+      counts: stored.meta.counts,
+      quality: stored.quality ?? undefined
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "데이터셋 조회 오류";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+import { POST } from "@/app/api/export-pdf/route";
+import { reportFileName } from "@/features/export/render-pdf";
+import { getDatasetRepository } from "@/lib/datasets/repository";
+import type { AnalysisDataset } from "@/types/domain";
+
+vi.hoisted(() => {
+  process.env.DATASET_STORE = "tmp";
+});
+
+const savedIds: string[] = [];
+
+afterAll(() => {
+  delete process.env.DATASET_STORE;
+  for (const id of savedIds) {
+    fs.rmSync(path.join("/tmp", "desker-sales-sessions", `${id}.json`), { force: true });
+    fs.rmSync(path.join("/tmp", "desker-sales-sessions", `${id}.meta.json`), { force: true });
+  }
+});
+
+const dataset: AnalysisDataset = {
+  orders: [
+    { orderNo: "o1", bizNo: "b1", agency: "DM신", memberType: "등록", orderAmount: 1_200_000, orderDate: new Date("2024-03-05"), city: "대구광역시", district: "수성구", dong: "범어동" },
+    { orderNo: "o2", bizNo: "b1", agency: "DM신", memberType: "등록", orderAmount: 3_400_000, orderDate: new Date("2024-04-10"), city: "대구광역시", district: "수성구", dong: "범어동" },
+    { orderNo: "o3", bizNo: "b2", agency: "DM가", memberType: "배정", orderAmount: 800_000, orderDate: new Date("2024-04-12"), city: "대구광역시", district: "중구", dong: "동인동" }
+  ],
+  customers: [
+    { bizNo: "b1", agency: "DM신", customerName: "데스커상사", memberType: "등록", industryMajor: "제조업", industryDetail: "가구 제조", firstOrderAmount: 1_200_000 }
+  ],
+  products: [
+    { orderNo: "o1", midCategory: "책상", quantity: 2, salesAmount: 1_200_000, isNewProduct: true },
+    { orderNo: "o2", midCategory: "의자", quantity: 4, salesAmount: 3_400_000, isNewProduct: false }
+  ]
+};
+
+function exportRequest(body: Record<string, unknown>): Request {
+  return new Request("http://localhost/api/export-pdf", { method: "POST", body: JSON.stringify(body) });
+}
+
+describe("POST /api/export-pdf", () => {
+  it("한글 글꼴을 내장한 PDF를 네트워크 없이 만들어 첨부 파일로 돌려준다", async () => {
+    const meta = await getDatasetRepository().save(dataset, { name: "보고서", owner: null, source: "upload", quality: null });
+    savedIds.push(meta.id);
+
+    const response = await POST(
+      exportRequest({
+        sessionId: meta.id,
+        agency: "DM신",
+        comments: { geo: { interpretation: ["DM신 매출은 대구광역시 수성구에 모여 있습니다."] } }
+      })
+    );
+    const bytes = Buffer.from(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("application/pdf");
+    expect(response.headers.get("Content-Disposition")).toContain(`filename*=UTF-8''${encodeURIComponent(reportFileName("DM신"))}`);
+    expect(bytes.subarray(0, 5).toString("latin1")).toBe("%PDF-");
+    expect(bytes.toString("latin1")).toContain("Pretendard");
+  }, 60_000);
+
+  it("없는 데이터셋은 404, 형식이 틀린 요청은 400", async () => {
+    expect((await POST(exportRequest({ sessionId: "missing", agency: "DM신" }))).status).toBe(404);
+    expect((await POST(exportRequest({ sessionId: "missing", agency: "" }))).status).toBe(400);
+  });
+});
+
+describe("reportFileName", () => {
+  it("대리점 이름과 생성일로 파일 이름을 만든다", () => {
+    expect(reportFileName("DM신", new Date("2024-04-30T03:00:00.000Z"))).toBe("DM신_등록고객_보고서_20240430.pdf");
+  });
+});
@@ -1,13 +1,69 @@
 import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { renderSalesReportPdf, reportFileName } from "@/features/export/render-pdf";
+import { calculateAnalysis } from "@/features/metrics/calculate";
+import { analysisPeriodSchema } from "@/features/metrics/period";
+import { getDatasetRepository } from "@/lib/datasets/repository";
+import { readSalesTargets } from "@/lib/sales-targets";
 
 export const runtime = "nodejs";
 
-export async function POST() {
-  return NextResponse.json(
-    {
-      error:
-        "PDF 내보내기는 Phase 4 구현 대상입니다. 현재는 화면 데이터 구조를 고정한 상태이며, react-pdf 또는 playwright 기반 렌더링을 연결하면 즉시 확장 가능합니다."
-    },
-    { status: 501 }
-  );
+const sectionCommentsSchema = z.object({
+  interpretation: z.array(z.string()).max(10).optional(),
+  insight: z.array(z.string()).max(10).optional()
+});
+
+const requestSchema = z.object({
+  sessionId: z.string().min(1),
+  agency: z.string().min(1),
+  benchmark: z.enum(["overall", "club1000"]).default("overall"),
+  period: analysisPeriodSchema.optional(),
+  comparison: z.enum(["previousPeriod", "yearOverYear"]).default("previousPeriod"),
+  comments: z
+    .object({
+      geo: sectionCommentsSchema.optional(),
+      region: sectionCommentsSchema.optional(),
+      regionCommon: sectionCommentsSchema.optional(),
+      growth: sectionCommentsSchema.optional(),
+      monthly: sectionCommentsSchema.optional(),
+      weakProduct: sectionCommentsSchema.optional(),
+      strongProduct: sectionCommentsSchema.optional()
+    })
+    .default({})
+});
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const parsed = requestSchema.parse(body);
+
+    const stored = await getDatasetRepository().get(parsed.sessionId);
+    if (!stored) {
+      return NextResponse.json({ error: "데이터셋을 찾을 수 없습니다. 기본 데이터를 다시 불러와주세요." }, { status: 404 });
+    }
+    const { dataset } = stored;
+
+    const analysis = calculateAnalysis(
+      dataset,
+      parsed.agency,
+      parsed.benchmark,
+      parsed.period,
+      parsed.comparison,
+      readSalesTargets().targets
+    );
+    const pdf = await renderSalesReportPdf(analysis, parsed.comments);
+    const fileName = reportFileName(parsed.agency);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="report.pdf"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "PDF 생성 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
 }
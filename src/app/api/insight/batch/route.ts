@@ -1,8 +1,8 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 
-import { generateInsightMessages } from "@/features/insight/generate";
-import { getInsightPreset, type InsightPresetId } from "@/features/insight/presets";
+import { generateCachedInsightMessages } from "@/features/insight/generate";
+import { getInsightPreset } from "@/features/insight/presets";
 
 export const runtime = "nodejs";
 
@@ -14,7 +14,8 @@ const insightRequestSchema = z.object({
 });
 
 const requestSchema = z.object({
-  requests: z.array(insightRequestSchema).min(1).max(20)
+  requests: z.array(insightRequestSchema).min(1).max(20),
+  regenerate: z.boolean().optional()
 });
 
 export async function POST(request: Request) {
@@ -28,21 +29,28 @@ export async function POST(request: Request) {
         if (!preset) {
           return {
             presetId: item.presetId,
+            cached: false,
             messages: [{ role: "assistant" as const, content: "유효하지 않은 presetId 입니다." }],
             error: "invalid_preset"
           };
         }
 
-        const messages = await generateInsightMessages({
-          agency: item.agency,
-          benchmark: item.benchmark,
-          presetId: item.presetId as InsightPresetId,
-          analysisSnapshot: item.analysisSnapshot
-        });
+        const { messages, rejected, presetVersion, cached } = await generateCachedInsightMessages(
+          {
+            agency: item.agency,
+            benchmark: item.benchmark,
+            preset,
+            analysisSnapshot: item.analysisSnapshot
+          },
+          parsed.regenerate ?? false
+        );
 
         return {
           presetId: preset.id,
-          messages: messages.map((content) => ({ role: "assistant" as const, content }))
+          presetVersion,
+          cached,
+          messages: messages.map((content) => ({ role: "assistant" as const, content, presetVersion })),
+          rejected
         };
       })
     );
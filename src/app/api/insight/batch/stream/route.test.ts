@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { POST } from "@/app/api/insight/batch/stream/route";
+import { readSseStream, type SseEvent } from "@/lib/sse";
+
+const snapshot = {
+  agencyRegionTop5: [
+    { region: "대구광역시 수성구", sales: 6_000_000, share: 60 },
+    { region: "대구광역시 중구", sales: 4_000_000, share: 40 }
+  ]
+};
+
+async function collectEvents(response: Response): Promise<Array<{ event: string; data: Record<string, unknown> }>> {
+  const events: SseEvent[] = [];
+  await readSseStream(response.body as ReadableStream<Uint8Array>, (event) => events.push(event));
+  return events.map((event) => ({ event: event.event, data: JSON.parse(event.data) as Record<string, unknown> }));
+}
+
+beforeEach(() => {
+  vi.stubEnv("OPENAI_API_KEY", "");
+  vi.stubEnv("ANTHROPIC_API_KEY", "");
+  vi.stubEnv("LLM_PROVIDER", "mock");
+  vi.stubEnv("LLM_MOCK_RESPONSE", JSON.stringify({ messages: ["DM신 매출의 60%가 대구 수성구에서 나옵니다."] }));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("POST /api/insight/batch/stream", () => {
+  it("프리셋마다 result 이벤트를 보내고 마지막에 done을 보낸다", async () => {
+    const response = await POST(
+      new Request("http://localhost/api/insight/batch/stream", {
+        method: "POST",
+        body: JSON.stringify({
+          regenerate: true,
+          requests: [
+            { agency: "DM신", benchmark: "overall", presetId: "geo_interpretation", analysisSnapshot: snapshot },
+            { agency: "DM신", benchmark: "overall", presetId: "missing" }
+          ]
+        })
+      })
+    );
+    const events = await collectEvents(response);
+
+    expect(events.map((event) => event.event)).toEqual(["result", "result", "done"]);
+    expect(events.find((event) => event.data.presetId === "missing")?.data).toMatchObject({ error: "invalid_preset", cached: false });
+    expect(events.find((event) => event.data.presetId === "geo_interpretation")?.data).toMatchObject({
+      cached: false,
+      messages: [{ role: "assistant", content: "DM신 매출의 60%가 대구 수성구에서 나옵니다." }]
+    });
+    expect(events.at(-1)?.data).toEqual({ count: 2 });
+  });
+
+  it("요청 형식이 틀리면 스트림을 열지 않고 400", async () => {
+    const response = await POST(new Request("http://localhost/api/insight/batch/stream", { method: "POST", body: JSON.stringify({ requests: [] }) }));
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get("Content-Type")).toContain("application/json");
+  });
+});
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { generateCachedInsightMessages } from "@/features/insight/generate";
+import { getInsightPreset } from "@/features/insight/presets";
+import { sseResponse } from "@/lib/sse";
+
+export const runtime = "nodejs";
+
+const insightRequestSchema = z.object({
+  agency: z.string().min(1),
+  benchmark: z.enum(["overall", "club1000"]),
+  presetId: z.string().min(1),
+  analysisSnapshot: z.record(z.string(), z.unknown()).optional()
+});
+
+const requestSchema = z.object({
+  requests: z.array(insightRequestSchema).min(1).max(20),
+  regenerate: z.boolean().optional()
+});
+
+/** `/api/insight/batch`의 스트리밍 버전. 프리셋마다 생성이 끝나는 순서대로 `result` 이벤트를 보내고 마지막에 `done`. */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const parsed = requestSchema.parse(body);
+
+    return sseResponse(async (send, signal) => {
+      await Promise.all(
+        parsed.requests.map(async (item) => {
+          const preset = getInsightPreset(item.presetId);
+          if (!preset) {
+            send("result", {
+              presetId: item.presetId,
+              cached: false,
+              messages: [{ role: "assistant" as const, content: "유효하지 않은 presetId 입니다." }],
+              error: "invalid_preset"
+            });
+            return;
+          }
+
+          try {
+            const { messages, rejected, presetVersion, cached } = await generateCachedInsightMessages(
+              {
+                agency: item.agency,
+                benchmark: item.benchmark,
+                preset,
+                analysisSnapshot: item.analysisSnapshot,
+                signal
+              },
+              parsed.regenerate ?? false
+            );
+
+            send("result", {
+              presetId: preset.id,
+              presetVersion,
+              cached,
+              messages: messages.map((content) => ({ role: "assistant" as const, content, presetVersion })),
+              rejected
+            });
+          } catch (error) {
+            send("result", {
+              presetId: preset.id,
+              cached: false,
+              messages: [],
+              error: error instanceof Error ? error.message : "인사이트 생성 오류"
+            });
+          }
+        })
+      );
+
+      send("done", { count: parsed.requests.length });
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "배치 인사이트 생성 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -20,7 +20,8 @@ const requestSchema = z.object({
   averagePurchaseCount: z.number(),
   selectedAverageGrowthMultiplier: z.number(),
   selectedAveragePurchaseCount: z.number(),
-  selectedPoints: z.array(pointSchema)
+  selectedPoints: z.array(pointSchema),
+  regenerate: z.boolean().optional()
 });
 
 export async function POST(request: Request) {
@@ -28,17 +29,20 @@ export async function POST(request: Request) {
     const body = await request.json();
     const parsed = requestSchema.parse(body);
 
-    const rows = await generateGrowthSegmentRows({
-      agency: parsed.agency,
-      benchmark: parsed.benchmark,
-      averageGrowthMultiplier: parsed.averageGrowthMultiplier,
-      averagePurchaseCount: parsed.averagePurchaseCount,
-      selectedAverageGrowthMultiplier: parsed.selectedAverageGrowthMultiplier,
-      selectedAveragePurchaseCount: parsed.selectedAveragePurchaseCount,
-      selectedPoints: parsed.selectedPoints
-    });
+    const { rows, rejected, cached } = await generateGrowthSegmentRows(
+      {
+        agency: parsed.agency,
+        benchmark: parsed.benchmark,
+        averageGrowthMultiplier: parsed.averageGrowthMultiplier,
+        averagePurchaseCount: parsed.averagePurchaseCount,
+        selectedAverageGrowthMultiplier: parsed.selectedAverageGrowthMultiplier,
+        selectedAveragePurchaseCount: parsed.selectedAveragePurchaseCount,
+        selectedPoints: parsed.selectedPoints
+      },
+      parsed.regenerate ?? false
+    );
 
-    return NextResponse.json({ rows });
+    return NextResponse.json({ rows, cached, rejected });
   } catch (error) {
     const message = error instanceof Error ? error.message : "성장 고객군 생성 오류";
     return NextResponse.json({ error: message }, { status: 400 });
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { adminAuthError } from "@/lib/admin-auth";
+import {
+  INSIGHT_SECTION_IDS,
+  INSIGHT_SNAPSHOT_KEYS,
+  createInsightPreset,
+  readInsightPresetCatalog,
+  retireInsightPreset,
+  updateInsightPreset
+} from "@/lib/insight-presets";
+
+export const runtime = "nodejs";
+
+const fieldsSchema = z.object({
+  title: z.string().min(1).max(100),
+  objective: z.string().min(1).max(500),
+  focus: z.array(z.string().min(1).max(200)).min(1).max(10),
+  outputHint: z.string().min(1).max(300),
+  snapshotKeys: z.array(z.enum(INSIGHT_SNAPSHOT_KEYS)).max(INSIGHT_SNAPSHOT_KEYS.length).optional(),
+  placement: z
+    .object({
+      section: z.enum(INSIGHT_SECTION_IDS),
+      kind: z.enum(["interpretation", "insight"])
+    })
+    .nullable()
+    .optional()
+});
+
+const createSchema = fieldsSchema.extend({
+  id: z.string().min(1)
+});
+
+const updateSchema = fieldsSchema.partial().extend({
+  id: z.string().min(1)
+});
+
+const retireSchema = z.object({
+  id: z.string().min(1)
+});
+
+export async function GET() {
+  try {
+    return NextResponse.json({ catalog: readInsightPresetCatalog() });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "인사이트 프리셋 조회 오류";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const authError = adminAuthError(request);
+  if (authError) {
+    return NextResponse.json({ error: authError }, { status: 401 });
+  }
+
+  try {
+    const parsed = createSchema.parse(await request.json());
+    const preset = createInsightPreset(parsed);
+    return NextResponse.json({ preset });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "인사이트 프리셋 등록 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
+
+export async function PATCH(request: Request) {
+  const authError = adminAuthError(request);
+  if (authError) {
+    return NextResponse.json({ error: authError }, { status: 401 });
+  }
+
+  try {
+    const { id, ...patch } = updateSchema.parse(await request.json());
+    const preset = updateInsightPreset(id, patch);
+    return NextResponse.json({ preset });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "인사이트 프리셋 수정 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const authError = adminAuthError(request);
+  if (authError) {
+    return NextResponse.json({ error: authError }, { status: 401 });
+  }
+
+  try {
+    const parsed = retireSchema.parse(await request.json());
+    const preset = retireInsightPreset(parsed.id);
+    return NextResponse.json({ preset });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "인사이트 프리셋 종료 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
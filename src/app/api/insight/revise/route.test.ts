@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { POST } from "@/app/api/insight/revise/route";
+
+const snapshot = {
+  agencyRegionTop5: [
+    { region: "대구광역시 수성구", sales: 6_000_000, share: 60 },
+    { region: "대구광역시 중구", sales: 4_000_000, share: 40 }
+  ]
+};
+
+const history = [
+  { role: "assistant", content: "DM신 매출은 대구 수성구와 중구에 모여 있습니다.", presetVersion: 1 },
+  { role: "assistant", content: "대구 중구 비중은 40%입니다.", presetVersion: 1 }
+];
+
+function reviseRequest(body: Record<string, unknown>): Request {
+  return new Request("http://localhost/api/insight/revise", {
+    method: "POST",
+    body: JSON.stringify({ agency: "DM신", benchmark: "overall", presetId: "geo_interpretation", analysisSnapshot: snapshot, messages: history, ...body })
+  });
+}
+
+interface RevisePayload {
+  presetVersion: number;
+  revised: string[];
+  rejected: Array<{ text: string }>;
+  messages: Array<{ role: string; content: string; presetVersion?: number }>;
+}
+
+beforeEach(() => {
+  // 개발 환경에 설정된 API 키로 실제 공급자를 부르지 않도록 막는다.
+  vi.stubEnv("OPENAI_API_KEY", "");
+  vi.stubEnv("ANTHROPIC_API_KEY", "");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("POST /api/insight/revise", () => {
+  it("이전 대화와 수정 요청을 이어 붙이고 고친 코멘트를 돌려준다", async () => {
+    vi.stubEnv("LLM_PROVIDER", "mock");
+    vi.stubEnv("LLM_MOCK_RESPONSE", JSON.stringify({ messages: ["DM신 매출의 60%가 대구 수성구에서 나옵니다."] }));
+
+    const response = await POST(reviseRequest({ instruction: "수성구를 더 강조해줘" }));
+    const payload = (await response.json()) as RevisePayload;
+
+    expect(response.status).toBe(200);
+    expect(payload.revised).toEqual(["DM신 매출의 60%가 대구 수성구에서 나옵니다."]);
+    expect(payload.messages).toEqual([
+      ...history,
+      { role: "user", content: "수성구를 더 강조해줘" },
+      { role: "assistant", content: "DM신 매출의 60%가 대구 수성구에서 나옵니다.", presetVersion: payload.presetVersion }
+    ]);
+  });
+
+  it("AI 연결이 없으면 직전 코멘트를 유지하고 반영하지 못했다고 알린다", async () => {
+    const response = await POST(reviseRequest({ instruction: "수성구를 더 강조해줘" }));
+    const payload = (await response.json()) as RevisePayload;
+
+    expect(payload.revised).toEqual([...history.map((message) => message.content), '요청하신 수정("수성구를 더 강조해줘")은 AI 연결이 없어 반영하지 못했습니다.']);
+  });
+
+  it("근거 없는 수치만 돌아오면 제외 사유와 함께 알린다", async () => {
+    vi.stubEnv("LLM_PROVIDER", "mock");
+    vi.stubEnv("LLM_MOCK_RESPONSE", JSON.stringify({ messages: ["수성구 매출이 9억원을 넘었습니다."] }));
+
+    const payload = (await (await POST(reviseRequest({ instruction: "금액도 넣어줘" }))).json()) as RevisePayload;
+
+    expect(payload.rejected.map((item) => item.text)).toEqual(["수성구 매출이 9억원을 넘었습니다."]);
+    expect(payload.revised.at(-1)).toContain("데이터에서 확인할 수 없어");
+  });
+
+  it("수정 요청이 비었거나 프리셋이 없으면 400", async () => {
+    expect((await POST(reviseRequest({ instruction: "  " }))).status).toBe(400);
+
+    const unknown = await POST(reviseRequest({ instruction: "짧게", presetId: "missing" }));
+    expect(unknown.status).toBe(400);
+    expect(((await unknown.json()) as { error: string }).error).toBe("유효하지 않은 presetId 입니다.");
+  });
+});
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { generateInsightMessages } from "@/features/insight/generate";
+import { getInsightPreset } from "@/features/insight/presets";
+
+export const runtime = "nodejs";
+
+const messageSchema = z.object({
+  role: z.enum(["assistant", "user"]),
+  content: z.string().trim().min(1).max(2000),
+  presetVersion: z.number().int().positive().optional()
+});
+
+const requestSchema = z.object({
+  agency: z.string().min(1),
+  benchmark: z.enum(["overall", "club1000"]),
+  presetId: z.string().min(1),
+  analysisSnapshot: z.record(z.string(), z.unknown()).optional(),
+  messages: z.array(messageSchema).max(60),
+  instruction: z.string().trim().min(1).max(500)
+});
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const parsed = requestSchema.parse(body);
+    const preset = getInsightPreset(parsed.presetId);
+    if (!preset) {
+      return NextResponse.json({ error: "유효하지 않은 presetId 입니다." }, { status: 400 });
+    }
+
+    const { messages: revised, rejected, presetVersion } = await generateInsightMessages({
+      agency: parsed.agency,
+      benchmark: parsed.benchmark,
+      preset,
+      analysisSnapshot: parsed.analysisSnapshot,
+      history: parsed.messages,
+      instruction: parsed.instruction
+    });
+
+    return NextResponse.json({
+      presetId: preset.id,
+      presetVersion,
+      revised,
+      rejected,
+      messages: [
+        ...parsed.messages,
+        { role: "user" as const, content: parsed.instruction },
+        ...revised.map((content) => ({ role: "assistant" as const, content, presetVersion }))
+      ]
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "인사이트 수정 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
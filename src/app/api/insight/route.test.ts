@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { POST } from "@/app/api/insight/route";
+
+const snapshot = {
+  agencyRegionTop5: [
+    { region: "대구광역시 수성구", sales: 6_000_000, share: 60 },
+    { region: "대구광역시 중구", sales: 4_000_000, share: 40 }
+  ]
+};
+
+function insightRequest(body: Record<string, unknown>): Request {
+  return new Request("http://localhost/api/insight", {
+    method: "POST",
+    body: JSON.stringify({ agency: "DM신", benchmark: "overall", presetId: "geo_interpretation", analysisSnapshot: snapshot, ...body })
+  });
+}
+
+interface InsightPayload {
+  presetId: string;
+  presetVersion: number;
+  cached: boolean;
+  messages: Array<{ role: string; content: string; presetVersion: number }>;
+  rejected: Array<{ text: string; reasons: string[] }>;
+}
+
+beforeEach(() => {
+  vi.stubEnv("OPENAI_API_KEY", "");
+  vi.stubEnv("ANTHROPIC_API_KEY", "");
+  vi.stubEnv("LLM_PROVIDER", "mock");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("POST /api/insight", () => {
+  it("mock 공급자의 응답을 근거 검증해 프리셋 버전과 함께 돌려준다", async () => {
+    vi.stubEnv("LLM_MOCK_RESPONSE", JSON.stringify({ messages: ["DM신 매출의 60%가 대구 수성구에서 나옵니다.", "부산은 성장 중입니다."] }));
+
+    const response = await POST(insightRequest({ regenerate: true }));
+    const payload = (await response.json()) as InsightPayload;
+
+    expect(response.status).toBe(200);
+    expect(payload.presetId).toBe("geo_interpretation");
+    expect(payload.messages[0]).toEqual({ role: "assistant", content: "DM신 매출의 60%가 대구 수성구에서 나옵니다.", presetVersion: payload.presetVersion });
+    expect(payload.rejected).toEqual([{ text: "부산은 성장 중입니다.", reasons: ["데이터에 없는 지역: 부산"] }]);
+  });
+
+  it("코드 블록으로 감싼 응답도 읽는다", async () => {
+    vi.stubEnv("LLM_MOCK_RESPONSE", '```json\n{"messages":["대구 중구 비중은 40%입니다."]}\n```');
+
+    const payload = (await (await POST(insightRequest({ agency: "DM코드", regenerate: true }))).json()) as InsightPayload;
+
+    expect(payload.messages.map((message) => message.content)).toEqual(["대구 중구 비중은 40%입니다."]);
+  });
+
+  it("같은 입력은 캐시된 결과를 주고, regenerate면 다시 생성한다", async () => {
+    vi.stubEnv("LLM_MOCK_RESPONSE", JSON.stringify({ messages: ["DM신 매출의 60%가 대구 수성구에서 나옵니다."] }));
+    const body = { agency: "DM캐시" };
+
+    const first = (await (await POST(insightRequest(body))).json()) as InsightPayload;
+    vi.stubEnv("LLM_MOCK_RESPONSE", JSON.stringify({ messages: ["대구 중구 비중은 40%입니다."] }));
+    const second = (await (await POST(insightRequest(body))).json()) as InsightPayload;
+    const regenerated = (await (await POST(insightRequest({ ...body, regenerate: true }))).json()) as InsightPayload;
+
+    expect(first.cached).toBe(false);
+    expect(second).toMatchObject({ cached: true, messages: first.messages });
+    expect(regenerated.cached).toBe(false);
+    expect(regenerated.messages[0].content).toBe("대구 중구 비중은 40%입니다.");
+  });
+
+  it("잘못된 요청은 400", async () => {
+    expect((await POST(insightRequest({ benchmark: "all" }))).status).toBe(400);
+    expect((await POST(insightRequest({ presetId: "missing" }))).status).toBe(400);
+  });
+});
@@ -1,7 +1,7 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
-import { generateInsightMessages } from "@/features/insight/generate";
-import { getInsightPreset, type InsightPresetId } from "@/features/insight/presets";
+import { generateCachedInsightMessages } from "@/features/insight/generate";
+import { getInsightPreset } from "@/features/insight/presets";
 
 export const runtime = "nodejs";
 
@@ -9,7 +9,8 @@ const requestSchema = z.object({
   agency: z.string().min(1),
   benchmark: z.enum(["overall", "club1000"]),
   presetId: z.string().min(1),
-  analysisSnapshot: z.record(z.string(), z.unknown()).optional()
+  analysisSnapshot: z.record(z.string(), z.unknown()).optional(),
+  regenerate: z.boolean().optional()
 });
 
 export async function POST(request: Request) {
@@ -21,16 +22,22 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "유효하지 않은 presetId 입니다." }, { status: 400 });
     }
 
-    const messages = await generateInsightMessages({
-      agency: parsed.agency,
-      benchmark: parsed.benchmark,
-      presetId: parsed.presetId as InsightPresetId,
-      analysisSnapshot: parsed.analysisSnapshot
-    });
+    const { messages, rejected, presetVersion, cached } = await generateCachedInsightMessages(
+      {
+        agency: parsed.agency,
+        benchmark: parsed.benchmark,
+        preset,
+        analysisSnapshot: parsed.analysisSnapshot
+      },
+      parsed.regenerate ?? false
+    );
 
     return NextResponse.json({
       presetId: preset.id,
-      messages: messages.map((content) => ({ role: "assistant" as const, content }))
+      presetVersion,
+      cached,
+      messages: messages.map((content) => ({ role: "assistant" as const, content, presetVersion })),
+      rejected
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "인사이트 생성 오류";
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { POST } from "@/app/api/insight/stream/route";
+import { readSseStream, type SseEvent } from "@/lib/sse";
+
+const snapshot = {
+  agencyRegionTop5: [
+    { region: "대구광역시 수성구", sales: 6_000_000, share: 60 },
+    { region: "대구광역시 중구", sales: 4_000_000, share: 40 }
+  ]
+};
+
+interface StreamedMessages {
+  messages: Array<{ content: string }>;
+}
+
+beforeEach(() => {
+  vi.stubEnv("OPENAI_API_KEY", "");
+  vi.stubEnv("ANTHROPIC_API_KEY", "");
+  vi.stubEnv("LLM_PROVIDER", "mock");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("POST /api/insight/stream", () => {
+  it("생성 중인 문장을 delta로 보내고, 근거 검증을 거친 최종 문장은 result로 보낸다", async () => {
+    vi.stubEnv("LLM_MOCK_RESPONSE", JSON.stringify({ messages: ["DM신 매출의 60%가 대구 수성구에서 나옵니다.", "부산은 성장 중입니다."] }));
+
+    const response = await POST(
+      new Request("http://localhost/api/insight/stream", {
+        method: "POST",
+        body: JSON.stringify({ agency: "DM신", benchmark: "overall", presetId: "geo_interpretation", analysisSnapshot: snapshot, regenerate: true })
+      })
+    );
+    const events: SseEvent[] = [];
+    await readSseStream(response.body as ReadableStream<Uint8Array>, (event) => events.push(event));
+
+    const deltas = events.filter((event) => event.event === "delta").map((event) => JSON.parse(event.data) as StreamedMessages);
+    const result = JSON.parse(events.at(-1)?.data ?? "{}") as StreamedMessages;
+
+    expect(events.at(-1)?.event).toBe("result");
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.at(-1)?.messages.map((message) => message.content)).toContain("부산은 성장 중입니다.");
+    expect(result.messages[0].content).toBe("DM신 매출의 60%가 대구 수성구에서 나옵니다.");
+    expect(result.messages.map((message) => message.content)).not.toContain("부산은 성장 중입니다.");
+  });
+
+  it("없는 프리셋은 스트림을 열지 않고 400", async () => {
+    const response = await POST(
+      new Request("http://localhost/api/insight/stream", {
+        method: "POST",
+        body: JSON.stringify({ agency: "DM신", benchmark: "overall", presetId: "missing" })
+      })
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
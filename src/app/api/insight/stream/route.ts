@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { generateCachedInsightMessages } from "@/features/insight/generate";
+import { getInsightPreset } from "@/features/insight/presets";
+import { sseResponse } from "@/lib/sse";
+
+export const runtime = "nodejs";
+
+const requestSchema = z.object({
+  agency: z.string().min(1),
+  benchmark: z.enum(["overall", "club1000"]),
+  presetId: z.string().min(1),
+  analysisSnapshot: z.record(z.string(), z.unknown()).optional(),
+  regenerate: z.boolean().optional()
+});
+
+/** `/api/insight`의 스트리밍 버전. 생성 중인 문장을 `delta`로, 최종 결과를 `result` 이벤트로 보낸다. */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const parsed = requestSchema.parse(body);
+    const preset = getInsightPreset(parsed.presetId);
+    if (!preset) {
+      return NextResponse.json({ error: "유효하지 않은 presetId 입니다." }, { status: 400 });
+    }
+
+    return sseResponse(async (send, signal) => {
+      const { messages, rejected, presetVersion, cached } = await generateCachedInsightMessages(
+        {
+          agency: parsed.agency,
+          benchmark: parsed.benchmark,
+          preset,
+          analysisSnapshot: parsed.analysisSnapshot,
+          signal
+        },
+        parsed.regenerate ?? false,
+        (partial) =>
+          send("delta", {
+            presetId: preset.id,
+            messages: partial.map((content) => ({ role: "assistant" as const, content, presetVersion: preset.version }))
+          })
+      );
+
+      send("result", {
+        presetId: preset.id,
+        presetVersion,
+        cached,
+        messages: messages.map((content) => ({ role: "assistant" as const, content, presetVersion })),
+        rejected
+      });
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "인사이트 생성 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { calculateLeaderboard } from "@/features/metrics/calculate";
+import { analysisPeriodSchema } from "@/features/metrics/period";
+import { getDatasetRepository } from "@/lib/datasets/repository";
+
+export const runtime = "nodejs";
+
+const requestSchema = z.object({
+  sessionId: z.string().min(1),
+  scope: z.enum(["overall", "club1000"]).default("overall"),
+  period: analysisPeriodSchema.optional()
+});
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const parsed = requestSchema.parse(body);
+
+    const stored = await getDatasetRepository().get(parsed.sessionId);
+    if (!stored) {
+      return NextResponse.json({ error: "데이터셋을 찾을 수 없습니다. 기본 데이터를 다시 불러와주세요." }, { status: 404 });
+    }
+
+    const leaderboard = calculateLeaderboard(stored.dataset, parsed.scope, parsed.period);
+    return NextResponse.json({ leaderboard });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "순위 요청 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
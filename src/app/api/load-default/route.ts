@@ -2,29 +2,36 @@ import { promises as fs } from "node:fs";
 import path from "node:path";
 import { NextResponse } from "next/server";
 
-import { validateCsvRows } from "@/features/preprocessing/csv-schema";
-import { buildAnalysisDataset, prepareCustomers, prepareOrders, prepareProducts } from "@/features/preprocessing/merge";
-import { parseCsvBuffer, type ParseCsvBufferOptions } from "@/lib/csv/parse";
-import { createSession } from "@/lib/session-store";
+import { scoreHeaderMatch, validateCsvRows } from "@/features/preprocessing/csv-schema";
+import {
+  buildAnalysisDataset,
+  prepareCustomers,
+  prepareOrders,
+  prepareProducts,
+  type ParseIssueCounts
+} from "@/features/preprocessing/merge";
+import { buildDataQualityReport, describeSource } from "@/features/preprocessing/quality";
+import { parseTableBuffer, type ParseCsvBufferOptions } from "@/lib/csv/parse";
+import type { DataQualityReport } from "@/types/domain";
+import { readAgencyRegistry } from "@/lib/agency-registry";
+import { getDatasetRepository } from "@/lib/datasets/repository";
 
 export const runtime = "nodejs";
 
 type CsvSource = "orders" | "customers" | "products";
 
+const DATA_FILE_EXTENSIONS = [".csv", ".xlsx"];
+
 interface DefaultDataCache {
   signature: string;
+  datasetId: string;
   dataset: ReturnType<typeof buildAnalysisDataset>;
-  agencies: string[];
-  counts: {
-    orders: number;
-    customers: number;
-    products: number;
-  };
   defaultFiles: {
     orders: string;
     customers: string;
     products: string;
   };
+  quality: DataQualityReport;
 }
 
 const DEFAULT_PARSE_HINTS: Record<CsvSource, ParseCsvBufferOptions> = {
@@ -54,7 +61,7 @@ function normalizeName(name: string): string {
     .replace(/[_\-]/g, "");
 }
 
-function findCsvFile(files: string[], keywords: string[]): string | null {
+function findDataFile(files: string[], keywords: string[]): string | null {
   for (const file of files) {
     const normalized = normalizeName(file);
     if (keywords.some((keyword) => normalized.includes(normalizeName(keyword)))) {
@@ -71,16 +78,21 @@ function toArrayBuffer(buf: Buffer): ArrayBuffer {
 function parseValidatedRows(buffer: Buffer, source: CsvSource) {
   const parseHint = DEFAULT_PARSE_HINTS[source];
   const arrayBuffer = toArrayBuffer(buffer);
+  const scoreHeaders = (headers: string[]) => scoreHeaderMatch(headers, source);
 
   try {
-    const hintedRows = parseCsvBuffer(arrayBuffer, { ...parseHint, exhaustive: false });
-    return validateCsvRows(hintedRows, source);
+    const hintedTable = parseTableBuffer(arrayBuffer, { ...parseHint, exhaustive: false, scoreHeaders });
+    return { table: hintedTable, rows: validateCsvRows(hintedTable.rows, source) };
   } catch {
-    const fallbackRows = parseCsvBuffer(arrayBuffer);
-    return validateCsvRows(fallbackRows, source);
+    const fallbackTable = parseTableBuffer(arrayBuffer, { scoreHeaders });
+    return { table: fallbackTable, rows: validateCsvRows(fallbackTable.rows, source) };
   }
 }
 
+function defaultDatasetName(files: DefaultDataCache["defaultFiles"]): string {
+  return `기본 데이터 (${files.orders})`;
+}
+
 function buildSignature(fileStats: Array<{ name: string; size: number; mtimeMs: number }>): string {
   return fileStats.map((file) => `${file.name}:${file.size}:${Math.floor(file.mtimeMs)}`).join("|");
 }
@@ -89,19 +101,19 @@ export async function POST() {
   try {
     const docsDir = path.join(process.cwd(), "docs");
     const entries = await fs.readdir(docsDir, { withFileTypes: true });
-    const csvFiles = entries
-      .filter((entry) => entry.isFile() && entry.name.toLowerCase().endsWith(".csv"))
+    const dataFiles = entries
+      .filter((entry) => entry.isFile() && DATA_FILE_EXTENSIONS.some((extension) => entry.name.toLowerCase().endsWith(extension)))
       .map((entry) => entry.name);
 
-    const ordersFile = findCsvFile(csvFiles, ["매출_수주", "매출수주", "orders", "order"]);
-    const customersFile = findCsvFile(csvFiles, ["고객 마스터", "고객마스터", "customers", "customer"]);
-    const productsFile = findCsvFile(csvFiles, ["제품 판매", "제품판매", "products", "product"]);
+    const ordersFile = findDataFile(dataFiles, ["매출_수주", "매출수주", "orders", "order"]);
+    const customersFile = findDataFile(dataFiles, ["고객 마스터", "고객마스터", "customers", "customer"]);
+    const productsFile = findDataFile(dataFiles, ["제품 판매", "제품판매", "products", "product"]);
 
     if (!ordersFile || !customersFile || !productsFile) {
       return NextResponse.json(
         {
-          error: "docs 폴더에서 기본 CSV 3개를 찾지 못했습니다.",
-          files: csvFiles,
+          error: "docs 폴더에서 기본 데이터 파일(CSV/XLSX) 3개를 찾지 못했습니다.",
+          files: dataFiles,
           expected: {
             orders: "매출_수주 데이터.csv",
             customers: "고객 마스터 데이터.csv",
@@ -126,15 +138,26 @@ export async function POST() {
       { name: ordersFile, size: ordersStat.size, mtimeMs: ordersStat.mtimeMs },
       { name: customersFile, size: customersStat.size, mtimeMs: customersStat.mtimeMs },
       { name: productsFile, size: productsStat.size, mtimeMs: productsStat.mtimeMs }
-    ]);
+    ]) + `|registry:${readAgencyRegistry().version}`;
+
+    const repository = getDatasetRepository();
 
     if (defaultDataCache && defaultDataCache.signature === signature) {
-      const sessionId = createSession(defaultDataCache.dataset);
+      const cached = defaultDataCache;
+      // 같은 파일이면 저장된 데이터셋을 재사용하고, 저장소에서 만료된 경우에만 다시 저장한다.
+      const stored = await repository.get(cached.datasetId);
+      const meta =
+        stored?.meta ??
+        (await repository.save(cached.dataset, { name: defaultDatasetName(cached.defaultFiles), owner: null, source: "default", quality: cached.quality }));
+      cached.datasetId = meta.id;
+
       return NextResponse.json({
-        sessionId,
-        agencies: defaultDataCache.agencies,
-        counts: defaultDataCache.counts,
-        defaultFiles: defaultDataCache.defaultFiles
+        sessionId: meta.id,
+        dataset: meta,
+        agencies: meta.agencies,
+        counts: meta.counts,
+        defaultFiles: cached.defaultFiles,
+        quality: cached.quality
       });
     }
 
@@ -144,42 +167,52 @@ export async function POST() {
       fs.readFile(productsPath)
     ]);
 
-    const orderRows = parseValidatedRows(ordersBuffer, "orders");
-    const customerRows = parseValidatedRows(customersBuffer, "customers");
-    const productRows = parseValidatedRows(productsBuffer, "products");
+    const orderSource = parseValidatedRows(ordersBuffer, "orders");
+    const customerSource = parseValidatedRows(customersBuffer, "customers");
+    const productSource = parseValidatedRows(productsBuffer, "products");
 
-    const orders = prepareOrders(orderRows);
-    const customers = prepareCustomers(customerRows, orders);
-    const products = prepareProducts(productRows);
+    const parseIssues: ParseIssueCounts = {};
+    const orders = prepareOrders(orderSource.rows, parseIssues);
+    const customers = prepareCustomers(customerSource.rows, orders, parseIssues);
+    const products = prepareProducts(productSource.rows, parseIssues);
 
     const dataset = buildAnalysisDataset(orders, customers, products);
-    const sessionId = createSession(dataset);
+    const quality = buildDataQualityReport({
+      sources: [
+        describeSource("orders", orderSource.table, orderSource.rows),
+        describeSource("customers", customerSource.table, customerSource.rows),
+        describeSource("products", productSource.table, productSource.rows)
+      ],
+      orders,
+      customerRowCount: customerSource.rows.length,
+      customers,
+      products,
+      dataset,
+      parseIssues
+    });
 
-    const agencies = Array.from(new Set(dataset.orders.map((order) => order.agency))).sort((a, b) => a.localeCompare(b, "ko-KR"));
-    const counts = {
-      orders: dataset.orders.length,
-      customers: dataset.customers.length,
-      products: dataset.products.length
-    };
     const defaultFiles = {
       orders: ordersFile,
       customers: customersFile,
       products: productsFile
     };
+    const meta = await repository.save(dataset, { name: defaultDatasetName(defaultFiles), owner: null, source: "default", quality });
 
     defaultDataCache = {
       signature,
+      datasetId: meta.id,
       dataset,
-      agencies,
-      counts,
-      defaultFiles
+      defaultFiles,
+      quality
     };
 
     return NextResponse.json({
-      sessionId,
-      agencies,
-      counts,
-      defaultFiles
+      sessionId: meta.id,
+      dataset: meta,
+      agencies: meta.agencies,
+      counts: meta.counts,
+      defaultFiles,
+      quality
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "알 수 없는 오류";
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { callListFileName, renderCallListCsv } from "@/features/export/call-list";
+import { filterDatasetByPeriod } from "@/features/metrics/calculate";
+import { analysisPeriodSchema } from "@/features/metrics/period";
+import { buildCustomerRecommendations } from "@/features/metrics/recommend";
+import { getDatasetRepository } from "@/lib/datasets/repository";
+
+export const runtime = "nodejs";
+
+const requestSchema = z.object({
+  sessionId: z.string().min(1),
+  agency: z.string().min(1),
+  period: analysisPeriodSchema.optional(),
+  format: z.enum(["json", "csv"]).default("json")
+});
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+    const parsed = requestSchema.parse(body);
+
+    const stored = await getDatasetRepository().get(parsed.sessionId);
+    if (!stored) {
+      return NextResponse.json({ error: "데이터셋을 찾을 수 없습니다. 기본 데이터를 다시 불러와주세요." }, { status: 404 });
+    }
+
+    const { dataset } = filterDatasetByPeriod(stored.dataset, parsed.period);
+    const customers = buildCustomerRecommendations(dataset, parsed.agency);
+    if (parsed.format === "json") {
+      return NextResponse.json({ customers });
+    }
+
+    const fileName = callListFileName(parsed.agency);
+    return new NextResponse(renderCallListCsv(customers), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="call-list.csv"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        "Cache-Control": "no-store"
+      }
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "추천 콜 리스트 요청 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { adminAuthError } from "@/lib/admin-auth";
+import { deleteSalesTarget, readSalesTargets, upsertSalesTargets } from "@/lib/sales-targets";
+
+export const runtime = "nodejs";
+
+const upsertSchema = z.object({
+  targets: z
+    .array(
+      z.object({
+        agency: z.string().min(1),
+        category: z.string().nullable().optional(),
+        period: z.string().min(4),
+        amount: z.number()
+      })
+    )
+    .min(1)
+});
+
+const deleteSchema = z.object({
+  id: z.string().min(1)
+});
+
+export async function GET(request: Request) {
+  try {
+    const agency = new URL(request.url).searchParams.get("agency");
+    const catalog = readSalesTargets();
+    return NextResponse.json({
+      catalog: agency ? { ...catalog, targets: catalog.targets.filter((target) => target.agency === agency) } : catalog
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "매출 목표 조회 오류";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const authError = adminAuthError(request);
+  if (authError) {
+    return NextResponse.json({ error: authError }, { status: 401 });
+  }
+
+  try {
+    const parsed = upsertSchema.parse(await request.json());
+    const targets = upsertSalesTargets(parsed.targets);
+    return NextResponse.json({ targets });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "매출 목표 등록 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const authError = adminAuthError(request);
+  if (authError) {
+    return NextResponse.json({ error: authError }, { status: 401 });
+  }
+
+  try {
+    const parsed = deleteSchema.parse(await request.json());
+    const target = deleteSalesTarget(parsed.id);
+    return NextResponse.json({ target });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "매출 목표 삭제 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+
+import { adminAuthError } from "@/lib/admin-auth";
+import { parseTableFile } from "@/lib/csv/parse";
+import { upsertSalesTargets } from "@/lib/sales-targets";
+import { scoreHeaderMatch, validateCsvRows } from "@/features/preprocessing/csv-schema";
+import { prepareSalesTargets } from "@/features/preprocessing/targets";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  const authError = adminAuthError(request);
+  if (authError) {
+    return NextResponse.json({ error: authError }, { status: 401 });
+  }
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get("targets") as File | null;
+    if (!file) {
+      return NextResponse.json({ error: "목표 CSV/XLSX 파일을 업로드해주세요." }, { status: 400 });
+    }
+
+    const sheetName = formData.get("targetsSheet");
+    const table = await parseTableFile(file, {
+      sheetName: typeof sheetName === "string" && sheetName.trim() ? sheetName.trim() : undefined,
+      scoreHeaders: (headers) => scoreHeaderMatch(headers, "targets")
+    });
+    const targets = upsertSalesTargets(prepareSalesTargets(validateCsvRows(table.rows, "targets")));
+
+    return NextResponse.json({ targets });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "목표 파일 처리 오류";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
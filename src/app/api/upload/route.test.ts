@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+
+import { POST } from "@/app/api/upload/route";
+
+// 압축 해제 크기를 2GB로 선언한 항목 하나짜리 XLSX. 파서가 해제 전에 거절해야 한다.
+function oversizedXlsx(): Blob {
+  const name = Buffer.from("xl/workbook.xml");
+  const data = Buffer.from("<workbook/>");
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(data.length, 22);
+  local.writeUInt16LE(name.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(2 ** 31, 24);
+  central.writeUInt16LE(name.length, 28);
+
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(1, 8);
+  eocd.writeUInt16LE(1, 10);
+  eocd.writeUInt32LE(central.length + name.length, 12);
+  eocd.writeUInt32LE(local.length + name.length + data.length, 16);
+
+  return new Blob([local, name, data, central, name, eocd]);
+}
+
+describe("POST /api/upload", () => {
+  it("압축을 풀면 상한을 넘는 XLSX는 400으로 거절한다", async () => {
+    const formData = new FormData();
+    formData.append("orders", oversizedXlsx(), "orders.xlsx");
+    formData.append("customers", new Blob(["사업자등록번호,실적대리점\n1,DM신"]), "customers.csv");
+    formData.append("products", new Blob(["수주번호,중분류\nSO-1,책상"]), "products.csv");
+
+    const response = await POST(new Request("http://localhost/api/upload", { method: "POST", body: formData }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/100MB를 넘는/);
+  });
+
+  it("파일이 빠지면 400을 돌려준다", async () => {
+    const response = await POST(new Request("http://localhost/api/upload", { method: "POST", body: new FormData() }));
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -1,12 +1,39 @@
 import { NextResponse } from "next/server";
 
-import { parseCsvFile } from "@/lib/csv/parse";
-import { validateCsvRows } from "@/features/preprocessing/csv-schema";
-import { buildAnalysisDataset, prepareCustomers, prepareOrders, prepareProducts } from "@/features/preprocessing/merge";
-import { createSession } from "@/lib/session-store";
+import { parseTableFile, type ParsedTable } from "@/lib/csv/parse";
+import { scoreHeaderMatch, validateCsvRows, type CsvSource } from "@/features/preprocessing/csv-schema";
+import {
+  buildAnalysisDataset,
+  prepareCustomers,
+  prepareOrders,
+  prepareProducts,
+  type ParseIssueCounts
+} from "@/features/preprocessing/merge";
+import { buildDataQualityReport, describeSource } from "@/features/preprocessing/quality";
+import { getDatasetRepository } from "@/lib/datasets/repository";
 
 export const runtime = "nodejs";
 
+function readTextField(formData: FormData, key: string): string | null {
+  const value = formData.get(key);
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function readSheetName(formData: FormData, source: CsvSource): string | undefined {
+  return readTextField(formData, `${source}Sheet`) ?? undefined;
+}
+
+function parseSourceFile(file: File, source: CsvSource, sheetName: string | undefined): Promise<ParsedTable> {
+  return parseTableFile(file, {
+    sheetName,
+    scoreHeaders: (headers) => scoreHeaderMatch(headers, source)
+  });
+}
+
+function sheetSummary(table: ParsedTable) {
+  return table.format === "xlsx" ? { sheetName: table.sheetName, sheetNames: table.sheetNames ?? [] } : null;
+}
+
 export async function POST(request: Request) {
   try {
     const formData = await request.formData();
@@ -16,36 +43,65 @@ export async function POST(request: Request) {
     const productsFile = formData.get("products") as File | null;
 
     if (!ordersFile || !customersFile || !productsFile) {
-      return NextResponse.json({ error: "CSV 파일 3개를 모두 업로드해주세요." }, { status: 400 });
+      return NextResponse.json({ error: "CSV/XLSX 파일 3개를 모두 업로드해주세요." }, { status: 400 });
     }
 
-    const [orderRowsRaw, customerRowsRaw, productRowsRaw] = await Promise.all([
-      parseCsvFile(ordersFile),
-      parseCsvFile(customersFile),
-      parseCsvFile(productsFile)
-    ]);
+    let tables: ParsedTable[];
+    try {
+      tables = await Promise.all([
+        parseSourceFile(ordersFile, "orders", readSheetName(formData, "orders")),
+        parseSourceFile(customersFile, "customers", readSheetName(formData, "customers")),
+        parseSourceFile(productsFile, "products", readSheetName(formData, "products"))
+      ]);
+    } catch (error) {
+      // 파일 형식·크기 문제는 업로드한 파일 쪽 오류다.
+      const message = error instanceof Error ? error.message : "파일을 읽을 수 없습니다.";
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+    const [orderTable, customerTable, productTable] = tables;
 
-    const orderRows = validateCsvRows(orderRowsRaw, "orders");
-    const customerRows = validateCsvRows(customerRowsRaw, "customers");
-    const productRows = validateCsvRows(productRowsRaw, "products");
+    const orderRows = validateCsvRows(orderTable.rows, "orders");
+    const customerRows = validateCsvRows(customerTable.rows, "customers");
+    const productRows = validateCsvRows(productTable.rows, "products");
 
-    const orders = prepareOrders(orderRows);
-    const customers = prepareCustomers(customerRows, orders);
-    const products = prepareProducts(productRows);
+    const parseIssues: ParseIssueCounts = {};
+    const orders = prepareOrders(orderRows, parseIssues);
+    const customers = prepareCustomers(customerRows, orders, parseIssues);
+    const products = prepareProducts(productRows, parseIssues);
 
     const dataset = buildAnalysisDataset(orders, customers, products);
-    const sessionId = createSession(dataset);
+    const quality = buildDataQualityReport({
+      sources: [
+        describeSource("orders", orderTable, orderRows),
+        describeSource("customers", customerTable, customerRows),
+        describeSource("products", productTable, productRows)
+      ],
+      orders,
+      customerRowCount: customerRows.length,
+      customers,
+      products,
+      dataset,
+      parseIssues
+    });
 
-    const agencies = Array.from(new Set(dataset.orders.map((order) => order.agency))).sort((a, b) => a.localeCompare(b, "ko-KR"));
+    const meta = await getDatasetRepository().save(dataset, {
+      name: readTextField(formData, "name") ?? ordersFile.name,
+      owner: readTextField(formData, "owner"),
+      source: "upload",
+      quality
+    });
 
     return NextResponse.json({
-      sessionId,
-      agencies,
-      counts: {
-        orders: dataset.orders.length,
-        customers: dataset.customers.length,
-        products: dataset.products.length
-      }
+      sessionId: meta.id,
+      dataset: meta,
+      agencies: meta.agencies,
+      counts: meta.counts,
+      sheets: {
+        orders: sheetSummary(orderTable),
+        customers: sheetSummary(customerTable),
+        products: sheetSummary(productTable)
+      },
+      quality
     });
   } catch (error) {
     const message = error instanceof Error ? error.message : "알 수 없는 오류";
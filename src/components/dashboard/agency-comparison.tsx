@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Loader2, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { AnalysisPeriod, AnalysisResult, BenchmarkMode, ComparisonMode } from "@/types/domain";
+
+interface AgencyComparisonProps {
+  sessionId: string | null;
+  agencies: string[];
+  primaryAgency: string;
+  benchmark: BenchmarkMode;
+  period: AnalysisPeriod;
+  comparisonMode: ComparisonMode;
+}
+
+const MAX_AGENCIES = 5;
+const AGENCY_COLORS = ["#0f766e", "#dc2626", "#2563eb", "#d97706", "#7c3aed"];
+
+function crossSellPercent(analysis: AnalysisResult): number {
+  const total = analysis.crossSellRatio.solo + analysis.crossSellRatio.crossSell;
+  return total > 0 ? (analysis.crossSellRatio.crossSell / total) * 100 : 0;
+}
+
+export function AgencyComparison({ sessionId, agencies, primaryAgency, benchmark, period, comparisonMode }: AgencyComparisonProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [analyses, setAnalyses] = useState<AnalysisResult[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const compared = useMemo(() => {
+    const list = primaryAgency ? [primaryAgency, ...selected.filter((agency) => agency !== primaryAgency)] : selected;
+    return list.slice(0, MAX_AGENCIES);
+  }, [primaryAgency, selected]);
+
+  useEffect(() => {
+    if (!sessionId || compared.length < 2) {
+      setAnalyses([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function run() {
+      try {
+        setBusy(true);
+        setError(null);
+        const response = await fetch("/api/analyze/compare", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ sessionId, agencies: compared, benchmark, period, comparison: comparisonMode })
+        });
+        const payload = (await response.json()) as { analyses?: AnalysisResult[]; error?: string };
+        if (!response.ok || !payload.analyses) {
+          throw new Error(payload.error || "비교 분석 실패");
+        }
+        if (!cancelled) {
+          setAnalyses(payload.analyses);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "비교 분석 오류");
+        }
+      } finally {
+        if (!cancelled) {
+          setBusy(false);
+        }
+      }
+    }
+
+    void run();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, compared, benchmark, period, comparisonMode]);
+
+  const monthlyRows = useMemo(() => {
+    const byMonth = new Map<string, Record<string, number | string>>();
+    for (const analysis of analyses) {
+      for (const row of analysis.monthlyNewProducts) {
+        const current = byMonth.get(row.month) ?? { month: row.month };
+        current[analysis.agency] = row.quantity;
+        byMonth.set(row.month, current);
+      }
+    }
+    return Array.from(byMonth.values()).sort((a, b) => String(a.month).localeCompare(String(b.month)));
+  }, [analyses]);
+
+  const addable = agencies.filter((agency) => !compared.includes(agency));
+
+  return (
+    <Card className="border-stone-200 bg-white shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-lg text-stone-900">대리점 비교</CardTitle>
+        <CardDescription>선택한 대리점을 기준으로 최대 {MAX_AGENCIES}개 대리점의 KPI, 월별 신제품 추이, 크로스셀, 핵심 지역을 나란히 비교합니다.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="flex flex-wrap items-center gap-2">
+          {compared.map((agency, index) => (
+            <span
+              key={agency}
+              className="inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs font-medium"
+              style={{ borderColor: AGENCY_COLORS[index], color: AGENCY_COLORS[index] }}
+            >
+              {agency}
+              {agency !== primaryAgency ? (
+                <button
+                  type="button"
+                  aria-label={`${agency} 제거`}
+                  onClick={() => setSelected((current) => current.filter((item) => item !== agency))}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              ) : null}
+            </span>
+          ))}
+          {compared.length < MAX_AGENCIES ? (
+            <Select value="" onValueChange={(value) => setSelected((current) => [...current, value])} disabled={!sessionId}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="비교 대리점 추가" />
+              </SelectTrigger>
+              <SelectContent>
+                {addable.map((agency) => (
+                  <SelectItem key={agency} value={agency}>
+                    {agency}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : null}
+          {selected.length > 0 ? (
+            <Button variant="ghost" size="sm" onClick={() => setSelected([])}>
+              초기화
+            </Button>
+          ) : null}
+          {busy ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" /> : null}
+        </div>
+
+        {error ? <p className="text-sm text-red-600">{error}</p> : null}
+
+        {analyses.length < 2 ? (
+          <p className="rounded-md bg-muted/40 px-4 py-8 text-center text-sm text-muted-foreground">비교할 대리점을 1개 이상 추가하면 비교 결과가 표시됩니다.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[640px] border-collapse text-sm">
+                <thead>
+                  <tr className="bg-stone-100 text-left">
+                    <th className="border-b px-3 py-2 font-semibold">KPI</th>
+                    {analyses.map((analysis, index) => (
+                      <th key={analysis.agency} className="border-b px-3 py-2 font-semibold" style={{ color: AGENCY_COLORS[index] }}>
+                        {analysis.agency}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {analyses[0].kpis.map((kpi) => (
+                    <tr key={kpi.id}>
+                      <td className="border-b px-3 py-2 text-muted-foreground">{kpi.label}</td>
+                      {analyses.map((analysis) => {
+                        const card = analysis.kpis.find((item) => item.id === kpi.id);
+                        return (
+                          <td key={analysis.agency} className="border-b px-3 py-2">
+                            <p className="font-semibold text-stone-900">{card?.value ?? "-"}</p>
+                            {card && card.priorDelta !== null ? (
+                              <p className={`text-xs ${card.priorTone === "up" ? "text-teal-700" : card.priorTone === "down" ? "text-orange-700" : "text-muted-foreground"}`}>
+                                이전 대비 {card.priorDelta.toFixed(1)}%
+                              </p>
+                            ) : null}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="border-b px-3 py-2 text-muted-foreground">동시구매 비중</td>
+                    {analyses.map((analysis, index) => (
+                      <td key={analysis.agency} className="border-b px-3 py-2">
+                        <div className="flex items-center gap-2">
+                          <div className="h-2 flex-1 rounded-full bg-muted">
+                            <div
+                              className="h-2 rounded-full"
+                              style={{ width: `${Math.min(crossSellPercent(analysis), 100)}%`, backgroundColor: AGENCY_COLORS[index] }}
+                            />
+                          </div>
+                          <span className="text-xs font-semibold">{crossSellPercent(analysis).toFixed(1)}%</span>
+                        </div>
+                        <p className="mt-1 text-xs text-muted-foreground">
+                          동시 {analysis.crossSellRatio.crossSell}건 · 단독 {analysis.crossSellRatio.solo}건
+                        </p>
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-muted-foreground">월별 신제품 판매 수량</p>
+              {monthlyRows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">표시할 데이터가 없습니다.</p>
+              ) : (
+                <div className="h-[320px] rounded-lg border p-2">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={monthlyRows} margin={{ top: 12, right: 16, bottom: 4, left: 4 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e7e5e4" />
+                      <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+                      <YAxis tick={{ fontSize: 11 }} />
+                      <Tooltip formatter={(value) => `${Number(value).toLocaleString("ko-KR")}개`} />
+                      <Legend />
+                      {analyses.map((analysis, index) => (
+                        <Line
+                          key={analysis.agency}
+                          type="monotone"
+                          dataKey={analysis.agency}
+                          stroke={AGENCY_COLORS[index]}
+                          strokeWidth={2}
+                          dot={false}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-muted-foreground">핵심비중 TOP 5 지역</p>
+              <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+                {analyses.map((analysis, index) => (
+                  <Card key={analysis.agency}>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-base" style={{ color: AGENCY_COLORS[index] }}>
+                        {analysis.agency}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      {analysis.regionMain.slice(0, 5).map((row) => (
+                        <div key={row.region} className="space-y-1">
+                          <div className="flex items-center justify-between text-xs">
+                            <span>{row.region}</span>
+                            <span>{row.sales.toLocaleString("ko-KR")}원</span>
+                          </div>
+                          <div className="h-2 rounded-full bg-muted">
+                            <div className="h-2 rounded-full" style={{ width: `${Math.min(row.share, 100)}%`, backgroundColor: AGENCY_COLORS[index] }} />
+                          </div>
+                        </div>
+                      ))}
+                      {!analysis.regionMain.length ? <p className="text-sm text-muted-foreground">표시할 데이터가 없습니다.</p> : null}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { AnalysisPeriod, BenchmarkMode, Leaderboard, LeaderboardMetric, LeaderboardRow } from "@/types/domain";
+
+interface AgencyLeaderboardProps {
+  sessionId: string | null;
+  period: AnalysisPeriod;
+  selectedAgency: string;
+  onSelectAgency: (agency: string) => void;
+}
+
+const COLUMNS: Array<{ metric: LeaderboardMetric; label: string; format: (value: number) => string }> = [
+  { metric: "sales", label: "총 매출", format: (value) => `${Math.round(value).toLocaleString("ko-KR")}원` },
+  { metric: "orderCount", label: "구매 횟수", format: (value) => `${value.toLocaleString("ko-KR")}건` },
+  { metric: "newProductRatio", label: "신제품 비중", format: (value) => `${value.toFixed(1)}%` },
+  { metric: "crossSellRatio", label: "동시구매 비중", format: (value) => `${value.toFixed(1)}%` },
+  { metric: "highPotentialCount", label: "성장 잠재 고객", format: (value) => `${value.toLocaleString("ko-KR")}명` },
+  { metric: "averageGrowthMultiplier", label: "평균 성장배수", format: (value) => `${value.toFixed(2)}배` }
+];
+
+function percentileBadge(topPercent: number): { label: string; className: string } | null {
+  if (topPercent <= 10) {
+    return { label: "상위 10%", className: "bg-teal-100 text-teal-800" };
+  }
+  if (topPercent <= 25) {
+    return { label: "상위 25%", className: "bg-sky-100 text-sky-800" };
+  }
+  if (topPercent > 75) {
+    return { label: "하위 25%", className: "bg-orange-100 text-orange-800" };
+  }
+  return null;
+}
+
+export function AgencyLeaderboard({ sessionId, period, selectedAgency, onSelectAgency }: AgencyLeaderboardProps) {
+  const [scope, setScope] = useState<BenchmarkMode>("overall");
+  const [sortMetric, setSortMetric] = useState<LeaderboardMetric>("sales");
+  const [sortAscending, setSortAscending] = useState(false);
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setLeaderboard(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function run() {
+      try {
+        setBusy(true);
+        setError(null);
+        const response = await fetch("/api/leaderboard", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ sessionId, scope, period })
+        });
+        const payload = (await response.json()) as { leaderboard?: Leaderboard; error?: string };
+        if (!response.ok || !payload.leaderboard) {
+          throw new Error(payload.error || "순위 계산 실패");
+        }
+        if (!cancelled) {
+          setLeaderboard(payload.leaderboard);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "순위 계산 오류");
+        }
+      } finally {
+        if (!cancelled) {
+          setBusy(false);
+        }
+      }
+    }
+
+    void run();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, scope, period]);
+
+  const rows = useMemo(() => {
+    const list: LeaderboardRow[] = [...(leaderboard?.rows ?? [])];
+    return list.sort((a, b) => {
+      const diff = a.values[sortMetric] - b.values[sortMetric];
+      return sortAscending ? diff : -diff;
+    });
+  }, [leaderboard, sortMetric, sortAscending]);
+
+  function toggleSort(metric: LeaderboardMetric) {
+    if (metric === sortMetric) {
+      setSortAscending((current) => !current);
+      return;
+    }
+    setSortMetric(metric);
+    setSortAscending(false);
+  }
+
+  return (
+    <Card className="border-stone-200 bg-white shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-lg text-stone-900">대리점 순위</CardTitle>
+        <CardDescription>열 제목을 누르면 해당 지표로 정렬됩니다. 배지는 선택한 범위 내 지표별 백분위입니다.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Select value={scope} onValueChange={(value) => setScope(value as BenchmarkMode)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="overall">전체 대리점</SelectItem>
+              <SelectItem value="club1000">Club 1000 회원</SelectItem>
+            </SelectContent>
+          </Select>
+          {busy ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" /> : null}
+          {leaderboard ? <p className="text-xs text-muted-foreground">{leaderboard.rows.length}개 대리점</p> : null}
+        </div>
+
+        {error ? <p className="text-sm text-red-600">{error}</p> : null}
+
+        {!rows.length ? (
+          <p className="rounded-md bg-muted/40 px-4 py-8 text-center text-sm text-muted-foreground">기본 데이터를 로드하면 대리점 순위가 표시됩니다.</p>
+        ) : (
+          <div className="max-h-[560px] overflow-auto rounded-lg border">
+            <table className="w-full min-w-[960px] border-collapse text-sm">
+              <thead className="sticky top-0 bg-stone-100">
+                <tr className="text-left">
+                  <th className="border-b px-3 py-2 font-semibold">대리점</th>
+                  {COLUMNS.map((column) => (
+                    <th key={column.metric} className="border-b px-3 py-2 font-semibold">
+                      <button type="button" className="inline-flex items-center gap-1" onClick={() => toggleSort(column.metric)}>
+                        {column.label}
+                        {sortMetric === column.metric ? (
+                          sortAscending ? (
+                            <ArrowUp className="h-3 w-3" />
+                          ) : (
+                            <ArrowDown className="h-3 w-3" />
+                          )
+                        ) : null}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="border-b px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.agency} className={row.agency === selectedAgency ? "bg-teal-50/60" : undefined}>
+                    <td className="border-b px-3 py-2">
+                      <p className="font-medium text-stone-900">{row.agency}</p>
+                      {row.isClub1000 ? <p className="text-xs text-muted-foreground">Club 1000</p> : null}
+                    </td>
+                    {COLUMNS.map((column) => {
+                      const badge = percentileBadge(row.topPercents[column.metric]);
+                      return (
+                        <td key={column.metric} className="border-b px-3 py-2">
+                          <p>{column.format(row.values[column.metric])}</p>
+                          <p className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                            {row.ranks[column.metric]}위
+                            {badge ? <span className={`rounded px-1.5 py-0.5 text-[10px] font-semibold ${badge.className}`}>{badge.label}</span> : null}
+                          </p>
+                        </td>
+                      );
+                    })}
+                    <td className="border-b px-3 py-2 text-right">
+                      <Button variant="ghost" size="sm" onClick={() => onSelectAgency(row.agency)} disabled={row.agency === selectedAgency}>
+                        분석 보기
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
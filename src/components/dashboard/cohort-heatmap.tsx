@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import type { CohortAnalysis } from "@/types/domain";
+
+interface CohortHeatmapProps {
+  cohorts: CohortAnalysis | null;
+  benchmarkLabel: string;
+}
+
+type CohortMetric = "retention" | "revenue";
+
+function formatManwon(value: number): string {
+  return `${Math.round(value / 10_000).toLocaleString("ko-KR")}만`;
+}
+
+function cellStyle(value: number, max: number) {
+  const alpha = max > 0 ? Math.min(value / max, 1) * 0.85 : 0;
+  return { backgroundColor: `rgba(15, 118, 110, ${alpha.toFixed(2)})`, color: alpha > 0.45 ? "#ffffff" : "#1c1917" };
+}
+
+export function CohortHeatmap({ cohorts, benchmarkLabel }: CohortHeatmapProps) {
+  const [metric, setMetric] = useState<CohortMetric>("retention");
+
+  if (!cohorts || cohorts.rows.length === 0) {
+    return (
+      <p className="rounded-md bg-muted/40 px-4 py-8 text-center text-sm text-muted-foreground">
+        분석 기간 안에 첫 주문이 있는 고객이 없어 코호트를 만들 수 없습니다.
+      </p>
+    );
+  }
+
+  const offsets = Array.from({ length: cohorts.maxOffset + 1 }, (_, offset) => offset);
+  const valueOf = (cell: { retention: number; revenuePerCustomer: number }) => (metric === "retention" ? cell.retention : cell.revenuePerCustomer);
+  const format = (value: number) => (metric === "retention" ? `${value.toFixed(0)}%` : formatManwon(value));
+  // 0개월 차 재구매율은 항상 100%라 색 범위에서 제외한다.
+  const max = Math.max(
+    ...cohorts.rows.flatMap((row) => row.cells.filter((cell) => metric === "revenue" || cell.offset > 0).map(valueOf)),
+    ...cohorts.average
+      .filter((point) => metric === "revenue" || point.offset > 0)
+      .map((point) => (metric === "retention" ? point.benchmarkRetention ?? 0 : point.benchmarkRevenuePerCustomer ?? 0)),
+    0
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button variant={metric === "retention" ? "secondary" : "ghost"} size="sm" onClick={() => setMetric("retention")}>
+          재구매율
+        </Button>
+        <Button variant={metric === "revenue" ? "secondary" : "ghost"} size="sm" onClick={() => setMetric("revenue")}>
+          고객당 누적 매출
+        </Button>
+      </div>
+
+      <div className="overflow-auto rounded-lg border">
+        <table className="w-full min-w-[880px] border-collapse text-xs">
+          <thead className="bg-stone-100">
+            <tr>
+              <th className="border-b px-2 py-2 text-left font-semibold">첫 주문월</th>
+              <th className="border-b px-2 py-2 text-left font-semibold">고객 수</th>
+              {offsets.map((offset) => (
+                <th key={offset} className="border-b px-2 py-2 font-semibold">
+                  {offset}개월
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {cohorts.rows.map((row) => (
+              <tr key={row.cohort}>
+                <td className="border-b px-2 py-1.5 font-medium text-stone-900">{row.cohort}</td>
+                <td className="border-b px-2 py-1.5 text-muted-foreground">
+                  {row.customerCount.toLocaleString("ko-KR")}명
+                  <span className="block text-[10px]">비교 {row.benchmarkCustomerCount.toLocaleString("ko-KR")}명</span>
+                </td>
+                {offsets.map((offset) => {
+                  const cell = row.cells[offset];
+                  if (!cell) {
+                    return <td key={offset} className="border-b bg-stone-50" />;
+                  }
+                  const benchmark = metric === "retention" ? cell.benchmarkRetention : cell.benchmarkRevenuePerCustomer;
+                  return (
+                    <td
+                      key={offset}
+                      className="border-b px-2 py-1.5 text-center"
+                      style={cellStyle(valueOf(cell), max)}
+                      title={`${row.cohort} ${offset}개월 차 · ${benchmarkLabel} ${benchmark === null ? "-" : format(benchmark)} · 주문 고객 ${cell.activeCustomers}명`}
+                    >
+                      {format(valueOf(cell))}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            <tr className="font-semibold">
+              <td className="border-b px-2 py-1.5 text-stone-900" colSpan={2}>
+                가중 평균
+              </td>
+              {offsets.map((offset) => {
+                const point = cohorts.average[offset];
+                return point ? (
+                  <td key={offset} className="border-b px-2 py-1.5 text-center" style={cellStyle(valueOf(point), max)}>
+                    {format(valueOf(point))}
+                  </td>
+                ) : (
+                  <td key={offset} className="border-b bg-stone-50" />
+                );
+              })}
+            </tr>
+            <tr className="font-semibold">
+              <td className="px-2 py-1.5 text-stone-900" colSpan={2}>
+                {benchmarkLabel}
+              </td>
+              {offsets.map((offset) => {
+                const point = cohorts.average[offset];
+                const value = metric === "retention" ? point?.benchmarkRetention : point?.benchmarkRevenuePerCustomer;
+                return value === null || value === undefined ? (
+                  <td key={offset} className="bg-stone-50 px-2 py-1.5 text-center text-muted-foreground">
+                    -
+                  </td>
+                ) : (
+                  <td key={offset} className="px-2 py-1.5 text-center" style={cellStyle(value, max)}>
+                    {format(value)}
+                  </td>
+                );
+              })}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        재구매율은 해당 개월 차에 주문한 고객 비중, 고객당 누적 매출은 첫 주문월부터의 누적입니다. {benchmarkLabel}은 같은 첫 주문월의 비교 대리점{" "}
+        {cohorts.benchmarkAgencyCount}곳 고객을 합산한 값이며, 칸에 마우스를 올리면 코호트별 비교값이 보입니다.
+      </p>
+    </div>
+  );
+}
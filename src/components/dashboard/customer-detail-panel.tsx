@@ -0,0 +1,252 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Loader2, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { recommendationReasons } from "@/features/metrics/recommend";
+import type { AnalysisPeriod, CustomerDetail } from "@/types/domain";
+
+interface CustomerDetailPanelProps {
+  sessionId: string | null;
+  period: AnalysisPeriod;
+  agency: string;
+  bizNo: string;
+  onClose: () => void;
+}
+
+function formatWon(value: number): string {
+  return `${Math.round(value).toLocaleString("ko-KR")}원`;
+}
+
+export function CustomerDetailPanel({ sessionId, period, agency, bizNo, onClose }: CustomerDetailPanelProps) {
+  const [detail, setDetail] = useState<CustomerDetail | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  // 고객군 표처럼 패널과 떨어진 곳에서 열 수 있어 새 고객을 열면 패널이 보이도록 스크롤한다.
+  useEffect(() => {
+    cardRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [agency, bizNo]);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setDetail(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function run() {
+      try {
+        setBusy(true);
+        setError(null);
+        const response = await fetch("/api/customer", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ sessionId, agency, bizNo, period })
+        });
+        const payload = (await response.json()) as { customer?: CustomerDetail; error?: string };
+        if (!response.ok || !payload.customer) {
+          throw new Error(payload.error || "고객 상세 조회 실패");
+        }
+        if (!cancelled) {
+          setDetail(payload.customer);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setDetail(null);
+          setError(err instanceof Error ? err.message : "고객 상세 조회 오류");
+        }
+      } finally {
+        if (!cancelled) {
+          setBusy(false);
+        }
+      }
+    }
+
+    void run();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, agency, bizNo, period]);
+
+  const industry = [detail?.industryMajor, detail?.industryDetail].filter(Boolean).join(" > ");
+
+  return (
+    <div ref={cardRef}>
+      <Card className="border-stone-200 bg-white shadow-sm">
+        <CardHeader className="flex flex-row items-start justify-between gap-3">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2 text-base text-stone-900">
+              {detail?.customerName ?? bizNo}
+              {busy ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" /> : null}
+            </CardTitle>
+            <CardDescription>
+              {agency} · 사업자번호 {bizNo}
+              {detail ? ` · 업종 ${industry || "미상"} · ${detail.memberType || "회원유형 미상"}` : null}
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" className="gap-1" onClick={onClose}>
+            <X className="h-4 w-4" />
+            닫기
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          {error ? <p className="text-sm text-red-600">{error}</p> : null}
+
+          {detail ? (
+            <>
+              <div className="grid gap-3 sm:grid-cols-4">
+                {[
+                  { label: "최초주문금액", value: formatWon(detail.firstOrderAmount) },
+                  { label: "누적금액", value: formatWon(detail.cumulativeAmount) },
+                  { label: "구매횟수", value: `${detail.purchaseCount.toLocaleString("ko-KR")}회` },
+                  { label: "성장률", value: detail.growthMultiplier.toFixed(2) }
+                ].map((item) => (
+                  <div key={item.label} className="rounded-lg border bg-stone-50 px-3 py-2">
+                    <p className="text-xs text-muted-foreground">{item.label}</p>
+                    <p className="text-sm font-semibold text-stone-900">{item.value}</p>
+                  </div>
+                ))}
+              </div>
+              {detail.period.from || detail.period.to ? (
+                <p className="text-xs text-muted-foreground">
+                  분석 기간 {detail.period.from ?? "처음"} ~ {detail.period.to ?? "마지막"} 주문만 표시합니다. 최초주문금액은 고객 정보 기준입니다.
+                </p>
+              ) : null}
+
+              <div className="grid gap-4 lg:grid-cols-2">
+                <div className="space-y-2">
+                  <p className="text-xs font-semibold text-muted-foreground">월별 주문 추이</p>
+                  {detail.timeline.length === 0 ? (
+                    <p className="rounded-md bg-muted/40 px-4 py-8 text-center text-sm text-muted-foreground">주문일자가 있는 주문이 없습니다.</p>
+                  ) : (
+                    <div className="h-[240px] rounded-lg border p-3">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart data={detail.timeline} margin={{ top: 8, right: 8, bottom: 8, left: 24 }}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                          <XAxis dataKey="month" tick={{ fill: "#64748b", fontSize: 11 }} />
+                          <YAxis tick={{ fill: "#64748b", fontSize: 11 }} tickFormatter={(value: number) => `${Math.round(value / 10_000).toLocaleString("ko-KR")}만`} />
+                          <Tooltip
+                            formatter={(value) => formatWon(Number(value))}
+                            labelFormatter={(label) => {
+                              const point = detail.timeline.find((item) => item.month === label);
+                              return `${label} · ${point?.orderCount ?? 0}건`;
+                            }}
+                          />
+                          <Bar dataKey="amount" name="주문금액" fill="#0f766e" />
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-xs font-semibold text-muted-foreground">제품군(중분류) 구성</p>
+                  {detail.categoryMix.length === 0 ? (
+                    <p className="rounded-md bg-muted/40 px-4 py-8 text-center text-sm text-muted-foreground">연결된 제품 데이터가 없습니다.</p>
+                  ) : (
+                    <div className="max-h-[240px] space-y-2 overflow-auto rounded-lg border p-3">
+                      {detail.categoryMix.map((stat) => (
+                        <div key={stat.category} className="space-y-1 text-sm">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium text-stone-900">{stat.category}</span>
+                            <span className="text-xs text-muted-foreground">
+                              {stat.share.toFixed(1)}% · {formatWon(stat.salesAmount)} · {stat.quantity.toLocaleString("ko-KR")}개
+                            </span>
+                          </div>
+                          <div className="h-1.5 rounded bg-stone-100">
+                            <div className="h-1.5 rounded bg-teal-600" style={{ width: `${Math.min(stat.share, 100)}%` }} />
+                          </div>
+                          {stat.newProductSales > 0 ? <p className="text-xs text-teal-700">신제품 {formatWon(stat.newProductSales)}</p> : null}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-xs font-semibold text-muted-foreground">다음 제안 제품군</p>
+                {detail.recommendations.length === 0 ? (
+                  <p className="rounded-md bg-muted/40 px-4 py-6 text-center text-sm text-muted-foreground">
+                    비슷한 고객의 구매 패턴으로 추천할 만한 제품군이 없습니다.
+                  </p>
+                ) : (
+                  <div className="grid gap-3 md:grid-cols-3">
+                    {detail.recommendations.map((recommendation, index) => (
+                      <div key={recommendation.category} className="rounded-lg border border-teal-200 bg-teal-50/60 px-3 py-2">
+                        <div className="flex items-baseline justify-between gap-2">
+                          <p className="text-sm font-semibold text-teal-900">
+                            {index + 1}. {recommendation.category}
+                          </p>
+                          <span className="text-xs text-teal-800">점수 {recommendation.score.toFixed(1)}</span>
+                        </div>
+                        {recommendation.typicalSalesAmount > 0 ? (
+                          <p className="text-xs text-teal-800">비슷한 규모 고객 평균 구매 {formatWon(recommendation.typicalSalesAmount)}</p>
+                        ) : null}
+                        <ul className="mt-1 list-disc space-y-0.5 pl-4 text-xs text-stone-700">
+                          {recommendationReasons(recommendation).map((reason) => (
+                            <li key={reason}>{reason}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-xs font-semibold text-muted-foreground">주문 내역 ({detail.orders.length.toLocaleString("ko-KR")}건, 최근 순)</p>
+                <div className="max-h-[420px] overflow-auto rounded-lg border">
+                  <table className="w-full min-w-[720px] border-collapse text-sm">
+                    <thead className="sticky top-0 bg-stone-100">
+                      <tr className="text-left">
+                        <th className="border-b px-3 py-2 font-semibold">주문일자</th>
+                        <th className="border-b px-3 py-2 font-semibold">주문번호</th>
+                        <th className="border-b px-3 py-2 font-semibold">주문금액</th>
+                        <th className="border-b px-3 py-2 font-semibold">지역</th>
+                        <th className="border-b px-3 py-2 font-semibold">제품</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {detail.orders.map((order) => (
+                        <tr key={order.orderNo} className="align-top">
+                          <td className="border-b px-3 py-2 whitespace-nowrap">{order.orderDate ?? "-"}</td>
+                          <td className="border-b px-3 py-2">{order.orderNo}</td>
+                          <td className="border-b px-3 py-2 whitespace-nowrap">{formatWon(order.orderAmount)}</td>
+                          <td className="border-b px-3 py-2">{order.region}</td>
+                          <td className="border-b px-3 py-2">
+                            {order.lines.length === 0 ? (
+                              <span className="text-xs text-muted-foreground">제품 데이터 없음</span>
+                            ) : (
+                              <ul className="space-y-0.5 text-xs text-stone-700">
+                                {order.lines.map((line, index) => (
+                                  <li key={`${order.orderNo}-${index}`}>
+                                    {line.midCategory} · {line.quantity.toLocaleString("ko-KR")}개 · {formatWon(line.salesAmount)}
+                                    {line.isNewProduct ? (
+                                      <span className="ml-1 rounded bg-teal-100 px-1.5 py-0.5 text-[10px] font-semibold text-teal-800">신제품</span>
+                                    ) : null}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
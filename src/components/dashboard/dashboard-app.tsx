@@ -7,8 +7,30 @@ import { BarChart3, FileDown, Loader2 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import type { AnalysisResult, BenchmarkMode } from "@/types/domain";
+import { CohortHeatmap } from "@/components/dashboard/cohort-heatmap";
+import { MarketBasketRules } from "@/components/dashboard/market-basket-rules";
+import { MonthlyForecastChart } from "@/components/dashboard/monthly-forecast-chart";
+import { RfmSegmentMatrix } from "@/components/dashboard/rfm-segment-matrix";
+import { SectionChat } from "@/components/dashboard/section-chat";
+import { TargetTrackingPanel } from "@/components/dashboard/target-tracking-panel";
+import { atRiskCustomerLines, growthOverallInterpretation, growthSelectedInterpretation, targetPacingLines } from "@/features/insight/rules";
+import { readSseStream } from "@/lib/sse";
+import type {
+  AnalysisPeriod,
+  AnalysisResult,
+  BenchmarkMode,
+  CategoryMixStat,
+  ComparisonMode,
+  DataQualityReport,
+  DatasetMeta,
+  DataSource,
+  InsightMessage,
+  InsightMessageKind,
+  InsightPreset,
+  InsightSectionId
+} from "@/types/domain";
 
 interface UploadResponse {
   sessionId: string;
@@ -18,21 +40,61 @@ interface UploadResponse {
     customers: number;
     products: number;
   };
+  dataset?: DatasetMeta;
+  quality?: DataQualityReport;
+}
+
+const DATA_SOURCE_LABELS: Record<DataSource, string> = {
+  orders: "수주 데이터",
+  customers: "고객 데이터",
+  products: "제품 데이터"
+};
+
+const ALL_PERIOD: AnalysisPeriod = { from: null, to: null };
+
+const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  previousPeriod: "직전 기간",
+  yearOverYear: "전년 동기"
+};
+
+/** 데이터의 마지막 주문일 기준 빠른 기간 선택값 */
+function quickPeriods(availableTo: string | null): Array<{ label: string; period: AnalysisPeriod }> {
+  if (!availableTo) {
+    return [{ label: "전체 기간", period: ALL_PERIOD }];
+  }
+  const [year, month] = availableTo.split("-").map(Number);
+  const quarterStartMonth = Math.floor((month - 1) / 3) * 3 + 1;
+  const quarterEnd = new Date(Date.UTC(year, quarterStartMonth + 2, 0)).toISOString().slice(0, 10);
+
+  return [
+    { label: "전체 기간", period: ALL_PERIOD },
+    { label: `${year}년 누적`, period: { from: `${year}-01-01`, to: availableTo } },
+    {
+      label: `${year}년 ${Math.ceil(month / 3)}분기`,
+      period: { from: `${year}-${String(quarterStartMonth).padStart(2, "0")}-01`, to: quarterEnd }
+    }
+  ];
+}
+
+function delimiterLabel(delimiter: string | null) {
+  if (delimiter === null) {
+    return "-";
+  }
+  return delimiter === "\t" ? "탭" : delimiter;
 }
 
 interface AnalyzeResponse {
   analysis: AnalysisResult;
 }
 
-type InsightMessage = { role: "assistant" | "user"; content: string };
-
 interface InsightResponse {
   presetId?: string;
+  cached?: boolean;
   messages: InsightMessage[];
 }
 
-interface InsightBatchResponse {
-  results: InsightResponse[];
+interface InsightStreamEvent extends InsightResponse {
+  error?: string;
 }
 
 interface GrowthSegmentTopCustomer {
@@ -51,6 +113,7 @@ interface GrowthSegmentRow {
 
 interface GrowthSegmentResponse {
   rows: GrowthSegmentRow[];
+  cached?: boolean;
 }
 
 interface LoadDefaultResponse extends UploadResponse {
@@ -61,6 +124,63 @@ interface LoadDefaultResponse extends UploadResponse {
   };
 }
 
+const EXTRA_SNAPSHOT_ROWS = 24;
+
+/** 카탈로그에서 추가한 프리셋의 스냅샷 필드는 목록이 길 수 있어 앞부분만 보낸다 (객체 안의 목록 포함). */
+function trimSnapshotValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.slice(0, EXTRA_SNAPSHOT_ROWS);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, Array.isArray(item) ? item.slice(0, EXTRA_SNAPSHOT_ROWS) : item])
+    );
+  }
+  return value;
+}
+
+/** SSE 응답의 이벤트를 순서대로 넘긴다. 스트림 시작 전 검증 오류는 JSON 본문으로 온다. */
+async function postInsightStream(url: string, body: unknown, onEvent: (event: string, payload: InsightStreamEvent) => void) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok || !response.body) {
+    const payload = (await response.json().catch(() => ({}))) as { error?: string };
+    throw new Error(payload.error || "AI 생성 실패");
+  }
+
+  let streamError: string | null = null;
+  await readSseStream(response.body, ({ event, data }) => {
+    const payload = JSON.parse(data) as InsightStreamEvent;
+    if (event === "error") {
+      streamError = payload.error || "AI 생성 오류";
+      return;
+    }
+    onEvent(event, payload);
+  });
+
+  if (streamError) {
+    throw new Error(streamError);
+  }
+}
+
+let activePresetsRequest: Promise<InsightPreset[]> | null = null;
+
+/** 사용 중인 인사이트 프리셋. 카탈로그 응답보다 분석이 먼저 끝나도 같은 목록으로 배치를 만들도록 요청을 한 번만 보내 공유한다. */
+function loadActiveInsightPresets(): Promise<InsightPreset[]> {
+  activePresetsRequest ??= fetch("/api/insight/presets")
+    .then((response) => response.json() as Promise<{ catalog?: { presets: InsightPreset[] } }>)
+    .then((payload) => (payload.catalog?.presets ?? []).filter((preset) => !preset.retiredAt))
+    .catch(() => {
+      activePresetsRequest = null;
+      return [];
+    });
+  return activePresetsRequest;
+}
+
 const RegionSalesMap = dynamic(
   () => import("@/components/dashboard/region-sales-map").then((module) => module.RegionSalesMap),
   {
@@ -77,62 +197,77 @@ const GrowthCustomerScatter = dynamic(
   }
 );
 
+const AgencyComparison = dynamic(
+  () => import("@/components/dashboard/agency-comparison").then((module) => module.AgencyComparison),
+  {
+    ssr: false,
+    loading: () => <div className="flex h-[200px] items-center justify-center rounded-lg border bg-muted/40 text-sm text-muted-foreground">비교 화면 로딩 중...</div>
+  }
+);
+
+const CustomerDetailPanel = dynamic(
+  () => import("@/components/dashboard/customer-detail-panel").then((module) => module.CustomerDetailPanel),
+  {
+    ssr: false,
+    loading: () => <div className="flex h-[200px] items-center justify-center rounded-lg border bg-muted/40 text-sm text-muted-foreground">고객 상세 로딩 중...</div>
+  }
+);
+
+const AgencyLeaderboard = dynamic(
+  () => import("@/components/dashboard/agency-leaderboard").then((module) => module.AgencyLeaderboard),
+  {
+    ssr: false,
+    loading: () => <div className="flex h-[200px] items-center justify-center rounded-lg border bg-muted/40 text-sm text-muted-foreground">순위 로딩 중...</div>
+  }
+);
+
 export function DashboardApp() {
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [agencies, setAgencies] = useState<string[]>([]);
   const [selectedAgency, setSelectedAgency] = useState<string>("");
   const [benchmark, setBenchmark] = useState<BenchmarkMode>("overall");
+  const [period, setPeriod] = useState<AnalysisPeriod>(ALL_PERIOD);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>("previousPeriod");
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
   const [csvLoading, setCsvLoading] = useState(false);
   const [busy, setBusy] = useState(false);
-  const [aiBusy, setAiBusy] = useState(false);
+  const [pendingPresetIds, setPendingPresetIds] = useState<string[]>([]);
+  const [pdfBusy, setPdfBusy] = useState(false);
+  const [callListBusy, setCallListBusy] = useState(false);
   const [growthSegmentBusy, setGrowthSegmentBusy] = useState(false);
   const [growthSegmentRows, setGrowthSegmentRows] = useState<GrowthSegmentRow[]>([]);
+  const [aiCacheHit, setAiCacheHit] = useState(false);
+  const [catalogPresets, setCatalogPresets] = useState<InsightPreset[]>([]);
+  const [extraMessagesByPreset, setExtraMessagesByPreset] = useState<Record<string, InsightMessage[]>>({});
+  const [detailCustomer, setDetailCustomer] = useState<{ agency: string; bizNo: string } | null>(null);
   const [defaultDataLabel, setDefaultDataLabel] = useState<string | null>(null);
+  const [dataQuality, setDataQuality] = useState<DataQualityReport | null>(null);
+  const [savedDatasets, setSavedDatasets] = useState<DatasetMeta[]>([]);
   const [error, setError] = useState<string | null>(null);
+  // 목표를 저장하면 올려서 같은 조건의 분석도 다시 불러온다.
+  const [targetsRevision, setTargetsRevision] = useState(0);
   const analysisRequestKeyRef = useRef<string>("");
   const insightBatchKeyRef = useRef<string>("");
   const growthSegmentKeyRef = useRef<string>("");
   const hasAnalysis = Boolean(analysis);
-  type SectionId = "geo" | "region" | "regionCommon" | "growth" | "monthly" | "weakProduct" | "strongProduct";
-  type MessageKind = "interpretation" | "insight";
-  type InsightPresetId =
-    | "geo_interpretation"
-    | "geo_insight"
-    | "region_interpretation"
-    | "region_insight"
-    | "region_common_industry_insight"
-    | "growth_interpretation"
-    | "cross_sell_interpretation"
-    | "weak_products_interpretation"
-    | "strong_products_interpretation";
-  interface PresetBinding {
-    section: SectionId;
-    kind: MessageKind;
-    presetId: InsightPresetId;
-  }
-  const PRESET_BINDINGS: PresetBinding[] = [
-    { section: "geo", kind: "interpretation", presetId: "geo_interpretation" },
-    { section: "geo", kind: "insight", presetId: "geo_insight" },
-    { section: "region", kind: "interpretation", presetId: "region_interpretation" },
-    { section: "region", kind: "insight", presetId: "region_insight" },
-    { section: "regionCommon", kind: "insight", presetId: "region_common_industry_insight" },
-    { section: "monthly", kind: "interpretation", presetId: "cross_sell_interpretation" },
-    { section: "weakProduct", kind: "interpretation", presetId: "weak_products_interpretation" },
-    { section: "strongProduct", kind: "interpretation", presetId: "strong_products_interpretation" }
-  ];
-  const EMPTY_MESSAGES: Record<SectionId, InsightMessage[]> = {
+  const aiBusy = pendingPresetIds.length > 0;
+  // 섹션 자리(placement)가 없는 프리셋은 "추가 인사이트"에 표시한다.
+  const extraPresets = catalogPresets.filter((preset) => !preset.placement);
+  const EMPTY_MESSAGES: Record<InsightSectionId, InsightMessage[]> = {
     geo: [],
     region: [],
     regionCommon: [],
     growth: [],
+    retention: [],
+    targets: [],
     monthly: [],
     weakProduct: [],
     strongProduct: []
   };
   const [interpretationMessagesBySection, setInterpretationMessagesBySection] =
-    useState<Record<SectionId, InsightMessage[]>>({ ...EMPTY_MESSAGES });
-  const [insightMessagesBySection, setInsightMessagesBySection] = useState<Record<SectionId, InsightMessage[]>>({ ...EMPTY_MESSAGES });
+    useState<Record<InsightSectionId, InsightMessage[]>>({ ...EMPTY_MESSAGES });
+  const [insightMessagesBySection, setInsightMessagesBySection] = useState<Record<InsightSectionId, InsightMessage[]>>({ ...EMPTY_MESSAGES });
+  const [lockedLinesByPreset, setLockedLinesByPreset] = useState<Record<string, string[]>>({});
 
   const regionMainTop5 = useMemo(() => analysis?.regionMain.slice(0, 5) ?? [], [analysis]);
   const regionExpansionTop5 = useMemo(() => analysis?.regionExpansion.slice(0, 5) ?? [], [analysis]);
@@ -229,105 +364,38 @@ export function DashboardApp() {
 
   const growthScatter = analysis?.growthScatter;
   const growthScatterPoints = growthScatter?.points ?? [];
-  const selectedGrowthPoints = useMemo(
-    () => growthScatterPoints.filter((point) => point.isSelectedAgency),
-    [growthScatterPoints]
-  );
-  const otherGrowthPoints = useMemo(
-    () => growthScatterPoints.filter((point) => !point.isSelectedAgency),
-    [growthScatterPoints]
-  );
-
-  function quantile(values: number[], q: number): number {
-    if (values.length === 0) {
-      return 0;
-    }
-    const sorted = [...values].sort((a, b) => a - b);
-    const index = Math.max(0, Math.min(sorted.length - 1, Math.floor((sorted.length - 1) * q)));
-    return sorted[index];
-  }
-
-  const growthOverallInterpretationLines = useMemo(() => {
-    if (!growthScatter || otherGrowthPoints.length === 0) {
-      return [
-        "필터 조건(최초주문금액 100만원 이상, 구매횟수 2회 이상)에 해당하는 전체 고객 분포가 없습니다.",
-        "조건을 완화하거나 데이터 적재 상태를 확인해주세요."
-      ];
-    }
-
-    const avgX = growthScatter.averageGrowthMultiplier;
-    const avgY = growthScatter.averagePurchaseCount;
-    const lowerLeftCount = otherGrowthPoints.filter(
-      (point) => point.growthMultiplier <= avgX && point.purchaseCount <= avgY
-    ).length;
-    const lowerLeftRatio = lowerLeftCount / otherGrowthPoints.length;
-
-    const cumulativeAmounts = otherGrowthPoints.map((point) => point.cumulativeAmount);
-    const medianAmount = quantile(cumulativeAmounts, 0.5);
-    const largeAmountThreshold = quantile(cumulativeAmounts, 0.9);
-    const standoutRatio =
-      otherGrowthPoints.filter((point) => point.cumulativeAmount >= largeAmountThreshold).length / otherGrowthPoints.length;
-
-    const longTailThreshold = Math.max(avgX * 2, 10);
-    const longTailRatio =
-      otherGrowthPoints.filter((point) => point.growthMultiplier >= longTailThreshold).length / otherGrowthPoints.length;
-    const bubbleSpread = medianAmount > 0 ? largeAmountThreshold / medianAmount : 1;
-
-    return [
-      lowerLeftRatio >= 0.55
-        ? "회색 원은 평균선 좌하단에 비교적 밀집해 있어, 다수 고객이 초기 재구매 구간에서 관계가 형성되는 패턴입니다."
-        : "회색 원이 평균선 주변으로 퍼져 있어, 고객 성장 단계가 한 구간에만 몰리지 않고 분산된 구조입니다.",
-      bubbleSpread >= 3
-        ? "원 크기는 작은 버블이 넓게 깔린 상태에서 일부 대형 버블이 섞인 롱테일 형태로 보입니다."
-        : "원 크기가 중간 규모 중심으로 형성되어 특정 초대형 고객 의존도가 과도하게 높지는 않은 구조입니다.",
-      longTailRatio >= 0.1
-        ? "x축 분포가 우측으로 길게 늘어져, 일부 고객에서 초기 주문 대비 누적금액이 크게 확장된 흐름이 관찰됩니다."
-        : "x축 분포는 평균선 인근에 상대적으로 모여 있어 급격한 성장보다 안정적 확장 흐름이 중심입니다.",
-      standoutRatio >= 0.08
-        ? "대형 버블이 산발적으로 보여 소수 핵심 고객이 매출의 질을 끌어올리는 형태가 함께 나타납니다."
-        : "버블 크기 편차가 과도하지 않아 전반적으로 완만한 고객 포트폴리오로 해석할 수 있습니다."
-    ];
-  }, [growthScatter, otherGrowthPoints]);
-
-  const growthSelectedInterpretationLines = useMemo(() => {
-    if (!analysis || !growthScatter || selectedGrowthPoints.length === 0) {
-      return [
-        "선택된 대리점 고객(빨간 원)이 필터 조건에 맞지 않거나 데이터가 없습니다.",
-        "대리점을 변경하거나 필터 조건/원천 데이터를 확인해주세요."
-      ];
+  // 고객군 TOP5는 고객명만 담고 있어, 선택 대리점 고객 목록에서 사업자번호를 찾아 상세 보기에 연결한다.
+  const selectedCustomerByName = useMemo(() => {
+    const byName = new Map<string, { agency: string; bizNo: string }>();
+    for (const customer of [...(analysis?.growthScatter.points.filter((point) => point.isSelectedAgency) ?? []), ...(analysis?.growthCustomers ?? [])]) {
+      if (!byName.has(customer.customerName)) {
+        byName.set(customer.customerName, { agency: customer.agency, bizNo: customer.bizNo });
+      }
     }
+    return byName;
+  }, [analysis]);
+  const growthOverallInterpretationLines = useMemo(() => growthOverallInterpretation(growthScatter ?? null), [growthScatter]);
+  const growthSelectedInterpretationLines = useMemo(
+    () => growthSelectedInterpretation(analysis?.agency ?? "", growthScatter ?? null),
+    [analysis, growthScatter]
+  );
 
-    const selectedAvgX = growthScatter.selectedAverageGrowthMultiplier;
-    const selectedAvgY = growthScatter.selectedAveragePurchaseCount;
-    const nearMeanCount = selectedGrowthPoints.filter(
-      (point) =>
-        Math.abs(point.growthMultiplier - selectedAvgX) <= Math.max(selectedAvgX * 0.5, 1) &&
-        Math.abs(point.purchaseCount - selectedAvgY) <= Math.max(selectedAvgY * 0.5, 1)
-    ).length;
-    const nearMeanRatio = nearMeanCount / selectedGrowthPoints.length;
-
-    const extremeRatio =
-      selectedGrowthPoints.filter(
-      (point) => point.growthMultiplier >= selectedAvgX * 2 || point.purchaseCount >= selectedAvgY * 2
-      ).length / selectedGrowthPoints.length;
-    const aboveMeanRatio =
-      selectedGrowthPoints.filter(
-      (point) => point.growthMultiplier >= selectedAvgX && point.purchaseCount >= selectedAvgY
-      ).length / selectedGrowthPoints.length;
+  const atRiskCustomers = analysis?.atRiskCustomers ?? [];
+  const atRiskInterpretationLines = useMemo(
+    () =>
+      analysis
+        ? atRiskCustomerLines(analysis.agency, analysis.dormancy, analysis.atRiskCustomers)
+        : ["기본 데이터를 불러오면 평소 주문 간격보다 오래 주문이 없는 고객이 표시됩니다."],
+    [analysis]
+  );
 
-    return [
-      nearMeanRatio >= 0.5
-        ? `${analysis.agency}의 빨간 원은 평균선 부근에 주로 모여 있어 급격한 스파이크보다 안정적인 재구매형 포트폴리오 성격이 강합니다.`
-        : `${analysis.agency}의 빨간 원은 평균선 주변과 외곽이 함께 보여, 유지형과 성장형이 혼합된 분포를 보입니다.`,
-      aboveMeanRatio >= 0.25
-        ? "우상단으로 이동한 점들이 함께 보여 평균 구간을 넘어서는 성장 후보군이 분명히 존재합니다."
-        : "평균선을 동시에 넘는 점은 제한적이어서, 현재는 유지형 관리와 전환형 육성의 균형이 중요한 구간입니다.",
-      extremeRatio >= 0.15
-        ? "외곽 구간의 점도 일부 보여 특정 고객에서 확장 시그널이 강하게 나타나는 모습입니다."
-        : "극단 구간 점이 많지 않아 전체적으로 완만한 상승 흐름을 유지하는 패턴에 가깝습니다.",
-      "운영 관점에서는 평균선 인접 고객의 관계 유지와, 우상향 이동 고객의 추가 제안을 분리 운영하는 방식이 적합합니다."
-    ];
-  }, [analysis, growthScatter, selectedGrowthPoints]);
+  const targetPacingDefaultLines = useMemo(
+    () =>
+      analysis
+        ? targetPacingLines(analysis.agency, analysis.targets)
+        : ["기본 데이터를 불러오면 등록된 매출 목표 대비 달성률과 페이스가 표시됩니다."],
+    [analysis]
+  );
 
   const crossSellTotal = (analysis?.crossSellRatio.solo ?? 0) + (analysis?.crossSellRatio.crossSell ?? 0);
   const crossSellRatioPercent = crossSellTotal > 0 ? ((analysis?.crossSellRatio.crossSell ?? 0) / crossSellTotal) * 100 : 0;
@@ -340,10 +408,17 @@ export function DashboardApp() {
       ];
     }
 
-    return [
+    const lines = [
       `${analysis.agency}의 동시구매 비중은 ${crossSellRatioPercent.toFixed(1)}%입니다.`,
       `현재 동시구매 ${analysis.crossSellRatio.crossSell}건, 단독구매 ${analysis.crossSellRatio.solo}건으로 집계됩니다.`
     ];
+    const topRule = analysis.marketBasket.agencyRules[0];
+    if (topRule) {
+      lines.push(
+        `가장 강하게 함께 팔리는 조합은 ${topRule.antecedent.join(" + ")} → ${topRule.consequent}(신뢰도 ${topRule.confidence.toFixed(1)}%, 향상도 ${topRule.lift.toFixed(2)}배)입니다.`
+      );
+    }
+    return lines;
   }, [analysis, crossSellRatioPercent]);
 
   const growthSegmentByName = useMemo(() => {
@@ -355,52 +430,47 @@ export function DashboardApp() {
     };
   }, [growthSegmentRows]);
 
-  const weakProductsPlaceholder = [
-    "제품 데이터 연동 예정 (예: 모션데스크 라인)",
-    "제품 데이터 연동 예정 (예: 수납장 라인)",
-    "제품 데이터 연동 예정 (예: 파티션 라인)"
-  ];
+  const categoryMix = analysis?.categoryMix ?? null;
+  const categoryMixTop = useMemo(() => analysis?.categoryMix.all.slice(0, 8) ?? [], [analysis]);
 
-  const strongProductsPlaceholder = [
-    "제품 데이터 연동 예정 (예: 의자 라인)",
-    "제품 데이터 연동 예정 (예: 테이블 라인)",
-    "제품 데이터 연동 예정 (예: 액세서리 라인)"
-  ];
-
-  const productComparisonSampleRows = [
-    { product: "샘플 제품 A", mate: 46, club: 70 },
-    { product: "샘플 제품 B", mate: 58, club: 52 },
-    { product: "샘플 제품 C", mate: 34, club: 63 }
-  ];
+  function categoryMixLine(stat: CategoryMixStat): string {
+    const gap = `${stat.shareGap > 0 ? "+" : ""}${stat.shareGap.toFixed(1)}%p`;
+    return `${stat.category}: 비중 ${stat.agencyShare.toFixed(1)}% (Club 1000 평균 ${stat.clubShare.toFixed(1)}%, ${gap})`;
+  }
 
   function resetAiSections() {
     setInterpretationMessagesBySection({ ...EMPTY_MESSAGES });
     setInsightMessagesBySection({ ...EMPTY_MESSAGES });
+    setExtraMessagesByPreset({});
+    setLockedLinesByPreset({});
+    setAiCacheHit(false);
     setGrowthSegmentRows([]);
   }
 
-  function applyMessagesByPreset(presetId: string, messages: InsightMessage[]) {
-    const binding = PRESET_BINDINGS.find((item) => item.presetId === presetId);
-    if (!binding) {
+  function applyMessagesByPreset(preset: InsightPreset, messages: InsightMessage[]) {
+    const placement = preset.placement;
+    if (!placement) {
+      setExtraMessagesByPreset((prev) => ({ ...prev, [preset.id]: messages }));
       return;
     }
 
-    if (binding.kind === "interpretation") {
-      setInterpretationMessagesBySection((prev) => ({ ...prev, [binding.section]: messages }));
+    if (placement.kind === "interpretation") {
+      setInterpretationMessagesBySection((prev) => ({ ...prev, [placement.section]: messages }));
       return;
     }
 
-    setInsightMessagesBySection((prev) => ({ ...prev, [binding.section]: messages }));
+    setInsightMessagesBySection((prev) => ({ ...prev, [placement.section]: messages }));
   }
 
-  function buildAnalysisSnapshot(currentAnalysis: AnalysisResult, presetId: InsightPresetId): Record<string, unknown> {
+  function buildAnalysisSnapshot(currentAnalysis: AnalysisResult, preset: InsightPreset): Record<string, unknown> {
     const base = {
       agency: currentAnalysis.agency,
       benchmark: currentAnalysis.benchmark,
+      period: { from: currentAnalysis.period.from, to: currentAnalysis.period.to },
       kpis: currentAnalysis.kpis
     };
 
-    switch (presetId) {
+    switch (preset.id) {
       case "geo_interpretation":
       case "geo_insight":
         return {
@@ -432,92 +502,137 @@ export function DashboardApp() {
           growthScatter: currentAnalysis.growthScatter,
           growthTopCustomers: currentAnalysis.growthCustomers.slice(0, 10)
         };
+      case "retention_insight":
+        return {
+          ...base,
+          dormancy: currentAnalysis.dormancy,
+          atRiskCustomers: currentAnalysis.atRiskCustomers.slice(0, 10)
+        };
+      case "target_pacing_insight":
+        return {
+          ...base,
+          targets: currentAnalysis.targets
+        };
       case "cross_sell_interpretation":
         return {
           ...base,
-          crossSellRatio: currentAnalysis.crossSellRatio
+          crossSellRatio: currentAnalysis.crossSellRatio,
+          agencyBasketRules: currentAnalysis.marketBasket.agencyRules.slice(0, 5),
+          missingPairings: currentAnalysis.marketBasket.missingPairings
         };
       case "weak_products_interpretation":
+        return {
+          ...base,
+          clubAgencyCount: currentAnalysis.categoryMix.clubAgencyCount,
+          underIndexedCategories: currentAnalysis.categoryMix.underIndexed,
+          categoryMixTop10: currentAnalysis.categoryMix.all.slice(0, 10)
+        };
       case "strong_products_interpretation":
         return {
           ...base,
-          productComparisonSampleRows
+          clubAgencyCount: currentAnalysis.categoryMix.clubAgencyCount,
+          overIndexedCategories: currentAnalysis.categoryMix.overIndexed,
+          categoryMixTop10: currentAnalysis.categoryMix.all.slice(0, 10)
         };
-      default:
-        return base;
+      default: {
+        const picked = Object.fromEntries(
+          preset.snapshotKeys.map((key) => [key, trimSnapshotValue(currentAnalysis[key as keyof AnalysisResult])])
+        );
+        return { ...base, ...picked };
+      }
     }
   }
 
-  async function requestSinglePreset(binding: PresetBinding, currentAnalysis: AnalysisResult) {
-    setAiBusy(true);
+  function markPresetsPending(presetIds: string[]) {
+    setPendingPresetIds((prev) => [...prev.filter((id) => !presetIds.includes(id)), ...presetIds]);
+  }
+
+  function clearPresetPending(presetId: string) {
+    setPendingPresetIds((prev) => prev.filter((id) => id !== presetId));
+  }
+
+  async function requestSinglePreset(preset: InsightPreset, currentAnalysis: AnalysisResult) {
+    // 스트리밍 중에 데이터셋·대리점·기간이 바뀌면 이전 응답이 새 화면에 섞이지 않도록 버린다.
+    const requestKey = analysisRequestKeyRef.current;
+    markPresetsPending([preset.id]);
     try {
-      const response = await fetch("/api/insight", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
+      await postInsightStream(
+        "/api/insight/stream",
+        {
           agency: currentAnalysis.agency,
           benchmark: currentAnalysis.benchmark,
-          presetId: binding.presetId,
-          analysisSnapshot: buildAnalysisSnapshot(currentAnalysis, binding.presetId)
-        })
-      });
-
-      const payload = (await response.json()) as InsightResponse & { error?: string };
-      if (!response.ok || !payload.messages) {
-        throw new Error(payload.error || "AI 생성 실패");
-      }
-
-      applyMessagesByPreset(binding.presetId, payload.messages);
+          presetId: preset.id,
+          analysisSnapshot: buildAnalysisSnapshot(currentAnalysis, preset),
+          regenerate: true
+        },
+        (event, payload) => {
+          if (analysisRequestKeyRef.current !== requestKey) {
+            return;
+          }
+          if ((event === "delta" || event === "result") && payload.presetId === preset.id && payload.messages) {
+            applyMessagesByPreset(preset, payload.messages);
+          }
+        }
+      );
     } catch (err) {
-      setError(err instanceof Error ? err.message : "AI 생성 오류");
+      if (analysisRequestKeyRef.current === requestKey) {
+        setError(err instanceof Error ? err.message : "AI 생성 오류");
+      }
     } finally {
-      setAiBusy(false);
+      if (analysisRequestKeyRef.current === requestKey) {
+        clearPresetPending(preset.id);
+      }
     }
   }
 
-  async function requestBatchPresets(currentAnalysis: AnalysisResult, requestKey: string) {
-    setAiBusy(true);
+  async function requestBatchPresets(currentAnalysis: AnalysisResult, requestKey: string, regenerate = false) {
+    const presets = await loadActiveInsightPresets();
+    if (insightBatchKeyRef.current !== requestKey) {
+      return;
+    }
+    const presetIds = presets.map((preset) => preset.id);
+    markPresetsPending(presetIds);
+    let allCached = true;
     try {
-      const response = await fetch("/api/insight/batch", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          requests: PRESET_BINDINGS.map((binding) => ({
+      await postInsightStream(
+        "/api/insight/batch/stream",
+        {
+          requests: presets.map((preset) => ({
             agency: currentAnalysis.agency,
             benchmark: currentAnalysis.benchmark,
-            presetId: binding.presetId,
-            analysisSnapshot: buildAnalysisSnapshot(currentAnalysis, binding.presetId)
-          }))
-        })
-      });
-
-      const payload = (await response.json()) as InsightBatchResponse & { error?: string };
-      if (!response.ok || !payload.results) {
-        throw new Error(payload.error || "배치 AI 생성 실패");
-      }
-
-      if (insightBatchKeyRef.current !== requestKey) {
-        return;
-      }
-
-      payload.results.forEach((result) => {
-        if (!result.presetId || !result.messages) {
-          return;
+            presetId: preset.id,
+            analysisSnapshot: buildAnalysisSnapshot(currentAnalysis, preset)
+          })),
+          regenerate
+        },
+        (event, payload) => {
+          if (insightBatchKeyRef.current !== requestKey) {
+            return;
+          }
+          if (event === "result" && payload.presetId) {
+            allCached = allCached && Boolean(payload.cached);
+            const preset = presets.find((item) => item.id === payload.presetId);
+            if (preset && !payload.error && payload.messages) {
+              applyMessagesByPreset(preset, payload.messages);
+            }
+            clearPresetPending(payload.presetId);
+          } else if (event === "done") {
+            setAiCacheHit(allCached);
+          }
         }
-        applyMessagesByPreset(result.presetId, result.messages);
-      });
+      );
     } catch (err) {
       if (insightBatchKeyRef.current === requestKey) {
         setError(err instanceof Error ? err.message : "배치 AI 생성 오류");
       }
     } finally {
       if (insightBatchKeyRef.current === requestKey) {
-        setAiBusy(false);
+        setPendingPresetIds((prev) => prev.filter((id) => !presetIds.includes(id)));
       }
     }
   }
 
-  async function requestGrowthSegments(currentAnalysis: AnalysisResult, requestKey: string) {
+  async function requestGrowthSegments(currentAnalysis: AnalysisResult, requestKey: string, regenerate = false) {
     setGrowthSegmentBusy(true);
     try {
       const selectedPoints = currentAnalysis.growthScatter.points
@@ -540,7 +655,8 @@ export function DashboardApp() {
           averagePurchaseCount: currentAnalysis.growthScatter.averagePurchaseCount,
           selectedAverageGrowthMultiplier: currentAnalysis.growthScatter.selectedAverageGrowthMultiplier,
           selectedAveragePurchaseCount: currentAnalysis.growthScatter.selectedAveragePurchaseCount,
-          selectedPoints
+          selectedPoints,
+          regenerate
         })
       });
 
@@ -564,19 +680,95 @@ export function DashboardApp() {
     }
   }
 
-  function getPresetBinding(section: SectionId, kind: MessageKind): PresetBinding | null {
-    return PRESET_BINDINGS.find((binding) => binding.section === section && binding.kind === kind) ?? null;
+  function getSectionPreset(section: InsightSectionId, kind: InsightMessageKind): InsightPreset | null {
+    return catalogPresets.find((preset) => preset.placement?.section === section && preset.placement.kind === kind) ?? null;
   }
 
-  function triggerSingle(section: SectionId, kind: MessageKind) {
+  function triggerSingle(section: InsightSectionId, kind: InsightMessageKind) {
     if (!analysis) {
       return;
     }
-    const binding = getPresetBinding(section, kind);
-    if (!binding) {
+    const preset = getSectionPreset(section, kind);
+    if (!preset) {
       return;
     }
-    void requestSinglePreset(binding, analysis);
+    void requestSinglePreset(preset, analysis);
+  }
+
+  function sectionPending(section: InsightSectionId, kind: InsightMessageKind): boolean {
+    const preset = getSectionPreset(section, kind);
+    return preset ? pendingPresetIds.includes(preset.id) : false;
+  }
+
+  function sectionMessages(section: InsightSectionId, kind: InsightMessageKind): InsightMessage[] {
+    return kind === "interpretation" ? interpretationMessagesBySection[section] : insightMessagesBySection[section];
+  }
+
+  async function reviseSection(section: InsightSectionId, kind: InsightMessageKind, instruction: string) {
+    const preset = getSectionPreset(section, kind);
+    if (!analysis || !preset) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const response = await fetch("/api/insight/revise", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          agency: analysis.agency,
+          benchmark: analysis.benchmark,
+          presetId: preset.id,
+          analysisSnapshot: buildAnalysisSnapshot(analysis, preset),
+          messages: sectionMessages(section, kind),
+          instruction
+        })
+      });
+
+      const payload = (await response.json()) as InsightResponse & { error?: string };
+      if (!response.ok || !payload.messages) {
+        throw new Error(payload.error || "AI 수정 실패");
+      }
+
+      applyMessagesByPreset(preset, payload.messages);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "AI 수정 오류");
+    }
+  }
+
+  function lockSection(section: InsightSectionId, kind: InsightMessageKind) {
+    const preset = getSectionPreset(section, kind);
+    if (!preset) {
+      return;
+    }
+    setLockedLinesByPreset((prev) => ({ ...prev, [preset.id]: messageLines(sectionMessages(section, kind)) }));
+  }
+
+  function unlockSection(section: InsightSectionId, kind: InsightMessageKind) {
+    const preset = getSectionPreset(section, kind);
+    if (!preset) {
+      return;
+    }
+    setLockedLinesByPreset((prev) => {
+      const next = { ...prev };
+      delete next[preset.id];
+      return next;
+    });
+  }
+
+  function renderSectionChat(section: InsightSectionId, kind: InsightMessageKind) {
+    const preset = getSectionPreset(section, kind);
+    return (
+      <SectionChat
+        messages={sectionMessages(section, kind)}
+        locked={preset ? lockedLinesByPreset[preset.id] ?? null : null}
+        loading={sectionPending(section, kind)}
+        disabled={busy || sectionPending(section, kind) || !analysis}
+        onRevise={(instruction) => reviseSection(section, kind, instruction)}
+        onLock={() => lockSection(section, kind)}
+        onUnlock={() => unlockSection(section, kind)}
+      />
+    );
   }
 
   function triggerBatch() {
@@ -586,8 +778,8 @@ export function DashboardApp() {
     const requestKey = `${sessionId}|${selectedAgency}|${benchmark}|manual|${Date.now()}`;
     insightBatchKeyRef.current = requestKey;
     growthSegmentKeyRef.current = requestKey;
-    void requestGrowthSegments(analysis, requestKey);
-    void requestBatchPresets(analysis, requestKey);
+    void requestGrowthSegments(analysis, requestKey, true);
+    void requestBatchPresets(analysis, requestKey, true);
   }
 
   useEffect(() => {
@@ -597,7 +789,7 @@ export function DashboardApp() {
     const currentSessionId = sessionId;
     const currentAgency = selectedAgency;
 
-    const requestKey = `${currentSessionId}|${currentAgency}|${benchmark}`;
+    const requestKey = `${currentSessionId}|${currentAgency}|${benchmark}|${period.from ?? ""}~${period.to ?? ""}|${comparisonMode}|${targetsRevision}`;
     if (analysisRequestKeyRef.current === requestKey) {
       return;
     }
@@ -609,7 +801,7 @@ export function DashboardApp() {
       try {
         setBusy(true);
         setError(null);
-        const nextAnalysis = await runAnalysis(currentSessionId, currentAgency, benchmark);
+        const nextAnalysis = await runAnalysis(currentSessionId, currentAgency, benchmark, period, comparisonMode);
         if (cancelled) {
           return;
         }
@@ -636,16 +828,74 @@ export function DashboardApp() {
     return () => {
       cancelled = true;
     };
-  }, [sessionId, selectedAgency, benchmark]);
+  }, [sessionId, selectedAgency, benchmark, period, comparisonMode, targetsRevision]);
 
   async function applyLoadedSession(payload: UploadResponse) {
     setSessionId(payload.sessionId);
+    setDetailCustomer(null);
     setAgencies(payload.agencies);
+    setDataQuality(payload.quality ?? null);
 
     const nextAgency = payload.agencies.includes(selectedAgency) ? selectedAgency : payload.agencies[0] ?? "";
     setSelectedAgency(nextAgency);
   }
 
+  function openAgencyAnalysis(agency: string) {
+    setSelectedAgency(agency);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }
+
+  function renderTopCustomerName(name: string) {
+    const customer = selectedCustomerByName.get(name);
+    if (!customer) {
+      return <p className="font-medium text-slate-900">{name}</p>;
+    }
+    return (
+      <button type="button" className="text-left font-medium text-slate-900 underline-offset-2 hover:underline" onClick={() => setDetailCustomer(customer)}>
+        {name}
+      </button>
+    );
+  }
+
+  async function refreshSavedDatasets() {
+    try {
+      const response = await fetch("/api/datasets");
+      const payload = (await response.json()) as { datasets?: DatasetMeta[] };
+      setSavedDatasets(payload.datasets ?? []);
+    } catch {
+      setSavedDatasets([]);
+    }
+  }
+
+  useEffect(() => {
+    void refreshSavedDatasets();
+  }, []);
+
+  useEffect(() => {
+    void loadActiveInsightPresets().then(setCatalogPresets);
+  }, []);
+
+  async function openSavedDataset(datasetId: string) {
+    try {
+      setBusy(true);
+      setError(null);
+
+      const response = await fetch(`/api/datasets?id=${encodeURIComponent(datasetId)}`);
+      const payload = (await response.json()) as UploadResponse & { error?: string };
+
+      if (!response.ok || !payload.sessionId) {
+        throw new Error(payload.error || "저장된 데이터를 열지 못했습니다.");
+      }
+
+      await applyLoadedSession(payload);
+      setDefaultDataLabel(payload.dataset ? `저장된 데이터 열림: ${payload.dataset.name}` : "저장된 데이터 열림");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "저장된 데이터 열기 오류");
+    } finally {
+      setBusy(false);
+    }
+  }
+
   async function loadDefaultCsvs() {
     try {
       setBusy(true);
@@ -662,6 +912,7 @@ export function DashboardApp() {
       }
 
       await applyLoadedSession(payload);
+      void refreshSavedDatasets();
 
       if (payload.defaultFiles) {
         setDefaultDataLabel(
@@ -679,14 +930,146 @@ export function DashboardApp() {
     }
   }
 
-  async function runAnalysis(currentSession: string, agency: string, currentBenchmark: BenchmarkMode): Promise<AnalysisResult> {
+  /** 마지막 수정 요청 이후의 AI 코멘트만 최신 문구로 본다. */
+  function messageLines(messages: InsightMessage[], fallback: string[] = []): string[] {
+    const lastUserIndex = messages.map((message) => message.role).lastIndexOf("user");
+    const lines = messages
+      .slice(lastUserIndex + 1)
+      .filter((message) => message.role === "assistant")
+      .map((message) => message.content);
+    return lines.length > 0 ? lines : fallback;
+  }
+
+  function exportLines(section: InsightSectionId, kind: InsightMessageKind, fallback: string[] = []): string[] {
+    const preset = getSectionPreset(section, kind);
+    const locked = preset ? lockedLinesByPreset[preset.id] : undefined;
+    return locked ?? messageLines(sectionMessages(section, kind), fallback);
+  }
+
+  function buildExportComments() {
+    return {
+      geo: {
+        interpretation: exportLines("geo", "interpretation", geoInterpretationLines),
+        insight: exportLines("geo", "insight", geoInsightItems)
+      },
+      region: {
+        interpretation: exportLines("region", "interpretation", regionInterpretationLines),
+        insight: exportLines("region", "insight", regionInsightItems)
+      },
+      regionCommon: {
+        insight: exportLines("regionCommon", "insight")
+      },
+      growth: {
+        interpretation: [...growthOverallInterpretationLines, ...growthSelectedInterpretationLines]
+      },
+      monthly: {
+        interpretation: exportLines("monthly", "interpretation", crossSellInterpretationLines)
+      },
+      weakProduct: {
+        interpretation: exportLines("weakProduct", "interpretation", (categoryMix?.underIndexed ?? []).map(categoryMixLine))
+      },
+      strongProduct: {
+        interpretation: exportLines("strongProduct", "interpretation", (categoryMix?.overIndexed ?? []).map(categoryMixLine))
+      }
+    };
+  }
+
+  async function downloadPdf() {
+    if (!analysis || !sessionId) {
+      return;
+    }
+
+    try {
+      setPdfBusy(true);
+      setError(null);
+
+      const response = await fetch("/api/export-pdf", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sessionId,
+          agency: analysis.agency,
+          benchmark: analysis.benchmark,
+          period: { from: analysis.period.from, to: analysis.period.to },
+          comparison: analysis.comparison?.mode ?? comparisonMode,
+          comments: buildExportComments()
+        })
+      });
+
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || "PDF 생성 실패");
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${analysis.agency}_등록고객_보고서.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "PDF 생성 오류");
+    } finally {
+      setPdfBusy(false);
+    }
+  }
+
+  async function downloadCallList() {
+    if (!analysis || !sessionId) {
+      return;
+    }
+
+    try {
+      setCallListBusy(true);
+      setError(null);
+
+      const response = await fetch("/api/recommendations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          sessionId,
+          agency: analysis.agency,
+          period: { from: analysis.period.from, to: analysis.period.to },
+          format: "csv"
+        })
+      });
+
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(payload.error || "추천 콜 리스트 생성 실패");
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${analysis.agency}_추천_콜리스트.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "추천 콜 리스트 생성 오류");
+    } finally {
+      setCallListBusy(false);
+    }
+  }
+
+  async function runAnalysis(
+    currentSession: string,
+    agency: string,
+    currentBenchmark: BenchmarkMode,
+    currentPeriod: AnalysisPeriod,
+    currentComparison: ComparisonMode
+  ): Promise<AnalysisResult> {
     const response = await fetch("/api/analyze", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
         sessionId: currentSession,
         agency,
-        benchmark: currentBenchmark
+        benchmark: currentBenchmark,
+        period: currentPeriod,
+        comparison: currentComparison
       })
     });
 
@@ -757,23 +1140,177 @@ export function DashboardApp() {
             </Select>
           </div>
 
-          <Button variant="ghost" className="gap-2" disabled>
-            <FileDown className="h-4 w-4" /> PDF 다운로드 (Phase 4)
-          </Button>
+          <div className="flex flex-col gap-2">
+            <Button variant="ghost" className="gap-2" onClick={downloadPdf} disabled={busy || pdfBusy || !analysis}>
+              {pdfBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />} PDF 다운로드
+            </Button>
+            <Button variant="ghost" className="gap-2" onClick={downloadCallList} disabled={busy || callListBusy || !analysis}>
+              {callListBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileDown className="h-4 w-4" />} 추천 콜 리스트 (CSV)
+            </Button>
+          </div>
 
           <div className="flex items-center gap-2 md:col-span-4">
             <Button variant="secondary" className="gap-2" onClick={triggerBatch} disabled={busy || aiBusy || growthSegmentBusy || !analysis}>
               {aiBusy || growthSegmentBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : null}
               AI 해석/인사이트 일괄 생성
             </Button>
-            {aiBusy || growthSegmentBusy ? <p className="text-xs text-muted-foreground">AI 문구/고객군 표를 생성 중입니다...</p> : null}
+            {aiBusy || growthSegmentBusy ? (
+              <p className="text-xs text-muted-foreground">AI 문구/고객군 표를 생성 중입니다...</p>
+            ) : aiCacheHit ? (
+              <p className="text-xs text-muted-foreground">같은 분석 결과로 이전에 생성한 AI 문구를 재사용했습니다. 새로 만들려면 일괄 생성을 누르세요.</p>
+            ) : null}
           </div>
 
+          <div className="space-y-2 md:col-span-4">
+            <p className="text-xs font-semibold text-muted-foreground">분석 기간</p>
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                type="date"
+                className="w-40"
+                value={period.from ?? ""}
+                min={analysis?.period.availableFrom ?? undefined}
+                max={analysis?.period.availableTo ?? undefined}
+                onChange={(event) => setPeriod((current) => ({ ...current, from: event.target.value || null }))}
+              />
+              <span className="text-sm text-muted-foreground">~</span>
+              <Input
+                type="date"
+                className="w-40"
+                value={period.to ?? ""}
+                min={analysis?.period.availableFrom ?? undefined}
+                max={analysis?.period.availableTo ?? undefined}
+                onChange={(event) => setPeriod((current) => ({ ...current, to: event.target.value || null }))}
+              />
+              {quickPeriods(analysis?.period.availableTo ?? null).map((option) => (
+                <Button
+                  key={option.label}
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPeriod(option.period)}
+                  disabled={busy || !sessionId}
+                >
+                  {option.label}
+                </Button>
+              ))}
+              <Select value={comparisonMode} onValueChange={(value) => setComparisonMode(value as ComparisonMode)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="previousPeriod">직전 기간 대비</SelectItem>
+                  <SelectItem value="yearOverYear">전년 동기 대비</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {analysis ? (
+              <p className="text-xs text-muted-foreground">
+                분석 대상 주문 {analysis.period.includedOrders.toLocaleString("ko-KR")}건
+                {analysis.period.outOfRangeOrders > 0 ? ` · 기간 외 ${analysis.period.outOfRangeOrders.toLocaleString("ko-KR")}건 제외` : ""}
+                {analysis.period.undatedOrders > 0
+                  ? ` · 주문일자 없음 ${analysis.period.undatedOrders.toLocaleString("ko-KR")}건 ${analysis.period.undatedExcluded ? "제외" : "포함"}`
+                  : ""}
+                {analysis.period.availableFrom ? ` (데이터 기간 ${analysis.period.availableFrom} ~ ${analysis.period.availableTo})` : ""}
+                {analysis.comparison
+                  ? ` · 비교 기간 ${analysis.comparison.from} ~ ${analysis.comparison.to}`
+                  : " · 기간을 지정하면 직전 기간/전년 동기 증감률이 표시됩니다."}
+              </p>
+            ) : null}
+          </div>
+
+          {savedDatasets.length > 0 ? (
+            <div className="space-y-2 md:col-span-2">
+              <p className="text-xs font-semibold text-muted-foreground">저장된 데이터 열기</p>
+              <Select value={sessionId ?? undefined} onValueChange={(value) => void openSavedDataset(value)} disabled={busy}>
+                <SelectTrigger>
+                  <SelectValue placeholder="이전 업로드 선택" />
+                </SelectTrigger>
+                <SelectContent>
+                  {savedDatasets.map((dataset) => (
+                    <SelectItem key={dataset.id} value={dataset.id}>
+                      {dataset.name} · {new Date(dataset.uploadedAt).toLocaleString("ko-KR")}
+                      {dataset.owner ? ` · ${dataset.owner}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : null}
+
           {defaultDataLabel ? <p className="text-xs text-teal-700 md:col-span-4">{defaultDataLabel}</p> : null}
           {error ? <p className="text-sm text-red-600 md:col-span-4">{error}</p> : null}
         </CardContent>
       </Card>
 
+      {dataQuality ? (
+        <Card className="mb-8 border-stone-200 bg-white shadow-sm">
+          <CardHeader>
+            <CardTitle>데이터 품질 리포트</CardTitle>
+            <CardDescription>파일 인식 결과와 전처리 과정에서 제외되거나 해석되지 않은 행 수입니다.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-3 md:grid-cols-3">
+              {dataQuality.sources.map((source) => (
+                <div key={source.source} className="rounded-lg border border-stone-200 p-3 text-xs">
+                  <p className="text-sm font-semibold text-stone-900">{DATA_SOURCE_LABELS[source.source]}</p>
+                  <p className="mt-1 text-muted-foreground">
+                    {source.format.toUpperCase()} · {source.rowCount.toLocaleString("ko-KR")}행
+                    {source.format === "csv"
+                      ? ` · 인코딩 ${source.encoding ?? "-"} · 구분자 ${delimiterLabel(source.delimiter)}`
+                      : ` · 시트 ${source.sheetName ?? "-"}`}
+                  </p>
+                  <ul className="mt-2 space-y-1">
+                    {source.columns.map((column) => (
+                      <li key={column.column} className="flex justify-between gap-2">
+                        <span className={column.required ? "font-medium text-stone-800" : "text-stone-500"}>{column.column}</span>
+                        <span className={column.matchedHeader ? "text-teal-700" : column.required ? "text-red-600" : "text-stone-400"}>
+                          {column.matchedHeader ?? "미인식"}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid gap-3 text-xs md:grid-cols-3">
+              <div className="rounded-lg bg-stone-50 p-3">
+                <p className="font-semibold text-stone-900">
+                  수주 {dataQuality.orders.kept.toLocaleString("ko-KR")} / {dataQuality.orders.total.toLocaleString("ko-KR")}행 사용
+                </p>
+                <p className="mt-1 text-muted-foreground">
+                  제외: 금액 0 이하 {dataQuality.orders.droppedNonPositiveAmount} · 수주번호 없음 {dataQuality.orders.droppedMissingOrderNo} ·
+                  사업자번호 없음 {dataQuality.orders.droppedMissingBizNo} · 대리점 없음 {dataQuality.orders.droppedMissingAgency}
+                </p>
+                <p className="mt-1 text-muted-foreground">
+                  해석 실패: 금액 {dataQuality.orders.unparseableAmount} · 날짜 {dataQuality.orders.unparseableDate} (날짜 없음{" "}
+                  {dataQuality.orders.missingDate})
+                </p>
+                <p className="mt-1 text-muted-foreground">고객 마스터 미매칭 {dataQuality.orders.unmatchedCustomer}행</p>
+              </div>
+              <div className="rounded-lg bg-stone-50 p-3">
+                <p className="font-semibold text-stone-900">
+                  고객 {dataQuality.customers.total.toLocaleString("ko-KR")}행 · 레코드 {dataQuality.customers.matched.toLocaleString("ko-KR")} /{" "}
+                  {dataQuality.customers.records.toLocaleString("ko-KR")}건 매칭
+                </p>
+                {dataQuality.customers.expandedByAlias ? (
+                  <p className="mt-1 text-muted-foreground">대리점 별칭 전후로 나뉜 레코드 +{dataQuality.customers.expandedByAlias}건</p>
+                ) : null}
+                <p className="mt-1 text-muted-foreground">최초 수주 금액 해석 실패 {dataQuality.customers.unparseableFirstOrderAmount}</p>
+              </div>
+              <div className="rounded-lg bg-stone-50 p-3">
+                <p className="font-semibold text-stone-900">
+                  제품 {dataQuality.products.kept.toLocaleString("ko-KR")} / {dataQuality.products.total.toLocaleString("ko-KR")}행 사용
+                </p>
+                <p className="mt-1 text-muted-foreground">수주번호 미매칭 {dataQuality.products.unknownOrder}</p>
+                <p className="mt-1 text-muted-foreground">
+                  해석 실패: 수량 {dataQuality.products.unparseableQuantity} · 금액 {dataQuality.products.unparseableAmount}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ) : null}
+
       <section className="mb-6 space-y-4">
         <div className="flex items-center gap-3">
           <span className="inline-flex h-8 w-8 items-center justify-center rounded-full bg-stone-900 text-xs font-semibold text-white">0</span>
@@ -806,6 +1343,20 @@ export function DashboardApp() {
                   >
                     비교 대비 {kpi.delta.toFixed(1)}%
                   </p>
+                  {analysis?.comparison && kpi.priorDelta !== null ? (
+                    <p
+                      className={`mt-1 text-xs ${
+                        kpi.priorTone === "up" ? "text-teal-700" : kpi.priorTone === "down" ? "text-orange-700" : "text-muted-foreground"
+                      }`}
+                    >
+                      {COMPARISON_LABELS[analysis.comparison.mode]} 대비 {kpi.priorDelta.toFixed(1)}% ({kpi.priorValue})
+                    </p>
+                  ) : null}
+                  {kpi.target ? (
+                    <p className={`mt-1 text-xs ${kpi.target.pace >= 100 ? "text-teal-700" : "text-orange-700"}`}>
+                      목표 달성률 {kpi.target.attainment.toFixed(1)}% · 페이스 {kpi.target.pace.toFixed(1)}%
+                    </p>
+                  ) : null}
                 </CardContent>
               </Card>
             </motion.div>
@@ -840,18 +1391,11 @@ export function DashboardApp() {
                   ))}
                 </div>
                 <div className="mt-3">
-                  <Button variant="secondary" disabled={busy || aiBusy || !analysis} onClick={() => triggerSingle("geo", "interpretation")}>
-                    {aiBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : "해석 다시 생성"}
+                  <Button variant="secondary" disabled={busy || sectionPending("geo", "interpretation") || !analysis} onClick={() => triggerSingle("geo", "interpretation")}>
+                    {sectionPending("geo", "interpretation") ? <Loader2 className="h-4 w-4 animate-spin" /> : "해석 다시 생성"}
                   </Button>
                 </div>
-                <div className="mt-3 space-y-2">
-                  {interpretationMessagesBySection.geo.map((msg, idx) => (
-                    <div key={`${msg.role}-geo-${idx}`} className="rounded-md border bg-white px-3 py-2 text-sm">
-                      <p className="mb-1 text-xs font-semibold text-muted-foreground">{msg.role === "assistant" ? "AI" : "사용자"}</p>
-                      <p>{msg.content}</p>
-                    </div>
-                  ))}
-                </div>
+                {renderSectionChat("geo", "interpretation")}
               </div>
 
               <div className="rounded-xl border border-indigo-300 bg-indigo-50/60 p-4">
@@ -862,18 +1406,11 @@ export function DashboardApp() {
                   ))}
                 </ul>
                 <div className="mt-3">
-                  <Button variant="secondary" disabled={busy || aiBusy || !analysis} onClick={() => triggerSingle("geo", "insight")}>
-                    {aiBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : "인사이트 다시 생성"}
+                  <Button variant="secondary" disabled={busy || sectionPending("geo", "insight") || !analysis} onClick={() => triggerSingle("geo", "insight")}>
+                    {sectionPending("geo", "insight") ? <Loader2 className="h-4 w-4 animate-spin" /> : "인사이트 다시 생성"}
                   </Button>
                 </div>
-                <div className="mt-3 space-y-2">
-                  {insightMessagesBySection.geo.map((msg, idx) => (
-                    <div key={`${msg.role}-geo-insight-${idx}`} className="rounded-md border bg-white px-3 py-2 text-sm">
-                      <p className="mb-1 text-xs font-semibold text-muted-foreground">{msg.role === "assistant" ? "AI" : "사용자"}</p>
-                      <p>{msg.content}</p>
-                    </div>
-                  ))}
-                </div>
+                {renderSectionChat("geo", "insight")}
               </div>
             </div>
           </CardContent>
@@ -972,18 +1509,11 @@ export function DashboardApp() {
                 </div>
               )}
               <div className="mt-3">
-                <Button variant="secondary" disabled={busy || aiBusy || !analysis} onClick={() => triggerSingle("regionCommon", "insight")}>
-                  {aiBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : "업종 분포 배경 해석 생성"}
+                <Button variant="secondary" disabled={busy || sectionPending("regionCommon", "insight") || !analysis} onClick={() => triggerSingle("regionCommon", "insight")}>
+                  {sectionPending("regionCommon", "insight") ? <Loader2 className="h-4 w-4 animate-spin" /> : "업종 분포 배경 해석 생성"}
                 </Button>
               </div>
-              <div className="mt-3 space-y-2">
-                {insightMessagesBySection.regionCommon.map((msg, idx) => (
-                  <div key={`${msg.role}-region-common-${idx}`} className="rounded-md border bg-white px-3 py-2 text-sm">
-                    <p className="mb-1 text-xs font-semibold text-muted-foreground">{msg.role === "assistant" ? "AI" : "사용자"}</p>
-                    <p>{msg.content}</p>
-                  </div>
-                ))}
-              </div>
+              {renderSectionChat("regionCommon", "insight")}
             </div>
 
             <div className="grid gap-4 xl:grid-cols-2">
@@ -995,18 +1525,11 @@ export function DashboardApp() {
                   ))}
                 </div>
                 <div className="mt-3">
-                  <Button variant="secondary" disabled={busy || aiBusy || !analysis} onClick={() => triggerSingle("region", "interpretation")}>
-                    {aiBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : "해석 다시 생성"}
+                  <Button variant="secondary" disabled={busy || sectionPending("region", "interpretation") || !analysis} onClick={() => triggerSingle("region", "interpretation")}>
+                    {sectionPending("region", "interpretation") ? <Loader2 className="h-4 w-4 animate-spin" /> : "해석 다시 생성"}
                   </Button>
                 </div>
-                <div className="mt-3 space-y-2">
-                  {interpretationMessagesBySection.region.map((msg, idx) => (
-                    <div key={`${msg.role}-region-${idx}`} className="rounded-md border bg-white px-3 py-2 text-sm">
-                      <p className="mb-1 text-xs font-semibold text-muted-foreground">{msg.role === "assistant" ? "AI" : "사용자"}</p>
-                      <p>{msg.content}</p>
-                    </div>
-                  ))}
-                </div>
+                {renderSectionChat("region", "interpretation")}
               </div>
 
               <div className="rounded-xl border border-indigo-300 bg-indigo-50/60 p-4">
@@ -1017,18 +1540,11 @@ export function DashboardApp() {
                   ))}
                 </ul>
                 <div className="mt-3">
-                  <Button variant="secondary" disabled={busy || aiBusy || !analysis} onClick={() => triggerSingle("region", "insight")}>
-                    {aiBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : "인사이트 다시 생성"}
+                  <Button variant="secondary" disabled={busy || sectionPending("region", "insight") || !analysis} onClick={() => triggerSingle("region", "insight")}>
+                    {sectionPending("region", "insight") ? <Loader2 className="h-4 w-4 animate-spin" /> : "인사이트 다시 생성"}
                   </Button>
                 </div>
-                <div className="mt-3 space-y-2">
-                  {insightMessagesBySection.region.map((msg, idx) => (
-                    <div key={`${msg.role}-region-insight-${idx}`} className="rounded-md border bg-white px-3 py-2 text-sm">
-                      <p className="mb-1 text-xs font-semibold text-muted-foreground">{msg.role === "assistant" ? "AI" : "사용자"}</p>
-                      <p>{msg.content}</p>
-                    </div>
-                  ))}
-                </div>
+                {renderSectionChat("region", "insight")}
               </div>
             </div>
           </CardContent>
@@ -1053,15 +1569,26 @@ export function DashboardApp() {
                     points={growthScatterPoints}
                     averageGrowthMultiplier={growthScatter?.averageGrowthMultiplier ?? 0}
                     averagePurchaseCount={growthScatter?.averagePurchaseCount ?? 0}
+                    onSelectPoint={(point) => setDetailCustomer({ agency: point.agency, bizNo: point.bizNo })}
                   />
                   <p className="text-xs text-muted-foreground">
                     필터링값: 최초주문금액 {growthScatter?.minFirstOrderAmount.toLocaleString("ko-KR") ?? "1,000,000"}원 이상, 구매횟수{" "}
-                    {growthScatter?.minPurchaseCount ?? 2}회 이상
+                    {growthScatter?.minPurchaseCount ?? 2}회 이상 · 점을 누르면 해당 고객의 주문 상세가 열립니다.
                   </p>
                 </CardContent>
               </Card>
             </div>
 
+            {detailCustomer ? (
+              <CustomerDetailPanel
+                sessionId={sessionId}
+                period={period}
+                agency={detailCustomer.agency}
+                bizNo={detailCustomer.bizNo}
+                onClose={() => setDetailCustomer(null)}
+              />
+            ) : null}
+
             <div className="rounded-xl border border-amber-300 bg-amber-50/60 p-4">
               <p className="mb-2 text-sm font-semibold text-amber-900">1. 전체 그래프 분포에 대한 해석 (회색 원)</p>
               <ul className="list-disc space-y-1 pl-5 text-sm text-amber-950">
@@ -1214,7 +1741,7 @@ export function DashboardApp() {
                             <ol className="list-decimal space-y-2 pl-5 text-slate-700">
                               {(growthSegmentByName.growth?.topCustomers ?? []).map((item) => (
                                 <li key={`growth-top-${item.name}`}>
-                                  <p className="font-medium text-slate-900">{item.name}</p>
+                                  {renderTopCustomerName(item.name)}
                                   <p className="text-xs leading-5 text-slate-600">{item.reason}</p>
                                 </li>
                               ))}
@@ -1228,7 +1755,7 @@ export function DashboardApp() {
                             <ol className="list-decimal space-y-2 pl-5 text-slate-700">
                               {(growthSegmentByName.transition?.topCustomers ?? []).map((item) => (
                                 <li key={`transition-top-${item.name}`}>
-                                  <p className="font-medium text-slate-900">{item.name}</p>
+                                  {renderTopCustomerName(item.name)}
                                   <p className="text-xs leading-5 text-slate-600">{item.reason}</p>
                                 </li>
                               ))}
@@ -1242,7 +1769,7 @@ export function DashboardApp() {
                             <ol className="list-decimal space-y-2 pl-5 text-slate-700">
                               {(growthSegmentByName.retention?.topCustomers ?? []).map((item) => (
                                 <li key={`retention-top-${item.name}`}>
-                                  <p className="font-medium text-slate-900">{item.name}</p>
+                                  {renderTopCustomerName(item.name)}
                                   <p className="text-xs leading-5 text-slate-600">{item.reason}</p>
                                 </li>
                               ))}
@@ -1255,6 +1782,23 @@ export function DashboardApp() {
                 </div>
               )}
             </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-muted-foreground">3-3. RFM 세그먼트</p>
+              <p className="text-sm text-muted-foreground">
+                최근성(R)·구매횟수(F)·구매금액(M)을 전체 고객 기준 5분위로 점수화해 세그먼트로 나누고, {analysis?.benchmark === "club1000" ? "Club 1000" : "전체"} 대리점 분포와
+                비교합니다.
+              </p>
+              <RfmSegmentMatrix rfm={analysis?.rfm ?? null} benchmarkLabel={analysis?.benchmark === "club1000" ? "Club 1000 평균" : "전체 평균"} />
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-muted-foreground">3-4. 첫 주문월 코호트</p>
+              <p className="text-sm text-muted-foreground">
+                분석 기간 안에 첫 주문을 한 고객을 첫 주문월로 묶어, 이후 개월 차별 재구매율과 고객당 누적 매출을 비교 대리점과 함께 보여줍니다.
+              </p>
+              <CohortHeatmap cohorts={analysis?.cohorts ?? null} benchmarkLabel={analysis?.benchmark === "club1000" ? "Club 1000" : "전체 대리점"} />
+            </div>
           </CardContent>
         </Card>
 
@@ -1288,26 +1832,40 @@ export function DashboardApp() {
               </Card>
             </div>
 
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-muted-foreground">4-2. 함께 팔리는 제품군</p>
+              <p className="text-sm text-muted-foreground">
+                같은 주문번호에 함께 담긴 제품 중분류의 2개·3개 조합을 향상도 순으로 보여주고, Club 1000에서는 자주 함께 팔리지만 선택 대리점에서는 드문 조합을 크로스셀 제안
+                포인트로 정리합니다.
+              </p>
+              <MarketBasketRules
+                basket={analysis?.marketBasket ?? null}
+                agency={analysis?.agency ?? "선택 대리점"}
+                benchmarkLabel={analysis?.benchmark === "club1000" ? "Club 1000" : "전체 대리점"}
+              />
+            </div>
+
             <div className="rounded-xl border border-amber-300 bg-amber-50/60 p-4">
-              <p className="mb-2 text-sm font-semibold text-amber-900">4-2. 시각화 데이터 해석</p>
+              <p className="mb-2 text-sm font-semibold text-amber-900">4-3. 시각화 데이터 해석</p>
               <div className="space-y-2 text-sm text-amber-950">
                 {crossSellInterpretationLines.map((line) => (
                   <p key={line}>{line}</p>
                 ))}
               </div>
               <div className="mt-3">
-                <Button variant="secondary" disabled={busy || aiBusy || !analysis} onClick={() => triggerSingle("monthly", "interpretation")}>
-                  {aiBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : "해석 다시 생성"}
+                <Button variant="secondary" disabled={busy || sectionPending("monthly", "interpretation") || !analysis} onClick={() => triggerSingle("monthly", "interpretation")}>
+                  {sectionPending("monthly", "interpretation") ? <Loader2 className="h-4 w-4 animate-spin" /> : "해석 다시 생성"}
                 </Button>
               </div>
-              <div className="mt-3 space-y-2">
-                {interpretationMessagesBySection.monthly.map((msg, idx) => (
-                  <div key={`${msg.role}-monthly-${idx}`} className="rounded-md border bg-white px-3 py-2 text-sm">
-                    <p className="mb-1 text-xs font-semibold text-muted-foreground">{msg.role === "assistant" ? "AI" : "사용자"}</p>
-                    <p>{msg.content}</p>
-                  </div>
-                ))}
-              </div>
+              {renderSectionChat("monthly", "interpretation")}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-semibold text-muted-foreground">4-4. 월별 매출·신제품 전망</p>
+              <p className="text-sm text-muted-foreground">
+                {analysis?.agency ?? "선택된 대리점"}의 월별 총매출과 신제품 판매 수량 실적에 이어 향후 {analysis?.forecast.horizon || 3}개월 전망을 점선으로 보여줍니다.
+              </p>
+              <MonthlyForecastChart forecast={analysis?.forecast ?? null} />
             </div>
           </CardContent>
         </Card>
@@ -1321,30 +1879,33 @@ export function DashboardApp() {
               <p className="text-xs font-semibold text-muted-foreground">5-1. 시각화</p>
               <Card>
                 <CardContent className="space-y-3 pt-6">
-                  <p className="text-xs text-muted-foreground">구조 샘플 시각화 (실데이터 연동 전)</p>
-                  {productComparisonSampleRows.map((row) => (
-                    <div key={row.product} className="space-y-2 rounded-md border bg-white p-3">
-                      <p className="text-sm font-semibold">{row.product}</p>
+                  <p className="text-xs text-muted-foreground">
+                    중분류별 제품 매출 비중 (Club 1000 평균은 {categoryMix?.clubAgencyCount ?? 0}개 대리점 기준, 선택 대리점 제외)
+                  </p>
+                  {categoryMixTop.map((row) => (
+                    <div key={row.category} className="space-y-2 rounded-md border bg-white p-3">
+                      <p className="text-sm font-semibold">{row.category}</p>
                       <div className="space-y-1">
                         <div className="flex items-center justify-between text-xs">
                           <span>선택 메이트</span>
-                          <span>{row.mate}</span>
+                          <span>{row.agencyShare.toFixed(1)}%</span>
                         </div>
                         <div className="h-2 rounded-full bg-stone-200">
-                          <div className="h-2 rounded-full bg-sky-600" style={{ width: `${row.mate}%` }} />
+                          <div className="h-2 rounded-full bg-sky-600" style={{ width: `${Math.min(row.agencyShare, 100)}%` }} />
                         </div>
                       </div>
                       <div className="space-y-1">
                         <div className="flex items-center justify-between text-xs">
                           <span>클럽 1,000메이트</span>
-                          <span>{row.club}</span>
+                          <span>{row.clubShare.toFixed(1)}%</span>
                         </div>
                         <div className="h-2 rounded-full bg-stone-200">
-                          <div className="h-2 rounded-full bg-indigo-600" style={{ width: `${row.club}%` }} />
+                          <div className="h-2 rounded-full bg-indigo-600" style={{ width: `${Math.min(row.clubShare, 100)}%` }} />
                         </div>
                       </div>
                     </div>
                   ))}
+                  {!categoryMixTop.length ? <p className="text-sm text-muted-foreground">표시할 제품 데이터가 없습니다.</p> : null}
                 </CardContent>
               </Card>
             </div>
@@ -1353,28 +1914,22 @@ export function DashboardApp() {
               <div className="rounded-xl border border-orange-300 bg-orange-50/60 p-4">
                 <p className="mb-2 text-sm font-semibold text-orange-900">5-2. 클럽 1,000메이트 대비 못팔고 있는 제품</p>
                 <ul className="list-disc space-y-1 pl-5 text-sm text-orange-950">
-                  {weakProductsPlaceholder.map((item) => (
-                    <li key={item}>{item}</li>
+                  {(categoryMix?.underIndexed ?? []).map((stat) => (
+                    <li key={stat.category}>{categoryMixLine(stat)}</li>
                   ))}
                 </ul>
+                {!categoryMix?.underIndexed.length ? <p className="text-sm text-orange-950">Club 1000 평균보다 비중이 낮은 제품군이 없습니다.</p> : null}
               </div>
 
               <div className="rounded-xl border border-amber-300 bg-amber-50/60 p-4">
                 <p className="mb-2 text-sm font-semibold text-amber-900">5-3. 데이터 해석</p>
                 <p className="text-sm text-amber-950">클럽 1,000메이트 대비 저판매 제품군의 원인과 우선 공략 제품을 해석합니다.</p>
                 <div className="mt-3">
-                  <Button variant="secondary" disabled={busy || aiBusy || !analysis} onClick={() => triggerSingle("weakProduct", "interpretation")}>
-                    {aiBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : "해석 다시 생성"}
+                  <Button variant="secondary" disabled={busy || sectionPending("weakProduct", "interpretation") || !analysis} onClick={() => triggerSingle("weakProduct", "interpretation")}>
+                    {sectionPending("weakProduct", "interpretation") ? <Loader2 className="h-4 w-4 animate-spin" /> : "해석 다시 생성"}
                   </Button>
                 </div>
-                <div className="mt-3 space-y-2">
-                  {interpretationMessagesBySection.weakProduct.map((msg, idx) => (
-                    <div key={`${msg.role}-weak-${idx}`} className="rounded-md border bg-white px-3 py-2 text-sm">
-                      <p className="mb-1 text-xs font-semibold text-muted-foreground">{msg.role === "assistant" ? "AI" : "사용자"}</p>
-                      <p>{msg.content}</p>
-                    </div>
-                  ))}
-                </div>
+                {renderSectionChat("weakProduct", "interpretation")}
               </div>
             </div>
 
@@ -1382,32 +1937,202 @@ export function DashboardApp() {
               <div className="rounded-xl border border-teal-300 bg-teal-50/60 p-4">
                 <p className="mb-2 text-sm font-semibold text-teal-900">5-4. 클럽 1,000 메이트 대비 잘 팔고 있는 제품</p>
                 <ul className="list-disc space-y-1 pl-5 text-sm text-teal-950">
-                  {strongProductsPlaceholder.map((item) => (
-                    <li key={item}>{item}</li>
+                  {(categoryMix?.overIndexed ?? []).map((stat) => (
+                    <li key={stat.category}>{categoryMixLine(stat)}</li>
                   ))}
                 </ul>
+                {!categoryMix?.overIndexed.length ? <p className="text-sm text-teal-950">Club 1000 평균보다 비중이 높은 제품군이 없습니다.</p> : null}
               </div>
 
               <div className="rounded-xl border border-indigo-300 bg-indigo-50/60 p-4">
                 <p className="mb-2 text-sm font-semibold text-indigo-900">5-5. 데이터 해석</p>
                 <p className="text-sm text-indigo-950">상대적으로 잘 팔리는 제품군의 성공 요인을 해석하고 재현 전략을 제시합니다.</p>
                 <div className="mt-3">
-                  <Button variant="secondary" disabled={busy || aiBusy || !analysis} onClick={() => triggerSingle("strongProduct", "interpretation")}>
-                    {aiBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : "해석 다시 생성"}
+                  <Button variant="secondary" disabled={busy || sectionPending("strongProduct", "interpretation") || !analysis} onClick={() => triggerSingle("strongProduct", "interpretation")}>
+                    {sectionPending("strongProduct", "interpretation") ? <Loader2 className="h-4 w-4 animate-spin" /> : "해석 다시 생성"}
                   </Button>
                 </div>
-                <div className="mt-3 space-y-2">
-                  {interpretationMessagesBySection.strongProduct.map((msg, idx) => (
-                    <div key={`${msg.role}-strong-${idx}`} className="rounded-md border bg-white px-3 py-2 text-sm">
-                      <p className="mb-1 text-xs font-semibold text-muted-foreground">{msg.role === "assistant" ? "AI" : "사용자"}</p>
-                      <p>{msg.content}</p>
-                    </div>
-                  ))}
+                {renderSectionChat("strongProduct", "interpretation")}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="border-stone-200 bg-white shadow-sm">
+          <CardHeader>
+            <CardTitle className="text-lg text-stone-900">6. 이탈 위험 고객</CardTitle>
+            <CardDescription>
+              반복 구매 고객의 마지막 주문 이후 경과일을 평소 주문 간격(중앙값)과 비교합니다. 간격의 {analysis?.dormancy.riskThreshold ?? 1.5}배를 넘으면 위험,{" "}
+              {analysis?.dormancy.highRiskThreshold ?? 3}배 이상이면 고위험으로 분류합니다.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            <div className="grid gap-3 sm:grid-cols-4">
+              {[
+                { label: "평가 대상 (반복 구매)", value: `${(analysis?.dormancy.evaluatedCount ?? 0).toLocaleString("ko-KR")}명` },
+                { label: "이탈 위험", value: `${(analysis?.dormancy.atRiskCount ?? 0).toLocaleString("ko-KR")}명` },
+                { label: "고위험", value: `${(analysis?.dormancy.highRiskCount ?? 0).toLocaleString("ko-KR")}명` },
+                { label: "위험 고객 누적 매출", value: `${Math.round(analysis?.dormancy.atRiskAmount ?? 0).toLocaleString("ko-KR")}원` }
+              ].map((item) => (
+                <div key={item.label} className="rounded-lg border bg-stone-50 px-3 py-2">
+                  <p className="text-xs text-muted-foreground">{item.label}</p>
+                  <p className="text-sm font-semibold text-stone-900">{item.value}</p>
                 </div>
+              ))}
+            </div>
+            {analysis ? (
+              <p className="text-xs text-muted-foreground">
+                기준일 {analysis.dormancy.referenceDate ?? "-"} (분석 데이터의 마지막 주문일) · 주문일이 하루뿐인 고객 {analysis.dormancy.oneTimeCount.toLocaleString("ko-KR")}명은
+                간격을 알 수 없어 제외
+              </p>
+            ) : null}
+
+            {atRiskCustomers.length === 0 ? (
+              <p className="rounded-md bg-muted/40 px-4 py-8 text-center text-sm text-muted-foreground">이탈 위험으로 분류된 고객이 없습니다.</p>
+            ) : (
+              <div className="max-h-[420px] overflow-auto rounded-lg border">
+                <table className="w-full min-w-[720px] border-collapse text-sm">
+                  <thead className="sticky top-0 bg-stone-100">
+                    <tr className="text-left">
+                      <th className="border-b px-3 py-2 font-semibold">고객</th>
+                      <th className="border-b px-3 py-2 font-semibold">마지막 주문</th>
+                      <th className="border-b px-3 py-2 font-semibold">경과일 / 평소 간격</th>
+                      <th className="border-b px-3 py-2 font-semibold">구매횟수</th>
+                      <th className="border-b px-3 py-2 font-semibold">누적금액</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {atRiskCustomers.map((customer) => (
+                      <tr key={customer.bizNo}>
+                        <td className="border-b px-3 py-2">
+                          <button
+                            type="button"
+                            className="text-left font-medium text-stone-900 underline-offset-2 hover:underline"
+                            onClick={() => setDetailCustomer({ agency: customer.agency, bizNo: customer.bizNo })}
+                          >
+                            {customer.customerName}
+                          </button>
+                          <span
+                            className={`ml-2 rounded px-1.5 py-0.5 text-[10px] font-semibold ${
+                              customer.riskLevel === "high" ? "bg-red-100 text-red-800" : "bg-orange-100 text-orange-800"
+                            }`}
+                          >
+                            {customer.riskLevel === "high" ? "고위험" : "위험"}
+                          </span>
+                        </td>
+                        <td className="border-b px-3 py-2">{customer.lastOrderDate}</td>
+                        <td className="border-b px-3 py-2">
+                          {customer.daysSinceLastOrder.toLocaleString("ko-KR")}일 / {Math.round(customer.typicalGapDays).toLocaleString("ko-KR")}일 ({customer.riskScore.toFixed(1)}배)
+                        </td>
+                        <td className="border-b px-3 py-2">{customer.purchaseCount.toLocaleString("ko-KR")}회</td>
+                        <td className="border-b px-3 py-2">{Math.round(customer.cumulativeAmount).toLocaleString("ko-KR")}원</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="rounded-xl border border-rose-300 bg-rose-50/60 p-4">
+              <p className="mb-2 text-sm font-semibold text-rose-900">6-1. 유지 관리 인사이트 (GPT Pro 활용)</p>
+              <div className="space-y-2 text-sm text-rose-950">
+                {atRiskInterpretationLines.map((line) => (
+                  <p key={line}>{line}</p>
+                ))}
+              </div>
+              <div className="mt-3">
+                <Button variant="secondary" disabled={busy || sectionPending("retention", "insight") || !analysis} onClick={() => triggerSingle("retention", "insight")}>
+                  {sectionPending("retention", "insight") ? <Loader2 className="h-4 w-4 animate-spin" /> : "인사이트 다시 생성"}
+                </Button>
               </div>
+              {renderSectionChat("retention", "insight")}
             </div>
           </CardContent>
         </Card>
+
+        <Card className="border-stone-200 bg-white shadow-sm">
+          <CardHeader>
+            <CardTitle className="text-lg text-stone-900">7. 매출 목표 대비 실적</CardTitle>
+            <CardDescription>
+              대리점별로 등록한 월·연간 매출 목표(총매출, 제품군별)를 분석 기간의 실적과 비교합니다. 페이스는 경과 일수만큼 나눠 잡은 목표 대비 실적이며, 런레이트는 지금
+              일평균 매출이 기간 말까지 이어질 때의 예상 매출입니다.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-5">
+            <TargetTrackingPanel
+              agency={analysis?.agency ?? selectedAgency}
+              tracking={analysis?.targets ?? null}
+              categories={analysis?.categoryMix.all.map((stat) => stat.category) ?? []}
+              disabled={busy || !analysis}
+              onTargetsChanged={() => setTargetsRevision((revision) => revision + 1)}
+            />
+
+            <div className="rounded-xl border border-amber-300 bg-amber-50/60 p-4">
+              <p className="mb-2 text-sm font-semibold text-amber-900">7-1. 목표 달성 페이스 인사이트 (GPT Pro 활용)</p>
+              <div className="space-y-2 text-sm text-amber-950">
+                {targetPacingDefaultLines.map((line) => (
+                  <p key={line}>{line}</p>
+                ))}
+              </div>
+              <div className="mt-3">
+                <Button variant="secondary" disabled={busy || sectionPending("targets", "insight") || !analysis} onClick={() => triggerSingle("targets", "insight")}>
+                  {sectionPending("targets", "insight") ? <Loader2 className="h-4 w-4 animate-spin" /> : "인사이트 다시 생성"}
+                </Button>
+              </div>
+              {renderSectionChat("targets", "insight")}
+            </div>
+          </CardContent>
+        </Card>
+
+        {extraPresets.length > 0 ? (
+          <Card className="border-stone-200 bg-white shadow-sm">
+            <CardHeader>
+              <CardTitle className="text-lg text-stone-900">8. 추가 인사이트</CardTitle>
+              <CardDescription>인사이트 프리셋 카탈로그에서 추가된 프리셋입니다.</CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-4 xl:grid-cols-2">
+              {extraPresets.map((preset) => {
+                const pending = pendingPresetIds.includes(preset.id);
+                const messages = extraMessagesByPreset[preset.id] ?? [];
+                return (
+                  <div key={preset.id} className="rounded-xl border border-stone-300 bg-stone-50/60 p-4">
+                    <p className="mb-1 text-sm font-semibold text-stone-900">{preset.title}</p>
+                    <p className="text-sm text-muted-foreground">{preset.objective}</p>
+                    <div className="mt-3 space-y-2 text-sm">
+                      {messages.map((message, idx) => (
+                        <p key={`${preset.id}-${idx}`} className="rounded-md border bg-white px-3 py-2">
+                          {message.content}
+                        </p>
+                      ))}
+                      {pending ? (
+                        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <Loader2 className="h-3 w-3 animate-spin" /> AI 문구 생성 중...
+                        </p>
+                      ) : null}
+                    </div>
+                    <div className="mt-3 flex items-center justify-between">
+                      <Button variant="secondary" disabled={busy || pending || !analysis} onClick={() => analysis && void requestSinglePreset(preset, analysis)}>
+                        {pending ? <Loader2 className="h-4 w-4 animate-spin" /> : "다시 생성"}
+                      </Button>
+                      {messages[0]?.presetVersion ? <span className="text-xs text-muted-foreground">프리셋 v{messages[0].presetVersion}</span> : null}
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        ) : null}
+
+        <AgencyComparison
+          sessionId={sessionId}
+          agencies={agencies}
+          primaryAgency={selectedAgency}
+          benchmark={benchmark}
+          period={period}
+          comparisonMode={comparisonMode}
+        />
+
+        <AgencyLeaderboard sessionId={sessionId} period={period} selectedAgency={selectedAgency} onSelectAgency={openAgencyAnalysis} />
       </section>
     </main>
   );
@@ -9,6 +9,8 @@ interface GrowthCustomerScatterProps {
   points: GrowthScatterPoint[];
   averageGrowthMultiplier: number;
   averagePurchaseCount: number;
+  /** 점을 누르면 해당 고객의 상세를 연다. */
+  onSelectPoint?: (point: GrowthScatterPoint) => void;
 }
 
 interface ChartPoint extends GrowthScatterPoint {
@@ -21,7 +23,7 @@ function formatNumber(value: number): string {
   return Number.isFinite(value) ? value.toLocaleString("ko-KR") : "0";
 }
 
-export function GrowthCustomerScatter({ points, averageGrowthMultiplier, averagePurchaseCount }: GrowthCustomerScatterProps) {
+export function GrowthCustomerScatter({ points, averageGrowthMultiplier, averagePurchaseCount, onSelectPoint }: GrowthCustomerScatterProps) {
   const { selectedPoints, otherPoints, overRangeCount } = useMemo(() => {
     const chartPoints: ChartPoint[] = points.map((point) => ({
       ...point,
@@ -35,6 +37,14 @@ export function GrowthCustomerScatter({ points, averageGrowthMultiplier, average
     };
   }, [points]);
 
+  const handleClick = onSelectPoint
+    ? (item: { payload?: ChartPoint }) => {
+        if (item.payload) {
+          onSelectPoint(item.payload);
+        }
+      }
+    : undefined;
+
   if (points.length === 0) {
     return (
       <div className="flex h-[460px] items-center justify-center rounded-lg border bg-muted/40 text-sm text-muted-foreground">
@@ -90,6 +100,7 @@ export function GrowthCustomerScatter({ points, averageGrowthMultiplier, average
                   <p className="text-slate-700">성장률: {point.growthMultiplier.toFixed(2)}</p>
                   <p className="text-slate-700">구매횟수: {point.purchaseCount.toLocaleString("ko-KR")}</p>
                   <p className="text-slate-700">누적금액: {formatNumber(point.cumulativeAmount)}원</p>
+                  {onSelectPoint ? <p className="mt-1 text-slate-500">클릭하면 주문 상세를 엽니다.</p> : null}
                 </div>
               );
             }}
@@ -107,8 +118,8 @@ export function GrowthCustomerScatter({ points, averageGrowthMultiplier, average
             strokeDasharray="6 6"
           />
 
-          <Scatter name="기타" data={otherPoints} fill="#9ca3af" fillOpacity={0.75} />
-          <Scatter name="선택 대리점" data={selectedPoints} fill="#dc2626" fillOpacity={0.88} />
+          <Scatter name="기타" data={otherPoints} fill="#9ca3af" fillOpacity={0.75} onClick={handleClick} cursor={handleClick ? "pointer" : undefined} />
+          <Scatter name="선택 대리점" data={selectedPoints} fill="#dc2626" fillOpacity={0.88} onClick={handleClick} cursor={handleClick ? "pointer" : undefined} />
         </ScatterChart>
       </ResponsiveContainer>
     </div>
@@ -0,0 +1,93 @@
+"use client";
+
+import type { AssociationRule, MarketBasket } from "@/types/domain";
+
+interface MarketBasketRulesProps {
+  basket: MarketBasket | null;
+  agency: string;
+  benchmarkLabel: string;
+}
+
+function ruleLabel(antecedent: string[], consequent: string): string {
+  return `${antecedent.join(" + ")} → ${consequent}`;
+}
+
+function RuleTable({ title, rules, emptyText }: { title: string; rules: AssociationRule[]; emptyText: string }) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-semibold text-stone-900">{title}</p>
+      {rules.length === 0 ? (
+        <p className="rounded-md bg-muted/40 px-4 py-6 text-center text-sm text-muted-foreground">{emptyText}</p>
+      ) : (
+        <div className="overflow-auto rounded-lg border">
+          <table className="w-full min-w-[420px] border-collapse text-sm">
+            <thead className="bg-stone-100">
+              <tr className="text-left">
+                <th className="border-b px-3 py-2 font-semibold">조합</th>
+                <th className="border-b px-3 py-2 font-semibold">지지도</th>
+                <th className="border-b px-3 py-2 font-semibold">신뢰도</th>
+                <th className="border-b px-3 py-2 font-semibold">향상도</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => (
+                <tr key={ruleLabel(rule.antecedent, rule.consequent)}>
+                  <td className="border-b px-3 py-2">{ruleLabel(rule.antecedent, rule.consequent)}</td>
+                  <td className="border-b px-3 py-2">
+                    {rule.support.toFixed(1)}% <span className="text-xs text-muted-foreground">({rule.orderCount}건)</span>
+                  </td>
+                  <td className="border-b px-3 py-2">{rule.confidence.toFixed(1)}%</td>
+                  <td className="border-b px-3 py-2">{rule.lift.toFixed(2)}배</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function MarketBasketRules({ basket, agency, benchmarkLabel }: MarketBasketRulesProps) {
+  if (!basket) {
+    return <p className="rounded-md bg-muted/40 px-4 py-8 text-center text-sm text-muted-foreground">기본 데이터를 불러오면 함께 팔리는 제품군이 표시됩니다.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 xl:grid-cols-2">
+        <RuleTable
+          title={`${agency} (주문 ${basket.orderCount.toLocaleString("ko-KR")}건)`}
+          rules={basket.agencyRules}
+          emptyText={`${basket.minOrderCount}건 이상 함께 팔린 중분류 조합이 없습니다.`}
+        />
+        <RuleTable
+          title={`${benchmarkLabel} (주문 ${basket.benchmarkOrderCount.toLocaleString("ko-KR")}건)`}
+          rules={basket.benchmarkRules}
+          emptyText="비교 그룹에서 함께 팔리는 경향이 있는 조합이 없습니다."
+        />
+      </div>
+
+      <div className="rounded-xl border border-teal-300 bg-teal-50/60 p-4">
+        <p className="mb-2 text-sm font-semibold text-teal-900">놓치고 있는 조합 (Club 1000 대비)</p>
+        {basket.missingPairings.length === 0 ? (
+          <p className="text-sm text-teal-950">Club 1000에서 강하게 함께 팔리는 조합 중 {agency}에서 눈에 띄게 드문 조합은 없습니다.</p>
+        ) : (
+          <ul className="list-disc space-y-1 pl-5 text-sm text-teal-950">
+            {basket.missingPairings.map((pairing) => (
+              <li key={ruleLabel(pairing.antecedent, pairing.consequent)}>
+                <span className="font-medium">{ruleLabel(pairing.antecedent, pairing.consequent)}</span>: Club 1000 신뢰도 {pairing.clubConfidence.toFixed(1)}%
+                (향상도 {pairing.clubLift.toFixed(2)}배) / {agency} {pairing.agencyConfidence.toFixed(1)}% ({pairing.agencyAntecedentOrders}건 중{" "}
+                {pairing.agencyOrderCount}건) · 추가 제안 여지 약 {pairing.opportunityOrders}건
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        지지도: 전체 주문 중 조합 주문 비중 / 신뢰도: 왼쪽 제품군 주문 중 오른쪽 제품군도 함께 산 비중 / 향상도: 신뢰도를 오른쪽 제품군 단독 구매 비중으로 나눈 값(1보다
+        크면 함께 팔리는 경향). 비교 그룹은 선택 대리점을 제외한 주문을 합산합니다.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { Area, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+import { Button } from "@/components/ui/button";
+import type { ForecastSeries, SalesForecast } from "@/types/domain";
+
+interface MonthlyForecastChartProps {
+  forecast: SalesForecast | null;
+}
+
+type ForecastMetric = "sales" | "newProductQuantity";
+
+interface ChartRow {
+  month: string;
+  actual?: number;
+  forecast?: number;
+  band?: [number, number];
+}
+
+const METHOD_LABELS: Record<ForecastSeries["method"], string> = {
+  holtWinters: "Holt-Winters (12개월 계절성 + 추세)",
+  holt: "Holt 감쇠 추세 (24개월 미만이라 계절성 제외)"
+};
+
+function formatValue(metric: ForecastMetric, value: number): string {
+  return metric === "sales" ? `${Math.round(value / 10_000).toLocaleString("ko-KR")}만원` : `${Math.round(value).toLocaleString("ko-KR")}개`;
+}
+
+/** 실적 마지막 달에 예측선을 이어 붙여 점선이 실선에서 이어지도록 한다. */
+function chartRows(series: ForecastSeries): ChartRow[] {
+  const rows: ChartRow[] = series.history.map((point) => ({ month: point.month, actual: point.value }));
+  const last = rows[rows.length - 1];
+  if (last?.actual !== undefined) {
+    last.forecast = last.actual;
+    last.band = [last.actual, last.actual];
+  }
+  for (const point of series.forecast) {
+    rows.push({ month: point.month, forecast: point.value, band: [point.lower, point.upper] });
+  }
+  return rows;
+}
+
+export function MonthlyForecastChart({ forecast }: MonthlyForecastChartProps) {
+  const [metric, setMetric] = useState<ForecastMetric>("sales");
+  const series = forecast?.[metric] ?? null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Button variant={metric === "sales" ? "secondary" : "ghost"} size="sm" onClick={() => setMetric("sales")}>
+          총매출
+        </Button>
+        <Button variant={metric === "newProductQuantity" ? "secondary" : "ghost"} size="sm" onClick={() => setMetric("newProductQuantity")}>
+          신제품 판매 수량
+        </Button>
+      </div>
+
+      {!forecast || !series ? (
+        <p className="rounded-md bg-muted/40 px-4 py-8 text-center text-sm text-muted-foreground">월별 실적이 6개월 이상 있어야 전망을 계산할 수 있습니다.</p>
+      ) : (
+        <>
+          <div className="h-[320px] rounded-lg border p-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartRows(series)} margin={{ top: 12, right: 16, bottom: 4, left: 16 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e7e5e4" />
+                <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+                <YAxis
+                  tick={{ fontSize: 11 }}
+                  tickFormatter={(value: number) => (metric === "sales" ? `${Math.round(value / 10_000).toLocaleString("ko-KR")}만` : value.toLocaleString("ko-KR"))}
+                />
+                <Tooltip
+                  formatter={(value, name) =>
+                    Array.isArray(value)
+                      ? [`${formatValue(metric, Number(value[0]))} ~ ${formatValue(metric, Number(value[1]))}`, name]
+                      : [formatValue(metric, Number(value)), name]
+                  }
+                />
+                <Legend />
+                <Area dataKey="band" name={`${forecast.confidenceLevel}% 신뢰구간`} stroke="none" fill="#0f766e" fillOpacity={0.12} />
+                <Line dataKey="actual" name="실적" stroke="#0f766e" strokeWidth={2} dot={false} connectNulls={false} />
+                <Line dataKey="forecast" name="전망" stroke="#0f766e" strokeWidth={2} strokeDasharray="6 4" dot={{ r: 2 }} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid gap-2 text-sm md:grid-cols-3">
+            <div className="rounded-md border bg-white px-3 py-2">
+              <p className="text-xs text-muted-foreground">예측 방법</p>
+              <p className="font-medium text-stone-900">{METHOD_LABELS[series.method]}</p>
+            </div>
+            <div className="rounded-md border bg-white px-3 py-2">
+              <p className="text-xs text-muted-foreground">향후 {forecast.horizon}개월 전망 합계</p>
+              <p className="font-medium text-stone-900">{formatValue(metric, series.forecast.reduce((sum, point) => sum + point.value, 0))}</p>
+            </div>
+            <div className="rounded-md border bg-white px-3 py-2">
+              <p className="text-xs text-muted-foreground">백테스트 오차{series.backtest ? ` (최근 ${series.backtest.months}개월)` : ""}</p>
+              <p className="font-medium text-stone-900">
+                {series.backtest
+                  ? `MAPE ${series.backtest.mape === null ? "-" : `${series.backtest.mape.toFixed(1)}%`} · 평균 ${formatValue(metric, series.backtest.mae)}`
+                  : "이력이 짧아 계산하지 않음"}
+              </p>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            점선은 전망, 음영은 {forecast.confidenceLevel}% 신뢰구간입니다. 백테스트는 최근 몇 개월을 빼고 학습한 모형으로 그 기간을 맞춰 본 오차입니다.
+            {forecast.excludedPartialMonth ? ` ${forecast.excludedPartialMonth} 데이터는 아직 집계 중인 달로 보고 학습에서 제외했습니다.` : ""}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import type { RfmSegmentId, RfmSummary } from "@/types/domain";
+
+interface RfmSegmentMatrixProps {
+  rfm: RfmSummary | null;
+  benchmarkLabel: string;
+}
+
+const SEGMENT_COLORS: Record<RfmSegmentId, string> = {
+  champions: "bg-teal-100 text-teal-900",
+  loyal: "bg-emerald-50 text-emerald-900",
+  newCustomers: "bg-sky-100 text-sky-900",
+  potentialLoyalists: "bg-sky-50 text-sky-900",
+  cantLose: "bg-red-100 text-red-900",
+  atRisk: "bg-orange-100 text-orange-900",
+  needAttention: "bg-amber-50 text-amber-900",
+  hibernating: "bg-stone-100 text-stone-700",
+  lost: "bg-stone-200 text-stone-700"
+};
+
+function formatShare(value: number): string {
+  return `${value.toFixed(1)}%`;
+}
+
+function formatGap(value: number, benchmark: number): string {
+  const gap = value - benchmark;
+  return `${gap > 0 ? "+" : ""}${gap.toFixed(1)}%p`;
+}
+
+export function RfmSegmentMatrix({ rfm, benchmarkLabel }: RfmSegmentMatrixProps) {
+  if (!rfm || rfm.customerCount === 0) {
+    return (
+      <p className="rounded-md bg-muted/40 px-4 py-8 text-center text-sm text-muted-foreground">
+        주문일자가 있는 고객 데이터를 불러오면 RFM 세그먼트가 표시됩니다.
+      </p>
+    );
+  }
+
+  const labelBySegment = new Map(rfm.segments.map((segment) => [segment.segment, segment.label]));
+
+  return (
+    <div className="grid gap-4 xl:grid-cols-[minmax(0,5fr)_minmax(0,6fr)]">
+      <div className="space-y-2">
+        <div className="grid grid-cols-[2.5rem_repeat(5,minmax(0,1fr))] gap-1 text-xs">
+          <div />
+          {[1, 2, 3, 4, 5].map((score) => (
+            <div key={`fm-${score}`} className="text-center font-semibold text-muted-foreground">
+              FM {score}
+            </div>
+          ))}
+          {[5, 4, 3, 2, 1].map((recencyScore) => (
+            <div key={`r-${recencyScore}`} className="contents">
+              <div className="flex items-center font-semibold text-muted-foreground">R {recencyScore}</div>
+              {rfm.matrix
+                .filter((cell) => cell.recencyScore === recencyScore)
+                .map((cell) => (
+                  <div
+                    key={`${cell.recencyScore}-${cell.frequencyMonetaryScore}`}
+                    className={`rounded-md px-1.5 py-2 text-center ${SEGMENT_COLORS[cell.segment]}`}
+                    title={`${labelBySegment.get(cell.segment)} · ${benchmarkLabel} ${formatShare(cell.benchmarkCustomerShare)}`}
+                  >
+                    <p className="text-sm font-semibold">{cell.customerCount.toLocaleString("ko-KR")}</p>
+                    <p className="text-[10px]">{formatShare(cell.customerShare)}</p>
+                  </div>
+                ))}
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          R: 최근성 점수(5가 최근) / FM: 구매횟수·구매금액 점수 평균. 칸의 숫자는 고객 수와 비중이며, 마우스를 올리면 {benchmarkLabel} 비중이 보입니다. 기준일{" "}
+          {rfm.referenceDate ?? "-"}.
+        </p>
+      </div>
+
+      <div className="overflow-auto rounded-lg border">
+        <table className="w-full min-w-[560px] border-collapse text-sm">
+          <thead className="bg-stone-100">
+            <tr className="text-left">
+              <th className="border-b px-3 py-2 font-semibold">세그먼트</th>
+              <th className="border-b px-3 py-2 font-semibold">고객 수 (비중)</th>
+              <th className="border-b px-3 py-2 font-semibold">매출 비중</th>
+              <th className="border-b px-3 py-2 font-semibold">{benchmarkLabel} 대비</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rfm.segments.map((segment) => (
+              <tr key={segment.segment}>
+                <td className="border-b px-3 py-2">
+                  <span className={`rounded px-1.5 py-0.5 text-xs font-semibold ${SEGMENT_COLORS[segment.segment]}`}>{segment.label}</span>
+                </td>
+                <td className="border-b px-3 py-2">
+                  {segment.customerCount.toLocaleString("ko-KR")}명 ({formatShare(segment.customerShare)})
+                </td>
+                <td className="border-b px-3 py-2">{formatShare(segment.revenueShare)}</td>
+                <td className="border-b px-3 py-2 text-xs text-muted-foreground">
+                  고객 {formatGap(segment.customerShare, segment.benchmarkCustomerShare)} · 매출 {formatGap(segment.revenueShare, segment.benchmarkRevenueShare)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="px-3 py-2 text-xs text-muted-foreground">
+          {benchmarkLabel}: 비교 대리점 {rfm.benchmarkAgencyCount}곳의 대리점별 비중 평균 (선택 대리점 제외)
+        </p>
+      </div>
+    </div>
+  );
+}
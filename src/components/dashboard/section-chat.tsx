@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, Lock, LockOpen } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { InsightMessage } from "@/types/domain";
+
+interface SectionChatProps {
+  messages: InsightMessage[];
+  /** 리포트 내보내기에 고정된 문장. null이면 최신 AI 코멘트를 사용한다. */
+  locked: string[] | null;
+  /** 이 섹션의 AI 문구를 생성(스트리밍) 중인지 여부. */
+  loading: boolean;
+  disabled: boolean;
+  onRevise: (instruction: string) => Promise<void>;
+  onLock: () => void;
+  onUnlock: () => void;
+}
+
+export function SectionChat({ messages, locked, loading, disabled, onRevise, onLock, onUnlock }: SectionChatProps) {
+  const [instruction, setInstruction] = useState("");
+  const [sending, setSending] = useState(false);
+  const hasAssistant = messages.some((message) => message.role === "assistant");
+
+  async function submit() {
+    const trimmed = instruction.trim();
+    if (!trimmed) {
+      return;
+    }
+    setSending(true);
+    try {
+      await onRevise(trimmed);
+      setInstruction("");
+    } finally {
+      setSending(false);
+    }
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      {messages.map((msg, idx) => (
+        <div
+          key={`${msg.role}-${idx}`}
+          className={`rounded-md border px-3 py-2 text-sm ${msg.role === "user" ? "ml-6 border-dashed bg-stone-50" : "bg-white"}`}
+        >
+          <p className="mb-1 text-xs font-semibold text-muted-foreground">{msg.role === "assistant" ? "AI" : "사용자"}</p>
+          <p>{msg.content}</p>
+        </div>
+      ))}
+
+      {loading ? (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" /> AI 문구 생성 중...
+        </p>
+      ) : null}
+
+      {locked ? (
+        <div className="rounded-md border border-teal-300 bg-teal-50 px-3 py-2 text-sm">
+          <div className="mb-1 flex items-center justify-between">
+            <p className="text-xs font-semibold text-teal-800">리포트 확정 문구</p>
+            <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={onUnlock}>
+              <LockOpen className="h-3 w-3" /> 확정 해제
+            </Button>
+          </div>
+          {locked.map((line, idx) => (
+            <p key={`locked-${idx}`}>{line}</p>
+          ))}
+        </div>
+      ) : null}
+
+      {hasAssistant && !locked && !loading ? (
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            void submit();
+          }}
+        >
+          <Input
+            value={instruction}
+            onChange={(event) => setInstruction(event.target.value)}
+            placeholder='수정 요청 (예: "수성구 지역 공략을 더 강조해줘")'
+            disabled={disabled || sending}
+            maxLength={500}
+          />
+          <Button type="submit" variant="secondary" disabled={disabled || sending || !instruction.trim()}>
+            {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : "수정 요청"}
+          </Button>
+          <Button type="button" variant="ghost" className="gap-1" disabled={disabled || sending} onClick={onLock}>
+            <Lock className="h-3 w-3" /> 확정
+          </Button>
+        </form>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { TargetProgress, TargetTracking } from "@/types/domain";
+
+interface TargetTrackingPanelProps {
+  agency: string;
+  tracking: TargetTracking | null;
+  categories: string[];
+  disabled: boolean;
+  /** 목표를 저장하면 분석을 다시 불러오도록 알린다. */
+  onTargetsChanged: () => void;
+}
+
+function manwon(value: number): string {
+  return `${Math.round(value / 10_000).toLocaleString("ko-KR")}만원`;
+}
+
+function paceClass(pace: number): string {
+  return pace >= 100 ? "text-emerald-700" : pace >= 90 ? "text-amber-700" : "text-red-700";
+}
+
+function progressTiles(progress: TargetProgress) {
+  const finished = progress.remainingDays === 0;
+  return [
+    { label: "달성률", value: `${progress.attainment.toFixed(1)}%`, detail: `${manwon(progress.actual)} / ${manwon(progress.target)}` },
+    { label: "페이스 (기준일까지 목표 대비)", value: `${progress.pace.toFixed(1)}%`, detail: `기준일까지 목표 ${manwon(progress.targetToDate)}`, pace: progress.pace },
+    {
+      label: finished ? "최종 실적" : "런레이트 예상 (기간 말)",
+      value: manwon(progress.runRateProjection),
+      detail: progress.projectedGap <= 0 ? `목표보다 ${manwon(-progress.projectedGap)} 많음` : `목표보다 ${manwon(progress.projectedGap)} 부족`
+    },
+    { label: "목표까지 남은 금액", value: manwon(Math.max(progress.gapToTarget, 0)), detail: progress.gapToTarget <= 0 ? "목표 달성" : "기간 목표 - 현재 실적" }
+  ];
+}
+
+export function TargetTrackingPanel({ agency, tracking, categories, disabled, onTargetsChanged }: TargetTrackingPanelProps) {
+  const [period, setPeriod] = useState("");
+  const [category, setCategory] = useState("");
+  const [amount, setAmount] = useState("");
+  const [adminToken, setAdminToken] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit(request: () => Promise<Response>, success: (count: number) => string) {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await request();
+      const payload = (await response.json()) as { targets?: unknown[]; error?: string };
+      if (!response.ok || !payload.targets) {
+        throw new Error(payload.error || "목표 저장 실패");
+      }
+      setNotice(success(payload.targets.length));
+      onTargetsChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "목표 저장 실패");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function authHeaders(): Record<string, string> {
+    return adminToken.trim() ? { Authorization: `Bearer ${adminToken.trim()}` } : {};
+  }
+
+  function saveTarget() {
+    const value = Number(amount.replace(/,/g, ""));
+    void submit(
+      () =>
+        fetch("/api/targets", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authHeaders() },
+          body: JSON.stringify({ targets: [{ agency, category: category || null, period: period.trim(), amount: value }] })
+        }),
+      () => `${agency} ${category || "총매출"} ${period.trim()} 목표를 저장했습니다.`
+    );
+  }
+
+  function uploadTargets(file: File) {
+    const formData = new FormData();
+    formData.append("targets", file);
+    void submit(
+      () => fetch("/api/targets/upload", { method: "POST", headers: authHeaders(), body: formData }),
+      (count) => `목표 ${count}건을 반영했습니다.`
+    );
+  }
+
+  const chartRows = tracking?.months.map((month) => ({ month: month.month, actual: month.actual, target: month.target ?? undefined })) ?? [];
+
+  return (
+    <div className="space-y-4">
+      {!tracking ? (
+        <p className="rounded-md bg-muted/40 px-4 py-8 text-center text-sm text-muted-foreground">
+          분석 기간에 해당하는 {agency} 매출 목표가 없습니다. 아래에서 월(YYYY-MM) 또는 연간(YYYY) 목표를 입력하거나 목표 파일을 올려주세요.
+        </p>
+      ) : (
+        <>
+          {tracking.total ? (
+            <>
+              <div className="grid gap-2 text-sm md:grid-cols-4">
+                {progressTiles(tracking.total).map((tile) => (
+                  <div key={tile.label} className="rounded-md border bg-white px-3 py-2">
+                    <p className="text-xs text-muted-foreground">{tile.label}</p>
+                    <p className={`font-semibold ${tile.pace === undefined ? "text-stone-900" : paceClass(tile.pace)}`}>{tile.value}</p>
+                    <p className="text-xs text-muted-foreground">{tile.detail}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="h-[300px] rounded-lg border p-2">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chartRows} margin={{ top: 12, right: 16, bottom: 4, left: 16 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e7e5e4" />
+                    <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+                    <YAxis tick={{ fontSize: 11 }} tickFormatter={(value: number) => `${Math.round(value / 10_000).toLocaleString("ko-KR")}만`} />
+                    <Tooltip formatter={(value, name) => [manwon(Number(value)), name]} />
+                    <Legend />
+                    <Bar dataKey="actual" name="실적" fill="#0f766e" radius={[4, 4, 0, 0]} />
+                    <Line dataKey="target" name="목표" stroke="#b45309" strokeWidth={2} strokeDasharray="6 4" dot={{ r: 3 }} connectNulls={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </>
+          ) : null}
+
+          {tracking.categories.length > 0 ? (
+            <div className="overflow-auto rounded-lg border">
+              <table className="w-full min-w-[640px] border-collapse text-sm">
+                <thead className="bg-stone-100">
+                  <tr className="text-left">
+                    <th className="border-b px-3 py-2 font-semibold">제품군</th>
+                    <th className="border-b px-3 py-2 font-semibold">목표</th>
+                    <th className="border-b px-3 py-2 font-semibold">실적</th>
+                    <th className="border-b px-3 py-2 font-semibold">달성률</th>
+                    <th className="border-b px-3 py-2 font-semibold">페이스</th>
+                    <th className="border-b px-3 py-2 font-semibold">런레이트 예상</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {tracking.categories.map((item) => (
+                    <tr key={item.category}>
+                      <td className="border-b px-3 py-2 font-medium text-stone-900">{item.category}</td>
+                      <td className="border-b px-3 py-2">{manwon(item.target)}</td>
+                      <td className="border-b px-3 py-2">{manwon(item.actual)}</td>
+                      <td className="border-b px-3 py-2">{item.attainment.toFixed(1)}%</td>
+                      <td className={`border-b px-3 py-2 font-semibold ${paceClass(item.pace)}`}>{item.pace.toFixed(1)}%</td>
+                      <td className="border-b px-3 py-2">{manwon(item.runRateProjection)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+
+          <p className="text-xs text-muted-foreground">
+            {tracking.from} ~ {tracking.to} 기준, 기준일 {tracking.asOf} ({tracking.totalDays}일 중 {tracking.elapsedDays}일 경과). 월 목표가 없으면 연간 목표의 1/12을
+            쓰고, 기간이 달의 일부만 걸치면 일수 비율로 나눕니다. 페이스는 기준일까지 나눠 잡은 목표 대비 실적입니다.
+          </p>
+        </>
+      )}
+
+      <form
+        className="flex flex-wrap items-center gap-2 rounded-lg border bg-stone-50 p-3"
+        onSubmit={(event) => {
+          event.preventDefault();
+          saveTarget();
+        }}
+      >
+        <Input className="w-32" value={period} onChange={(event) => setPeriod(event.target.value)} placeholder="2025-03 / 2025" disabled={disabled || saving} />
+        <select
+          className="h-9 rounded-md border bg-white px-2 text-sm"
+          value={category}
+          onChange={(event) => setCategory(event.target.value)}
+          disabled={disabled || saving}
+        >
+          <option value="">총매출</option>
+          {categories.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <Input className="w-40" value={amount} onChange={(event) => setAmount(event.target.value)} placeholder="목표금액 (원)" inputMode="numeric" disabled={disabled || saving} />
+        <Input
+          className="w-36"
+          type="password"
+          value={adminToken}
+          onChange={(event) => setAdminToken(event.target.value)}
+          placeholder="관리자 토큰"
+          autoComplete="off"
+          disabled={disabled || saving}
+        />
+        <Button type="submit" variant="secondary" disabled={disabled || saving || !period.trim() || !amount.trim()}>
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : "목표 저장"}
+        </Button>
+        <label className="ml-auto text-xs text-muted-foreground">
+          목표 파일 (대리점·기간·목표금액, 선택: 중분류)
+          <input
+            type="file"
+            accept=".csv,.xlsx"
+            className="ml-2 text-xs"
+            disabled={disabled || saving}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = "";
+              if (file) {
+                uploadTargets(file);
+              }
+            }}
+          />
+        </label>
+      </form>
+      {notice ? <p className="text-xs text-emerald-700">{notice}</p> : null}
+      {error ? <p className="text-xs text-red-700">{error}</p> : null}
+    </div>
+  );
+}
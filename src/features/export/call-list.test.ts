@@ -0,0 +1,41 @@
+import Papa from "papaparse";
+import { describe, expect, it } from "vitest";
+
+import { renderCallListCsv } from "@/features/export/call-list";
+import type { CustomerRecommendation } from "@/types/domain";
+
+function recommendation(overrides: Partial<CustomerRecommendation>): CustomerRecommendation {
+  return {
+    bizNo: "1234567890",
+    customerName: "고객",
+    agency: "DM신",
+    industryMajor: "교육",
+    purchaseCount: 2,
+    cumulativeAmount: 2000.4,
+    averageOrderAmount: 1000.2,
+    orderSizeBand: 1,
+    lastOrderDate: "2024-05-01",
+    ownedCategories: ["책상", "의자"],
+    recommendations: [],
+    ...overrides
+  };
+}
+
+describe("renderCallListCsv", () => {
+  it("BOM을 붙이고 추천 열을 3개까지 채운다", () => {
+    const csv = renderCallListCsv([recommendation({})]);
+    expect(csv.startsWith("\uFEFF")).toBe(true);
+
+    const [header, row] = Papa.parse<string[]>(csv.slice(1)).data;
+    expect(header).toHaveLength(9 + 3 * 4);
+    expect(row.slice(0, 9)).toEqual(["1", "고객", "1234567890", "교육", "2", "2000", "1000", "2024-05-01", "책상, 의자"]);
+  });
+
+  it("수식으로 해석될 수 있는 문자열 셀 앞에 '를 붙인다", () => {
+    const csv = renderCallListCsv([recommendation({ customerName: '=HYPERLINK("http://x")', bizNo: "-1", industryMajor: "@SUM(A1)", ownedCategories: ["+책상"] })]);
+    const [, row] = Papa.parse<string[]>(csv.slice(1)).data;
+
+    expect(row.slice(1, 4)).toEqual(["'=HYPERLINK(\"http://x\")", "'-1", "'@SUM(A1)"]);
+    expect(row[8]).toBe("'+책상");
+  });
+});
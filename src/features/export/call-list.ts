@@ -0,0 +1,48 @@
+import Papa from "papaparse";
+
+import { recommendationReasons } from "@/features/metrics/recommend";
+import type { CustomerRecommendation } from "@/types/domain";
+
+const RECOMMENDATION_COLUMNS = 3;
+
+/**
+ * 영업 담당자용 추천 콜 리스트. 엑셀에서 한글이 깨지지 않도록 BOM을 붙이고,
+ * 고객명 등 업로드 값이 =, +, -, @로 시작하면 수식으로 실행되지 않게 '를 앞에 붙인다.
+ */
+export function renderCallListCsv(customers: CustomerRecommendation[]): string {
+  const header = ["순위", "고객명", "사업자번호", "업종 대분류", "구매횟수", "누적 구매금액", "평균 주문금액", "최근 주문일", "구매 제품군"];
+  for (let index = 1; index <= RECOMMENDATION_COLUMNS; index += 1) {
+    header.push(`추천${index} 제품군`, `추천${index} 점수`, `추천${index} 예상 매출`, `추천${index} 근거`);
+  }
+
+  const rows = customers.map((customer, index) => {
+    const row: Array<string | number> = [
+      index + 1,
+      customer.customerName,
+      customer.bizNo,
+      customer.industryMajor,
+      customer.purchaseCount,
+      Math.round(customer.cumulativeAmount),
+      Math.round(customer.averageOrderAmount),
+      customer.lastOrderDate ?? "",
+      customer.ownedCategories.join(", ")
+    ];
+    for (let slot = 0; slot < RECOMMENDATION_COLUMNS; slot += 1) {
+      const recommendation = customer.recommendations[slot];
+      row.push(
+        recommendation?.category ?? "",
+        recommendation ? Number(recommendation.score.toFixed(1)) : "",
+        recommendation ? Math.round(recommendation.expectedSales) : "",
+        recommendation ? recommendationReasons(recommendation).join(" / ") : ""
+      );
+    }
+    return row;
+  });
+
+  return `\uFEFF${Papa.unparse([header, ...rows], { escapeFormulae: true })}`;
+}
+
+export function callListFileName(agency: string, date = new Date()): string {
+  const stamp = date.toISOString().slice(0, 10).replace(/-/g, "");
+  return `${agency}_추천_콜리스트_${stamp}.csv`;
+}
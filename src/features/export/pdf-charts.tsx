@@ -0,0 +1,281 @@
+import { Circle, G, Line, Polygon, Polyline, Rect, Svg, Text } from "@react-pdf/renderer";
+
+import { REPORT_FONT_FAMILY } from "@/features/export/pdf-fonts";
+import type { ForecastPoint, GrowthScatterSummary, MonthlyNewProduct, RegionStat } from "@/types/domain";
+
+const AXIS_COLOR = "#94a3b8";
+const GRID_COLOR = "#e5e7eb";
+const LABEL_COLOR = "#475569";
+const OVERALL_COLOR = "#9ca3af";
+const SELECTED_COLOR = "#dc2626";
+const MAX_GROWTH_MULTIPLIER = 70;
+
+function compactAmount(value: number): string {
+  if (value >= 100_000_000) {
+    return `${(value / 100_000_000).toFixed(1)}억`;
+  }
+  if (value >= 10_000) {
+    return `${Math.round(value / 10_000).toLocaleString("ko-KR")}만`;
+  }
+  return value.toLocaleString("ko-KR");
+}
+
+function truncateLabel(label: string, maxLength: number): string {
+  return label.length > maxLength ? `${label.slice(0, maxLength - 1)}…` : label;
+}
+
+interface RegionShareChartProps {
+  overallStats: RegionStat[];
+  agencyStats: RegionStat[];
+  width: number;
+  limit?: number;
+}
+
+/**
+ * 대시보드의 Leaflet 지도를 대신하는 정적 지역 비중 막대 차트.
+ * 선택 대리점 상위 지역마다 B2B 전체 비중(회색)과 대리점 비중(빨간색)을 나란히 그린다.
+ */
+export function RegionShareChart({ overallStats, agencyStats, width, limit = 8 }: RegionShareChartProps) {
+  const rows = agencyStats.slice(0, limit);
+  const overallShareByRegion = new Map(overallStats.map((stat) => [stat.region, stat.share]));
+  const labelWidth = 130;
+  const valueWidth = 44;
+  const rowHeight = 22;
+  const barAreaWidth = width - labelWidth - valueWidth;
+  const height = Math.max(rows.length, 1) * rowHeight + 24;
+  const maxShare = Math.max(
+    ...rows.map((row) => row.share),
+    ...rows.map((row) => overallShareByRegion.get(row.region) ?? 0),
+    1
+  );
+
+  return (
+    <Svg width={width} height={height}>
+      {rows.map((row, index) => {
+        const y = index * rowHeight + 4;
+        const overallShare = overallShareByRegion.get(row.region) ?? 0;
+        const agencyBarWidth = (row.share / maxShare) * barAreaWidth;
+        const overallBarWidth = (overallShare / maxShare) * barAreaWidth;
+
+        return (
+          <G key={row.region}>
+            <Text x={0} y={y + 11} fill={LABEL_COLOR} style={{ fontSize: 8, fontFamily: REPORT_FONT_FAMILY }}>
+              {truncateLabel(row.region, 16)}
+            </Text>
+            <Rect x={labelWidth} y={y} width={Math.max(overallBarWidth, 0.5)} height={7} fill={OVERALL_COLOR} />
+            <Rect x={labelWidth} y={y + 8} width={Math.max(agencyBarWidth, 0.5)} height={7} fill={SELECTED_COLOR} />
+            <Text
+              x={width - valueWidth + 4}
+              y={y + 14}
+              fill={LABEL_COLOR}
+              style={{ fontSize: 8, fontFamily: REPORT_FONT_FAMILY }}
+            >
+              {`${row.share.toFixed(1)}%`}
+            </Text>
+          </G>
+        );
+      })}
+      <Rect x={labelWidth} y={height - 14} width={8} height={6} fill={OVERALL_COLOR} />
+      <Text x={labelWidth + 12} y={height - 8} fill={LABEL_COLOR} style={{ fontSize: 7, fontFamily: REPORT_FONT_FAMILY }}>
+        B2B 전체 비중
+      </Text>
+      <Rect x={labelWidth + 80} y={height - 14} width={8} height={6} fill={SELECTED_COLOR} />
+      <Text x={labelWidth + 92} y={height - 8} fill={LABEL_COLOR} style={{ fontSize: 7, fontFamily: REPORT_FONT_FAMILY }}>
+        선택 대리점 비중
+      </Text>
+    </Svg>
+  );
+}
+
+interface GrowthScatterChartProps {
+  scatter: GrowthScatterSummary;
+  width: number;
+  height: number;
+}
+
+/** 대시보드 성장 가능 고객 버블 차트와 같은 축(성장률 0~70, 구매횟수)을 쓰는 정적 산점도. */
+export function GrowthScatterChart({ scatter, width, height }: GrowthScatterChartProps) {
+  const padding = { top: 10, right: 12, bottom: 26, left: 32 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const maxPurchase = Math.max(...scatter.points.map((point) => point.purchaseCount), scatter.averagePurchaseCount, 1);
+  const maxAmount = Math.max(...scatter.points.map((point) => point.cumulativeAmount), 1);
+
+  const toX = (value: number) => padding.left + (Math.min(value, MAX_GROWTH_MULTIPLIER) / MAX_GROWTH_MULTIPLIER) * plotWidth;
+  const toY = (value: number) => padding.top + plotHeight - (value / maxPurchase) * plotHeight;
+  const toRadius = (amount: number) => 1.5 + Math.sqrt(amount / maxAmount) * 9;
+
+  const others = scatter.points.filter((point) => !point.isSelectedAgency);
+  const selected = scatter.points.filter((point) => point.isSelectedAgency);
+  const xTicks = [0, 10, 20, 30, 40, 50, 60, 70];
+  const yTicks = Array.from(new Set([0, Math.round(maxPurchase / 2), maxPurchase]));
+
+  return (
+    <Svg width={width} height={height}>
+      {xTicks.map((tick) => (
+        <G key={`x-${tick}`}>
+          <Line x1={toX(tick)} y1={padding.top} x2={toX(tick)} y2={padding.top + plotHeight} stroke={GRID_COLOR} strokeWidth={0.5} />
+          <Text
+            x={toX(tick)}
+            y={padding.top + plotHeight + 10}
+            fill={LABEL_COLOR}
+            textAnchor="middle"
+            style={{ fontSize: 7, fontFamily: REPORT_FONT_FAMILY }}
+          >
+            {String(tick)}
+          </Text>
+        </G>
+      ))}
+      {yTicks.map((tick) => (
+        <G key={`y-${tick}`}>
+          <Line x1={padding.left} y1={toY(tick)} x2={padding.left + plotWidth} y2={toY(tick)} stroke={GRID_COLOR} strokeWidth={0.5} />
+          <Text x={padding.left - 4} y={toY(tick) + 3} fill={LABEL_COLOR} textAnchor="end" style={{ fontSize: 7, fontFamily: REPORT_FONT_FAMILY }}>
+            {String(tick)}
+          </Text>
+        </G>
+      ))}
+      <Line
+        x1={padding.left}
+        y1={padding.top + plotHeight}
+        x2={padding.left + plotWidth}
+        y2={padding.top + plotHeight}
+        stroke={AXIS_COLOR}
+        strokeWidth={0.8}
+      />
+      <Line x1={padding.left} y1={padding.top} x2={padding.left} y2={padding.top + plotHeight} stroke={AXIS_COLOR} strokeWidth={0.8} />
+
+      {others.map((point) => (
+        <Circle
+          key={`other-${point.agency}-${point.bizNo}`}
+          cx={toX(point.growthMultiplier)}
+          cy={toY(point.purchaseCount)}
+          r={toRadius(point.cumulativeAmount)}
+          fill={OVERALL_COLOR}
+          fillOpacity={0.45}
+        />
+      ))}
+      {selected.map((point) => (
+        <Circle
+          key={`selected-${point.bizNo}`}
+          cx={toX(point.growthMultiplier)}
+          cy={toY(point.purchaseCount)}
+          r={toRadius(point.cumulativeAmount)}
+          fill={SELECTED_COLOR}
+          fillOpacity={0.75}
+        />
+      ))}
+
+      <Line
+        x1={toX(scatter.averageGrowthMultiplier)}
+        y1={padding.top}
+        x2={toX(scatter.averageGrowthMultiplier)}
+        y2={padding.top + plotHeight}
+        stroke="#2563eb"
+        strokeWidth={0.8}
+        strokeDasharray="4 3"
+      />
+      <Line
+        x1={padding.left}
+        y1={toY(scatter.averagePurchaseCount)}
+        x2={padding.left + plotWidth}
+        y2={toY(scatter.averagePurchaseCount)}
+        stroke="#ef4444"
+        strokeWidth={0.8}
+        strokeDasharray="4 3"
+      />
+      <Text
+        x={padding.left + plotWidth / 2}
+        y={height - 2}
+        fill={LABEL_COLOR}
+        textAnchor="middle"
+        style={{ fontSize: 7, fontFamily: REPORT_FONT_FAMILY }}
+      >
+        최초주문금액 대비 누적금액 성장률 / 세로: 구매횟수 / 원 크기: 누적금액
+      </Text>
+    </Svg>
+  );
+}
+
+interface MonthlyNewProductChartProps {
+  rows: MonthlyNewProduct[];
+  /** 신제품 판매 수량 전망. 실적 마지막 달 이후만 점선으로 이어 그린다. */
+  forecast?: ForecastPoint[];
+  width: number;
+  height: number;
+}
+
+/** 월별 신제품 판매 수량 추이 라인 차트. */
+export function MonthlyNewProductChart({ rows, forecast = [], width, height }: MonthlyNewProductChartProps) {
+  const padding = { top: 12, right: 12, bottom: 22, left: 36 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const lastMonth = rows[rows.length - 1]?.month ?? "";
+  const future = rows.length > 0 ? forecast.filter((point) => point.month > lastMonth) : [];
+  const labels = [...rows.map((row) => row.month), ...future.map((point) => point.month)];
+  const maxQuantity = Math.max(...rows.map((row) => row.quantity), ...future.map((point) => point.upper), 1);
+  const step = labels.length > 1 ? plotWidth / (labels.length - 1) : 0;
+
+  const toX = (index: number) => padding.left + (labels.length > 1 ? index * step : plotWidth / 2);
+  const toY = (value: number) => padding.top + plotHeight - (value / maxQuantity) * plotHeight;
+  const labelEvery = Math.max(1, Math.ceil(labels.length / 8));
+  const points = rows.map((row, index) => `${toX(index)},${toY(row.quantity)}`).join(" ");
+
+  const lastIndex = rows.length - 1;
+  const anchor = rows.length > 0 ? `${toX(lastIndex)},${toY(rows[lastIndex].quantity)}` : "";
+  const forecastPoints = [anchor, ...future.map((point, index) => `${toX(lastIndex + index + 1)},${toY(point.value)}`)].join(" ");
+  const bandPoints = [
+    anchor,
+    ...future.map((point, index) => `${toX(lastIndex + index + 1)},${toY(point.upper)}`),
+    ...future.map((point, index) => `${toX(lastIndex + index + 1)},${toY(point.lower)}`).reverse()
+  ].join(" ");
+
+  return (
+    <Svg width={width} height={height}>
+      {[0, 0.5, 1].map((ratio) => (
+        <G key={`grid-${ratio}`}>
+          <Line
+            x1={padding.left}
+            y1={toY(maxQuantity * ratio)}
+            x2={padding.left + plotWidth}
+            y2={toY(maxQuantity * ratio)}
+            stroke={GRID_COLOR}
+            strokeWidth={0.5}
+          />
+          <Text
+            x={padding.left - 4}
+            y={toY(maxQuantity * ratio) + 3}
+            fill={LABEL_COLOR}
+            textAnchor="end"
+            style={{ fontSize: 7, fontFamily: REPORT_FONT_FAMILY }}
+          >
+            {compactAmount(Math.round(maxQuantity * ratio))}
+          </Text>
+        </G>
+      ))}
+      {future.length > 0 ? (
+        <G>
+          <Polygon points={bandPoints} fill="#0f766e" fillOpacity={0.12} />
+          <Polyline points={forecastPoints} fill="none" stroke="#0f766e" strokeWidth={1.4} strokeDasharray="4 3" />
+        </G>
+      ) : null}
+      {rows.length > 1 ? <Polyline points={points} fill="none" stroke="#0f766e" strokeWidth={1.4} /> : null}
+      {rows.map((row, index) => (
+        <Circle key={row.month} cx={toX(index)} cy={toY(row.quantity)} r={2} fill="#0f766e" />
+      ))}
+      {labels.map((label, index) =>
+        index % labelEvery === 0 || index === labels.length - 1 ? (
+          <Text
+            key={label}
+            x={toX(index)}
+            y={padding.top + plotHeight + 12}
+            fill={index > lastIndex ? AXIS_COLOR : LABEL_COLOR}
+            textAnchor="middle"
+            style={{ fontSize: 7, fontFamily: REPORT_FONT_FAMILY }}
+          >
+            {label}
+          </Text>
+        ) : null
+      )}
+    </Svg>
+  );
+}
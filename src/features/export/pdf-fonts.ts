@@ -0,0 +1,27 @@
+import path from "node:path";
+import { Font } from "@react-pdf/renderer";
+
+export const REPORT_FONT_FAMILY = "Pretendard";
+
+const FONT_DIR = path.join(process.cwd(), "node_modules", "pretendard", "dist", "public", "static", "alternative");
+
+let registered = false;
+
+export function registerReportFonts() {
+  if (registered) {
+    return;
+  }
+
+  Font.register({
+    family: REPORT_FONT_FAMILY,
+    fonts: [
+      { src: path.join(FONT_DIR, "Pretendard-Regular.ttf"), fontWeight: 400 },
+      { src: path.join(FONT_DIR, "Pretendard-SemiBold.ttf"), fontWeight: 600 },
+      { src: path.join(FONT_DIR, "Pretendard-Bold.ttf"), fontWeight: 700 }
+    ]
+  });
+
+  // 한글은 어절 단위로 줄바꿈되도록 하이픈 분절을 끈다.
+  Font.registerHyphenationCallback((word) => [word]);
+  registered = true;
+}
@@ -0,0 +1,15 @@
+import { renderToBuffer } from "@react-pdf/renderer";
+
+import { registerReportFonts } from "@/features/export/pdf-fonts";
+import { SalesReportDocument, type ReportComments } from "@/features/export/report-document";
+import type { AnalysisResult } from "@/types/domain";
+
+export async function renderSalesReportPdf(analysis: AnalysisResult, comments: ReportComments = {}): Promise<Buffer> {
+  registerReportFonts();
+  return renderToBuffer(<SalesReportDocument analysis={analysis} comments={comments} generatedAt={new Date()} />);
+}
+
+export function reportFileName(agency: string, date = new Date()): string {
+  const stamp = date.toISOString().slice(0, 10).replace(/-/g, "");
+  return `${agency}_등록고객_보고서_${stamp}.pdf`;
+}
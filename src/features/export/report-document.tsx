@@ -0,0 +1,343 @@
+import { Document, Page, StyleSheet, Text, View } from "@react-pdf/renderer";
+
+import { GrowthScatterChart, MonthlyNewProductChart, RegionShareChart } from "@/features/export/pdf-charts";
+import { REPORT_FONT_FAMILY } from "@/features/export/pdf-fonts";
+import type { AnalysisResult, CategoryMixStat, ComparisonMode, ForecastSeries, RegionOpportunityStat } from "@/types/domain";
+
+export type ReportSectionId = "geo" | "region" | "regionCommon" | "growth" | "monthly" | "weakProduct" | "strongProduct";
+
+export interface ReportSectionComments {
+  interpretation?: string[];
+  insight?: string[];
+}
+
+export type ReportComments = Partial<Record<ReportSectionId, ReportSectionComments>>;
+
+interface SalesReportDocumentProps {
+  analysis: AnalysisResult;
+  comments: ReportComments;
+  generatedAt: Date;
+}
+
+const CONTENT_WIDTH = 515;
+
+const styles = StyleSheet.create({
+  page: {
+    paddingTop: 36,
+    paddingBottom: 40,
+    paddingHorizontal: 40,
+    fontFamily: REPORT_FONT_FAMILY,
+    fontSize: 9,
+    color: "#1c1917",
+    lineHeight: 1.45
+  },
+  eyebrow: { fontSize: 7, letterSpacing: 1.5, color: "#78716c" },
+  title: { marginTop: 4, fontSize: 20, fontWeight: 700 },
+  subtitle: { marginTop: 4, fontSize: 9, color: "#78716c" },
+  header: { marginBottom: 16, paddingBottom: 10, borderBottomWidth: 1, borderBottomColor: "#e7e5e4" },
+  sectionTitle: { marginTop: 14, marginBottom: 8, fontSize: 13, fontWeight: 700 },
+  subTitle: { marginBottom: 4, fontSize: 9, fontWeight: 600, color: "#57534e" },
+  kpiRow: { flexDirection: "row", gap: 6 },
+  kpiCard: { flex: 1, padding: 8, borderWidth: 1, borderColor: "#e7e5e4", borderRadius: 4 },
+  kpiLabel: { fontSize: 8, color: "#78716c" },
+  kpiValue: { marginTop: 2, fontSize: 12, fontWeight: 700 },
+  kpiDelta: { marginTop: 2, fontSize: 7 },
+  tableRow: { flexDirection: "row", borderBottomWidth: 0.5, borderBottomColor: "#e7e5e4", paddingVertical: 3 },
+  tableHeader: { flexDirection: "row", backgroundColor: "#f5f5f4", paddingVertical: 3, fontWeight: 600 },
+  cell: { flex: 1, paddingHorizontal: 3, fontSize: 8 },
+  cellWide: { flex: 2, paddingHorizontal: 3, fontSize: 8 },
+  cellRight: { flex: 1, paddingHorizontal: 3, fontSize: 8, textAlign: "right" },
+  tableGrid: { flexDirection: "row", gap: 8 },
+  tableColumn: { flex: 1 },
+  commentBox: { marginTop: 8, padding: 8, borderWidth: 1, borderRadius: 4 },
+  interpretationBox: { borderColor: "#fcd34d", backgroundColor: "#fffbeb" },
+  insightBox: { borderColor: "#a5b4fc", backgroundColor: "#eef2ff" },
+  commentTitle: { marginBottom: 3, fontSize: 8, fontWeight: 600 },
+  bullet: { flexDirection: "row", marginBottom: 2 },
+  bulletMark: { width: 8 },
+  bulletText: { flex: 1 },
+  muted: { color: "#78716c" },
+  footer: { position: "absolute", bottom: 18, left: 40, right: 40, fontSize: 7, color: "#a8a29e", textAlign: "right" }
+});
+
+function formatAmount(value: number): string {
+  return `${Math.round(value).toLocaleString("ko-KR")}원`;
+}
+
+function toneColor(tone: AnalysisResult["kpis"][number]["tone"]): string {
+  if (tone === "up") {
+    return "#0f766e";
+  }
+  if (tone === "down") {
+    return "#c2410c";
+  }
+  return "#78716c";
+}
+
+function CommentBox({ title, lines, variant }: { title: string; lines: string[] | undefined; variant: "interpretation" | "insight" }) {
+  if (!lines || lines.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.commentBox, variant === "interpretation" ? styles.interpretationBox : styles.insightBox]} wrap={false}>
+      <Text style={styles.commentTitle}>{title}</Text>
+      {lines.map((line, index) => (
+        <View key={`${title}-${index}`} style={styles.bullet}>
+          <Text style={styles.bulletMark}>•</Text>
+          <Text style={styles.bulletText}>{line}</Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+function SectionComments({ comments }: { comments: ReportSectionComments | undefined }) {
+  return (
+    <>
+      <CommentBox title="데이터 해석" lines={comments?.interpretation} variant="interpretation" />
+      <CommentBox title="영업 인사이트" lines={comments?.insight} variant="insight" />
+    </>
+  );
+}
+
+function forecastLine(label: string, series: ForecastSeries | null, format: (value: number) => string): string | null {
+  if (!series) {
+    return null;
+  }
+  const total = series.forecast.reduce((sum, point) => sum + point.value, 0);
+  const mape = series.backtest?.mape ?? null;
+  const backtest = mape === null ? "" : ` (백테스트 MAPE ${mape.toFixed(1)}%)`;
+  return `${label} ${format(total)}${backtest}`;
+}
+
+function ForecastNote({ forecast }: { forecast: AnalysisResult["forecast"] }) {
+  const lines = [
+    forecastLine("총매출", forecast.sales, formatAmount),
+    forecastLine("신제품 수량", forecast.newProductQuantity, (value) => `${Math.round(value).toLocaleString("ko-KR")}개`)
+  ].filter((line): line is string => line !== null);
+  if (lines.length === 0) {
+    return null;
+  }
+  return (
+    <Text style={[styles.muted, { fontSize: 7, marginTop: 2 }]}>
+      향후 {forecast.horizon}개월 전망 합계: {lines.join(" / ")}. 점선은 전망, 음영은 {forecast.confidenceLevel}% 신뢰구간입니다.
+    </Text>
+  );
+}
+
+function CategoryMixTable({ title, rows }: { title: string; rows: CategoryMixStat[] }) {
+  return (
+    <View style={styles.tableColumn}>
+      <Text style={styles.subTitle}>{title}</Text>
+      <View style={styles.tableHeader}>
+        <Text style={styles.cellWide}>중분류</Text>
+        <Text style={styles.cellRight}>비중</Text>
+        <Text style={styles.cellRight}>Club 1000</Text>
+        <Text style={styles.cellRight}>차이</Text>
+      </View>
+      {rows.map((row) => (
+        <View key={row.category} style={styles.tableRow}>
+          <Text style={styles.cellWide}>{row.category}</Text>
+          <Text style={styles.cellRight}>{row.agencyShare.toFixed(1)}%</Text>
+          <Text style={styles.cellRight}>{row.clubShare.toFixed(1)}%</Text>
+          <Text style={styles.cellRight}>
+            {row.shareGap > 0 ? "+" : ""}
+            {row.shareGap.toFixed(1)}%p
+          </Text>
+        </View>
+      ))}
+      {rows.length === 0 ? <Text style={[styles.cell, styles.muted]}>해당 제품군이 없습니다.</Text> : null}
+    </View>
+  );
+}
+
+function RegionTable({
+  title,
+  rows,
+  detail
+}: {
+  title: string;
+  rows: RegionOpportunityStat[];
+  detail: (row: RegionOpportunityStat) => string;
+}) {
+  return (
+    <View style={styles.tableColumn}>
+      <Text style={styles.subTitle}>{title}</Text>
+      <View style={styles.tableHeader}>
+        <Text style={styles.cellWide}>지역</Text>
+        <Text style={styles.cellRight}>수주금액</Text>
+      </View>
+      {rows.map((row) => (
+        <View key={row.region} style={styles.tableRow}>
+          <View style={styles.cellWide}>
+            <Text>{row.region}</Text>
+            <Text style={styles.muted}>{detail(row)}</Text>
+          </View>
+          <Text style={styles.cellRight}>{formatAmount(row.sales)}</Text>
+        </View>
+      ))}
+      {rows.length === 0 ? <Text style={[styles.cell, styles.muted]}>표시할 데이터가 없습니다.</Text> : null}
+    </View>
+  );
+}
+
+function periodLabel(period: AnalysisResult["period"]): string {
+  if (!period.from && !period.to) {
+    return "전체 기간";
+  }
+  return `${period.from ?? period.availableFrom ?? ""} ~ ${period.to ?? period.availableTo ?? ""}`;
+}
+
+const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  previousPeriod: "직전 기간",
+  yearOverYear: "전년 동기"
+};
+
+export function SalesReportDocument({ analysis, comments, generatedAt }: SalesReportDocumentProps) {
+  const benchmarkLabel = analysis.benchmark === "club1000" ? "Club 1000 평균" : "전체 평균";
+  const crossSellTotal = analysis.crossSellRatio.solo + analysis.crossSellRatio.crossSell;
+  const crossSellPercent = crossSellTotal > 0 ? (analysis.crossSellRatio.crossSell / crossSellTotal) * 100 : 0;
+  const generatedLabel = generatedAt.toLocaleDateString("ko-KR", { timeZone: "Asia/Seoul" });
+
+  return (
+    <Document title={`${analysis.agency} 등록고객 보고서`} author="DESKER" language="ko">
+      <Page size="A4" style={styles.page}>
+        <View style={styles.header}>
+          <Text style={styles.eyebrow}>SALES STRATEGY REPORT</Text>
+          <Text style={styles.title}>{analysis.agency} 등록고객 보고서</Text>
+          <Text style={styles.subtitle}>
+            분석 기간: {periodLabel(analysis.period)} · 비교 기준: {benchmarkLabel} · 생성일: {generatedLabel}
+          </Text>
+        </View>
+
+        <Text style={styles.sectionTitle}>0. 요약 KPI</Text>
+        <View style={styles.kpiRow}>
+          {analysis.kpis.map((kpi) => (
+            <View key={kpi.id} style={styles.kpiCard}>
+              <Text style={styles.kpiLabel}>{kpi.label}</Text>
+              <Text style={styles.kpiValue}>{kpi.value}</Text>
+              <Text style={[styles.kpiDelta, { color: toneColor(kpi.tone) }]}>
+                {benchmarkLabel} 대비 {kpi.delta.toFixed(1)}%
+              </Text>
+              {analysis.comparison && kpi.priorDelta !== null && kpi.priorTone ? (
+                <Text style={[styles.kpiDelta, { color: toneColor(kpi.priorTone) }]}>
+                  {COMPARISON_LABELS[analysis.comparison.mode]} 대비 {kpi.priorDelta.toFixed(1)}% ({kpi.priorValue})
+                </Text>
+              ) : null}
+              {kpi.target ? (
+                <Text style={[styles.kpiDelta, { color: toneColor(kpi.target.pace >= 100 ? "up" : "down") }]}>
+                  목표 달성률 {kpi.target.attainment.toFixed(1)}% · 페이스 {kpi.target.pace.toFixed(1)}%
+                </Text>
+              ) : null}
+            </View>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>1. 지역별 매출 분포</Text>
+        <RegionShareChart overallStats={analysis.b2bRegionAll} agencyStats={analysis.regionAll} width={CONTENT_WIDTH} />
+        <SectionComments comments={comments.geo} />
+
+        <Text style={styles.sectionTitle} break>
+          2. 핵심비중 / 추가 매출 / 등록회원 확장 지역 분석
+        </Text>
+        <View style={styles.tableGrid}>
+          <RegionTable title="핵심비중 TOP 5" rows={analysis.regionMain.slice(0, 5)} detail={(row) => `비중 ${row.share.toFixed(1)}%`} />
+          <RegionTable
+            title="추가 매출 발생 가능 지역 TOP 5"
+            rows={analysis.regionExpansion.slice(0, 5)}
+            detail={(row) => `배정/등록 비율 ${row.assignedRegisteredRatio.toFixed(2)}`}
+          />
+          <RegionTable
+            title="등록회원 추가 발생 가능 지역 TOP 5"
+            rows={analysis.regionRegistrationPotential.slice(0, 5)}
+            detail={(row) => `고객수 격차 ${row.customerGap}`}
+          />
+        </View>
+        {analysis.regionCommonIndustries.length > 0 ? (
+          <View style={{ marginTop: 8 }}>
+            <Text style={styles.subTitle}>공통 지역 및 상위 업종 분포</Text>
+            {analysis.regionCommonIndustries.slice(0, 4).map((region) => (
+              <Text key={region.region}>
+                {region.region} (공통 출현 {region.overlapCount}회):{" "}
+                {region.topIndustries.map((industry) => `${industry.industry} ${industry.customerCount}개사`).join(", ") || "업종 정보 없음"}
+              </Text>
+            ))}
+          </View>
+        ) : null}
+        <SectionComments comments={comments.regionCommon} />
+        <SectionComments comments={comments.region} />
+
+        <Text style={styles.sectionTitle} break>
+          3. 성장 가능 고객
+        </Text>
+        <GrowthScatterChart scatter={analysis.growthScatter} width={CONTENT_WIDTH} height={230} />
+        <Text style={[styles.muted, { fontSize: 7, marginTop: 2 }]}>
+          필터링값: 최초주문금액 {formatAmount(analysis.growthScatter.minFirstOrderAmount)} 이상, 구매횟수{" "}
+          {analysis.growthScatter.minPurchaseCount}회 이상 / 빨간색: {analysis.agency}, 회색: 기타 대리점
+        </Text>
+        <View style={{ marginTop: 8 }}>
+          <Text style={styles.subTitle}>누적금액 상위 고객</Text>
+          <View style={styles.tableHeader}>
+            <Text style={styles.cellWide}>고객명</Text>
+            <Text style={styles.cellRight}>최초주문</Text>
+            <Text style={styles.cellRight}>누적금액</Text>
+            <Text style={styles.cellRight}>구매횟수</Text>
+            <Text style={styles.cellRight}>성장배수</Text>
+          </View>
+          {analysis.growthCustomers.slice(0, 10).map((customer) => (
+            <View key={customer.bizNo} style={styles.tableRow} wrap={false}>
+              <Text style={styles.cellWide}>
+                {customer.customerName}
+                {customer.highPotential ? " ★" : ""}
+              </Text>
+              <Text style={styles.cellRight}>{formatAmount(customer.firstOrderAmount)}</Text>
+              <Text style={styles.cellRight}>{formatAmount(customer.cumulativeAmount)}</Text>
+              <Text style={styles.cellRight}>{customer.purchaseCount}회</Text>
+              <Text style={styles.cellRight}>{customer.growthMultiplier.toFixed(2)}</Text>
+            </View>
+          ))}
+          <Text style={[styles.muted, { fontSize: 7, marginTop: 2 }]}>★ 성장배수 2.0 이상 + 누적금액 상위 30% (High Potential)</Text>
+        </View>
+        <SectionComments comments={comments.growth} />
+
+        <Text style={styles.sectionTitle} break>
+          4. 판매 제품 분석
+        </Text>
+        <Text style={styles.subTitle}>4-1. 크로스셀링 분석</Text>
+        <Text>
+          동시구매 {analysis.crossSellRatio.crossSell.toLocaleString("ko-KR")}건 / 단독구매{" "}
+          {analysis.crossSellRatio.solo.toLocaleString("ko-KR")}건 (동시구매 비중 {crossSellPercent.toFixed(1)}%)
+        </Text>
+        <View style={{ marginTop: 4, height: 8, backgroundColor: "#e7e5e4", borderRadius: 4 }}>
+          <View style={{ width: `${Math.min(crossSellPercent, 100)}%`, height: 8, backgroundColor: "#0d9488", borderRadius: 4 }} />
+        </View>
+        <Text style={[styles.subTitle, { marginTop: 10 }]}>4-2. 월별 신제품 판매 수량 추이</Text>
+        {analysis.monthlyNewProducts.length > 0 ? (
+          <>
+            <MonthlyNewProductChart
+              rows={analysis.monthlyNewProducts}
+              forecast={analysis.forecast.newProductQuantity?.forecast}
+              width={CONTENT_WIDTH}
+              height={170}
+            />
+            <ForecastNote forecast={analysis.forecast} />
+          </>
+        ) : (
+          <Text style={styles.muted}>신제품 판매 데이터가 없습니다.</Text>
+        )}
+        <SectionComments comments={comments.monthly} />
+
+        <Text style={[styles.subTitle, { marginTop: 10 }]}>4-3. Club 1000 평균 대비 제품군 비중 (중분류)</Text>
+        <View style={styles.tableGrid}>
+          <CategoryMixTable title="평균보다 덜 팔리는 제품군" rows={analysis.categoryMix.underIndexed} />
+          <CategoryMixTable title="평균보다 잘 팔리는 제품군" rows={analysis.categoryMix.overIndexed} />
+        </View>
+        <SectionComments comments={comments.weakProduct} />
+        <SectionComments comments={comments.strongProduct} />
+
+        <Text style={styles.footer} render={({ pageNumber, totalPages }) => `${analysis.agency} · ${pageNumber} / ${totalPages}`} fixed />
+      </Page>
+    </Document>
+  );
+}
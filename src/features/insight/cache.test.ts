@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createInsightCache, currentModelId, insightCacheKey } from "@/features/insight/cache";
+
+beforeEach(() => {
+  for (const name of ["LLM_PROVIDER", "OPENAI_API_KEY", "ANTHROPIC_API_KEY"]) {
+    vi.stubEnv(name, "");
+  }
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe("insightCacheKey", () => {
+  it("키 순서와 undefined 필드에 상관없이 같은 키를 만든다", () => {
+    const key = insightCacheKey({ presetId: "geo_insight", agency: "DM신", analysisSnapshot: { a: 1, b: [1, 2] } });
+
+    expect(insightCacheKey({ analysisSnapshot: { b: [1, 2], a: 1 }, agency: "DM신", presetId: "geo_insight", regenerate: undefined })).toBe(key);
+    expect(insightCacheKey({ presetId: "geo_insight", agency: "DM신", analysisSnapshot: { a: 1, b: [2, 1] } })).not.toBe(key);
+  });
+
+  it("설정된 모델이 바뀌면 키도 바뀐다", () => {
+    const parts = { presetId: "geo_insight", agency: "DM신" };
+    const rulesKey = insightCacheKey(parts);
+    expect(currentModelId()).toBe("rules");
+
+    vi.stubEnv("LLM_PROVIDER", "mock");
+    expect(currentModelId()).toBe("mock:mock");
+    expect(insightCacheKey(parts)).not.toBe(rulesKey);
+  });
+});
+
+describe("createInsightCache", () => {
+  it("24시간이 지난 항목은 버린다", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-04-01T00:00:00.000Z"));
+    const cache = createInsightCache<string>();
+    cache.set("k", "v");
+
+    vi.setSystemTime(new Date("2024-04-01T23:59:00.000Z"));
+    expect(cache.get("k")).toBe("v");
+
+    vi.setSystemTime(new Date("2024-04-02T00:01:00.000Z"));
+    expect(cache.get("k")).toBeNull();
+  });
+
+  it("500개를 넘으면 가장 오래 쓰지 않은 항목부터 밀어낸다", () => {
+    const cache = createInsightCache<number>();
+    for (let index = 0; index < 500; index += 1) {
+      cache.set(`k${index}`, index);
+    }
+    expect(cache.get("k0")).toBe(0);
+
+    cache.set("k500", 500);
+    expect(cache.get("k0")).toBe(0);
+    expect(cache.get("k1")).toBeNull();
+    expect(cache.get("k500")).toBe(500);
+  });
+});
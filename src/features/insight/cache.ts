@@ -0,0 +1,69 @@
+import crypto from "crypto";
+import { getLlmProvider } from "@/lib/llm/provider";
+
+interface CacheEntry<T> {
+  value: T;
+  createdAt: number;
+}
+
+export interface InsightCache<T> {
+  get(key: string): T | null;
+  set(key: string, value: T): void;
+}
+
+const MAX_ENTRIES = 500;
+const TTL_MS = 24 * 60 * 60 * 1000;
+
+/** 생성된 AI 문구 캐시. 프로세스 메모리에 두며, 오래된 항목부터 밀어내는 LRU + 24시간 TTL. */
+export function createInsightCache<T>(): InsightCache<T> {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      entries.delete(key);
+      if (Date.now() - entry.createdAt > TTL_MS) {
+        return null;
+      }
+      entries.set(key, entry);
+      return entry.value;
+    },
+
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, createdAt: Date.now() });
+      if (entries.size > MAX_ENTRIES) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    }
+  };
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/** 현재 설정된 LLM 공급자/모델. 공급자가 없으면 규칙 기반 문구이므로 "rules". */
+export function currentModelId(): string {
+  const provider = getLlmProvider();
+  return provider ? `${provider.name}:${provider.model}` : "rules";
+}
+
+/** 입력 데이터와 모델이 같으면 같은 키가 되도록 키 순서와 무관하게 해시한다. */
+export function insightCacheKey(parts: Record<string, unknown>): string {
+  return crypto.createHash("sha256").update(stableStringify({ ...parts, model: currentModelId() })).digest("hex");
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { generateInsightMessages } from "@/features/insight/generate";
+import { ruleBasedMessages } from "@/features/insight/rules";
+import type { InsightPreset } from "@/types/domain";
+
+const preset: InsightPreset = {
+  id: "geo_interpretation",
+  title: "지역 해석",
+  objective: "지역 매출 구조 해석",
+  focus: ["지역 집중도"],
+  outputHint: "3문장",
+  snapshotKeys: [],
+  version: 2,
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  retiredAt: null
+};
+
+const snapshot = {
+  agencyRegionTop5: [
+    { region: "대구광역시 수성구", sales: 6_000_000, share: 60 },
+    { region: "대구광역시 중구", sales: 4_000_000, share: 40 }
+  ],
+  b2bRegionTop5: [
+    { region: "대구광역시 수성구", sales: 30_000_000, share: 30 },
+    { region: "서울특별시 강남구", sales: 20_000_000, share: 20 }
+  ]
+};
+
+function mockLlm(messages: string[]) {
+  vi.stubEnv("LLM_PROVIDER", "mock");
+  vi.stubEnv("LLM_MOCK_RESPONSE", JSON.stringify({ messages }));
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("generateInsightMessages", () => {
+  it("근거가 없어 뺀 문장 자리는 규칙 기반 문구로 채운다", async () => {
+    mockLlm(["DM신 매출의 60%가 대구 수성구에서 나옵니다.", "매출이 9억원을 넘었습니다.", "고객 수가 53명으로 늘었습니다."]);
+    const rules = ruleBasedMessages(preset.id, "DM신", snapshot) ?? [];
+
+    const result = await generateInsightMessages({ agency: "DM신", benchmark: "overall", preset, analysisSnapshot: snapshot });
+
+    expect(result.presetVersion).toBe(2);
+    expect(result.rejected.map((item) => item.text)).toEqual(["매출이 9억원을 넘었습니다.", "고객 수가 53명으로 늘었습니다."]);
+    expect(result.messages).toEqual(["DM신 매출의 60%가 대구 수성구에서 나옵니다.", ...rules.slice(0, 2)]);
+  });
+
+  it("모두 근거가 확인되면 응답 문장만 돌려준다", async () => {
+    mockLlm(["대구 수성구 비중이 60%입니다."]);
+
+    const result = await generateInsightMessages({ agency: "DM신", benchmark: "overall", preset, analysisSnapshot: snapshot });
+
+    expect(result).toEqual({ messages: ["대구 수성구 비중이 60%입니다."], rejected: [], presetVersion: 2 });
+  });
+
+  it("수정 요청이 모두 거절되면 직전 코멘트를 유지하고 반영하지 못한 이유를 덧붙인다", async () => {
+    mockLlm(["매출이 9억원을 넘었습니다."]);
+
+    const result = await generateInsightMessages({
+      agency: "DM신",
+      benchmark: "overall",
+      preset,
+      analysisSnapshot: snapshot,
+      history: [{ role: "assistant", content: "이전 코멘트" }],
+      instruction: "더 짧게"
+    });
+
+    expect(result.messages).toEqual(["이전 코멘트", '요청하신 수정("더 짧게")은 AI 응답의 수치·지역을 데이터에서 확인할 수 없어 반영하지 못했습니다.']);
+  });
+});
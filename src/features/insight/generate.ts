@@ -1,13 +1,25 @@
-import { fallbackMessages, getInsightPreset, type InsightPresetId } from "@/features/insight/presets";
+import { fallbackMessages } from "@/features/insight/presets";
+import { createInsightCache, currentModelId, insightCacheKey } from "@/features/insight/cache";
+import { collectGroundingFacts, filterGroundedLines, type GroundingFacts, type RejectedInsight } from "@/features/insight/grounding";
+import { ruleBasedMessages } from "@/features/insight/rules";
+import { extractJsonText, getLlmProvider, type LlmMessage } from "@/lib/llm/provider";
+import type { InsightMessage, InsightPreset } from "@/types/domain";
 
 interface GenerateInsightParams {
   agency: string;
   benchmark: "overall" | "club1000";
-  presetId: InsightPresetId;
+  /** 카탈로그에서 찾은 프리셋. 생성 문구에 이 프리셋의 버전이 기록된다. */
+  preset: InsightPreset;
   analysisSnapshot?: Record<string, unknown>;
+  /** 수정 요청 시 해당 섹션의 이전 대화 (AI 코멘트 + 사용자 요청) */
+  history?: InsightMessage[];
+  /** 이번에 반영할 사용자 수정 요청 */
+  instruction?: string;
+  /** 스트리밍 응답의 클라이언트 연결이 끊기면 중단되어 LLM 호출을 멈춘다. */
+  signal?: AbortSignal;
 }
 
-interface OpenAiJsonResponse {
+interface LlmJsonResponse {
   messages?: string[];
 }
 
@@ -24,11 +36,7 @@ function buildSystemPrompt(): string {
 }
 
 function buildUserPrompt(params: GenerateInsightParams): string {
-  const preset = getInsightPreset(params.presetId);
-  if (!preset) {
-    return "";
-  }
-
+  const { preset } = params;
   return [
     `대리점: ${params.agency}`,
     `비교기준: ${params.benchmark === "club1000" ? "Club 1000" : "전체 평균"}`,
@@ -42,77 +50,233 @@ function buildUserPrompt(params: GenerateInsightParams): string {
   ].join("\n");
 }
 
-function parseJsonMessages(raw: string): string[] | null {
+/** 연속된 AI 코멘트 문장은 한 번의 assistant 응답(JSON)으로 묶어 대화 턴을 복원한다. */
+function buildConversation(params: GenerateInsightParams): LlmMessage[] {
+  const conversation: LlmMessage[] = [
+    { role: "system", content: buildSystemPrompt() },
+    { role: "user", content: buildUserPrompt(params) }
+  ];
+
+  let pendingBullets: string[] = [];
+  const flushBullets = () => {
+    if (pendingBullets.length > 0) {
+      conversation.push({ role: "assistant", content: JSON.stringify({ messages: pendingBullets }) });
+      pendingBullets = [];
+    }
+  };
+
+  for (const message of params.history ?? []) {
+    if (message.role === "assistant") {
+      pendingBullets.push(message.content);
+      continue;
+    }
+    flushBullets();
+    conversation.push({ role: "user", content: `수정 요청: ${message.content}` });
+  }
+  flushBullets();
+
+  if (params.instruction) {
+    conversation.push({
+      role: "user",
+      content: [
+        `수정 요청: ${params.instruction}`,
+        "직전 코멘트를 요청에 맞게 고쳐 전체 코멘트를 같은 JSON 형식으로 다시 작성한다.",
+        "요청과 무관한 문장도 데이터 근거가 유지되면 그대로 둔다."
+      ].join("\n")
+    });
+  }
+
+  return conversation;
+}
+
+function latestAssistantLines(history: InsightMessage[]): string[] {
+  const lastUserIndex = history.map((message) => message.role).lastIndexOf("user");
+  return history.slice(lastUserIndex + 1).filter((message) => message.role === "assistant").map((message) => message.content);
+}
+
+interface ParsedMessages {
+  messages: string[];
+  /** 수치·지역·고객명 근거가 확인되지 않아 제외한 문장 */
+  rejected: RejectedInsight[];
+}
+
+function parseJsonMessages(raw: string, facts: GroundingFacts): ParsedMessages | null {
   try {
-    const parsed = JSON.parse(raw) as OpenAiJsonResponse;
+    const parsed = JSON.parse(raw) as LlmJsonResponse;
     if (!Array.isArray(parsed.messages)) {
       return null;
     }
-    const messages = parsed.messages.map((message) => String(message).trim()).filter(Boolean).slice(0, 5);
-    return messages.length > 0 ? messages : null;
+    const lines = parsed.messages.map((message) => String(message).trim()).filter(Boolean);
+    if (lines.length === 0) {
+      return null;
+    }
+    const { accepted, rejected } = filterGroundedLines(lines, facts);
+    return { messages: accepted.slice(0, 5), rejected };
   } catch {
     return null;
   }
 }
 
-async function requestOpenAi(params: GenerateInsightParams): Promise<string[] | null> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    return null;
+/** 생성 중인 `{"messages":[...]}` 조각에서 지금까지 나온 문장(마지막 문장은 미완성일 수 있음)을 꺼낸다. */
+function previewJsonMessages(raw: string): string[] {
+  const key = raw.indexOf('"messages"');
+  let index = key < 0 ? -1 : raw.indexOf("[", key);
+  if (index < 0) {
+    return [];
   }
 
-  const model = process.env.OPENAI_MODEL ?? "gpt-4o-mini";
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 20_000);
-
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify({
-        model,
-        temperature: 0.2,
-        messages: [
-          { role: "system", content: buildSystemPrompt() },
-          { role: "user", content: buildUserPrompt(params) }
-        ]
-      }),
-      signal: controller.signal
-    });
-
-    if (!response.ok) {
-      return null;
+  const messages: string[] = [];
+  index += 1;
+  while (index < raw.length) {
+    const char = raw[index];
+    if (char === "]") {
+      break;
+    }
+    if (char !== '"') {
+      index += 1;
+      continue;
     }
 
-    const payload = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string | null } }>;
-    };
-    const raw = payload.choices?.[0]?.message?.content?.trim();
-    if (!raw) {
-      return null;
+    let end = index + 1;
+    while (end < raw.length && raw[end] !== '"') {
+      end += raw[end] === "\\" ? 2 : 1;
     }
+    const body = raw.slice(index + 1, Math.min(end, raw.length)).replace(/\\$/, "");
+    try {
+      messages.push(JSON.parse(`"${body}"`) as string);
+    } catch {
+      messages.push(body);
+    }
+    index = end + 1;
+  }
 
-    return parseJsonMessages(raw);
-  } catch {
+  return messages.map((message) => message.trim()).filter(Boolean);
+}
+
+async function requestInsightMessages(
+  params: GenerateInsightParams,
+  facts: GroundingFacts,
+  onPartial?: (messages: string[]) => void
+): Promise<ParsedMessages | null> {
+  const provider = getLlmProvider();
+  if (!provider) {
     return null;
-  } finally {
-    clearTimeout(timeout);
   }
+
+  const request = { messages: buildConversation(params), temperature: 0.2, signal: params.signal };
+  if (!onPartial) {
+    const raw = await provider.complete(request);
+    return raw ? parseJsonMessages(extractJsonText(raw), facts) : null;
+  }
+
+  let streamed = "";
+  let lastPreview = "";
+  const raw = await provider.stream(request, (delta) => {
+    streamed += delta;
+    const preview = previewJsonMessages(streamed);
+    const serialized = JSON.stringify(preview);
+    if (preview.length > 0 && serialized !== lastPreview) {
+      lastPreview = serialized;
+      onPartial(preview);
+    }
+  });
+  return raw ? parseJsonMessages(extractJsonText(raw), facts) : null;
+}
+
+export interface GroundedInsightMessages {
+  messages: string[];
+  rejected: RejectedInsight[];
+  presetVersion: number;
+}
+
+interface GeneratedMessages extends GroundedInsightMessages {
+  /** LLM 응답이 아니라 규칙 기반 문구로 대체됐는지 */
+  fallback: boolean;
+}
+
+export interface CachedInsightMessages extends GroundedInsightMessages {
+  cached: boolean;
 }
 
-export async function generateInsightMessages(params: GenerateInsightParams): Promise<string[]> {
-  const preset = getInsightPreset(params.presetId);
-  if (!preset) {
-    return ["정의되지 않은 프리셋입니다."];
+const insightCache = createInsightCache<GroundedInsightMessages>();
+
+async function generate(params: GenerateInsightParams, onPartial?: (messages: string[]) => void): Promise<GeneratedMessages> {
+  const { preset } = params;
+  const presetVersion = preset.version;
+  const dataMessages = ruleBasedMessages(preset.id, params.agency, params.analysisSnapshot);
+  // 규칙 기반 문구의 파생 수치(합계·비율)와 사용자가 대화에서 직접 말한 수치도 근거로 인정한다.
+  const facts = collectGroundingFacts(
+    params.analysisSnapshot ?? {},
+    params.agency,
+    dataMessages ?? [],
+    (params.history ?? []).map((message) => message.content),
+    params.instruction ?? ""
+  );
+
+  const parsed = await requestInsightMessages(params, facts, onPartial);
+  const rejected = parsed?.rejected ?? [];
+  if (parsed && parsed.messages.length > 0) {
+    // 근거가 확인되지 않아 뺀 문장 자리는 규칙 기반 문구로 채워 섹션의 문장 수를 유지한다.
+    const slots = Math.min(parsed.messages.length + rejected.length, 5) - parsed.messages.length;
+    const backfill = (dataMessages ?? []).filter((line) => !parsed.messages.includes(line)).slice(0, Math.max(slots, 0));
+    return { messages: [...parsed.messages, ...backfill], rejected, presetVersion, fallback: false };
+  }
+
+  const ruleMessages = dataMessages ?? fallbackMessages(params.agency, preset);
+
+  if (params.instruction) {
+    const previous = latestAssistantLines(params.history ?? []);
+    return {
+      messages: [
+        ...(previous.length > 0 ? previous : ruleMessages),
+        rejected.length > 0
+          ? `요청하신 수정("${params.instruction}")은 AI 응답의 수치·지역을 데이터에서 확인할 수 없어 반영하지 못했습니다.`
+          : `요청하신 수정("${params.instruction}")은 AI 연결이 없어 반영하지 못했습니다.`
+      ],
+      rejected,
+      presetVersion,
+      fallback: true
+    };
   }
 
-  const aiMessages = await requestOpenAi(params);
-  if (aiMessages && aiMessages.length > 0) {
-    return aiMessages;
+  return { messages: ruleMessages, rejected, presetVersion, fallback: true };
+}
+
+export async function generateInsightMessages(params: GenerateInsightParams): Promise<GroundedInsightMessages> {
+  const { messages, rejected, presetVersion } = await generate(params);
+  return { messages, rejected, presetVersion };
+}
+
+/**
+ * 프리셋 단건 생성(수정 대화 제외)용. 같은 스냅샷·프리셋(버전 포함)·비교기준·모델이면 이전 결과를 재사용한다.
+ * LLM 호출이 실패해 규칙 기반 문구로 대체된 결과는 다음 요청에서 다시 시도하도록 저장하지 않는다.
+ * onPartial을 넘기면 LLM 응답을 스트리밍으로 받으며 생성 중인 문장 목록을 계속 전달한다.
+ * 스트리밍 중간 문장은 근거 검증 전이므로, 최종 결과로 반드시 교체해야 한다.
+ */
+export async function generateCachedInsightMessages(
+  params: GenerateInsightParams,
+  regenerate = false,
+  onPartial?: (messages: string[]) => void
+): Promise<CachedInsightMessages> {
+  const key = insightCacheKey({
+    kind: "insight",
+    presetId: params.preset.id,
+    presetVersion: params.preset.version,
+    agency: params.agency,
+    benchmark: params.benchmark,
+    analysisSnapshot: params.analysisSnapshot ?? null
+  });
+
+  if (!regenerate) {
+    const hit = insightCache.get(key);
+    if (hit) {
+      return { ...hit, cached: true };
+    }
   }
 
-  return fallbackMessages(params.agency, preset);
+  const { fallback, ...result } = await generate(params, onPartial);
+  if (!fallback || currentModelId() === "rules") {
+    insightCache.set(key, result);
+  }
+  return { ...result, cached: false };
 }
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import { collectGroundingFacts, filterGroundedLines, findUngroundedClaims } from "@/features/insight/grounding";
+
+const snapshot = {
+  kpis: [
+    { label: "매출", value: 123_456_789, change: -0.125 },
+    { label: "고객 수", value: 48 }
+  ],
+  regions: [
+    { region: "대구광역시 수성구", amount: 30_000_000 },
+    { region: "대구광역시 중구", amount: 10_000_000 }
+  ],
+  topCustomers: [{ customerName: "(주)데스커상사", amount: 5_000_000 }]
+};
+
+const facts = collectGroundingFacts(snapshot);
+
+describe("findUngroundedClaims", () => {
+  it("반올림한 금액, 비율 환산, 필드 간 합계·차이를 근거로 인정한다", () => {
+    expect(findUngroundedClaims("매출은 약 12,346만원입니다.", facts)).toEqual([]);
+    expect(findUngroundedClaims("전기 대비 12.5% 감소했습니다.", facts)).toEqual([]);
+    expect(findUngroundedClaims("대구 두 구의 매출 합계는 4,000만원입니다.", facts)).toEqual([]);
+    expect(findUngroundedClaims("수성구가 중구보다 2,000만원 많습니다.", facts)).toEqual([]);
+  });
+
+  it("데이터에 없는 수치를 잡아낸다", () => {
+    expect(findUngroundedClaims("고객 수가 53명으로 늘었습니다.", facts)).toEqual(["근거 없는 수치: 53"]);
+  });
+
+  it("기간·순위 같은 문장 구조 숫자는 검사하지 않는다", () => {
+    expect(findUngroundedClaims("최근 3개월 동안 상위 3개 고객이 2025년에도 1위를 지켰습니다.", facts)).toEqual([]);
+  });
+
+  it("지역과 고객명을 데이터와 대조한다", () => {
+    expect(findUngroundedClaims("대구 수성구는 주력 상권입니다.", facts)).toEqual([]);
+    expect(findUngroundedClaims("대구 달서구에서 기회가 있습니다.", facts)).toEqual(["데이터에 없는 지역: 대구 달서구"]);
+    expect(findUngroundedClaims("부산은 성장 중입니다.", facts)).toEqual(["데이터에 없는 지역: 부산"]);
+    expect(findUngroundedClaims("경기 흐름이 둔화되었습니다.", facts)).toEqual([]);
+    expect(findUngroundedClaims("㈜데스커상사 재구매를 권합니다.", facts)).toEqual([]);
+    expect(findUngroundedClaims("(주)가상기업 담당자에게 제안하세요.", facts)).toEqual(["데이터에 없는 고객명: (주)가상기업"]);
+  });
+});
+
+describe("filterGroundedLines", () => {
+  it("근거가 확인된 문장만 남기고 제외 이유를 함께 돌려준다", () => {
+    const result = filterGroundedLines(["고객 수는 48명입니다.", "매출이 9억원을 넘었습니다."], facts);
+
+    expect(result.accepted).toEqual(["고객 수는 48명입니다."]);
+    expect(result.rejected).toEqual([{ text: "매출이 9억원을 넘었습니다.", reasons: ["근거 없는 수치: 9억원"] }]);
+  });
+});
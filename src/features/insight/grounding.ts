@@ -0,0 +1,199 @@
+import { normalizeMetro } from "@/features/metrics/calculate";
+
+/**
+ * LLM이 만든 문장의 수치·지역명·고객명이 실제 분석 데이터에 있는지 확인한다.
+ * 근거 데이터(analysisSnapshot, AnalysisResult 등)는 구조와 무관하게 모든 숫자와 문자열을 모아 비교한다.
+ */
+
+export interface GroundingFacts {
+  numbers: number[];
+  texts: string[];
+}
+
+/** 근거가 확인되지 않아 제외된 문장과 그 이유 */
+export interface RejectedInsight {
+  text: string;
+  reasons: string[];
+}
+
+export interface GroundedLines {
+  accepted: string[];
+  rejected: RejectedInsight[];
+}
+
+interface NumberMention {
+  raw: string;
+  value: number;
+  tolerance: number;
+}
+
+// 합계·차이로 파생된 수치까지 허용하되, 값이 많은 필드는 조합 수가 커지므로 건너뛴다.
+const PREFIX_SUM_LIMIT = 5;
+const PAIRWISE_DIFF_LIMIT = 50;
+// 금액은 반올림 표기("약 1,230만원")를 고려해 상대 오차를 허용한다.
+const CURRENCY_RELATIVE_TOLERANCE = 0.005;
+
+const NUMBER_PATTERN = /(?<![\d.])(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?\s*(%p|%|억\s*원|억|만\s*원|만|원|배|개월|분기|년|월|일|위|번째|차)?/g;
+const NON_FACT_UNITS = new Set(["개월", "분기", "년", "월", "일", "위", "번째", "차"]);
+const VALUE_UNITS = new Set(["%p", "%", "억원", "억", "만원", "만", "원", "배"]);
+
+// "경기"는 경기 흐름을 뜻하는 일반 명사와 겹쳐 시·군·구가 뒤따를 때만 지역으로 본다.
+const REGION_PATTERN =
+  /(?<![가-힣])(서울(?:특별시)?|부산(?:광역시)?|대구(?:광역시)?|인천(?:광역시)?|광주(?:광역시)?|대전(?:광역시)?|울산(?:광역시)?|세종(?:특별자치시)?|경기도|경기(?=\s*[가-힣]{1,4}[시군구])|강원(?:특별자치도|도)?|충청북도|충북|충청남도|충남|전라북도|전북(?:특별자치도)?|전라남도|전남|경상북도|경북|경상남도|경남|제주(?:특별자치도|도)?)\s*([가-힣]*)/g;
+const TRAILING_PARTICLES = /(?:에서|으로|부터|까지|은|는|이|가|을|를|의|에|로|와|과|도|만)+$/;
+const DISTRICT_PATTERN = /^[가-힣]{1,4}[시군구]$/;
+
+const COMPANY_PATTERN = /(?:\(주\)|㈜|주식회사)\s*[가-힣A-Za-z0-9&]+|[가-힣A-Za-z0-9&]+\s*(?:\(주\)|㈜)/g;
+
+function normalizeText(value: string): string {
+  return value.replace(/\s+/g, "");
+}
+
+function parseNumberMentions(text: string): NumberMention[] {
+  const mentions: NumberMention[] = [];
+  for (const match of text.replace(/club\s*1000/gi, "").matchAll(NUMBER_PATTERN)) {
+    const [raw, integerPart, fractionPart = "", rawUnit = ""] = match;
+    const unit = rawUnit.replace(/\s+/g, "");
+    if (NON_FACT_UNITS.has(unit)) {
+      continue;
+    }
+
+    const base = Number(`${integerPart.replace(/,/g, "")}${fractionPart ? `.${fractionPart}` : ""}`);
+    // 단위 없는 작은 정수("상위 3개")나 연도는 데이터 수치가 아니라 문장 구조로 본다.
+    if (!VALUE_UNITS.has(unit) && !fractionPart && (base <= 12 || (base >= 1900 && base <= 2100))) {
+      continue;
+    }
+
+    const scale = unit.startsWith("억") ? 1e8 : unit.startsWith("만") ? 1e4 : 1;
+    const value = base * scale;
+    const precision = 0.5 * 10 ** -fractionPart.length * scale;
+    const tolerance = unit.endsWith("원") || scale > 1 ? Math.max(precision, Math.abs(value) * CURRENCY_RELATIVE_TOLERANCE) : precision;
+    mentions.push({ raw: raw.trim(), value, tolerance: tolerance + 1e-9 });
+  }
+  return mentions;
+}
+
+function addNumber(target: number[], value: number) {
+  if (!Number.isFinite(value)) {
+    return;
+  }
+  target.push(value, Math.abs(value));
+  if (Math.abs(value) <= 1) {
+    target.push(value * 100, Math.abs(value * 100));
+  }
+}
+
+/** 근거 데이터에서 숫자와 문자열을 모두 모은다. 같은 필드끼리의 상위 합계와 차이도 허용 수치로 넣는다. */
+export function collectGroundingFacts(...sources: unknown[]): GroundingFacts {
+  const numbers: number[] = [];
+  const texts: string[] = [];
+  const valuesByKey = new Map<string, number[]>();
+
+  const visit = (value: unknown, key: string) => {
+    if (typeof value === "number") {
+      addNumber(numbers, value);
+      const group = valuesByKey.get(key) ?? [];
+      group.push(value);
+      valuesByKey.set(key, group);
+      return;
+    }
+    if (typeof value === "string") {
+      texts.push(value);
+      parseNumberMentions(value).forEach((mention) => addNumber(numbers, mention.value));
+      return;
+    }
+    if (Array.isArray(value)) {
+      const prefixSums = new Map<string, number>();
+      value.slice(0, PREFIX_SUM_LIMIT).forEach((item) => {
+        if (!item || typeof item !== "object" || Array.isArray(item)) {
+          return;
+        }
+        for (const [field, fieldValue] of Object.entries(item as Record<string, unknown>)) {
+          if (typeof fieldValue === "number") {
+            const sum = (prefixSums.get(field) ?? 0) + fieldValue;
+            prefixSums.set(field, sum);
+            addNumber(numbers, sum);
+          }
+        }
+      });
+      value.forEach((item) => visit(item, key));
+      return;
+    }
+    if (value && typeof value === "object") {
+      for (const [field, fieldValue] of Object.entries(value as Record<string, unknown>)) {
+        visit(fieldValue, field);
+      }
+    }
+  };
+
+  sources.forEach((source) => visit(source, ""));
+
+  for (const group of valuesByKey.values()) {
+    if (group.length > PAIRWISE_DIFF_LIMIT) {
+      continue;
+    }
+    for (let i = 0; i < group.length; i += 1) {
+      for (let j = i + 1; j < group.length; j += 1) {
+        addNumber(numbers, group[i] - group[j]);
+      }
+    }
+  }
+
+  return { numbers, texts };
+}
+
+function isKnownRegion(metro: string, district: string | undefined, facts: GroundingFacts): boolean {
+  const metroLabel = normalizeMetro(metro);
+  return facts.texts.some((text) => {
+    const normalized = normalizeText(text);
+    if (!normalized.includes(normalizeText(metroLabel)) && !normalized.includes(normalizeText(metro))) {
+      return false;
+    }
+    return district ? normalized.includes(district) : true;
+  });
+}
+
+/** 문장 하나를 검사해 근거가 확인되지 않은 항목을 이유 목록으로 돌려준다. 빈 배열이면 통과. */
+export function findUngroundedClaims(text: string, facts: GroundingFacts): string[] {
+  const reasons: string[] = [];
+
+  for (const mention of parseNumberMentions(text)) {
+    if (!facts.numbers.some((value) => Math.abs(value - mention.value) <= mention.tolerance)) {
+      reasons.push(`근거 없는 수치: ${mention.raw}`);
+    }
+  }
+
+  for (const match of text.matchAll(REGION_PATTERN)) {
+    const [, metro, nextWord] = match;
+    // 바로 뒤 단어에서 조사를 떼어 시·군·구 형태일 때만 세부 지역으로 본다 ("대구 수성구는" → 수성구).
+    const stem = nextWord.replace(TRAILING_PARTICLES, "");
+    const district = DISTRICT_PATTERN.test(stem) ? stem : undefined;
+    if (!isKnownRegion(metro, district, facts)) {
+      reasons.push(`데이터에 없는 지역: ${district ? `${metro} ${district}` : metro}`);
+    }
+  }
+
+  const normalizedTexts = facts.texts.map(normalizeText);
+  for (const match of text.matchAll(COMPANY_PATTERN)) {
+    const name = normalizeText(match[0]).replace(/\(주\)|㈜|주식회사/g, "");
+    if (name && !normalizedTexts.some((known) => known.includes(name))) {
+      reasons.push(`데이터에 없는 고객명: ${match[0].trim()}`);
+    }
+  }
+
+  return [...new Set(reasons)];
+}
+
+export function filterGroundedLines(lines: string[], facts: GroundingFacts): GroundedLines {
+  const accepted: string[] = [];
+  const rejected: RejectedInsight[] = [];
+  for (const line of lines) {
+    const reasons = findUngroundedClaims(line, facts);
+    if (reasons.length > 0) {
+      rejected.push({ text: line, reasons });
+    } else {
+      accepted.push(line);
+    }
+  }
+  return { accepted, rejected };
+}
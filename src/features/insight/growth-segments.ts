@@ -1,3 +1,7 @@
+import { createInsightCache, currentModelId, insightCacheKey } from "@/features/insight/cache";
+import { collectGroundingFacts, filterGroundedLines, type GroundingFacts, type RejectedInsight } from "@/features/insight/grounding";
+import { extractJsonText, getLlmProvider } from "@/lib/llm/provider";
+
 export interface GrowthSegmentPoint {
   bizNo: string;
   customerName: string;
@@ -36,7 +40,7 @@ interface SegmentBuckets {
   retention: GrowthSegmentPoint[];
 }
 
-interface OpenAiRowsResponse {
+interface LlmRowsResponse {
   rows?: Array<{
     segment?: string;
     criteria?: string[];
@@ -47,7 +51,6 @@ interface OpenAiRowsResponse {
   }>;
 }
 
-const MODEL_DEFAULT = "gpt-4o-mini";
 const SEGMENT_ORDER: GrowthSegmentRow["segment"][] = ["성장형 고객", "전환 관리형 고객", "유지·관계형 고객"];
 
 function round(value: number, digits = 2): number {
@@ -220,13 +223,29 @@ function fallbackRows(params: GenerateGrowthSegmentsParams): GrowthSegmentRow[]
   ];
 }
 
-function parseRows(raw: string, allowedNames: Set<string>): GrowthSegmentRow[] | null {
+interface ParsedRows {
+  rows: GrowthSegmentRow[];
+  /** 근거가 확인되지 않거나 후보에 없는 고객명이라 제외한 항목 */
+  rejected: RejectedInsight[];
+}
+
+function parseRows(raw: string, allowedNames: Set<string>, facts: GroundingFacts): ParsedRows | null {
   try {
-    const parsed = JSON.parse(raw) as OpenAiRowsResponse;
+    const parsed = JSON.parse(raw) as LlmRowsResponse;
     if (!Array.isArray(parsed.rows)) {
       return null;
     }
 
+    const rejected: RejectedInsight[] = [];
+    const groundedLines = (items: unknown): string[] => {
+      if (!Array.isArray(items)) {
+        return [];
+      }
+      const result = filterGroundedLines(items.map((item) => String(item).trim()).filter(Boolean), facts);
+      rejected.push(...result.rejected);
+      return result.accepted;
+    };
+
     const rows = parsed.rows
       .map((row): GrowthSegmentRow | null => {
         if (
@@ -237,14 +256,10 @@ function parseRows(raw: string, allowedNames: Set<string>): GrowthSegmentRow[] |
           return null;
         }
 
-        const criteria = Array.isArray(row.criteria) ? row.criteria.map((item) => String(item).trim()).filter(Boolean) : [];
-        const traits = Array.isArray(row.traits) ? row.traits.map((item) => String(item).trim()).filter(Boolean) : [];
-        const interpretation = Array.isArray(row.interpretation)
-          ? row.interpretation.map((item) => String(item).trim()).filter(Boolean)
-          : [];
-        const salesDirection = Array.isArray(row.salesDirection)
-          ? row.salesDirection.map((item) => String(item).trim()).filter(Boolean)
-          : [];
+        const criteria = groundedLines(row.criteria);
+        const traits = groundedLines(row.traits);
+        const interpretation = groundedLines(row.interpretation);
+        const salesDirection = groundedLines(row.salesDirection);
 
         const topCustomers = Array.isArray(row.topCustomers)
           ? row.topCustomers
@@ -252,7 +267,18 @@ function parseRows(raw: string, allowedNames: Set<string>): GrowthSegmentRow[] |
                 name: String(item?.name ?? "").trim(),
                 reason: String(item?.reason ?? "").trim()
               }))
-              .filter((item) => item.name && item.reason && allowedNames.has(item.name))
+              .filter((item) => {
+                if (!item.name || !item.reason) {
+                  return false;
+                }
+                const reasons = allowedNames.has(item.name) ? [] : [`후보에 없는 고객명: ${item.name}`];
+                reasons.push(...filterGroundedLines([item.reason], facts).rejected.flatMap((entry) => entry.reasons));
+                if (reasons.length > 0) {
+                  rejected.push({ text: `${item.name}: ${item.reason}`, reasons });
+                  return false;
+                }
+                return true;
+              })
               .slice(0, 5)
           : [];
 
@@ -272,13 +298,13 @@ function parseRows(raw: string, allowedNames: Set<string>): GrowthSegmentRow[] |
       .filter((row): row is GrowthSegmentRow => Boolean(row));
 
     if (!rows.length) {
-      return null;
+      return rejected.length ? { rows: [], rejected } : null;
     }
 
     const bySegment = new Map(rows.map((row) => [row.segment, row]));
     const ordered = SEGMENT_ORDER.map((segment) => bySegment.get(segment)).filter((row): row is GrowthSegmentRow => Boolean(row));
 
-    return ordered.length ? ordered : null;
+    return { rows: ordered, rejected };
   } catch {
     return null;
   }
@@ -308,70 +334,41 @@ function buildPrompt(params: GenerateGrowthSegmentsParams, baseRows: GrowthSegme
   ].join("\n");
 }
 
-async function requestOpenAi(params: GenerateGrowthSegmentsParams, baseRows: GrowthSegmentRow[]): Promise<GrowthSegmentRow[] | null> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
+async function requestAiRows(params: GenerateGrowthSegmentsParams, baseRows: GrowthSegmentRow[]): Promise<ParsedRows | null> {
+  const provider = getLlmProvider();
+  if (!provider) {
     return null;
   }
 
-  const model = process.env.OPENAI_MODEL ?? MODEL_DEFAULT;
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), 20_000);
   const allowedNames = new Set(params.selectedPoints.map((point) => point.customerName || point.bizNo));
-
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json"
+  // 기본 표의 기준값(성장배수 임계치 등)은 입력에서 계산한 값이므로 근거로 함께 인정한다.
+  const facts = collectGroundingFacts(params, baseRows);
+  const raw = await provider.complete({
+    temperature: 0.2,
+    messages: [
+      {
+        role: "system",
+        content: [
+          "너는 B2B 영업 분석가다.",
+          "한국어로 답한다.",
+          "출력은 JSON만 반환한다.",
+          "없는 고객명은 생성하지 않는다."
+        ].join("\n")
       },
-      body: JSON.stringify({
-        model,
-        temperature: 0.2,
-        messages: [
-          {
-            role: "system",
-            content: [
-              "너는 B2B 영업 분석가다.",
-              "한국어로 답한다.",
-              "출력은 JSON만 반환한다.",
-              "없는 고객명은 생성하지 않는다."
-            ].join("\n")
-          },
-          { role: "user", content: buildPrompt(params, baseRows) }
-        ]
-      }),
-      signal: controller.signal
-    });
-
-    if (!response.ok) {
-      return null;
-    }
+      { role: "user", content: buildPrompt(params, baseRows) }
+    ]
+  });
 
-    const payload = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string | null } }>;
-    };
-    const raw = payload.choices?.[0]?.message?.content?.trim();
-    if (!raw) {
-      return null;
-    }
+  return raw ? parseRows(extractJsonText(raw), allowedNames, facts) : null;
+}
 
-    return parseRows(raw, allowedNames);
-  } catch {
-    return null;
-  } finally {
-    clearTimeout(timeout);
-  }
+export interface CachedGrowthSegmentRows extends ParsedRows {
+  cached: boolean;
 }
 
-export async function generateGrowthSegmentRows(params: GenerateGrowthSegmentsParams): Promise<GrowthSegmentRow[]> {
-  const baseRows = fallbackRows(params);
-  const aiRows = await requestOpenAi(params, baseRows);
-  if (!aiRows) {
-    return baseRows;
-  }
+const growthSegmentCache = createInsightCache<ParsedRows>();
 
+function mergeWithFallback(aiRows: GrowthSegmentRow[], baseRows: GrowthSegmentRow[]): GrowthSegmentRow[] {
   const fallbackBySegment = new Map(baseRows.map((row) => [row.segment, row]));
   return SEGMENT_ORDER.map((segment) => {
     const aiRow = aiRows.find((row) => row.segment === segment);
@@ -387,3 +384,23 @@ export async function generateGrowthSegmentRows(params: GenerateGrowthSegmentsPa
     return aiRow;
   });
 }
+
+export async function generateGrowthSegmentRows(params: GenerateGrowthSegmentsParams, regenerate = false): Promise<CachedGrowthSegmentRows> {
+  const key = insightCacheKey({ kind: "growth-segments", ...params });
+  if (!regenerate) {
+    const hit = growthSegmentCache.get(key);
+    if (hit) {
+      return { ...hit, cached: true };
+    }
+  }
+
+  const baseRows = fallbackRows(params);
+  const aiRows = await requestAiRows(params, baseRows);
+  const rows = aiRows?.rows.length ? mergeWithFallback(aiRows.rows, baseRows) : baseRows;
+  const rejected = aiRows?.rejected ?? [];
+  // LLM 호출 실패로 기본 표가 나간 경우는 저장하지 않아 다음 요청에서 다시 시도한다.
+  if (aiRows?.rows.length || currentModelId() === "rules") {
+    growthSegmentCache.set(key, { rows, rejected });
+  }
+  return { rows, rejected, cached: false };
+}
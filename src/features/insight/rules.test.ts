@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+
+import { ruleBasedMessages } from "@/features/insight/rules";
+import type { CategoryMixStat, RegionOpportunityStat } from "@/types/domain";
+
+function opportunity(region: string, share: number, fields: Partial<RegionOpportunityStat> = {}): RegionOpportunityStat {
+  return {
+    region,
+    sales: share * 100_000,
+    share,
+    assignedSales: 0,
+    registeredSales: 0,
+    assignedRegisteredRatio: 0,
+    assignedCustomerCount: 0,
+    registeredCustomerCount: 0,
+    customerGap: 0,
+    ...fields
+  };
+}
+
+function mix(category: string, agencyShare: number, clubShare: number, agencySales: number): CategoryMixStat {
+  return { category, agencySales, agencyShare, clubShare, shareGap: agencyShare - clubShare };
+}
+
+describe("ruleBasedMessages", () => {
+  it("스냅샷이 없거나 필요한 데이터가 없거나 모르는 프리셋이면 null", () => {
+    expect(ruleBasedMessages("geo_interpretation", "DM신", undefined)).toBeNull();
+    expect(ruleBasedMessages("geo_interpretation", "DM신", {})).toBeNull();
+    expect(ruleBasedMessages("cross_sell_interpretation", "DM신", { crossSellRatio: { solo: 0, crossSell: 0 } })).toBeNull();
+    expect(ruleBasedMessages("unknown_preset", "DM신", { agencyRegionTop5: [{ region: "대구광역시 중구", share: 100 }] })).toBeNull();
+  });
+
+  it("지역 집중도와 전체 B2B 대비 강세·확장 후보 지역을 수치로 설명한다", () => {
+    const lines = ruleBasedMessages("geo_interpretation", "DM신", {
+      agencyRegionTop5: [
+        { region: "대구광역시 수성구", sales: 6_000_000, share: 60 },
+        { region: "대구광역시 중구", sales: 4_000_000, share: 40 }
+      ],
+      b2bRegionTop5: [
+        { region: "대구광역시 수성구", sales: 30_000_000, share: 30 },
+        { region: "서울특별시 강남구", sales: 20_000_000, share: 20 }
+      ]
+    });
+
+    expect(lines).toEqual([
+      "DM신 매출은 대구광역시 수성구(60.0%)에 가장 많이 몰려 있고, 상위 3개 지역 합계가 100.0%인 소수 지역 집중형 구조입니다.",
+      "전체 B2B 상위 5개 지역 중 1곳이 DM신 상위 지역과 겹칩니다 (전체 1위 대구광역시 수성구 30.0%).",
+      "대구광역시 수성구는 전체 B2B 비중보다 30.0%p 높아 상대적 강세 지역입니다.",
+      "전체 B2B 비중이 큰 서울특별시 강남구(20.0%)는 DM신 상위 지역에 없어 저비중 확장 후보입니다."
+    ]);
+  });
+
+  it("동시구매 단계와 다음 단계까지 필요한 전환 건수를 계산한다", () => {
+    const lines = ruleBasedMessages("cross_sell_interpretation", "DM신", {
+      crossSellRatio: { solo: 7, crossSell: 3 },
+      missingPairings: [
+        {
+          antecedent: ["책상", "수납"],
+          consequent: "의자",
+          clubConfidence: 50,
+          clubLift: 1.5,
+          agencyConfidence: 10,
+          agencyAntecedentOrders: 5,
+          agencyOrderCount: 10,
+          opportunityOrders: 2
+        }
+      ]
+    });
+
+    expect(lines?.[0]).toBe("DM신의 동시구매 비중은 30.0%(동시 3건 / 단독 7건)로 조합 구매가 늘고 있는 성장 단계입니다.");
+    expect(lines?.[1]).toBe("단독구매 1건을 동시구매로 전환하면 비중이 40%에 도달합니다.");
+    expect(lines?.[2]).toContain("책상+수납 주문의 50.0%에 의자가 함께 담기지만(향상도 1.50배)");
+  });
+
+  it("추가 매출·등록회원 확장 지역과 반복 출현 지역을 묶어 해석한다", () => {
+    const lines = ruleBasedMessages("region_interpretation", "DM신", {
+      regionMainTop5: [opportunity("대구광역시 수성구", 60), opportunity("대구광역시 중구", 30)],
+      regionExpansionTop5: [opportunity("대구광역시 중구", 30, { assignedSales: 1_000_000, registeredSales: 1_000_000, assignedRegisteredRatio: 1 })],
+      regionRegistrationPotentialTop5: [opportunity("경상북도 경산시", 5, { assignedCustomerCount: 4, registeredCustomerCount: 1, customerGap: 3 })],
+      regionCommonIndustries: [{ region: "대구광역시 중구", overlapCount: 2, totalSales: 3_000_000, topIndustries: [] }]
+    });
+
+    expect(lines).toEqual([
+      "핵심비중 Top5(대구광역시 수성구, 대구광역시 중구)가 권역 매출의 90.0%를 차지하며, 1위는 대구광역시 수성구(60.0%)입니다.",
+      "추가 매출 1순위 대구광역시 중구는 배정 1,000,000원 / 등록 1,000,000원(비율 1.00)으로 두 회원 유형이 고르게 구매합니다.",
+      "등록회원 확장 1순위 경상북도 경산시는 배정 고객 4곳 대비 등록 고객 1곳으로, Top5 합산 고객수 격차는 3곳입니다.",
+      "대구광역시 중구(2회)는 여러 목록에 함께 나타나 단기 실행 우선 지역입니다."
+    ]);
+  });
+
+  it("Club 1000 대비 저판매 제품군의 추가 매출 여지를 추정한다", () => {
+    const lines = ruleBasedMessages("weak_products_interpretation", "DM신", {
+      clubAgencyCount: 3,
+      underIndexedCategories: [mix("수납", 10, 30, 100_000)],
+      categoryMixTop10: [mix("책상", 90, 70, 900_000)]
+    });
+
+    expect(lines).toEqual([
+      "수납: 비중 10.0%로 Club 1000 평균 30.0%보다 20.0%p 낮습니다. 평균 비중까지 올리면 약 200,000원 추가 여지가 있습니다.",
+      "우선 개선 제품군은 수납입니다. 주력 고객의 재구매 시점에 묶음 제안으로 전환을 시도합니다."
+    ]);
+    expect(ruleBasedMessages("strong_products_interpretation", "DM신", { clubAgencyCount: 0 })).toEqual([
+      "비교할 Club 1000 대리점 제품 데이터가 없어 고판매 제품군을 판단할 수 없습니다."
+    ]);
+  });
+
+  it("이탈 위험 고객을 고위험 우선으로 안내하고 지켜야 할 매출을 알린다", () => {
+    const dormancy = {
+      referenceDate: "2024-06-30",
+      evaluatedCount: 4,
+      oneTimeCount: 1,
+      atRiskCount: 1,
+      highRiskCount: 1,
+      atRiskAmount: 1_000_000,
+      riskThreshold: 1.5,
+      highRiskThreshold: 3
+    };
+    const customer = {
+      bizNo: "c4",
+      customerName: "데스커상사",
+      agency: "DM신",
+      lastOrderDate: "2024-01-05",
+      daysSinceLastOrder: 177,
+      purchaseCount: 2,
+      typicalGapDays: 14,
+      riskScore: 12.6,
+      riskLevel: "high" as const,
+      cumulativeAmount: 1_000_000
+    };
+
+    expect(ruleBasedMessages("retention_insight", "DM신", { dormancy, atRiskCustomers: [customer] })).toEqual([
+      "DM신의 반복 구매 고객 4명 중 1명(25.0%)이 평소 주문 간격의 1.5배 넘게 주문이 없습니다 (기준일 2024-06-30).",
+      "이 중 1명은 공백이 평소 간격의 3배 이상으로 이탈 가능성이 높습니다.",
+      "재구매 시점 확인 연락은 데스커상사(177일 공백, 평소 14일 간격) 순으로 우선합니다 (고위험 우선, 같은 등급은 누적금액 순).",
+      "이탈 위험 고객의 누적 매출은 1,000,000원으로, 유지 활동으로 지켜야 할 매출 규모입니다."
+    ]);
+    expect(ruleBasedMessages("retention_insight", "DM신", { dormancy: { ...dormancy, evaluatedCount: 0 } })).toEqual([
+      "DM신에는 주문 간격을 계산할 수 있는 반복 구매 고객이 없어 이탈 위험을 판단할 수 없습니다."
+    ]);
+  });
+
+  it("조사는 괄호 보충 설명을 건너뛰고 받침과 숫자 독음으로 고른다", () => {
+    const noGap = (agency: string) => ruleBasedMessages("strong_products_interpretation", agency, { clubAgencyCount: 2, overIndexedCategories: [] })?.[0];
+
+    expect(noGap("DM신")).toMatch(/^DM신은 /);
+    expect(noGap("DM가")).toMatch(/^DM가는 /);
+    expect(noGap("DM3")).toMatch(/^DM3은 /);
+    expect(noGap("DM2")).toMatch(/^DM2는 /);
+    expect(noGap("DM대구(칠성)")).toMatch(/^DM대구\(칠성\)는 /);
+
+    const strong = ruleBasedMessages("strong_products_interpretation", "DM신", {
+      clubAgencyCount: 2,
+      overIndexedCategories: [mix("책상", 60, 40, 1_500_000)]
+    });
+    expect(strong?.at(-1)).toMatch(/^강점 제품군 매출 1,500,000원이 전체 제품 매출의 60.0%로,/);
+  });
+});
@@ -0,0 +1,538 @@
+import type {
+  AtRiskCustomer,
+  CategoryMixStat,
+  CommonRegionIndustry,
+  DormancySummary,
+  GrowthScatterPoint,
+  GrowthScatterSummary,
+  KpiCard,
+  MissingPairing,
+  RegionOpportunityStat,
+  RegionStat,
+  TargetTracking
+} from "@/types/domain";
+
+/**
+ * LLM 공급자가 없을 때 사용하는 규칙 기반 코멘트.
+ * 대시보드가 보내는 analysisSnapshot(프리셋별 분석 결과 일부)의 수치로 문장을 만든다.
+ */
+
+type Snapshot = Record<string, unknown>;
+
+const CROSS_SELL_MATURE_PERCENT = 40;
+const CROSS_SELL_GROWING_PERCENT = 20;
+const CONCENTRATED_TOP3_PERCENT = 70;
+const DISPERSED_TOP3_PERCENT = 40;
+
+type JosaPair = "은/는" | "이/가" | "을/를" | "으로/로";
+
+// 숫자는 한자어 독음(영, 일, 이, 삼 ...) 기준으로 받침을 판단한다.
+const DIGIT_FINAL_CONSONANT = ["ㅇ", "ㄹ", "", "ㅁ", "", "", "ㄱ", "ㄹ", "ㄹ", ""];
+
+function finalConsonant(word: string): string {
+  const stripped = word.replace(/(\s*\([^()]*\))+\s*$/, "");
+  const last = stripped.charAt(stripped.length - 1);
+  const code = last.charCodeAt(0) - 0xac00;
+  if (code >= 0 && code < 11172) {
+    const jong = code % 28;
+    return jong === 0 ? "" : jong === 8 ? "ㄹ" : "받침";
+  }
+  if (/[0-9]/.test(last)) {
+    return DIGIT_FINAL_CONSONANT[Number(last)];
+  }
+  return "";
+}
+
+/** 앞 단어의 받침에 맞춰 조사를 붙인다. 괄호 보충 설명은 건너뛰고 본 단어 기준으로 판단한다. */
+function josa(word: string, pair: JosaPair): string {
+  const [withFinal, withoutFinal] = pair.split("/");
+  const consonant = finalConsonant(word);
+  if (pair === "으로/로") {
+    return `${word}${consonant && consonant !== "ㄹ" ? withFinal : withoutFinal}`;
+  }
+  return `${word}${consonant ? withFinal : withoutFinal}`;
+}
+
+function list<T>(snapshot: Snapshot, key: string): T[] {
+  const value = snapshot[key];
+  return Array.isArray(value) ? (value as T[]) : [];
+}
+
+function pct(value: number): string {
+  return `${value.toFixed(1)}%`;
+}
+
+function won(value: number): string {
+  return `${Math.round(value).toLocaleString("ko-KR")}원`;
+}
+
+function signed(value: number, unit: string): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(1)}${unit}`;
+}
+
+function benchmarkLabel(snapshot: Snapshot): string {
+  return snapshot.benchmark === "club1000" ? "Club 1000 평균" : "전체 평균";
+}
+
+function findKpi(snapshot: Snapshot, id: string): KpiCard | null {
+  return list<KpiCard>(snapshot, "kpis").find((kpi) => kpi.id === id) ?? null;
+}
+
+function sumShare(stats: RegionStat[], count: number): number {
+  return stats.slice(0, count).reduce((sum, stat) => sum + stat.share, 0);
+}
+
+function regionNames(stats: RegionStat[], count: number): string {
+  return stats
+    .slice(0, count)
+    .map((stat) => stat.region)
+    .join(", ");
+}
+
+function geoInterpretation(agency: string, snapshot: Snapshot): string[] | null {
+  const agencyTop = list<RegionStat>(snapshot, "agencyRegionTop5");
+  const b2bTop = list<RegionStat>(snapshot, "b2bRegionTop5");
+  if (!agencyTop.length) {
+    return null;
+  }
+
+  const top3Share = sumShare(agencyTop, 3);
+  const structure =
+    top3Share >= CONCENTRATED_TOP3_PERCENT ? "소수 지역 집중형" : top3Share >= DISPERSED_TOP3_PERCENT ? "핵심 지역 중심형" : "분산형";
+  const lines = [
+    `${agency} 매출은 ${agencyTop[0].region}(${pct(agencyTop[0].share)})에 가장 많이 몰려 있고, 상위 3개 지역 합계가 ${pct(top3Share)}인 ${structure} 구조입니다.`
+  ];
+
+  if (b2bTop.length) {
+    const agencyRegions = new Set(agencyTop.map((stat) => stat.region));
+    const overlap = b2bTop.filter((stat) => agencyRegions.has(stat.region)).length;
+    lines.push(`전체 B2B 상위 5개 지역 중 ${overlap}곳이 ${agency} 상위 지역과 겹칩니다 (전체 1위 ${b2bTop[0].region} ${pct(b2bTop[0].share)}).`);
+
+    const b2bShareByRegion = new Map(b2bTop.map((stat) => [stat.region, stat.share]));
+    const deviations = agencyTop
+      .filter((stat) => b2bShareByRegion.has(stat.region))
+      .map((stat) => ({ region: stat.region, gap: stat.share - (b2bShareByRegion.get(stat.region) ?? 0) }))
+      .sort((a, b) => b.gap - a.gap);
+    const strongest = deviations[0];
+    if (strongest && strongest.gap > 0) {
+      lines.push(`${josa(strongest.region, "은/는")} 전체 B2B 비중보다 ${strongest.gap.toFixed(1)}%p 높아 상대적 강세 지역입니다.`);
+    }
+    const missing = b2bTop.find((stat) => !agencyRegions.has(stat.region));
+    if (missing) {
+      lines.push(`전체 B2B 비중이 큰 ${josa(`${missing.region}(${pct(missing.share)})`, "은/는")} ${agency} 상위 지역에 없어 저비중 확장 후보입니다.`);
+    }
+  }
+
+  const sales = findKpi(snapshot, "sales");
+  if (sales) {
+    lines.push(`총 매출 ${josa(sales.value, "은/는")} ${benchmarkLabel(snapshot)} 대비 ${signed(sales.delta, "%")}입니다.`);
+  }
+
+  return lines.slice(0, 4);
+}
+
+function geoInsight(agency: string, snapshot: Snapshot): string[] | null {
+  const agencyTop = list<RegionStat>(snapshot, "agencyRegionTop5");
+  const b2bTop = list<RegionStat>(snapshot, "b2bRegionTop5");
+  const expansion = list<RegionOpportunityStat>(snapshot, "expansionTop5");
+  if (!agencyTop.length) {
+    return null;
+  }
+
+  const lines = [
+    `${josa(`${regionNames(agencyTop, 2)}(합계 ${pct(sumShare(agencyTop, 2))})`, "은/는")} 재구매·교체 수요 관리로 점유율을 유지합니다.`
+  ];
+
+  if (expansion.length) {
+    lines.push(
+      `${josa(regionNames(expansion, 3), "은/는")} 배정/등록 매출이 균형(1위 ${expansion[0].region} 비율 ${expansion[0].assignedRegisteredRatio.toFixed(2)})을 이뤄 첫 구매 경험 축적과 재접촉 캠페인으로 전환을 노립니다.`
+    );
+  }
+
+  const agencyRegions = new Set(agencyTop.map((stat) => stat.region));
+  const missing = b2bTop.find((stat) => !agencyRegions.has(stat.region));
+  if (missing) {
+    lines.push(`${josa(missing.region, "은/는")} 전체 B2B 매출의 ${josa(pct(missing.share), "을/를")} 차지하지만 ${agency} 상위 지역에 없어 신규 개척 우선순위에 둡니다.`);
+  }
+
+  const highPotential = findKpi(snapshot, "high-potential");
+  if (highPotential) {
+    lines.push(`성장 잠재 고객 ${josa(highPotential.value, "을/를")} 우선 타깃으로 신제품+연관품목 동시 제안을 적용합니다.`);
+  }
+
+  return lines.slice(0, 4);
+}
+
+function regionInterpretation(snapshot: Snapshot): string[] | null {
+  const main = list<RegionOpportunityStat>(snapshot, "regionMainTop5");
+  const expansion = list<RegionOpportunityStat>(snapshot, "regionExpansionTop5");
+  const registration = list<RegionOpportunityStat>(snapshot, "regionRegistrationPotentialTop5");
+  const common = list<CommonRegionIndustry>(snapshot, "regionCommonIndustries");
+  if (!main.length && !expansion.length && !registration.length) {
+    return null;
+  }
+
+  const lines: string[] = [];
+  if (main.length) {
+    lines.push(`핵심비중 Top5(${regionNames(main, 5)})가 권역 매출의 ${josa(pct(sumShare(main, 5)), "을/를")} 차지하며, 1위는 ${main[0].region}(${pct(main[0].share)})입니다.`);
+  }
+  if (expansion.length) {
+    const top = expansion[0];
+    lines.push(
+      `추가 매출 1순위 ${josa(top.region, "은/는")} 배정 ${won(top.assignedSales)} / 등록 ${josa(`${won(top.registeredSales)}(비율 ${top.assignedRegisteredRatio.toFixed(2)})`, "으로/로")} 두 회원 유형이 고르게 구매합니다.`
+    );
+  }
+  if (registration.length) {
+    const totalGap = registration.reduce((sum, stat) => sum + stat.customerGap, 0);
+    lines.push(
+      `등록회원 확장 1순위 ${josa(registration[0].region, "은/는")} 배정 고객 ${registration[0].assignedCustomerCount}곳 대비 등록 고객 ${registration[0].registeredCustomerCount}곳으로, Top5 합산 고객수 격차는 ${totalGap}곳입니다.`
+    );
+  }
+  const repeated = common.filter((row) => row.overlapCount >= 2);
+  if (repeated.length) {
+    lines.push(`${josa(repeated.map((row) => `${row.region}(${row.overlapCount}회)`).join(", "), "은/는")} 여러 목록에 함께 나타나 단기 실행 우선 지역입니다.`);
+  }
+
+  return lines;
+}
+
+function regionInsight(snapshot: Snapshot): string[] | null {
+  const main = list<RegionOpportunityStat>(snapshot, "regionMainTop5");
+  const expansion = list<RegionOpportunityStat>(snapshot, "regionExpansionTop5");
+  const registration = list<RegionOpportunityStat>(snapshot, "regionRegistrationPotentialTop5");
+  const common = list<CommonRegionIndustry>(snapshot, "regionCommonIndustries");
+  if (!main.length && !expansion.length && !registration.length) {
+    return null;
+  }
+
+  const lines: string[] = [];
+  if (main.length) {
+    lines.push(`${josa(`${regionNames(main, 2)}(합계 ${pct(sumShare(main, 2))})`, "은/는")} 재구매·교체 수요 중심 제안으로 점유율을 유지합니다.`);
+  }
+  if (expansion.length) {
+    const expansionSales = expansion.slice(0, 2).reduce((sum, stat) => sum + stat.sales, 0);
+    lines.push(`${josa(`${regionNames(expansion, 2)}(현재 매출 ${won(expansionSales)})`, "은/는")} 업종별 패키지 제안으로 객단가 확대를 노립니다.`);
+  }
+  if (registration.length) {
+    const gap = registration.slice(0, 2).reduce((sum, stat) => sum + stat.customerGap, 0);
+    lines.push(`${josa(regionNames(registration, 2), "은/는")} 배정 고객 중 미등록 ${gap}곳을 등록회원으로 전환하는 캠페인을 우선 실행합니다.`);
+  }
+  const topCommon = common[0];
+  if (topCommon?.topIndustries.length) {
+    lines.push(`${josa(topCommon.region, "은/는")} ${topCommon.topIndustries[0].industry} 업종 비중(${pct(topCommon.topIndustries[0].share)})이 높아 해당 업종 맞춤 제안을 준비합니다.`);
+  }
+
+  return lines.slice(0, 4);
+}
+
+function regionCommonIndustryInsight(snapshot: Snapshot): string[] | null {
+  const common = list<CommonRegionIndustry>(snapshot, "regionCommonIndustries");
+  if (!common.length) {
+    return null;
+  }
+
+  return common.slice(0, 4).map((row) => {
+    const industries = row.topIndustries
+      .slice(0, 3)
+      .map((industry) => `${industry.industry} ${pct(industry.share)}(${industry.customerCount}개사)`)
+      .join(", ");
+    return `${josa(`${row.region}(공통 출현 ${row.overlapCount}회, 매출 ${won(row.totalSales)})`, "은/는")} ${industries || "업종 정보 없음"} 순으로 업종이 분포합니다. 출처: 내부 데이터`;
+  });
+}
+
+function quantile(values: number[], q: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.max(0, Math.min(sorted.length - 1, Math.floor((sorted.length - 1) * q)));
+  return sorted[index];
+}
+
+function ratioOf(points: GrowthScatterPoint[], predicate: (point: GrowthScatterPoint) => boolean): number {
+  return points.length > 0 ? points.filter(predicate).length / points.length : 0;
+}
+
+/** 성장 버블차트 전체(회색) 분포 해석. 평균선 기준 좌하단 밀집도, 버블 크기 편차, x축 롱테일을 본다. */
+export function growthOverallInterpretation(scatter: GrowthScatterSummary | null): string[] {
+  const points = scatter?.points.filter((point) => !point.isSelectedAgency) ?? [];
+  if (!scatter || points.length === 0) {
+    return [
+      "필터 조건(최초주문금액 100만원 이상, 구매횟수 2회 이상)에 해당하는 전체 고객 분포가 없습니다.",
+      "조건을 완화하거나 데이터 적재 상태를 확인해주세요."
+    ];
+  }
+
+  const avgX = scatter.averageGrowthMultiplier;
+  const avgY = scatter.averagePurchaseCount;
+  const lowerLeftRatio = ratioOf(points, (point) => point.growthMultiplier <= avgX && point.purchaseCount <= avgY);
+
+  const cumulativeAmounts = points.map((point) => point.cumulativeAmount);
+  const medianAmount = quantile(cumulativeAmounts, 0.5);
+  const largeAmountThreshold = quantile(cumulativeAmounts, 0.9);
+  const standoutRatio = ratioOf(points, (point) => point.cumulativeAmount >= largeAmountThreshold);
+
+  const longTailThreshold = Math.max(avgX * 2, 10);
+  const longTailRatio = ratioOf(points, (point) => point.growthMultiplier >= longTailThreshold);
+  const bubbleSpread = medianAmount > 0 ? largeAmountThreshold / medianAmount : 1;
+
+  return [
+    lowerLeftRatio >= 0.55
+      ? `회색 원의 ${josa(pct(lowerLeftRatio * 100), "이/가")} 평균선 좌하단에 밀집해 있어, 다수 고객이 초기 재구매 구간에서 관계가 형성되는 패턴입니다.`
+      : `평균선 좌하단 비중이 ${josa(pct(lowerLeftRatio * 100), "으로/로")}, 고객 성장 단계가 한 구간에만 몰리지 않고 분산된 구조입니다.`,
+    bubbleSpread >= 3
+      ? `상위 10% 누적금액이 중앙값의 ${bubbleSpread.toFixed(1)}배로, 작은 버블이 넓게 깔린 상태에서 일부 대형 버블이 섞인 롱테일 형태입니다.`
+      : `상위 10% 누적금액이 중앙값의 ${bubbleSpread.toFixed(1)}배 수준으로, 특정 초대형 고객 의존도가 과도하게 높지는 않은 구조입니다.`,
+    longTailRatio >= 0.1
+      ? `성장배수 ${longTailThreshold.toFixed(1)}배 이상 고객이 ${josa(pct(longTailRatio * 100), "으로/로")}, 초기 주문 대비 누적금액이 크게 확장된 흐름이 관찰됩니다.`
+      : `성장배수 ${longTailThreshold.toFixed(1)}배 이상 고객은 ${pct(longTailRatio * 100)}에 그쳐 급격한 성장보다 안정적 확장 흐름이 중심입니다.`,
+    standoutRatio >= 0.08
+      ? "대형 버블이 산발적으로 보여 소수 핵심 고객이 매출의 질을 끌어올리는 형태가 함께 나타납니다."
+      : "버블 크기 편차가 과도하지 않아 전반적으로 완만한 고객 포트폴리오로 해석할 수 있습니다."
+  ];
+}
+
+/** 성장 버블차트 선택 대리점(빨간색) 분포 해석. 대리점 평균선 부근 밀집도와 우상단·외곽 비중을 본다. */
+export function growthSelectedInterpretation(agency: string, scatter: GrowthScatterSummary | null): string[] {
+  const points = scatter?.points.filter((point) => point.isSelectedAgency) ?? [];
+  if (!scatter || points.length === 0) {
+    return [
+      "선택된 대리점 고객(빨간 원)이 필터 조건에 맞지 않거나 데이터가 없습니다.",
+      "대리점을 변경하거나 필터 조건/원천 데이터를 확인해주세요."
+    ];
+  }
+
+  const selectedAvgX = scatter.selectedAverageGrowthMultiplier;
+  const selectedAvgY = scatter.selectedAveragePurchaseCount;
+  const nearMeanRatio = ratioOf(
+    points,
+    (point) =>
+      Math.abs(point.growthMultiplier - selectedAvgX) <= Math.max(selectedAvgX * 0.5, 1) &&
+      Math.abs(point.purchaseCount - selectedAvgY) <= Math.max(selectedAvgY * 0.5, 1)
+  );
+  const extremeRatio = ratioOf(points, (point) => point.growthMultiplier >= selectedAvgX * 2 || point.purchaseCount >= selectedAvgY * 2);
+  const aboveMeanRatio = ratioOf(points, (point) => point.growthMultiplier >= selectedAvgX && point.purchaseCount >= selectedAvgY);
+
+  return [
+    nearMeanRatio >= 0.5
+      ? `${agency}의 빨간 원 ${josa(pct(nearMeanRatio * 100), "이/가")} 평균선(성장배수 ${selectedAvgX.toFixed(2)}, 구매 ${selectedAvgY.toFixed(1)}회) 부근에 모여 있어 안정적인 재구매형 포트폴리오 성격이 강합니다.`
+      : `${agency}의 빨간 원은 평균선 부근 비중이 ${josa(pct(nearMeanRatio * 100), "으로/로")}, 유지형과 성장형이 혼합된 분포를 보입니다.`,
+    aboveMeanRatio >= 0.25
+      ? `성장배수와 구매횟수가 모두 평균 이상인 우상단 고객이 ${josa(pct(aboveMeanRatio * 100), "으로/로")} 성장 후보군이 분명히 존재합니다.`
+      : `평균선을 동시에 넘는 고객은 ${josa(pct(aboveMeanRatio * 100), "으로/로")} 제한적이어서, 유지형 관리와 전환형 육성의 균형이 중요한 구간입니다.`,
+    extremeRatio >= 0.15
+      ? `평균의 2배를 넘는 외곽 고객이 ${josa(pct(extremeRatio * 100), "으로/로")}, 특정 고객에서 확장 시그널이 강하게 나타나는 모습입니다.`
+      : "극단 구간 점이 많지 않아 전체적으로 완만한 상승 흐름을 유지하는 패턴에 가깝습니다.",
+    "운영 관점에서는 평균선 인접 고객의 관계 유지와, 우상향 이동 고객의 추가 제안을 분리 운영하는 방식이 적합합니다."
+  ];
+}
+
+function growthInterpretation(agency: string, snapshot: Snapshot): string[] | null {
+  const scatter = (snapshot.growthScatter as GrowthScatterSummary | undefined) ?? null;
+  if (!scatter || !Array.isArray(scatter.points)) {
+    return null;
+  }
+  return [...growthOverallInterpretation(scatter).slice(0, 2), ...growthSelectedInterpretation(agency, scatter).slice(0, 2)];
+}
+
+function crossSellInterpretation(agency: string, snapshot: Snapshot): string[] | null {
+  const ratio = snapshot.crossSellRatio as { solo?: number; crossSell?: number } | undefined;
+  const solo = Number(ratio?.solo ?? 0);
+  const crossSell = Number(ratio?.crossSell ?? 0);
+  const total = solo + crossSell;
+  if (total === 0) {
+    return null;
+  }
+
+  const percent = (crossSell / total) * 100;
+  const stage =
+    percent >= CROSS_SELL_MATURE_PERCENT
+      ? "조합 제안이 정착된 성숙 단계"
+      : percent >= CROSS_SELL_GROWING_PERCENT
+        ? "조합 구매가 늘고 있는 성장 단계"
+        : "단품 구매 위주의 초기 단계";
+  const lines = [
+    `${agency}의 동시구매 비중은 ${pct(percent)}(동시 ${crossSell}건 / 단독 ${solo}건)로 ${stage}입니다.`
+  ];
+
+  const target = percent < CROSS_SELL_GROWING_PERCENT ? CROSS_SELL_GROWING_PERCENT : percent < CROSS_SELL_MATURE_PERCENT ? CROSS_SELL_MATURE_PERCENT : null;
+  if (target !== null) {
+    const needed = Math.max(1, Math.ceil((target / 100) * total - crossSell));
+    lines.push(`단독구매 ${needed}건을 동시구매로 전환하면 비중이 ${target}%에 도달합니다.`);
+  } else {
+    lines.push(`단독구매 ${solo}건은 기존 조합 패턴을 적용할 수 있는 추가 제안 대상입니다.`);
+  }
+
+  const missing = list<MissingPairing>(snapshot, "missingPairings")[0];
+  if (missing) {
+    const antecedent = missing.antecedent.join("+");
+    lines.push(
+      `Club 1000에서는 ${antecedent} 주문의 ${pct(missing.clubConfidence)}에 ${josa(missing.consequent, "이/가")} 함께 담기지만(향상도 ${missing.clubLift.toFixed(2)}배), ${agency}는 ${pct(missing.agencyConfidence)}에 그칩니다. ${antecedent} 주문에 ${missing.consequent} 제안을 붙이면 약 ${missing.opportunityOrders}건의 동시구매를 더 만들 수 있습니다.`
+    );
+  }
+
+  const newProduct = findKpi(snapshot, "new-product");
+  if (newProduct) {
+    lines.push(`신제품 비중 ${josa(`${newProduct.value}(${benchmarkLabel(snapshot)} 대비 ${signed(newProduct.delta, "%")})`, "을/를")} 고려해 기존 주력품과 신제품을 묶은 세트 제안을 우선합니다.`);
+  }
+
+  return lines;
+}
+
+/** 이탈 위험 고객 요약. 대시보드 기본 문구와 규칙 기반 인사이트에서 함께 쓴다. */
+export function atRiskCustomerLines(agency: string, dormancy: DormancySummary | null, customers: AtRiskCustomer[]): string[] {
+  if (!dormancy || dormancy.evaluatedCount === 0) {
+    return [`${agency}에는 주문 간격을 계산할 수 있는 반복 구매 고객이 없어 이탈 위험을 판단할 수 없습니다.`];
+  }
+  if (dormancy.atRiskCount === 0) {
+    return [
+      `${agency}의 반복 구매 고객 ${dormancy.evaluatedCount}명 모두 평소 주문 간격의 ${dormancy.riskThreshold}배 이내에 주문이 있었습니다 (기준일 ${dormancy.referenceDate}).`
+    ];
+  }
+
+  const lines = [
+    `${agency}의 반복 구매 고객 ${dormancy.evaluatedCount}명 중 ${dormancy.atRiskCount}명(${pct((dormancy.atRiskCount / dormancy.evaluatedCount) * 100)})이 평소 주문 간격의 ${dormancy.riskThreshold}배 넘게 주문이 없습니다 (기준일 ${dormancy.referenceDate}).`
+  ];
+  if (dormancy.highRiskCount > 0) {
+    lines.push(`이 중 ${dormancy.highRiskCount}명은 공백이 평소 간격의 ${dormancy.highRiskThreshold}배 이상으로 이탈 가능성이 높습니다.`);
+  }
+
+  const top = customers.slice(0, 3);
+  if (top.length > 0) {
+    const names = top.map((customer) => `${customer.customerName}(${customer.daysSinceLastOrder}일 공백, 평소 ${Math.round(customer.typicalGapDays)}일 간격)`);
+    lines.push(`재구매 시점 확인 연락은 ${names.join(", ")} 순으로 우선합니다 (고위험 우선, 같은 등급은 누적금액 순).`);
+  }
+  lines.push(`이탈 위험 고객의 누적 매출은 ${josa(won(dormancy.atRiskAmount), "으로/로")}, 유지 활동으로 지켜야 할 매출 규모입니다.`);
+  return lines;
+}
+
+function retentionInsight(agency: string, snapshot: Snapshot): string[] | null {
+  const dormancy = (snapshot.dormancy as DormancySummary | undefined) ?? null;
+  if (!dormancy) {
+    return null;
+  }
+  return atRiskCustomerLines(agency, dormancy, list<AtRiskCustomer>(snapshot, "atRiskCustomers"));
+}
+
+/** 매출 목표 대비 진행 상황. 대시보드 기본 문구와 규칙 기반 인사이트에서 함께 쓴다. */
+export function targetPacingLines(agency: string, tracking: TargetTracking | null): string[] {
+  if (!tracking) {
+    return [`${agency}에 등록된 매출 목표가 분석 기간에 없어 목표 대비 실적을 계산할 수 없습니다.`];
+  }
+
+  const lines: string[] = [];
+  const { total } = tracking;
+  if (total) {
+    lines.push(
+      `${tracking.from} ~ ${tracking.to} 목표 ${won(total.target)} 중 ${won(total.actual)}을 달성해 달성률 ${josa(pct(total.attainment), "이/가")} 됐습니다 (기준일 ${tracking.asOf}, 기간 ${tracking.totalDays}일 중 ${tracking.elapsedDays}일 경과).`
+    );
+    lines.push(
+      total.pace >= 100
+        ? `기준일까지 목표 ${won(total.targetToDate)} 대비 ${pct(total.pace)}로 페이스를 앞서고 있습니다.`
+        : `기준일까지 목표 ${won(total.targetToDate)} 대비 ${pct(total.pace)}로 페이스가 ${pct(100 - total.pace)} 뒤처져 있습니다.`
+    );
+    if (total.remainingDays > 0) {
+      lines.push(
+        total.projectedGap <= 0
+          ? `지금 일평균 매출이 이어지면 기간 말 ${josa(won(total.runRateProjection), "으로/로")} 목표를 ${won(-total.projectedGap)} 넘길 전망입니다.`
+          : `지금 일평균 매출이 이어지면 기간 말 ${josa(won(total.runRateProjection), "으로/로")} 목표에 ${won(total.projectedGap)} 못 미칩니다. 남은 ${total.remainingDays}일 동안 하루 ${won(total.gapToTarget / total.remainingDays)}씩 필요합니다.`
+      );
+    } else if (total.gapToTarget > 0) {
+      lines.push(`기간이 끝나 목표에 ${won(total.gapToTarget)} 못 미친 채 마감됐습니다.`);
+    }
+  }
+
+  const lagging = tracking.categories.filter((category) => category.pace < 100).slice(0, 3);
+  if (lagging.length > 0) {
+    const names = lagging.map((category) => `${category.category}(페이스 ${pct(category.pace)}, 부족 ${won(Math.max(category.targetToDate - category.actual, 0))})`);
+    lines.push(`목표 페이스에 못 미치는 제품군은 ${names.join(", ")}입니다. 해당 제품군 구매 이력 고객에게 재구매 제안을 우선합니다.`);
+  } else if (tracking.categories.length > 0) {
+    lines.push(`목표를 등록한 제품군 ${tracking.categories.length}개 모두 페이스를 지키고 있습니다.`);
+  }
+  return lines;
+}
+
+function targetPacingInsight(agency: string, snapshot: Snapshot): string[] | null {
+  if (!("targets" in snapshot)) {
+    return null;
+  }
+  return targetPacingLines(agency, (snapshot.targets as TargetTracking | null) ?? null);
+}
+
+function estimatedProductTotal(stats: CategoryMixStat[]): number {
+  const reference = stats.find((stat) => stat.agencyShare > 0);
+  return reference ? (reference.agencySales / reference.agencyShare) * 100 : 0;
+}
+
+function weakProductsInterpretation(agency: string, snapshot: Snapshot): string[] | null {
+  const under = list<CategoryMixStat>(snapshot, "underIndexedCategories");
+  const all = list<CategoryMixStat>(snapshot, "categoryMixTop10");
+  const clubAgencyCount = Number(snapshot.clubAgencyCount ?? 0);
+  if (!clubAgencyCount) {
+    return ["비교할 Club 1000 대리점 제품 데이터가 없어 저판매 제품군을 판단할 수 없습니다."];
+  }
+  if (!under.length) {
+    return [`${josa(agency, "은/는")} Club 1000 평균(${clubAgencyCount}개 대리점) 대비 비중이 눈에 띄게 낮은 제품군이 없습니다.`];
+  }
+
+  const total = estimatedProductTotal([...under, ...all]);
+  const lines = under.slice(0, 3).map((stat) => {
+    const opportunity = total > 0 ? ` 평균 비중까지 올리면 약 ${won((Math.abs(stat.shareGap) / 100) * total)} 추가 여지가 있습니다.` : "";
+    return `${stat.category}: 비중 ${josa(pct(stat.agencyShare), "으로/로")} Club 1000 평균 ${pct(stat.clubShare)}보다 ${Math.abs(stat.shareGap).toFixed(1)}%p 낮습니다.${opportunity}`;
+  });
+  lines.push(`우선 개선 제품군은 ${under.slice(0, 2).map((stat) => stat.category).join(", ")}입니다. 주력 고객의 재구매 시점에 묶음 제안으로 전환을 시도합니다.`);
+  return lines;
+}
+
+function strongProductsInterpretation(agency: string, snapshot: Snapshot): string[] | null {
+  const over = list<CategoryMixStat>(snapshot, "overIndexedCategories");
+  const clubAgencyCount = Number(snapshot.clubAgencyCount ?? 0);
+  if (!clubAgencyCount) {
+    return ["비교할 Club 1000 대리점 제품 데이터가 없어 고판매 제품군을 판단할 수 없습니다."];
+  }
+  if (!over.length) {
+    return [`${josa(agency, "은/는")} Club 1000 평균(${clubAgencyCount}개 대리점) 대비 비중이 눈에 띄게 높은 제품군이 없습니다.`];
+  }
+
+  const strongSales = over.reduce((sum, stat) => sum + stat.agencySales, 0);
+  const strongShare = over.reduce((sum, stat) => sum + stat.agencyShare, 0);
+  const lines = over
+    .slice(0, 3)
+    .map((stat) => `${stat.category}: 비중 ${josa(pct(stat.agencyShare), "으로/로")} Club 1000 평균 ${pct(stat.clubShare)}보다 ${stat.shareGap.toFixed(1)}%p 높습니다 (매출 ${won(stat.agencySales)}).`);
+  lines.push(`강점 제품군 매출 ${josa(won(strongSales), "이/가")} 전체 제품 매출의 ${josa(pct(strongShare), "으로/로")}, 해당 제품의 구매 고객에게 인접 제품군을 함께 제안해 성공 패턴을 확장합니다.`);
+  return lines;
+}
+
+/** 프리셋별 규칙 기반 문장. 스냅샷에 필요한 데이터가 없으면 null. */
+export function ruleBasedMessages(presetId: string, agency: string, snapshot: Snapshot | undefined): string[] | null {
+  if (!snapshot) {
+    return null;
+  }
+
+  switch (presetId) {
+    case "geo_interpretation":
+      return geoInterpretation(agency, snapshot);
+    case "geo_insight":
+      return geoInsight(agency, snapshot);
+    case "region_interpretation":
+      return regionInterpretation(snapshot);
+    case "region_insight":
+      return regionInsight(snapshot);
+    case "region_common_industry_insight":
+      return regionCommonIndustryInsight(snapshot);
+    case "growth_interpretation":
+      return growthInterpretation(agency, snapshot);
+    case "cross_sell_interpretation":
+      return crossSellInterpretation(agency, snapshot);
+    case "retention_insight":
+      return retentionInsight(agency, snapshot);
+    case "target_pacing_insight":
+      return targetPacingInsight(agency, snapshot);
+    case "weak_products_interpretation":
+      return weakProductsInterpretation(agency, snapshot);
+    case "strong_products_interpretation":
+      return strongProductsInterpretation(agency, snapshot);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import { buildMarketBasket } from "@/features/metrics/basket";
+import type { AnalysisDataset, PreparedOrder, PreparedProduct } from "@/types/domain";
+
+function basketOrders(agency: string, baskets: string[][]): { orders: PreparedOrder[]; products: PreparedProduct[] } {
+  const orders = baskets.map((_, index) => ({
+    orderNo: `${agency}-${index}`,
+    bizNo: `${agency}-b${index}`,
+    agency,
+    memberType: "",
+    orderAmount: 1000,
+    orderDate: new Date("2024-05-01"),
+    city: "",
+    district: "",
+    dong: ""
+  }));
+  const products = baskets.flatMap((categories, index) =>
+    categories.map((midCategory) => ({ orderNo: `${agency}-${index}`, midCategory, quantity: 1, salesAmount: 500, isNewProduct: false }))
+  );
+  return { orders, products };
+}
+
+const selected = basketOrders("DM신", [
+  ["책상", "의자", "의자"],
+  ["책상", "의자"],
+  ["책상", "의자"],
+  ["책상"],
+  ["책상"],
+  ["책상"],
+  ["수납"],
+  ["수납"],
+  ["수납"],
+  ["수납"]
+]);
+const club = basketOrders("DM클럽", [["책상", "조명"], ["책상", "조명"], ["책상", "조명"], ["책상", "조명"], ["의자"], ["의자"], ["의자"], ["의자"]]);
+const source: AnalysisDataset = { orders: [...selected.orders, ...club.orders], customers: [], products: [...selected.products, ...club.products] };
+
+describe("buildMarketBasket", () => {
+  it("주문 단위로 중분류를 한 번씩 세어 지지도·신뢰도·향상도를 계산한다", () => {
+    const basket = buildMarketBasket(source, "DM신", ["DM신", "DM클럽"], ["DM신", "DM클럽"]);
+
+    expect(basket).toMatchObject({ orderCount: 10, benchmarkOrderCount: 8, clubOrderCount: 8, minOrderCount: 3 });
+
+    const deskToChair = basket.agencyRules.find((rule) => rule.antecedent.join() === "책상" && rule.consequent === "의자");
+    expect(deskToChair).toMatchObject({ orderCount: 3, support: 30, confidence: 50 });
+    expect(deskToChair?.lift).toBeCloseTo(5 / 3);
+
+    const chairToDesk = basket.agencyRules.find((rule) => rule.antecedent.join() === "의자" && rule.consequent === "책상");
+    expect(chairToDesk?.confidence).toBe(100);
+  });
+
+  it("Club 1000에서 강하게 함께 팔리지만 선택 대리점에서 드문 조합을 기회 주문 수와 함께 뽑는다", () => {
+    const basket = buildMarketBasket(source, "DM신", [], ["DM신", "DM클럽"]);
+
+    expect(basket.missingPairings).toEqual([
+      {
+        antecedent: ["책상"],
+        consequent: "조명",
+        clubConfidence: 100,
+        clubLift: 2,
+        agencyConfidence: 0,
+        agencyAntecedentOrders: 6,
+        agencyOrderCount: 0,
+        opportunityOrders: 6
+      }
+    ]);
+  });
+});
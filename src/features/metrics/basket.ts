@@ -0,0 +1,150 @@
+import type { AnalysisDataset, AssociationRule, MarketBasket, MissingPairing } from "@/types/domain";
+
+/**
+ * 주문번호 단위로 묶은 제품 중분류의 연관 규칙(장바구니 분석).
+ * 2개·3개 조합을 세어 지지도/신뢰도/향상도를 계산하고, Club 1000에서는 강하게 함께 팔리지만
+ * 선택 대리점에서는 드문 조합을 크로스셀 제안 포인트로 뽑는다.
+ */
+
+const MIN_ORDER_COUNT = 3;
+// 중분류가 아주 많은 주문은 3개 조합 수가 급격히 늘어 2개 조합까지만 센다.
+const MAX_CATEGORIES_FOR_TRIPLES = 8;
+const RULE_LIMIT = 10;
+const STRONG_LIFT = 1.5;
+const STRONG_CONFIDENCE = 20;
+const MISSING_CONFIDENCE_RATIO = 0.5;
+const MISSING_PAIRING_LIMIT = 5;
+
+interface ItemsetCounts {
+  orderCount: number;
+  counts: Map<string, number>;
+}
+
+function itemsetKey(items: string[]): string {
+  return [...items].sort().join("\u0001");
+}
+
+function orderCategories(dataset: AnalysisDataset, agencies: Set<string>): string[][] {
+  const includedOrders = new Set(dataset.orders.filter((order) => agencies.has(order.agency)).map((order) => order.orderNo));
+  const byOrder = new Map<string, Set<string>>();
+  for (const product of dataset.products) {
+    if (!product.midCategory || !includedOrders.has(product.orderNo)) {
+      continue;
+    }
+    const bucket = byOrder.get(product.orderNo) ?? new Set<string>();
+    bucket.add(product.midCategory);
+    byOrder.set(product.orderNo, bucket);
+  }
+  return Array.from(byOrder.values(), (set) => Array.from(set).sort());
+}
+
+function countItemsets(transactions: string[][]): ItemsetCounts {
+  const counts = new Map<string, number>();
+  const add = (items: string[]) => {
+    const key = itemsetKey(items);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  };
+
+  for (const items of transactions) {
+    for (let i = 0; i < items.length; i += 1) {
+      add([items[i]]);
+      for (let j = i + 1; j < items.length; j += 1) {
+        add([items[i], items[j]]);
+        if (items.length > MAX_CATEGORIES_FOR_TRIPLES) {
+          continue;
+        }
+        for (let k = j + 1; k < items.length; k += 1) {
+          add([items[i], items[j], items[k]]);
+        }
+      }
+    }
+  }
+
+  return { orderCount: transactions.length, counts };
+}
+
+function mineRules({ orderCount, counts }: ItemsetCounts): AssociationRule[] {
+  const rules: AssociationRule[] = [];
+  for (const [key, count] of counts) {
+    const items = key.split("\u0001");
+    if (items.length < 2 || count < MIN_ORDER_COUNT) {
+      continue;
+    }
+
+    for (const consequent of items) {
+      const antecedent = items.filter((item) => item !== consequent);
+      const antecedentCount = counts.get(itemsetKey(antecedent)) ?? 0;
+      const consequentCount = counts.get(consequent) ?? 0;
+      if (antecedentCount === 0 || consequentCount === 0) {
+        continue;
+      }
+      const confidence = count / antecedentCount;
+      rules.push({
+        antecedent,
+        consequent,
+        orderCount: count,
+        support: (count / orderCount) * 100,
+        confidence: confidence * 100,
+        lift: confidence / (consequentCount / orderCount)
+      });
+    }
+  }
+  return rules;
+}
+
+function topRules(rules: AssociationRule[]): AssociationRule[] {
+  return rules
+    .filter((rule) => rule.lift > 1)
+    .sort((a, b) => b.lift - a.lift || b.orderCount - a.orderCount)
+    .slice(0, RULE_LIMIT);
+}
+
+function findMissingPairings(club: ItemsetCounts, agency: ItemsetCounts): MissingPairing[] {
+  const pairings: MissingPairing[] = [];
+  for (const rule of mineRules(club)) {
+    if (rule.lift < STRONG_LIFT || rule.confidence < STRONG_CONFIDENCE) {
+      continue;
+    }
+
+    const agencyAntecedentOrders = agency.counts.get(itemsetKey(rule.antecedent)) ?? 0;
+    if (agencyAntecedentOrders < MIN_ORDER_COUNT) {
+      continue;
+    }
+    const agencyOrderCount = agency.counts.get(itemsetKey([...rule.antecedent, rule.consequent])) ?? 0;
+    const agencyConfidence = (agencyOrderCount / agencyAntecedentOrders) * 100;
+    if (agencyConfidence >= rule.confidence * MISSING_CONFIDENCE_RATIO) {
+      continue;
+    }
+
+    pairings.push({
+      antecedent: rule.antecedent,
+      consequent: rule.consequent,
+      clubConfidence: rule.confidence,
+      clubLift: rule.lift,
+      agencyConfidence,
+      agencyAntecedentOrders,
+      agencyOrderCount,
+      opportunityOrders: Math.round((agencyAntecedentOrders * rule.confidence) / 100 - agencyOrderCount)
+    });
+  }
+
+  return pairings.sort((a, b) => b.opportunityOrders - a.opportunityOrders || b.clubLift - a.clubLift).slice(0, MISSING_PAIRING_LIMIT);
+}
+
+/** 비교 그룹과 Club 1000 그룹은 선택 대리점을 빼고 주문을 합쳐서 센다. */
+export function buildMarketBasket(dataset: AnalysisDataset, agency: string, benchmarkAgencies: string[], clubAgencies: string[]): MarketBasket {
+  const others = (agencies: string[]) => new Set(agencies.filter((item) => item !== agency));
+  const agencyCounts = countItemsets(orderCategories(dataset, new Set([agency])));
+  const benchmarkCounts = countItemsets(orderCategories(dataset, others(benchmarkAgencies)));
+  const clubCounts = countItemsets(orderCategories(dataset, others(clubAgencies)));
+
+  return {
+    orderCount: agencyCounts.orderCount,
+    benchmarkOrderCount: benchmarkCounts.orderCount,
+    clubOrderCount: clubCounts.orderCount,
+    minOrderCount: MIN_ORDER_COUNT,
+    agencyRules: topRules(mineRules(agencyCounts)),
+    benchmarkRules: topRules(mineRules(benchmarkCounts)),
+    missingPairings: findMissingPairings(clubCounts, agencyCounts)
+  };
+}
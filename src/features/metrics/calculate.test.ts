@@ -0,0 +1,312 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { calculateAnalysis, calculateCustomerDetail, calculateLeaderboard, comparisonPeriod } from "@/features/metrics/calculate";
+import { analysisPeriodSchema } from "@/features/metrics/period";
+import type { AgencyRegistry, AnalysisDataset, PeriodCoverage } from "@/types/domain";
+
+const registry = vi.hoisted<AgencyRegistry>(() => ({
+  version: 1,
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  aliases: [],
+  club1000: [
+    { id: "club-1", agency: "DM가", effectiveFrom: "2024-01-01", retiredFrom: null },
+    { id: "club-2", agency: "DM라", effectiveFrom: "2024-01-01", retiredFrom: null }
+  ]
+}));
+
+vi.mock("@/lib/agency-registry", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/agency-registry")>()),
+  readAgencyRegistry: () => registry
+}));
+
+/** [사업자번호, 대리점, 금액, 주문일] 목록으로 주문만 있는 데이터셋을 만든다. */
+function ordersOnly(rows: Array<[string, string, number, string]>): AnalysisDataset {
+  return {
+    orders: rows.map(([bizNo, agency, orderAmount, date], index) => ({
+      orderNo: `o${index + 1}`,
+      bizNo,
+      agency,
+      memberType: "",
+      orderAmount,
+      orderDate: new Date(date),
+      city: "",
+      district: "",
+      dong: ""
+    })),
+    customers: [],
+    products: []
+  };
+}
+
+describe("comparisonPeriod", () => {
+  function coverage(from: string | null, to: string | null): PeriodCoverage {
+    return {
+      from,
+      to,
+      availableFrom: "2023-01-01",
+      availableTo: "2024-12-31",
+      includedOrders: 0,
+      outOfRangeOrders: 0,
+      undatedOrders: 0,
+      undatedExcluded: from !== null || to !== null
+    };
+  }
+
+  it("기간을 지정하지 않은 전체 분석은 비교 대상이 없다", () => {
+    expect(comparisonPeriod(coverage(null, null), "previousPeriod")).toBeNull();
+  });
+
+  it("월 단위 기간은 같은 개월 수만큼, 그 밖의 기간은 같은 일수만큼 앞당긴다", () => {
+    expect(comparisonPeriod(coverage("2024-04-01", "2024-06-30"), "previousPeriod")).toEqual({ from: "2024-01-01", to: "2024-03-31" });
+    expect(comparisonPeriod(coverage("2024-03-01", "2024-03-31"), "previousPeriod")).toEqual({ from: "2024-02-01", to: "2024-02-29" });
+    expect(comparisonPeriod(coverage("2024-04-10", "2024-04-19"), "previousPeriod")).toEqual({ from: "2024-03-31", to: "2024-04-09" });
+  });
+
+  it("전년 동기는 1년 전 같은 날짜이며 윤일은 2월 말일로 맞춘다", () => {
+    expect(comparisonPeriod(coverage("2024-02-01", "2024-02-29"), "yearOverYear")).toEqual({ from: "2023-02-01", to: "2023-02-28" });
+  });
+
+  it("한쪽만 지정하면 데이터의 처음 또는 끝까지를 기간으로 본다", () => {
+    expect(comparisonPeriod(coverage("2024-12-01", null), "previousPeriod")).toEqual({ from: "2024-11-01", to: "2024-11-30" });
+  });
+});
+
+describe("calculateAnalysis", () => {
+  const full = ordersOnly([
+    ["b1", "DM신", 100, "2024-03-10"],
+    ["b1", "DM신", 200, "2024-04-10"],
+    ["b2", "DM신", 100, "2024-04-20"],
+    ["b3", "DM신", 500, "2023-04-15"]
+  ]);
+
+  it("KPI 카드에 비교 기간 값과 증감률을 담는다", () => {
+    const analysis = calculateAnalysis(full, "DM신", "overall", analysisPeriodSchema.parse({ from: "2024-04-01", to: "2024-04-30" }));
+    const sales = analysis.kpis.find((card) => card.id === "sales");
+    const orders = analysis.kpis.find((card) => card.id === "orders");
+
+    expect(analysis.comparison).toEqual({ mode: "previousPeriod", from: "2024-03-01", to: "2024-03-31" });
+    expect(sales).toMatchObject({ value: "300원", priorValue: "100원", priorDelta: 200, priorTone: "up" });
+    expect(orders).toMatchObject({ value: "2건", priorValue: "1건", priorDelta: 100 });
+  });
+
+  it("전년 동기 비교는 1년 전 같은 기간과 비교한다", () => {
+    const analysis = calculateAnalysis(full, "DM신", "overall", analysisPeriodSchema.parse({ from: "2024-04-01", to: "2024-04-30" }), "yearOverYear");
+    const sales = analysis.kpis.find((card) => card.id === "sales");
+
+    expect(analysis.comparison).toEqual({ mode: "yearOverYear", from: "2023-04-01", to: "2023-04-30" });
+    expect(sales).toMatchObject({ priorValue: "500원", priorDelta: -40, priorTone: "down" });
+  });
+
+  it("전체 기간 분석에는 비교 값이 없다", () => {
+    const analysis = calculateAnalysis(full, "DM신", "overall");
+
+    expect(analysis.comparison).toBeNull();
+    expect(analysis.kpis.every((card) => card.priorValue === null && card.priorDelta === null && card.priorTone === null)).toBe(true);
+  });
+  describe("categoryMix", () => {
+    const mixed: AnalysisDataset = {
+      ...ordersOnly([
+        ["b1", "DM신", 450, "2024-04-01"],
+        ["b2", "DM가", 100, "2024-04-02"],
+        ["b3", "DM라", 100, "2024-04-03"]
+      ]),
+      products: [
+        { orderNo: "o1", midCategory: "책상", quantity: 3, salesAmount: 300, isNewProduct: false },
+        { orderNo: "o1", midCategory: "의자", quantity: 1, salesAmount: 100, isNewProduct: false },
+        { orderNo: "o1", midCategory: "", quantity: 1, salesAmount: 100, isNewProduct: false },
+        { orderNo: "o1", midCategory: "의자", quantity: -1, salesAmount: -50, isNewProduct: false },
+        { orderNo: "o2", midCategory: "책상", quantity: 1, salesAmount: 100, isNewProduct: false },
+        { orderNo: "o3", midCategory: "의자", quantity: 1, salesAmount: 50, isNewProduct: false },
+        { orderNo: "o3", midCategory: "수납", quantity: 1, salesAmount: 50, isNewProduct: false }
+      ]
+    };
+
+    it("중분류 비중을 Club 1000 평균과 비교하고 반품은 비중에서 뺀다", () => {
+      const { categoryMix } = calculateAnalysis(mixed, "DM신", "overall");
+
+      expect(categoryMix.clubAgencyCount).toBe(2);
+      expect(categoryMix.all.map((stat) => [stat.category, stat.agencyShare, stat.clubShare])).toEqual([
+        ["책상", 60, 50],
+        ["의자", 20, 25],
+        ["수납", 0, 25],
+        ["미분류", 20, 0]
+      ]);
+      expect(categoryMix.overIndexed.map((stat) => [stat.category, stat.shareGap])).toEqual([["책상", 10]]);
+      expect(categoryMix.underIndexed.map((stat) => [stat.category, stat.shareGap])).toEqual([
+        ["수납", -25],
+        ["의자", -5]
+      ]);
+    });
+
+    it("선택 대리점이 Club 1000 회원이면 자기 자신은 평균에서 뺀다", () => {
+      const { categoryMix } = calculateAnalysis(mixed, "DM가", "overall");
+
+      expect(categoryMix.clubAgencyCount).toBe(1);
+      expect(categoryMix.all.find((stat) => stat.category === "책상")).toMatchObject({ agencySales: 100, agencyShare: 100, clubShare: 0 });
+    });
+  });
+  describe("dormancy", () => {
+    const dormant: AnalysisDataset = {
+      ...ordersOnly([
+        ["c1", "DM신", 100, "2024-01-01"],
+        ["c1", "DM신", 100, "2024-01-31"],
+        ["c1", "DM신", 100, "2024-03-01"],
+        ["c2", "DM신", 100, "2024-05-27"],
+        ["c2", "DM신", 100, "2024-06-10"],
+        ["c3", "DM신", 100, "2024-06-01"],
+        ["c4", "DM신", 500, "2024-01-01"],
+        ["c4", "DM신", 500, "2024-01-05"],
+        ["c5", "DM신", 100, "2024-04-01"],
+        ["c5", "DM신", 100, "2024-05-01"],
+        ["k1", "DM가", 100, "2024-06-30"]
+      ]),
+      customers: ["c1", "c4"].map((bizNo) => ({
+        bizNo,
+        agency: "DM신",
+        customerName: `고객${bizNo}`,
+        memberType: "",
+        industryMajor: "",
+        industryDetail: "",
+        firstOrderAmount: 100
+      }))
+    };
+
+    it("마지막 주문 이후 공백을 평소 주문 간격과 비교해 이탈 위험을 매긴다", () => {
+      const { dormancy, atRiskCustomers } = calculateAnalysis(dormant, "DM신", "overall");
+
+      expect(dormancy).toMatchObject({
+        referenceDate: "2024-06-30",
+        evaluatedCount: 4,
+        oneTimeCount: 1,
+        atRiskCount: 3,
+        highRiskCount: 2,
+        atRiskAmount: 1300
+      });
+      expect(atRiskCustomers.map((customer) => [customer.bizNo, customer.riskLevel, customer.daysSinceLastOrder, customer.typicalGapDays])).toEqual([
+        ["c4", "high", 177, 14],
+        ["c1", "high", 121, 30],
+        ["c5", "medium", 60, 30]
+      ]);
+      expect(atRiskCustomers[0]).toMatchObject({ customerName: "고객c4", lastOrderDate: "2024-01-05", cumulativeAmount: 1000 });
+    });
+  });
+});
+
+describe("calculateLeaderboard", () => {
+  const full: AnalysisDataset = {
+    ...ordersOnly([
+      ["b1", "DM가", 100, "2024-04-01"],
+      ["b2", "DM가", 300, "2024-04-02"],
+      ["b3", "DM나", 500, "2024-04-03"],
+      ["b4", "DM다", 100, "2024-04-04"]
+    ]),
+    products: [
+      { orderNo: "o1", midCategory: "책상", quantity: 1, salesAmount: 60, isNewProduct: true },
+      { orderNo: "o1", midCategory: "의자", quantity: 1, salesAmount: 40, isNewProduct: false },
+      { orderNo: "o2", midCategory: "책상", quantity: 1, salesAmount: 300, isNewProduct: false },
+      { orderNo: "o3", midCategory: "책상", quantity: 1, salesAmount: 500, isNewProduct: true }
+    ]
+  };
+
+  it("대리점별 지표와 순위를 계산하고 매출 순으로 정렬한다", () => {
+    const { rows } = calculateLeaderboard(full, "overall");
+
+    expect(rows.map((row) => row.agency)).toEqual(["DM나", "DM가", "DM다"]);
+    expect(rows[1]).toMatchObject({
+      agency: "DM가",
+      isClub1000: true,
+      values: { sales: 400, orderCount: 2, newProductRatio: 15, crossSellRatio: 50 },
+      ranks: { sales: 2, orderCount: 1, newProductRatio: 2, crossSellRatio: 1 }
+    });
+    expect(rows[1].topPercents.orderCount).toBeCloseTo(100 / 3);
+  });
+
+  it("같은 값은 같은 순위를 받는다", () => {
+    const { rows } = calculateLeaderboard(full, "overall");
+
+    expect(rows.map((row) => row.ranks.orderCount)).toEqual([2, 1, 2]);
+    expect(rows.find((row) => row.agency === "DM다")?.values).toMatchObject({ newProductRatio: 0, crossSellRatio: 0 });
+  });
+
+  it("Club 1000 범위는 회원 대리점끼리만 순위를 매기고 기간을 적용한다", () => {
+    const club = calculateLeaderboard(full, "club1000");
+    expect(club.rows.map((row) => [row.agency, row.ranks.sales])).toEqual([["DM가", 1]]);
+
+    const period = calculateLeaderboard(full, "overall", analysisPeriodSchema.parse({ from: "2024-04-02", to: "2024-04-03" }));
+    expect(period.period).toMatchObject({ from: "2024-04-02", to: "2024-04-03", includedOrders: 2 });
+    expect(period.rows.map((row) => [row.agency, row.values.sales])).toEqual([
+      ["DM나", 500],
+      ["DM가", 300]
+    ]);
+  });
+});
+
+describe("calculateCustomerDetail", () => {
+  const full: AnalysisDataset = {
+    ...ordersOnly([
+      ["b1", "DM신", 100, "2024-03-05"],
+      ["b1", "DM신", 300, "2024-04-10"],
+      ["b1", "DM가", 900, "2024-04-11"],
+      ["b2", "DM신", 500, "2024-04-12"]
+    ]),
+    customers: [
+      {
+        bizNo: "b1",
+        agency: "DM신",
+        customerName: "데스커상사",
+        memberType: "등록",
+        industryMajor: "제조업",
+        industryDetail: "가구 제조",
+        firstOrderAmount: 100
+      }
+    ],
+    products: [
+      { orderNo: "o1", midCategory: "책상", quantity: 1, salesAmount: 100, isNewProduct: true },
+      { orderNo: "o2", midCategory: "의자", quantity: 2, salesAmount: 200, isNewProduct: false },
+      { orderNo: "o2", midCategory: "", quantity: 1, salesAmount: 150, isNewProduct: false },
+      { orderNo: "o2", midCategory: "의자", quantity: -1, salesAmount: -50, isNewProduct: false },
+      { orderNo: "o3", midCategory: "책상", quantity: 1, salesAmount: 900, isNewProduct: false }
+    ]
+  };
+
+  it("같은 대리점의 주문만 최신순으로 담고 월별 추이와 중분류 비중을 계산한다", () => {
+    const detail = calculateCustomerDetail(full, "DM신", "b1");
+
+    expect(detail).toMatchObject({
+      customerName: "데스커상사",
+      industryDetail: "가구 제조",
+      cumulativeAmount: 400,
+      purchaseCount: 2,
+      growthMultiplier: 4
+    });
+    expect(detail?.orders.map((order) => [order.orderNo, order.orderDate, order.lines.length])).toEqual([
+      ["o2", "2024-04-10", 3],
+      ["o1", "2024-03-05", 1]
+    ]);
+    expect(detail?.timeline).toEqual([
+      { month: "2024-03", orderCount: 1, amount: 100 },
+      { month: "2024-04", orderCount: 1, amount: 300 }
+    ]);
+    expect(detail?.categoryMix.map((stat) => [stat.category, stat.quantity, stat.salesAmount, stat.share])).toEqual([
+      ["의자", 1, 150, 37.5],
+      ["미분류", 1, 150, 37.5],
+      ["책상", 1, 100, 25]
+    ]);
+  });
+
+  it("기간을 지정하면 주문은 기간 안의 것만 담고 고객 정보는 유지한다", () => {
+    const detail = calculateCustomerDetail(full, "DM신", "b1", analysisPeriodSchema.parse({ from: "2024-03-01", to: "2024-03-31" }));
+
+    expect(detail?.orders.map((order) => order.orderNo)).toEqual(["o1"]);
+    expect(detail).toMatchObject({ customerName: "데스커상사", cumulativeAmount: 100, growthMultiplier: 1 });
+
+    const empty = calculateCustomerDetail(full, "DM신", "b1", analysisPeriodSchema.parse({ from: "2024-05-01", to: "2024-05-31" }));
+    expect(empty).toMatchObject({ customerName: "데스커상사", purchaseCount: 0, orders: [], timeline: [] });
+  });
+
+  it("고객 정보가 없으면 주문으로 채우고, 주문도 없으면 null", () => {
+    expect(calculateCustomerDetail(full, "DM신", "b2")).toMatchObject({ customerName: "b2", firstOrderAmount: 0, growthMultiplier: 0, cumulativeAmount: 500 });
+    expect(calculateCustomerDetail(full, "DM신", "b9")).toBeNull();
+    expect(calculateCustomerDetail(full, "DM나", "b1")).toBeNull();
+  });
+});
@@ -1,15 +1,37 @@
 import type {
   AnalysisDataset,
+  AnalysisPeriod,
   AnalysisResult,
+  AtRiskCustomer,
   BenchmarkMode,
+  CategoryMix,
+  CategoryMixStat,
   CommonRegionIndustry,
+  ComparisonMode,
+  CustomerCategoryStat,
+  CustomerDetail,
+  CustomerOrderLine,
+  CustomerTimelinePoint,
+  DormancySummary,
   GrowthCustomer,
   GrowthScatterSummary,
   KpiCard,
+  Leaderboard,
+  LeaderboardMetric,
+  LeaderboardRow,
   MonthlyNewProduct,
+  PeriodCoverage,
   RegionOpportunityStat,
-  RegionStat
+  RegionStat,
+  SalesTargetEntry,
+  TargetTracking
 } from "@/types/domain";
+import { buildMarketBasket } from "@/features/metrics/basket";
+import { buildCohortAnalysis } from "@/features/metrics/cohort";
+import { buildSalesForecast } from "@/features/metrics/forecast";
+import { recommendCategoriesForCustomer } from "@/features/metrics/recommend";
+import { buildRfmSummary } from "@/features/metrics/rfm";
+import { buildTargetTracking } from "@/features/metrics/targets";
 import { getClub1000Agencies } from "@/features/preprocessing/agency-normalization";
 
 function formatCurrency(value: number): string {
@@ -48,7 +70,9 @@ function getBaselineAgencies(dataset: AnalysisDataset, benchmark: BenchmarkMode)
     return agencies;
   }
 
-  const club = new Set(getClub1000Agencies());
+  // 회원 자격은 데이터의 마지막 주문일 기준으로 판단한다.
+  const latestOrderTime = dataset.orders.reduce((latest, order) => Math.max(latest, order.orderDate?.getTime() ?? 0), 0);
+  const club = new Set(getClub1000Agencies(latestOrderTime > 0 ? new Date(latestOrderTime) : null));
   return agencies.filter((agency) => club.has(agency));
 }
 
@@ -182,6 +206,94 @@ function buildGrowthScatter(metrics: CustomerMetric[], agency: string): GrowthSc
   };
 }
 
+// 평소 주문 간격(중앙값)의 몇 배만큼 주문이 없으면 이탈 위험으로 보는지. 간격이 너무 짧은 고객은 최소 간격을 적용한다.
+const DORMANCY_RISK_THRESHOLD = 1.5;
+const DORMANCY_HIGH_RISK_THRESHOLD = 3;
+const MIN_TYPICAL_GAP_DAYS = 14;
+const AT_RISK_CUSTOMER_LIMIT = 20;
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * 선택 대리점 고객별로 마지막 주문 이후 경과일을 평소 주문 간격과 비교한다.
+ * 기준일은 분석 기간 데이터의 마지막 주문일이며, 주문일이 하루뿐인 고객은 간격을 알 수 없어 제외한다.
+ */
+function buildDormancyRisk(
+  dataset: AnalysisDataset,
+  metrics: CustomerMetric[],
+  agency: string
+): { dormancy: DormancySummary; atRiskCustomers: AtRiskCustomer[] } {
+  const referenceTime = dataset.orders.reduce((latest, order) => Math.max(latest, order.orderDate?.getTime() ?? 0), 0);
+
+  const orderDaysByCustomer = new Map<string, Set<number>>();
+  for (const order of agencyOrders(dataset, agency)) {
+    if (!order.orderDate) {
+      continue;
+    }
+    const days = orderDaysByCustomer.get(order.bizNo) ?? new Set<number>();
+    days.add(Math.floor(order.orderDate.getTime() / DAY_MS));
+    orderDaysByCustomer.set(order.bizNo, days);
+  }
+
+  const metricByBizNo = new Map(metrics.filter((metric) => metric.agency === agency).map((metric) => [metric.bizNo, metric]));
+  const referenceDay = Math.floor(referenceTime / DAY_MS);
+  let oneTimeCount = 0;
+  const evaluated: AtRiskCustomer[] = [];
+
+  for (const [bizNo, daySet] of orderDaysByCustomer) {
+    const days = Array.from(daySet).sort((a, b) => a - b);
+    if (days.length < 2) {
+      oneTimeCount += 1;
+      continue;
+    }
+
+    const gaps = days.slice(1).map((day, index) => day - days[index]);
+    const typicalGapDays = Math.max(median(gaps), MIN_TYPICAL_GAP_DAYS);
+    const lastDay = days[days.length - 1];
+    const daysSinceLastOrder = referenceDay - lastDay;
+    const riskScore = daysSinceLastOrder / typicalGapDays;
+    const metric = metricByBizNo.get(bizNo);
+
+    evaluated.push({
+      bizNo,
+      customerName: metric?.customerName ?? bizNo,
+      agency,
+      lastOrderDate: toDateKey(new Date(lastDay * DAY_MS)),
+      daysSinceLastOrder,
+      purchaseCount: metric?.purchaseCount ?? days.length,
+      typicalGapDays,
+      riskScore,
+      riskLevel: riskScore >= DORMANCY_HIGH_RISK_THRESHOLD ? "high" : "medium",
+      cumulativeAmount: metric?.cumulativeAmount ?? 0
+    });
+  }
+
+  const atRisk = evaluated
+    .filter((customer) => customer.riskScore >= DORMANCY_RISK_THRESHOLD)
+    .sort((a, b) => (a.riskLevel === b.riskLevel ? b.cumulativeAmount - a.cumulativeAmount : a.riskLevel === "high" ? -1 : 1));
+
+  return {
+    dormancy: {
+      referenceDate: referenceTime > 0 ? toDateKey(new Date(referenceTime)) : null,
+      evaluatedCount: evaluated.length,
+      oneTimeCount,
+      atRiskCount: atRisk.length,
+      highRiskCount: atRisk.filter((customer) => customer.riskLevel === "high").length,
+      atRiskAmount: atRisk.reduce((sum, customer) => sum + customer.cumulativeAmount, 0),
+      riskThreshold: DORMANCY_RISK_THRESHOLD,
+      highRiskThreshold: DORMANCY_HIGH_RISK_THRESHOLD
+    },
+    atRiskCustomers: atRisk.slice(0, AT_RISK_CUSTOMER_LIMIT)
+  };
+}
+
 const REGION_SCOPE_EXTENSIONS: Record<string, string[]> = {
   부산광역시: ["부산광역시", "경상남도"],
   대전광역시: ["대전광역시", "충청북도", "충청남도"],
@@ -193,7 +305,7 @@ function normalizeLabel(value: string): string {
   return value.replace(/\s+/g, "").trim();
 }
 
-function normalizeMetro(value: string): string {
+export function normalizeMetro(value: string): string {
   const normalized = normalizeLabel(value);
   if (!normalized) {
     return "";
@@ -458,7 +570,7 @@ function monthlyNewProducts(dataset: AnalysisDataset, agency: string): MonthlyNe
       continue;
     }
 
-    const month = `${order.orderDate.getFullYear()}-${String(order.orderDate.getMonth() + 1).padStart(2, "0")}`;
+    const month = toMonthKey(order.orderDate);
     const current = monthly.get(month) ?? { month, quantity: 0, amount: 0 };
 
     current.quantity += product.quantity;
@@ -500,72 +612,305 @@ function crossSellRatio(dataset: AnalysisDataset, agency: string): { solo: numbe
   return { solo, crossSell };
 }
 
-function buildKpis(
-  dataset: AnalysisDataset,
-  agency: string,
-  benchmark: BenchmarkMode,
-  growthList: GrowthCustomer[]
-): KpiCard[] {
+const UNCATEGORIZED = "미분류";
+const CATEGORY_MIX_LIMIT = 5;
+const MIN_CATEGORY_SHARE_GAP = 1;
+
+function categorySharesByAgency(dataset: AnalysisDataset, agencies: Set<string>): Map<string, Map<string, number>> {
+  const agencyByOrder = new Map<string, string>();
+  for (const order of dataset.orders) {
+    if (agencies.has(order.agency)) {
+      agencyByOrder.set(order.orderNo, order.agency);
+    }
+  }
+
+  const salesByAgency = new Map<string, Map<string, number>>();
+  for (const product of dataset.products) {
+    const agency = agencyByOrder.get(product.orderNo);
+    if (!agency || product.salesAmount <= 0) {
+      continue;
+    }
+    const bucket = salesByAgency.get(agency) ?? new Map<string, number>();
+    const category = product.midCategory || UNCATEGORIZED;
+    bucket.set(category, (bucket.get(category) ?? 0) + product.salesAmount);
+    salesByAgency.set(agency, bucket);
+  }
+
+  return salesByAgency;
+}
+
+/**
+ * 선택 대리점의 중분류별 매출 비중을 Club 1000 대리점 평균 비중과 비교한다.
+ * 선택 대리점이 Club 1000 회원이면 자기 자신은 평균에서 제외한다.
+ */
+function buildCategoryMix(dataset: AnalysisDataset, agency: string): CategoryMix {
+  const clubAgencies = getBaselineAgencies(dataset, "club1000").filter((item) => item !== agency);
+  const salesByAgency = categorySharesByAgency(dataset, new Set([agency, ...clubAgencies]));
+
+  const toShares = (sales: Map<string, number> | undefined) => {
+    const total = Array.from(sales?.values() ?? []).reduce((sum, value) => sum + value, 0);
+    return new Map(Array.from(sales?.entries() ?? [], ([category, value]) => [category, total > 0 ? (value / total) * 100 : 0]));
+  };
+
+  const agencySales = salesByAgency.get(agency) ?? new Map<string, number>();
+  const agencyShares = toShares(agencySales);
+  const clubShares = clubAgencies.map((item) => toShares(salesByAgency.get(item))).filter((shares) => shares.size > 0);
+
+  const categories = new Set([...agencyShares.keys(), ...clubShares.flatMap((shares) => Array.from(shares.keys()))]);
+  const all: CategoryMixStat[] = Array.from(categories).map((category) => {
+    const agencyShare = agencyShares.get(category) ?? 0;
+    const clubShare = clubShares.length > 0 ? mean(clubShares.map((shares) => shares.get(category) ?? 0)) : 0;
+    return {
+      category,
+      agencySales: agencySales.get(category) ?? 0,
+      agencyShare,
+      clubShare,
+      shareGap: agencyShare - clubShare
+    };
+  });
+
+  all.sort((a, b) => b.agencyShare + b.clubShare - (a.agencyShare + a.clubShare));
+  const classified = all.filter((stat) => stat.category !== UNCATEGORIZED);
+
+  return {
+    clubAgencyCount: clubShares.length,
+    all,
+    overIndexed: classified
+      .filter((stat) => stat.shareGap >= MIN_CATEGORY_SHARE_GAP)
+      .sort((a, b) => b.shareGap - a.shareGap)
+      .slice(0, CATEGORY_MIX_LIMIT),
+    underIndexed: classified
+      .filter((stat) => stat.shareGap <= -MIN_CATEGORY_SHARE_GAP)
+      .sort((a, b) => a.shareGap - b.shareGap)
+      .slice(0, CATEGORY_MIX_LIMIT)
+  };
+}
+
+interface AgencyKpiValues {
+  sales: number;
+  orderCount: number;
+  newProductRatio: number;
+  highPotentialCount: number;
+}
+
+function agencyKpiValues(dataset: AnalysisDataset, agency: string, growthList: GrowthCustomer[]): AgencyKpiValues {
   const orders = agencyOrders(dataset, agency);
-  const totalSales = orders.reduce((sum, order) => sum + order.orderAmount, 0);
-  const orderCount = orders.length;
+  const sales = orders.reduce((sum, order) => sum + order.orderAmount, 0);
 
   const productsByOrder = new Set(orders.map((order) => order.orderNo));
   const products = dataset.products.filter((product) => productsByOrder.has(product.orderNo));
   const totalProductSales = products.reduce((sum, product) => sum + product.salesAmount, 0);
   const newProductSales = products.filter((product) => product.isNewProduct).reduce((sum, product) => sum + product.salesAmount, 0);
-  const newProductRatio = totalProductSales > 0 ? (newProductSales / totalProductSales) * 100 : 0;
 
-  const highPotentialCount = growthList.filter((customer) => customer.highPotential).length;
+  return {
+    sales,
+    orderCount: orders.length,
+    newProductRatio: totalProductSales > 0 ? (newProductSales / totalProductSales) * 100 : 0,
+    highPotentialCount: growthList.filter((customer) => customer.highPotential).length
+  };
+}
+
+function kpiCard(
+  id: string,
+  label: string,
+  format: (value: number) => string,
+  current: number,
+  baseline: number | null,
+  prior: number | null
+): KpiCard {
+  const delta = baseline === null ? 0 : safeDelta(baseline, current);
+  const priorDelta = prior === null ? null : safeDelta(prior, current);
+
+  return {
+    id,
+    label,
+    value: format(current),
+    delta,
+    tone: baseline === null ? "neutral" : toneFromDelta(delta),
+    priorValue: prior === null ? null : format(prior),
+    priorDelta,
+    priorTone: priorDelta === null ? null : toneFromDelta(priorDelta),
+    target: null
+  };
+}
 
+function buildKpis(
+  dataset: AnalysisDataset,
+  agency: string,
+  benchmark: BenchmarkMode,
+  growthList: GrowthCustomer[],
+  prior: AgencyKpiValues | null
+): KpiCard[] {
+  const current = agencyKpiValues(dataset, agency, growthList);
   const baseline = averageByAgency(dataset, getBaselineAgencies(dataset, benchmark));
 
-  const kpis: KpiCard[] = [
-    {
-      id: "sales",
-      label: "총 매출",
-      value: `${formatCurrency(totalSales)}원`,
-      delta: safeDelta(baseline.sales, totalSales),
-      tone: toneFromDelta(safeDelta(baseline.sales, totalSales))
-    },
-    {
-      id: "orders",
-      label: "구매 횟수",
-      value: `${formatCurrency(orderCount)}건`,
-      delta: safeDelta(baseline.orderCount, orderCount),
-      tone: toneFromDelta(safeDelta(baseline.orderCount, orderCount))
-    },
-    {
-      id: "new-product",
-      label: "신제품 비중",
-      value: `${newProductRatio.toFixed(1)}%`,
-      delta: safeDelta(baseline.newProductRatio, newProductRatio),
-      tone: toneFromDelta(safeDelta(baseline.newProductRatio, newProductRatio))
-    },
-    {
-      id: "high-potential",
-      label: "성장 잠재 고객",
-      value: `${formatCurrency(highPotentialCount)}명`,
-      delta: 0,
-      tone: "neutral"
-    }
+  return [
+    kpiCard("sales", "총 매출", (value) => `${formatCurrency(value)}원`, current.sales, baseline.sales, prior?.sales ?? null),
+    kpiCard("orders", "구매 횟수", (value) => `${formatCurrency(value)}건`, current.orderCount, baseline.orderCount, prior?.orderCount ?? null),
+    kpiCard(
+      "new-product",
+      "신제품 비중",
+      (value) => `${value.toFixed(1)}%`,
+      current.newProductRatio,
+      baseline.newProductRatio,
+      prior?.newProductRatio ?? null
+    ),
+    kpiCard(
+      "high-potential",
+      "성장 잠재 고객",
+      (value) => `${formatCurrency(value)}명`,
+      current.highPotentialCount,
+      null,
+      prior?.highPotentialCount ?? null
+    )
   ];
+}
+
+/** 목표는 매출 금액 기준이므로 같은 지표인 총 매출 카드에만 붙인다. 중분류 목표는 analysis.targets.categories로 보여준다. */
+function attachTargetProgress(kpis: KpiCard[], targets: TargetTracking | null): KpiCard[] {
+  return kpis.map((card) => (card.id === "sales" ? { ...card, target: targets?.total ?? null } : card));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** 월 집계는 기간 필터(toDateKey)와 같이 UTC 기준이다. 코호트·전망·목표 모듈도 같은 기준을 쓴다. */
+function toMonthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * 주문일자 기준으로 기간 밖 주문을 제외하고, 남은 주문에 연결된 고객/제품만 남긴다.
+ * 기간이 지정되면 주문일자가 없는 주문은 제외하고 건수만 집계한다.
+ */
+export function filterDatasetByPeriod(
+  dataset: AnalysisDataset,
+  period: AnalysisPeriod = { from: null, to: null }
+): { dataset: AnalysisDataset; coverage: PeriodCoverage } {
+  const fromTime = period.from ? new Date(period.from).getTime() : null;
+  const toTime = period.to ? new Date(period.to).getTime() + DAY_MS : null;
+  const bounded = fromTime !== null || toTime !== null;
+
+  let minTime = Infinity;
+  let maxTime = -Infinity;
+  let undatedOrders = 0;
+  let outOfRangeOrders = 0;
+
+  const orders = dataset.orders.filter((order) => {
+    if (!order.orderDate) {
+      undatedOrders += 1;
+      return !bounded;
+    }
+
+    const time = order.orderDate.getTime();
+    minTime = Math.min(minTime, time);
+    maxTime = Math.max(maxTime, time);
+
+    if ((fromTime !== null && time < fromTime) || (toTime !== null && time >= toTime)) {
+      outOfRangeOrders += 1;
+      return false;
+    }
+    return true;
+  });
+
+  const coverage: PeriodCoverage = {
+    from: period.from,
+    to: period.to,
+    availableFrom: Number.isFinite(minTime) ? toDateKey(new Date(minTime)) : null,
+    availableTo: Number.isFinite(maxTime) ? toDateKey(new Date(maxTime)) : null,
+    includedOrders: orders.length,
+    outOfRangeOrders,
+    undatedOrders,
+    undatedExcluded: bounded
+  };
+
+  if (!bounded) {
+    return { dataset, coverage };
+  }
+
+  const customerKeys = new Set(orders.map((order) => `${order.bizNo}::${order.agency}`));
+  const orderNos = new Set(orders.map((order) => order.orderNo));
+
+  return {
+    dataset: {
+      orders,
+      customers: dataset.customers.filter((customer) => customerKeys.has(`${customer.bizNo}::${customer.agency}`)),
+      products: dataset.products.filter((product) => orderNos.has(product.orderNo))
+    },
+    coverage
+  };
+}
 
-  return kpis;
+function shiftDateKey(key: string, days: number, years = 0): string {
+  const date = new Date(key);
+  const year = date.getUTCFullYear() + years;
+  // 2/29처럼 전년도에 없는 날짜는 해당 월 말일로 맞춘다.
+  const lastDay = new Date(Date.UTC(year, date.getUTCMonth() + 1, 0)).getUTCDate();
+  const shifted = Date.UTC(year, date.getUTCMonth(), Math.min(date.getUTCDate(), lastDay));
+  return toDateKey(new Date(shifted + days * DAY_MS));
 }
 
-export function calculateAnalysis(dataset: AnalysisDataset, agency: string, benchmark: BenchmarkMode): AnalysisResult {
+/** 선택 기간과 비교할 이전 기간. 기간을 지정하지 않은 전체 분석이면 비교 대상이 없다. */
+export function comparisonPeriod(coverage: PeriodCoverage, mode: ComparisonMode): { from: string; to: string } | null {
+  const from = coverage.from ?? coverage.availableFrom;
+  const to = coverage.to ?? coverage.availableTo;
+  if ((!coverage.from && !coverage.to) || !from || !to) {
+    return null;
+  }
+
+  if (mode === "yearOverYear") {
+    return { from: shiftDateKey(from, 0, -1), to: shiftDateKey(to, 0, -1) };
+  }
+
+  // 월 단위(1일 ~ 말일)로 선택한 기간은 같은 개월 수만큼 이동해 분기/월 비교가 달력과 맞도록 한다.
+  const start = new Date(from);
+  const end = new Date(to);
+  if (start.getUTCDate() === 1 && new Date(end.getTime() + DAY_MS).getUTCDate() === 1) {
+    const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + (end.getUTCMonth() - start.getUTCMonth()) + 1;
+    const priorStart = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() - months, 1));
+    return { from: toDateKey(priorStart), to: shiftDateKey(from, -1) };
+  }
+
+  const lengthDays = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+  return { from: shiftDateKey(from, -lengthDays), to: shiftDateKey(from, -1) };
+}
+
+export function calculateAnalysis(
+  fullDataset: AnalysisDataset,
+  agency: string,
+  benchmark: BenchmarkMode,
+  period?: AnalysisPeriod,
+  comparisonMode: ComparisonMode = "previousPeriod",
+  salesTargets: SalesTargetEntry[] = []
+): AnalysisResult {
+  const { dataset, coverage } = filterDatasetByPeriod(fullDataset, period);
+  const comparison = comparisonPeriod(coverage, comparisonMode);
   const customerMetrics = buildCustomerMetrics(dataset);
   const growthList = growthCustomers(customerMetrics, agency);
+
+  let prior: AgencyKpiValues | null = null;
+  if (comparison) {
+    const priorDataset = filterDatasetByPeriod(fullDataset, comparison).dataset;
+    prior = agencyKpiValues(priorDataset, agency, growthCustomers(buildCustomerMetrics(priorDataset), agency));
+  }
   const growthScatter = buildGrowthScatter(customerMetrics, agency);
+  const { dormancy, atRiskCustomers } = buildDormancyRisk(dataset, customerMetrics, agency);
   const agencyRegionStats = regionStatsFromOrders(agencyOrders(dataset, agency));
   const b2bRegions = regionStatsFromOrders(dataset.orders);
   const regionOpportunities = buildRegionOpportunities(dataset, agency);
+  const benchmarkAgencies = getBaselineAgencies(dataset, benchmark);
+  const targets = buildTargetTracking(dataset, agency, coverage, salesTargets);
+  const kpis = attachTargetProgress(buildKpis(dataset, agency, benchmark, growthList, prior), targets);
 
   return {
     agency,
     benchmark,
-    kpis: buildKpis(dataset, agency, benchmark, growthList),
+    period: coverage,
+    comparison: comparison ? { mode: comparisonMode, ...comparison } : null,
+    kpis,
     b2bRegionAll: b2bRegions.all,
     regionAll: agencyRegionStats.all,
     regionMain: regionOpportunities.regionMain,
@@ -574,7 +919,206 @@ export function calculateAnalysis(dataset: AnalysisDataset, agency: string, benc
     regionCommonIndustries: regionOpportunities.regionCommonIndustries,
     growthCustomers: growthList.slice(0, 20),
     growthScatter,
+    dormancy,
+    atRiskCustomers,
+    rfm: buildRfmSummary(dataset, agency, benchmarkAgencies),
+    cohorts: buildCohortAnalysis(fullDataset, dataset, agency, benchmarkAgencies, coverage),
     monthlyNewProducts: monthlyNewProducts(dataset, agency),
-    crossSellRatio: crossSellRatio(dataset, agency)
+    forecast: buildSalesForecast(dataset, agency, coverage),
+    targets,
+    crossSellRatio: crossSellRatio(dataset, agency),
+    marketBasket: buildMarketBasket(dataset, agency, benchmarkAgencies, getBaselineAgencies(dataset, "club1000")),
+    categoryMix: buildCategoryMix(dataset, agency)
+  };
+}
+
+const LEADERBOARD_METRICS: LeaderboardMetric[] = [
+  "sales",
+  "orderCount",
+  "newProductRatio",
+  "crossSellRatio",
+  "highPotentialCount",
+  "averageGrowthMultiplier"
+];
+
+/** 전체(또는 Club 1000) 대리점을 지표별로 순위화한다. 대리점 수만큼 전체 데이터를 반복 순회하지 않도록 한 번에 묶어서 계산한다. */
+export function calculateLeaderboard(fullDataset: AnalysisDataset, scope: BenchmarkMode, period?: AnalysisPeriod): Leaderboard {
+  const { dataset, coverage } = filterDatasetByPeriod(fullDataset, period);
+  const agencies = getBaselineAgencies(dataset, scope);
+  const club = new Set(scope === "club1000" ? agencies : getBaselineAgencies(dataset, "club1000"));
+
+  const productsByOrder = new Map<string, AnalysisDataset["products"]>();
+  for (const product of dataset.products) {
+    const bucket = productsByOrder.get(product.orderNo) ?? [];
+    bucket.push(product);
+    productsByOrder.set(product.orderNo, bucket);
+  }
+
+  const ordersByAgency = new Map<string, AnalysisDataset["orders"]>();
+  for (const order of dataset.orders) {
+    const bucket = ordersByAgency.get(order.agency) ?? [];
+    bucket.push(order);
+    ordersByAgency.set(order.agency, bucket);
+  }
+
+  const metricsByAgency = new Map<string, CustomerMetric[]>();
+  for (const metric of buildCustomerMetrics(dataset)) {
+    const bucket = metricsByAgency.get(metric.agency) ?? [];
+    bucket.push(metric);
+    metricsByAgency.set(metric.agency, bucket);
+  }
+
+  const values = agencies.map((agency) => {
+    const orders = ordersByAgency.get(agency) ?? [];
+    const orderNos = new Set(orders.map((order) => order.orderNo));
+
+    let totalProductSales = 0;
+    let newProductSales = 0;
+    let crossSell = 0;
+    for (const orderNo of orderNos) {
+      const products = productsByOrder.get(orderNo);
+      if (!products) {
+        continue;
+      }
+      const categories = new Set<string>();
+      for (const product of products) {
+        totalProductSales += product.salesAmount;
+        if (product.isNewProduct) {
+          newProductSales += product.salesAmount;
+        }
+        if (product.midCategory) {
+          categories.add(product.midCategory);
+        }
+      }
+      if (categories.size >= 2) {
+        crossSell += 1;
+      }
+    }
+
+    const productOrderCount = Array.from(orderNos).filter((orderNo) => productsByOrder.has(orderNo)).length;
+    const metrics = metricsByAgency.get(agency) ?? [];
+    const growthList = growthCustomers(metrics, agency);
+
+    return {
+      agency,
+      values: {
+        sales: orders.reduce((sum, order) => sum + order.orderAmount, 0),
+        orderCount: orders.length,
+        newProductRatio: totalProductSales > 0 ? (newProductSales / totalProductSales) * 100 : 0,
+        crossSellRatio: productOrderCount > 0 ? (crossSell / productOrderCount) * 100 : 0,
+        highPotentialCount: growthList.filter((customer) => customer.highPotential).length,
+        averageGrowthMultiplier: mean(metrics.filter((metric) => metric.firstOrderAmount > 0).map((metric) => metric.growthMultiplier))
+      } satisfies Record<LeaderboardMetric, number>
+    };
+  });
+
+  const ranks = new Map<string, Partial<Record<LeaderboardMetric, number>>>();
+  for (const metric of LEADERBOARD_METRICS) {
+    const sorted = values.map((row) => row.values[metric]).sort((a, b) => b - a);
+    for (const row of values) {
+      const entry = ranks.get(row.agency) ?? {};
+      entry[metric] = sorted.indexOf(row.values[metric]) + 1;
+      ranks.set(row.agency, entry);
+    }
+  }
+
+  const rows: LeaderboardRow[] = values.map((row) => {
+    const rank = ranks.get(row.agency) as Record<LeaderboardMetric, number>;
+    const topPercents = Object.fromEntries(
+      LEADERBOARD_METRICS.map((metric) => [metric, (rank[metric] / values.length) * 100])
+    ) as Record<LeaderboardMetric, number>;
+
+    return { agency: row.agency, isClub1000: club.has(row.agency), values: row.values, ranks: rank, topPercents };
+  });
+
+  return {
+    scope,
+    period: coverage,
+    rows: rows.sort((a, b) => a.ranks.sales - b.ranks.sales || a.agency.localeCompare(b.agency, "ko-KR"))
+  };
+}
+
+/**
+ * 고객 한 곳(사업자번호 + 대리점)의 주문/제품 상세. 고객 정보는 기간과 무관하게 찾고, 주문은 분석 기간 안의 것만 담는다.
+ * 고객 정보와 주문이 모두 없으면 null.
+ */
+export function calculateCustomerDetail(
+  fullDataset: AnalysisDataset,
+  agency: string,
+  bizNo: string,
+  period?: AnalysisPeriod
+): CustomerDetail | null {
+  const customer = fullDataset.customers.find((item) => item.bizNo === bizNo && item.agency === agency);
+  if (!customer && !fullDataset.orders.some((order) => order.bizNo === bizNo && order.agency === agency)) {
+    return null;
+  }
+
+  const { dataset, coverage } = filterDatasetByPeriod(fullDataset, period);
+  const orders = dataset.orders.filter((order) => order.bizNo === bizNo && order.agency === agency);
+  const orderNos = new Set(orders.map((order) => order.orderNo));
+
+  const linesByOrder = new Map<string, CustomerOrderLine[]>();
+  const categories = new Map<string, CustomerCategoryStat>();
+  for (const product of dataset.products) {
+    if (!orderNos.has(product.orderNo)) {
+      continue;
+    }
+
+    const category = product.midCategory || UNCATEGORIZED;
+    const lines = linesByOrder.get(product.orderNo) ?? [];
+    lines.push({ midCategory: category, quantity: product.quantity, salesAmount: product.salesAmount, isNewProduct: product.isNewProduct });
+    linesByOrder.set(product.orderNo, lines);
+
+    const stat = categories.get(category) ?? { category, quantity: 0, salesAmount: 0, newProductSales: 0, share: 0 };
+    stat.quantity += product.quantity;
+    stat.salesAmount += product.salesAmount;
+    stat.newProductSales += product.isNewProduct ? product.salesAmount : 0;
+    categories.set(category, stat);
+  }
+
+  const timeline = new Map<string, CustomerTimelinePoint>();
+  for (const order of orders) {
+    if (!order.orderDate) {
+      continue;
+    }
+    const month = toMonthKey(order.orderDate);
+    const point = timeline.get(month) ?? { month, orderCount: 0, amount: 0 };
+    point.orderCount += 1;
+    point.amount += order.orderAmount;
+    timeline.set(month, point);
+  }
+
+  const productSales = Array.from(categories.values()).reduce((sum, stat) => sum + Math.max(stat.salesAmount, 0), 0);
+  const categoryMix = Array.from(categories.values())
+    .map((stat) => ({ ...stat, share: productSales > 0 ? (Math.max(stat.salesAmount, 0) / productSales) * 100 : 0 }))
+    .sort((a, b) => b.salesAmount - a.salesAmount);
+
+  const cumulativeAmount = orders.reduce((sum, order) => sum + order.orderAmount, 0);
+  const firstOrderAmount = customer?.firstOrderAmount ?? 0;
+  const sortedOrders = [...orders].sort((a, b) => (b.orderDate?.getTime() ?? 0) - (a.orderDate?.getTime() ?? 0));
+
+  return {
+    bizNo,
+    agency,
+    customerName: customer?.customerName || bizNo,
+    memberType: customer?.memberType || orders[0]?.memberType || "",
+    industryMajor: customer?.industryMajor ?? "",
+    industryDetail: customer?.industryDetail ?? "",
+    firstOrderAmount,
+    cumulativeAmount,
+    purchaseCount: orders.length,
+    growthMultiplier: firstOrderAmount > 0 ? cumulativeAmount / firstOrderAmount : 0,
+    period: coverage,
+    orders: sortedOrders.map((order) => ({
+      orderNo: order.orderNo,
+      orderDate: order.orderDate ? toDateKey(order.orderDate) : null,
+      orderAmount: order.orderAmount,
+      memberType: order.memberType,
+      region: regionLabel(order),
+      lines: linesByOrder.get(order.orderNo) ?? []
+    })),
+    timeline: Array.from(timeline.values()).sort((a, b) => a.month.localeCompare(b.month)),
+    categoryMix,
+    recommendations: recommendCategoriesForCustomer(dataset, agency, bizNo)
   };
 }
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import { filterDatasetByPeriod } from "@/features/metrics/calculate";
+import { buildCohortAnalysis } from "@/features/metrics/cohort";
+import type { AnalysisDataset } from "@/types/domain";
+
+/** [사업자번호, 대리점, 금액, 주문일시] 목록으로 주문만 있는 데이터셋을 만든다. */
+function ordersOnly(rows: Array<[string, string, number, string]>): AnalysisDataset {
+  return {
+    orders: rows.map(([bizNo, agency, orderAmount, date], index) => ({
+      orderNo: `o${index + 1}`,
+      bizNo,
+      agency,
+      memberType: "",
+      orderAmount,
+      orderDate: new Date(date),
+      city: "",
+      district: "",
+      dong: ""
+    })),
+    customers: [],
+    products: []
+  };
+}
+
+// 테스트는 Asia/Seoul에서 돌며, 3월 31일 20시(UTC)는 현지 시각으로 4월 1일이다.
+const full = ordersOnly([
+  ["b1", "DM신", 100, "2024-01-15"],
+  ["b1", "DM신", 300, "2024-03-31T20:00:00.000Z"],
+  ["b2", "DM신", 50, "2024-01-20"],
+  ["b3", "DM신", 70, "2024-02-10"],
+  ["k1", "DM비교", 10, "2024-01-05"],
+  ["k1", "DM비교", 20, "2024-02-05"]
+]);
+
+describe("buildCohortAnalysis", () => {
+  it("첫 주문월을 UTC 기준으로 묶고 관측 가능한 개월까지만 채운다", () => {
+    const analysis = buildCohortAnalysis(full, full, "DM신", ["DM비교"]);
+
+    expect(analysis.benchmarkAgencyCount).toBe(1);
+    expect(analysis.rows.map((row) => [row.cohort, row.customerCount, row.cells.length])).toEqual([
+      ["2024-01", 2, 3],
+      ["2024-02", 1, 2]
+    ]);
+
+    const january = analysis.rows[0];
+    expect(january.benchmarkCustomerCount).toBe(1);
+    expect(january.cells.map((cell) => cell.retention)).toEqual([100, 0, 50]);
+    expect(january.cells.map((cell) => cell.cumulativeRevenue)).toEqual([150, 150, 450]);
+    expect(january.cells.map((cell) => cell.benchmarkRetention)).toEqual([100, 100, 0]);
+    expect(analysis.rows[1].cells[0].benchmarkRetention).toBeNull();
+  });
+
+  it("기간 이전에 첫 주문이 있는 고객은 기간 안 주문이 있어도 코호트에서 뺀다", () => {
+    const { dataset: filtered } = filterDatasetByPeriod(full, { from: "2024-02-01", to: null });
+    const analysis = buildCohortAnalysis(full, filtered, "DM신", ["DM비교"]);
+
+    expect(analysis.rows.map((row) => row.cohort)).toEqual(["2024-02"]);
+    expect(analysis.average[0]).toMatchObject({ offset: 0, retention: 100, revenuePerCustomer: 70 });
+  });
+
+  it("관측 구간을 기간 시작·종료일로 정해 시작일 전 첫 주문 고객은 빼고 주문 없는 마지막 달도 관측한다", () => {
+    const source = ordersOnly([
+      ["b1", "DM신", 100, "2024-02-05"],
+      ["b1", "DM신", 100, "2024-02-20"],
+      ["b2", "DM신", 200, "2024-02-25"],
+      ["b2", "DM신", 300, "2024-04-10"]
+    ]);
+    const { dataset: filtered, coverage } = filterDatasetByPeriod(source, { from: "2024-02-15", to: "2024-03-31" });
+    const analysis = buildCohortAnalysis(source, filtered, "DM신", [], coverage);
+
+    expect(analysis.rows.map((row) => [row.cohort, row.customerCount])).toEqual([["2024-02", 1]]);
+    expect(analysis.rows[0].cells.map((cell) => cell.retention)).toEqual([100, 0]);
+  });
+});
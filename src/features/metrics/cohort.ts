@@ -0,0 +1,179 @@
+import type { AnalysisDataset, CohortAnalysis, CohortCell, CohortCurvePoint, CohortRow, PeriodCoverage } from "@/types/domain";
+
+/**
+ * 첫 주문월 코호트별 재구매율과 누적 매출.
+ * 첫 주문월은 기간 필터와 무관하게 전체 주문 이력(사업자번호 + 대리점)에서 찾고,
+ * 분석 기간 안에 첫 주문이 있는 고객만 코호트에 넣어 기간 안의 주문으로 추적한다.
+ * 비교 그룹은 같은 첫 주문월의 비교 대리점 고객을 하나로 합쳐 계산한다.
+ * 기간이 주어지면 관측 구간은 주문이 있는 달이 아니라 기간 시작·종료일(데이터가 끝난 뒤는 제외)로 정한다.
+ */
+
+const MAX_OFFSET = 12;
+const MAX_COHORTS = 12;
+
+interface CohortCustomer {
+  agency: string;
+  firstMonth: number;
+  activeOffsets: Set<number>;
+  revenueByOffset: Map<number, number>;
+}
+
+interface CohortStats {
+  customerCount: number;
+  active: number[];
+  cumulativeRevenue: number[];
+}
+
+// 서버 시간대와 무관하게 기간 필터·전망·목표와 같은 달로 묶도록 UTC 기준
+function monthIndex(date: Date): number {
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+function monthLabel(index: number): string {
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+}
+
+function percent(part: number, total: number): number {
+  return total > 0 ? (part / total) * 100 : 0;
+}
+
+function emptyStats(): CohortStats {
+  return { customerCount: 0, active: Array(MAX_OFFSET + 1).fill(0), cumulativeRevenue: Array(MAX_OFFSET + 1).fill(0) };
+}
+
+function addCustomer(stats: CohortStats, customer: CohortCustomer) {
+  stats.customerCount += 1;
+  let cumulative = 0;
+  for (let offset = 0; offset <= MAX_OFFSET; offset += 1) {
+    if (customer.activeOffsets.has(offset)) {
+      stats.active[offset] += 1;
+    }
+    cumulative += customer.revenueByOffset.get(offset) ?? 0;
+    stats.cumulativeRevenue[offset] += cumulative;
+  }
+}
+
+export function buildCohortAnalysis(
+  fullDataset: AnalysisDataset,
+  dataset: AnalysisDataset,
+  agency: string,
+  benchmarkAgencies: string[],
+  coverage?: PeriodCoverage
+): CohortAnalysis {
+  const firstOrderByCustomer = new Map<string, number>();
+  for (const order of fullDataset.orders) {
+    if (!order.orderDate) {
+      continue;
+    }
+    const key = `${order.bizNo}::${order.agency}`;
+    const time = order.orderDate.getTime();
+    firstOrderByCustomer.set(key, Math.min(firstOrderByCustomer.get(key) ?? time, time));
+  }
+
+  let windowStart = Infinity;
+  let windowEnd = -Infinity;
+  for (const order of dataset.orders) {
+    if (order.orderDate) {
+      windowStart = Math.min(windowStart, order.orderDate.getTime());
+      windowEnd = Math.max(windowEnd, monthIndex(order.orderDate));
+    }
+  }
+  // 기간 안 첫 주문일이 아니라 기간 시작일과 비교해, 같은 달이라도 시작일 전에 첫 주문한 고객은 뺀다.
+  if (coverage?.from) {
+    windowStart = new Date(coverage.from).getTime();
+  }
+  if (coverage?.to && coverage.availableTo && coverage.to < coverage.availableTo) {
+    windowEnd = monthIndex(new Date(coverage.to));
+  }
+
+  const benchmarkSet = new Set(benchmarkAgencies.filter((item) => item !== agency));
+  const customers = new Map<string, CohortCustomer>();
+  for (const order of dataset.orders) {
+    if (!order.orderDate || (order.agency !== agency && !benchmarkSet.has(order.agency))) {
+      continue;
+    }
+    const key = `${order.bizNo}::${order.agency}`;
+    const firstOrder = firstOrderByCustomer.get(key);
+    if (firstOrder === undefined || firstOrder < windowStart) {
+      continue;
+    }
+
+    const firstMonth = monthIndex(new Date(firstOrder));
+    const offset = monthIndex(order.orderDate) - firstMonth;
+    if (offset > MAX_OFFSET) {
+      continue;
+    }
+    const customer = customers.get(key) ?? { agency: order.agency, firstMonth, activeOffsets: new Set<number>(), revenueByOffset: new Map<number, number>() };
+    customer.activeOffsets.add(offset);
+    customer.revenueByOffset.set(offset, (customer.revenueByOffset.get(offset) ?? 0) + order.orderAmount);
+    customers.set(key, customer);
+  }
+
+  const selectedByCohort = new Map<number, CohortStats>();
+  const benchmarkByCohort = new Map<number, CohortStats>();
+  for (const customer of customers.values()) {
+    const target = customer.agency === agency ? selectedByCohort : benchmarkByCohort;
+    const stats = target.get(customer.firstMonth) ?? emptyStats();
+    addCustomer(stats, customer);
+    target.set(customer.firstMonth, stats);
+  }
+
+  const cohortMonths = Array.from(selectedByCohort.keys())
+    .sort((a, b) => b - a)
+    .slice(0, MAX_COHORTS)
+    .sort((a, b) => a - b);
+
+  const rows: CohortRow[] = cohortMonths.map((month) => {
+    const selected = selectedByCohort.get(month) ?? emptyStats();
+    const benchmark = benchmarkByCohort.get(month);
+    const observable = Math.min(MAX_OFFSET, windowEnd - month);
+    const cells: CohortCell[] = [];
+    for (let offset = 0; offset <= observable; offset += 1) {
+      cells.push({
+        offset,
+        activeCustomers: selected.active[offset],
+        retention: percent(selected.active[offset], selected.customerCount),
+        cumulativeRevenue: selected.cumulativeRevenue[offset],
+        revenuePerCustomer: selected.cumulativeRevenue[offset] / selected.customerCount,
+        benchmarkRetention: benchmark ? percent(benchmark.active[offset], benchmark.customerCount) : null,
+        benchmarkRevenuePerCustomer: benchmark ? benchmark.cumulativeRevenue[offset] / benchmark.customerCount : null
+      });
+    }
+    return { cohort: monthLabel(month), customerCount: selected.customerCount, benchmarkCustomerCount: benchmark?.customerCount ?? 0, cells };
+  });
+
+  const average: CohortCurvePoint[] = [];
+  for (let offset = 0; offset <= MAX_OFFSET; offset += 1) {
+    const observableMonths = cohortMonths.filter((month) => windowEnd - month >= offset);
+    if (observableMonths.length === 0) {
+      break;
+    }
+
+    const sum = (source: Map<number, CohortStats>) =>
+      observableMonths.reduce(
+        (acc, month) => {
+          const stats = source.get(month);
+          return stats
+            ? { customers: acc.customers + stats.customerCount, active: acc.active + stats.active[offset], revenue: acc.revenue + stats.cumulativeRevenue[offset] }
+            : acc;
+        },
+        { customers: 0, active: 0, revenue: 0 }
+      );
+    const selected = sum(selectedByCohort);
+    const benchmark = sum(benchmarkByCohort);
+    average.push({
+      offset,
+      retention: percent(selected.active, selected.customers),
+      revenuePerCustomer: selected.customers > 0 ? selected.revenue / selected.customers : 0,
+      benchmarkRetention: benchmark.customers > 0 ? percent(benchmark.active, benchmark.customers) : null,
+      benchmarkRevenuePerCustomer: benchmark.customers > 0 ? benchmark.revenue / benchmark.customers : null
+    });
+  }
+
+  return {
+    maxOffset: MAX_OFFSET,
+    benchmarkAgencyCount: benchmarkSet.size,
+    rows,
+    average
+  };
+}
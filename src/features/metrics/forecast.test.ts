@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+
+import { filterDatasetByPeriod } from "@/features/metrics/calculate";
+import { buildSalesForecast } from "@/features/metrics/forecast";
+import type { AnalysisDataset, PreparedOrder, PreparedProduct } from "@/types/domain";
+
+function sale(orderNo: string, orderAmount: number, date: string): PreparedOrder {
+  return { orderNo, bizNo: "b1", agency: "DM신", memberType: "", orderAmount, orderDate: new Date(date), city: "", district: "", dong: "" };
+}
+
+function monthlyOrders(values: number[], day = "28") {
+  return values.map((value, index) => sale(`o${index}`, value, `2024-${String(index + 1).padStart(2, "0")}-${day}`));
+}
+
+function dataset(orders: PreparedOrder[], products: PreparedProduct[] = []): AnalysisDataset {
+  return { orders, customers: [], products };
+}
+
+describe("buildSalesForecast", () => {
+  it("6~11개월 이력은 감쇠 추세 모형으로 3개월을 전망하고 신뢰구간이 예측값을 감싼다", () => {
+    const orders = monthlyOrders([1000, 2000, 3000, 4000, 5000, 6000, 7000, 8000]);
+    const forecast = buildSalesForecast(dataset(orders), "DM신");
+
+    expect(forecast.horizon).toBe(3);
+    expect(forecast.excludedPartialMonth).toBeNull();
+    expect(forecast.sales?.method).toBe("holt");
+    expect(forecast.sales?.history.map((point) => point.month)).toEqual(["2024-01", "2024-02", "2024-03", "2024-04", "2024-05", "2024-06", "2024-07", "2024-08"]);
+
+    const points = forecast.sales?.forecast ?? [];
+    expect(points.map((point) => point.month)).toEqual(["2024-09", "2024-10", "2024-11"]);
+    for (const point of points) {
+      expect(point.value).toBeGreaterThan(8000);
+      expect(point.lower).toBeLessThanOrEqual(point.value);
+      expect(point.upper).toBeGreaterThanOrEqual(point.value);
+    }
+    expect(forecast.sales?.backtest?.months).toBe(2);
+  });
+
+  it("마지막 주문일이 25일 전이면 그 달을 집계 중으로 보고 학습에서 뺀다", () => {
+    const orders = [...monthlyOrders([1000, 1000, 1000, 1000, 1000, 1000, 1000]), sale("partial", 10, "2024-08-10")];
+    const forecast = buildSalesForecast(dataset(orders), "DM신");
+
+    expect(forecast.excludedPartialMonth).toBe("2024-08");
+    expect(forecast.sales?.history.at(-1)?.month).toBe("2024-07");
+  });
+
+  it("기간이 데이터 중간에서 끝나면 마지막 주문일이 아니라 종료일로 집계 중인 달을 판단한다", () => {
+    const source = dataset([
+      ...monthlyOrders([1000, 1000, 1000, 1000, 1000, 1000, 1000]),
+      sale("aug", 1000, "2024-08-10"),
+      sale("sep", 1000, "2024-09-05")
+    ]);
+    const forecastFor = (to: string) => {
+      const { dataset: filtered, coverage } = filterDatasetByPeriod(source, { from: null, to });
+      return buildSalesForecast(filtered, "DM신", coverage);
+    };
+
+    expect(forecastFor("2024-08-31").excludedPartialMonth).toBeNull();
+    expect(forecastFor("2024-08-31").sales?.history.at(-1)).toEqual({ month: "2024-08", value: 1000 });
+    expect(forecastFor("2024-08-20").excludedPartialMonth).toBe("2024-08");
+    // 종료일이 데이터보다 늦으면 데이터의 마지막 주문일로 판단한다.
+    expect(forecastFor("2024-12-31").excludedPartialMonth).toBe("2024-09");
+  });
+
+  it("마지막 달과 일자를 UTC 기준으로 판단한다", () => {
+    // Asia/Seoul에서는 9월 1일이지만 UTC로는 8월 31일이라 완결된 달이다.
+    const orders = [...monthlyOrders([1000, 1000, 1000, 1000, 1000, 1000, 1000]), sale("last", 1000, "2024-08-31T20:00:00.000Z")];
+    const forecast = buildSalesForecast(dataset(orders), "DM신");
+
+    expect(forecast.excludedPartialMonth).toBeNull();
+    expect(forecast.sales?.history.at(-1)).toEqual({ month: "2024-08", value: 1000 });
+  });
+
+  it("빈 달은 0으로 채우고, 신제품 수량은 신제품 줄만 센다", () => {
+    const orders = monthlyOrders([1000, 1000, 1000, 1000, 1000, 1000, 1000]).filter((item) => item.orderNo !== "o2");
+    const products = orders.flatMap((item) => [
+      { orderNo: item.orderNo, midCategory: "책상", quantity: 1, salesAmount: 500, isNewProduct: true },
+      { orderNo: item.orderNo, midCategory: "의자", quantity: 1, salesAmount: 500, isNewProduct: false }
+    ]);
+    const forecast = buildSalesForecast(dataset(orders, products), "DM신");
+
+    expect(forecast.sales?.history.map((point) => point.value)).toEqual([1000, 1000, 0, 1000, 1000, 1000, 1000]);
+    expect(forecast.newProductQuantity?.history.map((point) => point.value)).toEqual([1, 1, 0, 1, 1, 1, 1]);
+  });
+
+  it("이력이 6개월 미만이면 시리즈를 만들지 않는다", () => {
+    const forecast = buildSalesForecast(dataset(monthlyOrders([1000, 2000, 3000, 4000, 5000])), "DM신");
+
+    expect(forecast.sales).toBeNull();
+    expect(buildSalesForecast(dataset([]), "DM신")).toMatchObject({ horizon: 0, sales: null });
+  });
+});
@@ -0,0 +1,217 @@
+import type { AnalysisDataset, ForecastBacktest, ForecastMethod, ForecastSeries, MonthlyValue, PeriodCoverage, SalesForecast } from "@/types/domain";
+
+/**
+ * 대리점 월 매출과 신제품 판매 수량의 향후 3~6개월 전망.
+ * 24개월 이상 쌓이면 가법 Holt-Winters(12개월 계절성), 그보다 짧으면 감쇠 추세 Holt 모형을 쓰고,
+ * 평활 계수는 1단계 예측 오차 제곱합이 가장 작은 값을 격자에서 고른다.
+ * 신뢰구간은 1단계 예측 오차의 표준편차를 √h배로 넓힌 근사치이며, 매출·수량이라 하한은 0으로 자른다.
+ */
+
+const SEASON_LENGTH = 12;
+const MIN_HISTORY_MONTHS = 6;
+const LONG_HISTORY_MONTHS = 12;
+const SHORT_HORIZON = 3;
+const LONG_HORIZON = 6;
+const DAMPING = 0.9;
+const SMOOTHING_GRID = [0.1, 0.3, 0.5, 0.7, 0.9];
+// 80% 신뢰구간의 정규분포 분위수
+const CONFIDENCE_LEVEL = 80;
+const CONFIDENCE_Z = 1.2816;
+// 최신 주문일이 이 날짜보다 이르면 마지막 달은 아직 집계 중인 달로 보고 학습에서 뺀다.
+const PARTIAL_MONTH_LAST_DAY = 25;
+
+interface FittedModel {
+  sse: number;
+  residuals: number[];
+  forecast: (steps: number) => number[];
+}
+
+// 월 구분은 UTC 기준 (코호트·목표 집계와 동일)
+function monthIndex(date: Date): number {
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+function monthLabel(index: number): string {
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+}
+
+function monthIndexFromLabel(label: string): number {
+  const [year, month] = label.split("-").map(Number);
+  return year * 12 + month - 1;
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function fitHolt(values: number[], alpha: number, beta: number): FittedModel {
+  let level = values[0];
+  let trend = values[1] - values[0];
+  const residuals: number[] = [];
+
+  for (let t = 1; t < values.length; t += 1) {
+    const predicted = level + DAMPING * trend;
+    residuals.push(values[t] - predicted);
+    const nextLevel = alpha * values[t] + (1 - alpha) * predicted;
+    trend = beta * (nextLevel - level) + (1 - beta) * DAMPING * trend;
+    level = nextLevel;
+  }
+
+  return {
+    sse: residuals.reduce((sum, value) => sum + value * value, 0),
+    residuals,
+    forecast: (steps) => {
+      const result: number[] = [];
+      let damping = 0;
+      for (let h = 1; h <= steps; h += 1) {
+        damping += DAMPING ** h;
+        result.push(level + damping * trend);
+      }
+      return result;
+    }
+  };
+}
+
+function fitHoltWinters(values: number[], alpha: number, beta: number, gamma: number): FittedModel {
+  const firstSeason = mean(values.slice(0, SEASON_LENGTH));
+  let level = firstSeason;
+  let trend = (mean(values.slice(SEASON_LENGTH, SEASON_LENGTH * 2)) - firstSeason) / SEASON_LENGTH;
+  const seasonal = values.slice(0, SEASON_LENGTH).map((value) => value - firstSeason);
+  const residuals: number[] = [];
+
+  for (let t = SEASON_LENGTH; t < values.length; t += 1) {
+    const season = seasonal[t - SEASON_LENGTH];
+    residuals.push(values[t] - (level + trend + season));
+    const nextLevel = alpha * (values[t] - season) + (1 - alpha) * (level + trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * trend;
+    seasonal.push(gamma * (values[t] - nextLevel) + (1 - gamma) * season);
+    level = nextLevel;
+  }
+
+  return {
+    sse: residuals.reduce((sum, value) => sum + value * value, 0),
+    residuals,
+    forecast: (steps) =>
+      Array.from({ length: steps }, (_, index) => level + (index + 1) * trend + seasonal[seasonal.length - SEASON_LENGTH + (index % SEASON_LENGTH)])
+  };
+}
+
+function methodFor(length: number): ForecastMethod {
+  return length >= SEASON_LENGTH * 2 ? "holtWinters" : "holt";
+}
+
+function fitBest(values: number[]): { method: ForecastMethod; model: FittedModel } {
+  const method = methodFor(values.length);
+  let best: FittedModel | null = null;
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      const gammas = method === "holtWinters" ? SMOOTHING_GRID : [0];
+      for (const gamma of gammas) {
+        const model = method === "holtWinters" ? fitHoltWinters(values, alpha, beta, gamma) : fitHolt(values, alpha, beta);
+        if (!best || model.sse < best.sse) {
+          best = model;
+        }
+      }
+    }
+  }
+  return { method, model: best as FittedModel };
+}
+
+/** 마지막 holdout개월을 빼고 학습해 그 기간을 맞춰 본 오차. MAPE는 실제값이 0인 달을 빼고 계산한다. */
+function backtest(values: number[], holdout: number): ForecastBacktest | null {
+  const train = values.slice(0, values.length - holdout);
+  if (holdout === 0 || train.length < MIN_HISTORY_MONTHS) {
+    return null;
+  }
+
+  const predicted = fitBest(train).model.forecast(holdout).map((value) => Math.max(value, 0));
+  const actual = values.slice(train.length);
+  const errors = actual.map((value, index) => Math.abs(value - predicted[index]));
+  const percentErrors = actual.flatMap((value, index) => (value > 0 ? [(errors[index] / value) * 100] : []));
+  return {
+    months: holdout,
+    mae: mean(errors),
+    mape: percentErrors.length > 0 ? mean(percentErrors) : null
+  };
+}
+
+function forecastSeries(history: MonthlyValue[], horizon: number): ForecastSeries | null {
+  if (history.length < MIN_HISTORY_MONTHS) {
+    return null;
+  }
+
+  const values = history.map((point) => point.value);
+  const { method, model } = fitBest(values);
+  const spread = Math.sqrt(mean(model.residuals.map((value) => value * value)));
+  const lastMonth = monthIndexFromLabel(history[history.length - 1].month);
+
+  return {
+    method,
+    history,
+    forecast: model.forecast(horizon).map((value, index) => {
+      const margin = CONFIDENCE_Z * spread * Math.sqrt(index + 1);
+      return {
+        month: monthLabel(lastMonth + index + 1),
+        value: Math.max(value, 0),
+        lower: Math.max(value - margin, 0),
+        upper: Math.max(value + margin, 0)
+      };
+    }),
+    backtest: backtest(values, Math.min(horizon, Math.floor(values.length / 4)))
+  };
+}
+
+export function buildSalesForecast(dataset: AnalysisDataset, agency: string, coverage?: PeriodCoverage): SalesForecast {
+  let latest: Date | null = null;
+  for (const order of dataset.orders) {
+    if (order.orderDate && (!latest || order.orderDate > latest)) {
+      latest = order.orderDate;
+    }
+  }
+  // 기간이 데이터 중간에서 끝나면 그 달이 완결됐는지는 기간 안 마지막 주문이 아니라 종료일로 판단한다.
+  if (latest && coverage?.to && coverage.availableTo && coverage.to < coverage.availableTo) {
+    latest = new Date(coverage.to);
+  }
+
+  const salesByMonth = new Map<number, number>();
+  const quantityByMonth = new Map<number, number>();
+  const orderMonth = new Map<string, number>();
+  for (const order of dataset.orders) {
+    if (order.agency !== agency || !order.orderDate) {
+      continue;
+    }
+    const month = monthIndex(order.orderDate);
+    salesByMonth.set(month, (salesByMonth.get(month) ?? 0) + order.orderAmount);
+    orderMonth.set(order.orderNo, month);
+  }
+  for (const product of dataset.products) {
+    const month = orderMonth.get(product.orderNo);
+    if (month !== undefined && product.isNewProduct) {
+      quantityByMonth.set(month, (quantityByMonth.get(month) ?? 0) + product.quantity);
+    }
+  }
+
+  const empty: SalesForecast = { horizon: 0, confidenceLevel: CONFIDENCE_LEVEL, excludedPartialMonth: null, sales: null, newProductQuantity: null };
+  if (!latest || salesByMonth.size === 0) {
+    return empty;
+  }
+
+  const partial = latest.getUTCDate() < PARTIAL_MONTH_LAST_DAY;
+  const firstMonth = Math.min(...salesByMonth.keys());
+  const lastMonth = monthIndex(latest) - (partial ? 1 : 0);
+  const history = (source: Map<number, number>): MonthlyValue[] =>
+    Array.from({ length: Math.max(lastMonth - firstMonth + 1, 0) }, (_, index) => ({
+      month: monthLabel(firstMonth + index),
+      value: source.get(firstMonth + index) ?? 0
+    }));
+
+  const months = lastMonth - firstMonth + 1;
+  const horizon = months >= LONG_HISTORY_MONTHS ? LONG_HORIZON : SHORT_HORIZON;
+  return {
+    horizon,
+    confidenceLevel: CONFIDENCE_LEVEL,
+    excludedPartialMonth: partial ? monthLabel(monthIndex(latest)) : null,
+    sales: forecastSeries(history(salesByMonth), horizon),
+    newProductQuantity: forecastSeries(history(quantityByMonth), horizon)
+  };
+}
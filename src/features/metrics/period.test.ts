@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+
+import { filterDatasetByPeriod } from "@/features/metrics/calculate";
+import { analysisPeriodSchema } from "@/features/metrics/period";
+import type { AnalysisDataset, PreparedOrder } from "@/types/domain";
+
+describe("analysisPeriodSchema", () => {
+  it("비어 있으면 전체 기간으로 본다", () => {
+    expect(analysisPeriodSchema.parse({})).toEqual({ from: null, to: null });
+  });
+
+  it("윤일은 받고 존재하지 않는 날짜는 거절한다", () => {
+    expect(analysisPeriodSchema.parse({ from: "2024-02-29", to: null })).toEqual({ from: "2024-02-29", to: null });
+
+    for (const value of ["2023-02-29", "2024-02-30", "2024-13-01", "2024-04-31", "2024-1-01"]) {
+      expect(analysisPeriodSchema.safeParse({ from: value }).success, value).toBe(false);
+    }
+  });
+
+  it("시작일이 종료일보다 늦으면 거절한다", () => {
+    expect(analysisPeriodSchema.safeParse({ from: "2024-05-01", to: "2024-04-30" }).success).toBe(false);
+  });
+});
+
+describe("filterDatasetByPeriod", () => {
+  function order(orderNo: string, bizNo: string, orderAmount: number, orderDate: string | null): PreparedOrder {
+    return {
+      orderNo,
+      bizNo,
+      agency: "DM신",
+      memberType: "",
+      orderAmount,
+      orderDate: orderDate ? new Date(orderDate) : null,
+      city: "",
+      district: "",
+      dong: ""
+    };
+  }
+
+  const source: AnalysisDataset = {
+    orders: [
+      order("o1", "b1", 100, "2024-03-31"),
+      order("o2", "b2", 200, "2024-04-30T23:59:59.000Z"),
+      order("o3", "b3", 300, "2024-05-01"),
+      order("o4", "b4", 400, null)
+    ],
+    customers: ["b1", "b2", "b3", "b4"].map((bizNo) => ({
+      bizNo,
+      agency: "DM신",
+      customerName: bizNo,
+      memberType: "",
+      industryMajor: "",
+      industryDetail: "",
+      firstOrderAmount: 0
+    })),
+    products: [
+      { orderNo: "o1", midCategory: "책상", quantity: 1, salesAmount: 100, isNewProduct: false },
+      { orderNo: "o2", midCategory: "의자", quantity: 1, salesAmount: 200, isNewProduct: false },
+      { orderNo: "o3", midCategory: "수납", quantity: 1, salesAmount: 300, isNewProduct: false }
+    ]
+  };
+
+  it("종료일 당일까지 포함하고 날짜 없는 주문은 기간 지정 시 제외한다", () => {
+    const { dataset: filtered, coverage } = filterDatasetByPeriod(source, analysisPeriodSchema.parse({ from: "2024-04-01", to: "2024-04-30" }));
+
+    expect(filtered.orders.map((item) => item.orderNo)).toEqual(["o2"]);
+    expect(filtered.customers.map((item) => item.bizNo)).toEqual(["b2"]);
+    expect(filtered.products.map((item) => item.orderNo)).toEqual(["o2"]);
+    expect(coverage).toMatchObject({
+      includedOrders: 1,
+      outOfRangeOrders: 2,
+      undatedOrders: 1,
+      undatedExcluded: true,
+      availableFrom: "2024-03-31",
+      availableTo: "2024-05-01"
+    });
+  });
+
+  it("기간이 없으면 데이터셋을 그대로 돌려준다", () => {
+    const { dataset: filtered, coverage } = filterDatasetByPeriod(source);
+
+    expect(filtered).toBe(source);
+    expect(coverage.undatedExcluded).toBe(false);
+  });
+});
@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+import { DATE_KEY_PATTERN, isCalendarDateKey } from "@/lib/date-key";
+
+const dateKeySchema = z
+  .string()
+  .regex(DATE_KEY_PATTERN, "날짜는 YYYY-MM-DD 형식이어야 합니다.")
+  .refine(isCalendarDateKey, "존재하지 않는 날짜입니다.");
+
+export const analysisPeriodSchema = z
+  .object({
+    from: dateKeySchema.nullable().default(null),
+    to: dateKeySchema.nullable().default(null)
+  })
+  .refine((period) => !period.from || !period.to || period.from <= period.to, "분석 시작일은 종료일보다 늦을 수 없습니다.");
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+
+import { buildCustomerRecommendations, recommendationReasons, recommendCategoriesForCustomer } from "@/features/metrics/recommend";
+import type { AnalysisDataset } from "@/types/domain";
+
+// 같은 업종·같은 주문규모의 고객 7곳. t는 책상만 샀고, 나머지 6곳 중 4곳이 의자, 1곳이 조명을 함께 샀다.
+const purchases: Record<string, string[]> = {
+  t: ["책상"],
+  p1: ["책상", "의자", "조명"],
+  p2: ["책상", "의자"],
+  p3: ["책상", "의자"],
+  p4: ["책상", "의자"],
+  p5: ["책상"],
+  p6: ["책상"]
+};
+
+function buildSource(bizNos: string[]): AnalysisDataset {
+  return {
+    orders: bizNos.map((bizNo) => ({
+      orderNo: `o-${bizNo}`,
+      bizNo,
+      agency: "DM신",
+      memberType: "",
+      orderAmount: 1000,
+      orderDate: new Date("2024-05-01"),
+      city: "",
+      district: "",
+      dong: ""
+    })),
+    customers: bizNos.map((bizNo) => ({
+      bizNo,
+      agency: "DM신",
+      customerName: `고객-${bizNo}`,
+      memberType: "",
+      industryMajor: "교육",
+      industryDetail: "",
+      firstOrderAmount: 0
+    })),
+    products: bizNos.flatMap((bizNo) =>
+      purchases[bizNo].map((midCategory) => ({
+        orderNo: `o-${bizNo}`,
+        midCategory,
+        quantity: 1,
+        salesAmount: midCategory === "의자" ? 200 : 100,
+        isNewProduct: false
+      }))
+    )
+  };
+}
+
+describe("recommendCategoriesForCustomer", () => {
+  it("업종·주문규모·함께 산 제품군 비율의 가중 평균으로 아직 사지 않은 제품군을 추천한다", () => {
+    const [chair, light] = recommendCategoriesForCustomer(buildSource(Object.keys(purchases)), "DM신", "t");
+
+    expect(chair).toMatchObject({
+      category: "의자",
+      industryPeerCount: 6,
+      orderSizePeerCount: 6,
+      coPurchaseWith: "책상",
+      typicalSalesAmount: 200
+    });
+    expect(chair.score).toBeCloseTo(200 / 3);
+    expect(chair.expectedSales).toBeCloseTo(400 / 3);
+    expect(light.category).toBe("조명");
+    expect(light.score).toBeCloseTo(100 / 6);
+
+    expect(recommendationReasons(chair)).toEqual([
+      "책상 구매 고객의 66.7%가 함께 구매",
+      "같은 업종 고객 6명 중 66.7% 구매",
+      "비슷한 주문규모 고객 6명 중 66.7% 구매"
+    ]);
+  });
+
+  it("비교 고객이 5명보다 적으면 근거로 쓰지 않아 추천하지 않는다", () => {
+    expect(recommendCategoriesForCustomer(buildSource(["t", "p1", "p2", "p3", "p4"]), "DM신", "t")).toEqual([]);
+  });
+});
+
+describe("buildCustomerRecommendations", () => {
+  it("추천이 있는 대리점 고객만 첫 추천의 기대 매출 순으로 돌려준다", () => {
+    const result = buildCustomerRecommendations(buildSource(Object.keys(purchases)), "DM신");
+
+    expect(result.map((item) => item.bizNo)).toEqual(["t", "p5", "p6", "p2", "p3", "p4"]);
+    expect(result[0]).toMatchObject({ ownedCategories: ["책상"], lastOrderDate: "2024-05-01", orderSizeBand: 1 });
+  });
+});
@@ -0,0 +1,258 @@
+import type { AnalysisDataset, CategoryRecommendation, CustomerRecommendation, RecommendationSignal } from "@/types/domain";
+
+/**
+ * 고객별 다음 제안 제품군(중분류) 추천.
+ * 고객 키는 buildCustomerMetrics와 같은 사업자번호 + 대리점이고, 비교 고객은 대리점과 무관하게 분석 기간 전체 고객이다.
+ * 아직 사지 않은 제품군마다 같은 업종 대분류 고객, 같은 평균 주문금액 5분위 고객, 이미 산 제품군을 함께 산 고객 중
+ * 그 제품군을 산 비율을 구해 가중 평균으로 순위를 매긴다.
+ */
+
+const UNCATEGORIZED = "미분류";
+const QUINTILES = [0.2, 0.4, 0.6, 0.8];
+// 비교 고객이 이보다 적으면 해당 근거는 쓰지 않는다.
+const MIN_PEER_CUSTOMERS = 5;
+const MIN_RECOMMENDATION_SCORE = 10;
+const RECOMMENDATION_LIMIT = 3;
+const SIGNAL_WEIGHTS: Record<RecommendationSignal, number> = {
+  industry: 0.35,
+  orderSize: 0.25,
+  coPurchase: 0.4
+};
+
+interface CustomerProfile {
+  key: string;
+  bizNo: string;
+  agency: string;
+  customerName: string;
+  industryMajor: string;
+  purchaseCount: number;
+  cumulativeAmount: number;
+  lastTime: number | null;
+  categorySales: Map<string, number>;
+  orderSizeBand: number;
+}
+
+interface PeerGroup {
+  customerCount: number;
+  buyers: Map<string, number>;
+}
+
+interface RecommendationModel {
+  profiles: Map<string, CustomerProfile>;
+  categories: string[];
+  byIndustry: Map<string, PeerGroup>;
+  byBand: Map<number, PeerGroup>;
+  /** 제품군 a를 산 고객 수와, a와 b를 모두 산 고객 수 */
+  categoryBuyers: Map<string, number>;
+  pairBuyers: Map<string, number>;
+  /** 주문금액 구간별 제품군 구매 고객의 구매금액 합계 */
+  bandSales: Map<number, Map<string, number>>;
+}
+
+function quantile(sorted: number[], p: number): number {
+  return sorted.length === 0 ? 0 : sorted[Math.floor((sorted.length - 1) * p)];
+}
+
+function pairKey(owned: string, candidate: string): string {
+  return `${owned}\u0001${candidate}`;
+}
+
+function addToGroup<K>(groups: Map<K, PeerGroup>, key: K, profile: CustomerProfile) {
+  const group = groups.get(key) ?? { customerCount: 0, buyers: new Map<string, number>() };
+  group.customerCount += 1;
+  for (const category of profile.categorySales.keys()) {
+    group.buyers.set(category, (group.buyers.get(category) ?? 0) + 1);
+  }
+  groups.set(key, group);
+}
+
+/** 자기 자신은 후보 제품군을 사지 않았으므로 분모에서만 뺀다. */
+function peerRate(group: PeerGroup | undefined, category: string): { rate: number | null; peers: number } {
+  const peers = (group?.customerCount ?? 1) - 1;
+  if (!group || peers < MIN_PEER_CUSTOMERS) {
+    return { rate: null, peers: Math.max(peers, 0) };
+  }
+  return { rate: ((group.buyers.get(category) ?? 0) / peers) * 100, peers };
+}
+
+function buildModel(dataset: AnalysisDataset): RecommendationModel {
+  const customerInfo = new Map(dataset.customers.map((customer) => [`${customer.bizNo}::${customer.agency}`, customer]));
+  const profiles = new Map<string, CustomerProfile>();
+  const keyByOrder = new Map<string, string>();
+
+  for (const order of dataset.orders) {
+    const key = `${order.bizNo}::${order.agency}`;
+    const info = customerInfo.get(key);
+    const profile = profiles.get(key) ?? {
+      key,
+      bizNo: order.bizNo,
+      agency: order.agency,
+      customerName: info?.customerName || order.bizNo,
+      industryMajor: info?.industryMajor ?? "",
+      purchaseCount: 0,
+      cumulativeAmount: 0,
+      lastTime: null,
+      categorySales: new Map<string, number>(),
+      orderSizeBand: 1
+    };
+    profile.purchaseCount += 1;
+    profile.cumulativeAmount += order.orderAmount;
+    if (order.orderDate) {
+      profile.lastTime = Math.max(profile.lastTime ?? 0, order.orderDate.getTime());
+    }
+    profiles.set(key, profile);
+    keyByOrder.set(order.orderNo, key);
+  }
+
+  const categorySet = new Set<string>();
+  for (const product of dataset.products) {
+    const profile = profiles.get(keyByOrder.get(product.orderNo) ?? "");
+    if (!profile || !product.midCategory || product.midCategory === UNCATEGORIZED) {
+      continue;
+    }
+    profile.categorySales.set(product.midCategory, (profile.categorySales.get(product.midCategory) ?? 0) + product.salesAmount);
+    categorySet.add(product.midCategory);
+  }
+
+  const averageOrderAmounts = Array.from(profiles.values(), (profile) => profile.cumulativeAmount / profile.purchaseCount).sort((a, b) => a - b);
+  const breakpoints = QUINTILES.map((p) => quantile(averageOrderAmounts, p));
+
+  const byIndustry = new Map<string, PeerGroup>();
+  const byBand = new Map<number, PeerGroup>();
+  const categoryBuyers = new Map<string, number>();
+  const pairBuyers = new Map<string, number>();
+  const bandSales = new Map<number, Map<string, number>>();
+  for (const profile of profiles.values()) {
+    const averageOrderAmount = profile.cumulativeAmount / profile.purchaseCount;
+    profile.orderSizeBand = 1 + breakpoints.filter((breakpoint) => averageOrderAmount > breakpoint).length;
+
+    if (profile.industryMajor) {
+      addToGroup(byIndustry, profile.industryMajor, profile);
+    }
+    addToGroup(byBand, profile.orderSizeBand, profile);
+
+    const sales = bandSales.get(profile.orderSizeBand) ?? new Map<string, number>();
+    for (const [category, amount] of profile.categorySales) {
+      categoryBuyers.set(category, (categoryBuyers.get(category) ?? 0) + 1);
+      sales.set(category, (sales.get(category) ?? 0) + amount);
+      for (const other of profile.categorySales.keys()) {
+        if (other !== category) {
+          pairBuyers.set(pairKey(category, other), (pairBuyers.get(pairKey(category, other)) ?? 0) + 1);
+        }
+      }
+    }
+    bandSales.set(profile.orderSizeBand, sales);
+  }
+
+  return { profiles, categories: Array.from(categorySet).sort(), byIndustry, byBand, categoryBuyers, pairBuyers, bandSales };
+}
+
+function recommendFor(model: RecommendationModel, profile: CustomerProfile): CategoryRecommendation[] {
+  const recommendations: CategoryRecommendation[] = [];
+
+  for (const category of model.categories) {
+    if (profile.categorySales.has(category)) {
+      continue;
+    }
+
+    const industry = profile.industryMajor ? peerRate(model.byIndustry.get(profile.industryMajor), category) : { rate: null, peers: 0 };
+    const orderSize = peerRate(model.byBand.get(profile.orderSizeBand), category);
+
+    let coPurchaseWith: string | null = null;
+    let coPurchaseRate: number | null = null;
+    for (const owned of profile.categorySales.keys()) {
+      const ownedBuyers = (model.categoryBuyers.get(owned) ?? 0) - 1;
+      if (ownedBuyers < MIN_PEER_CUSTOMERS) {
+        continue;
+      }
+      const rate = ((model.pairBuyers.get(pairKey(owned, category)) ?? 0) / ownedBuyers) * 100;
+      if (coPurchaseRate === null || rate > coPurchaseRate) {
+        coPurchaseWith = owned;
+        coPurchaseRate = rate;
+      }
+    }
+
+    const signals: Array<[RecommendationSignal, number | null]> = [
+      ["industry", industry.rate],
+      ["orderSize", orderSize.rate],
+      ["coPurchase", coPurchaseRate]
+    ];
+    const available = signals.filter((signal): signal is [RecommendationSignal, number] => signal[1] !== null);
+    if (available.length === 0) {
+      continue;
+    }
+    const weightTotal = available.reduce((sum, [signal]) => sum + SIGNAL_WEIGHTS[signal], 0);
+    const score = available.reduce((sum, [signal, rate]) => sum + SIGNAL_WEIGHTS[signal] * rate, 0) / weightTotal;
+    if (score < MIN_RECOMMENDATION_SCORE) {
+      continue;
+    }
+
+    const bandBuyers = model.byBand.get(profile.orderSizeBand)?.buyers.get(category) ?? 0;
+    const typicalSalesAmount = bandBuyers > 0 ? (model.bandSales.get(profile.orderSizeBand)?.get(category) ?? 0) / bandBuyers : 0;
+    recommendations.push({
+      category,
+      score,
+      primarySignal: available.reduce((best, current) => (current[1] > best[1] ? current : best))[0],
+      industryRate: industry.rate,
+      industryPeerCount: industry.peers,
+      orderSizeRate: orderSize.rate,
+      orderSizePeerCount: orderSize.peers,
+      coPurchaseWith,
+      coPurchaseRate,
+      typicalSalesAmount,
+      expectedSales: (score / 100) * typicalSalesAmount
+    });
+  }
+
+  return recommendations.sort((a, b) => b.score - a.score || b.expectedSales - a.expectedSales).slice(0, RECOMMENDATION_LIMIT);
+}
+
+function toCustomerRecommendation(model: RecommendationModel, profile: CustomerProfile): CustomerRecommendation {
+  return {
+    bizNo: profile.bizNo,
+    customerName: profile.customerName,
+    agency: profile.agency,
+    industryMajor: profile.industryMajor,
+    purchaseCount: profile.purchaseCount,
+    cumulativeAmount: profile.cumulativeAmount,
+    averageOrderAmount: profile.cumulativeAmount / profile.purchaseCount,
+    orderSizeBand: profile.orderSizeBand,
+    lastOrderDate: profile.lastTime === null ? null : new Date(profile.lastTime).toISOString().slice(0, 10),
+    ownedCategories: Array.from(profile.categorySales.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([category]) => category),
+    recommendations: recommendFor(model, profile)
+  };
+}
+
+/** 대리점 고객 중 추천 제품군이 있는 고객. 첫 번째 추천의 기대 매출이 큰 고객부터 정렬한다. */
+export function buildCustomerRecommendations(dataset: AnalysisDataset, agency: string): CustomerRecommendation[] {
+  const model = buildModel(dataset);
+  return Array.from(model.profiles.values())
+    .filter((profile) => profile.agency === agency)
+    .map((profile) => toCustomerRecommendation(model, profile))
+    .filter((customer) => customer.recommendations.length > 0)
+    .sort((a, b) => b.recommendations[0].expectedSales - a.recommendations[0].expectedSales || b.cumulativeAmount - a.cumulativeAmount);
+}
+
+/** 고객 한 곳의 추천. 분석 기간 안에 주문이 없으면 빈 배열. */
+export function recommendCategoriesForCustomer(dataset: AnalysisDataset, agency: string, bizNo: string): CategoryRecommendation[] {
+  const model = buildModel(dataset);
+  const profile = model.profiles.get(`${bizNo}::${agency}`);
+  return profile ? recommendFor(model, profile) : [];
+}
+
+/** 추천 근거 문장. 고객 상세 화면과 콜 리스트에서 같은 문구를 쓴다. */
+export function recommendationReasons(recommendation: CategoryRecommendation): string[] {
+  const reasons: string[] = [];
+  if (recommendation.coPurchaseWith && recommendation.coPurchaseRate !== null) {
+    reasons.push(`${recommendation.coPurchaseWith} 구매 고객의 ${recommendation.coPurchaseRate.toFixed(1)}%가 함께 구매`);
+  }
+  if (recommendation.industryRate !== null) {
+    reasons.push(`같은 업종 고객 ${recommendation.industryPeerCount}명 중 ${recommendation.industryRate.toFixed(1)}% 구매`);
+  }
+  if (recommendation.orderSizeRate !== null) {
+    reasons.push(`비슷한 주문규모 고객 ${recommendation.orderSizePeerCount}명 중 ${recommendation.orderSizeRate.toFixed(1)}% 구매`);
+  }
+  return reasons;
+}
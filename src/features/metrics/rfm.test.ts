@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { buildRfmSummary } from "@/features/metrics/rfm";
+import type { AnalysisDataset, PreparedOrder } from "@/types/domain";
+
+// 최근일수록, 자주·많이 살수록 높은 점수를 받도록 다섯 고객을 한 단계씩 벌려 둔다.
+const profiles: Array<{ bizNo: string; lastDate: string; count: number; amount: number }> = [
+  { bizNo: "c1", lastDate: "2024-12-31", count: 5, amount: 1000 },
+  { bizNo: "c2", lastDate: "2024-12-01", count: 4, amount: 800 },
+  { bizNo: "c3", lastDate: "2024-09-01", count: 3, amount: 600 },
+  { bizNo: "c4", lastDate: "2024-06-01", count: 2, amount: 400 },
+  { bizNo: "c5", lastDate: "2024-01-01", count: 1, amount: 200 }
+];
+
+function purchase(bizNo: string, index: number, orderAmount: number, date: string | null): PreparedOrder {
+  return {
+    orderNo: `${bizNo}-${index}`,
+    bizNo,
+    agency: "DM신",
+    memberType: "",
+    orderAmount,
+    orderDate: date ? new Date(date) : null,
+    city: "",
+    district: "",
+    dong: ""
+  };
+}
+
+const source: AnalysisDataset = {
+  orders: [
+    ...profiles.flatMap((profile) => Array.from({ length: profile.count }, (_, index) => purchase(profile.bizNo, index, profile.amount, profile.lastDate))),
+    purchase("c6", 0, 5000, null)
+  ],
+  customers: [],
+  products: []
+};
+
+describe("buildRfmSummary", () => {
+  it("전체 고객 기준 5분위로 점수를 매기고 세그먼트를 나눈다", () => {
+    const summary = buildRfmSummary(source, "DM신", []);
+
+    expect(summary.referenceDate).toBe("2024-12-31");
+    expect(summary.customerCount).toBe(5);
+    expect(summary.breakpoints).toEqual({
+      recencyDays: [0, 30, 121, 213],
+      frequency: [1, 2, 3, 4],
+      monetary: [200, 800, 1800, 3200]
+    });
+
+    const counts = Object.fromEntries(summary.segments.filter((item) => item.customerCount > 0).map((item) => [item.segment, item.customerCount]));
+    expect(counts).toEqual({ champions: 2, loyal: 1, hibernating: 1, lost: 1 });
+
+    const champions = summary.segments.find((item) => item.segment === "champions");
+    expect(champions?.customerShare).toBeCloseTo(40);
+    expect(champions?.revenueShare).toBeCloseTo((8200 / 11000) * 100);
+  });
+
+  it("R×FM 격자에 고객 수를 채우고 선택 대리점은 비교 대상에서 뺀다", () => {
+    const summary = buildRfmSummary(source, "DM신", ["DM신"]);
+
+    expect(summary.matrix).toHaveLength(25);
+    expect(summary.matrix.find((cell) => cell.recencyScore === 5 && cell.frequencyMonetaryScore === 5)?.customerCount).toBe(1);
+    expect(summary.matrix.find((cell) => cell.recencyScore === 1 && cell.frequencyMonetaryScore === 1)?.segment).toBe("lost");
+    expect(summary.benchmarkAgencyCount).toBe(0);
+  });
+});
@@ -0,0 +1,202 @@
+import type { AnalysisDataset, RfmMatrixCell, RfmSegmentId, RfmSegmentStat, RfmSummary } from "@/types/domain";
+
+/**
+ * RFM(최근성·구매횟수·구매금액) 5분위 점수와 세그먼트.
+ * 분위 경계는 분석 기간 전체 고객(사업자번호 + 대리점) 기준이라 대리점 간 점수를 그대로 비교할 수 있다.
+ * 주문일자가 있는 주문이 하나도 없는 고객은 최근성을 알 수 없어 제외한다.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const QUINTILES = [0.2, 0.4, 0.6, 0.8];
+
+export const RFM_SEGMENT_LABELS: Record<RfmSegmentId, string> = {
+  champions: "챔피언",
+  loyal: "충성 고객",
+  newCustomers: "신규 고객",
+  potentialLoyalists: "잠재 충성 고객",
+  cantLose: "놓치면 안 되는 고객",
+  atRisk: "이탈 우려",
+  needAttention: "관심 필요",
+  hibernating: "휴면",
+  lost: "이탈"
+};
+
+const SEGMENT_ORDER = Object.keys(RFM_SEGMENT_LABELS) as RfmSegmentId[];
+
+interface RfmCustomer {
+  agency: string;
+  recencyDays: number;
+  frequency: number;
+  monetary: number;
+}
+
+interface ScoredCustomer extends RfmCustomer {
+  recencyScore: number;
+  frequencyMonetaryScore: number;
+  segment: RfmSegmentId;
+}
+
+function quantile(sorted: number[], p: number): number {
+  return sorted.length === 0 ? 0 : sorted[Math.floor((sorted.length - 1) * p)];
+}
+
+function breakpointsOf(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  return QUINTILES.map((p) => quantile(sorted, p));
+}
+
+/** 경계값을 넘는 개수 + 1. 값이 같은 고객은 같은 점수를 받는다. */
+function scoreAscending(value: number, breakpoints: number[]): number {
+  return 1 + breakpoints.filter((breakpoint) => value > breakpoint).length;
+}
+
+/** 우선순위 순서대로 처음 맞는 세그먼트. R은 최근성, FM은 구매횟수·금액 점수 평균. */
+function segmentOf(recency: number, frequencyMonetary: number, frequency: number): RfmSegmentId {
+  if (recency >= 4 && frequencyMonetary >= 4) {
+    return "champions";
+  }
+  if (recency >= 3 && frequencyMonetary >= 3) {
+    return "loyal";
+  }
+  if (recency >= 4) {
+    return frequency <= 1 ? "newCustomers" : "potentialLoyalists";
+  }
+  if (recency <= 2 && frequencyMonetary >= 4) {
+    return "cantLose";
+  }
+  if (recency <= 2 && frequencyMonetary === 3) {
+    return "atRisk";
+  }
+  if (recency === 3) {
+    return "needAttention";
+  }
+  return recency === 2 ? "hibernating" : "lost";
+}
+
+function collectCustomers(dataset: AnalysisDataset): { customers: RfmCustomer[]; referenceTime: number } {
+  const referenceTime = dataset.orders.reduce((latest, order) => Math.max(latest, order.orderDate?.getTime() ?? 0), 0);
+  const byCustomer = new Map<string, { agency: string; lastTime: number; frequency: number; monetary: number }>();
+
+  for (const order of dataset.orders) {
+    const key = `${order.bizNo}::${order.agency}`;
+    const current = byCustomer.get(key) ?? { agency: order.agency, lastTime: 0, frequency: 0, monetary: 0 };
+    current.lastTime = Math.max(current.lastTime, order.orderDate?.getTime() ?? 0);
+    current.frequency += 1;
+    current.monetary += order.orderAmount;
+    byCustomer.set(key, current);
+  }
+
+  const customers = Array.from(byCustomer.values())
+    .filter((customer) => customer.lastTime > 0)
+    .map((customer) => ({
+      agency: customer.agency,
+      recencyDays: Math.floor(referenceTime / DAY_MS) - Math.floor(customer.lastTime / DAY_MS),
+      frequency: customer.frequency,
+      monetary: customer.monetary
+    }));
+
+  return { customers, referenceTime };
+}
+
+function shareOf(part: number, total: number): number {
+  return total > 0 ? (part / total) * 100 : 0;
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function cellKey(recency: number, frequencyMonetary: number): string {
+  return `${recency}:${frequencyMonetary}`;
+}
+
+/**
+ * 선택 대리점의 RFM 세그먼트 분포를 비교 대리점(전체 또는 Club 1000, 선택 대리점 제외)의 대리점별 분포 평균과 비교한다.
+ */
+export function buildRfmSummary(dataset: AnalysisDataset, agency: string, benchmarkAgencies: string[]): RfmSummary {
+  const { customers, referenceTime } = collectCustomers(dataset);
+  const breakpoints = {
+    recencyDays: breakpointsOf(customers.map((customer) => customer.recencyDays)),
+    frequency: breakpointsOf(customers.map((customer) => customer.frequency)),
+    monetary: breakpointsOf(customers.map((customer) => customer.monetary))
+  };
+
+  const byAgency = new Map<string, ScoredCustomer[]>();
+  for (const customer of customers) {
+    // 경과일은 작을수록 좋으므로 점수를 뒤집는다.
+    const recencyScore = 6 - scoreAscending(customer.recencyDays, breakpoints.recencyDays);
+    const frequencyMonetaryScore = Math.round(
+      (scoreAscending(customer.frequency, breakpoints.frequency) + scoreAscending(customer.monetary, breakpoints.monetary)) / 2
+    );
+    const scored: ScoredCustomer = {
+      ...customer,
+      recencyScore,
+      frequencyMonetaryScore,
+      segment: segmentOf(recencyScore, frequencyMonetaryScore, customer.frequency)
+    };
+    const bucket = byAgency.get(customer.agency) ?? [];
+    bucket.push(scored);
+    byAgency.set(customer.agency, bucket);
+  }
+
+  const distribution = (list: ScoredCustomer[]) => {
+    const revenue = list.reduce((sum, customer) => sum + customer.monetary, 0);
+    const segments = new Map<RfmSegmentId, { count: number; revenue: number }>();
+    const cells = new Map<string, number>();
+    for (const customer of list) {
+      const segment = segments.get(customer.segment) ?? { count: 0, revenue: 0 };
+      segment.count += 1;
+      segment.revenue += customer.monetary;
+      segments.set(customer.segment, segment);
+      const key = cellKey(customer.recencyScore, customer.frequencyMonetaryScore);
+      cells.set(key, (cells.get(key) ?? 0) + 1);
+    }
+    return { count: list.length, revenue, segments, cells };
+  };
+
+  const selected = distribution(byAgency.get(agency) ?? []);
+  const benchmarks = benchmarkAgencies
+    .filter((item) => item !== agency)
+    .map((item) => distribution(byAgency.get(item) ?? []))
+    .filter((item) => item.count > 0);
+
+  const segments: RfmSegmentStat[] = SEGMENT_ORDER.map((segment) => {
+    const stat = selected.segments.get(segment) ?? { count: 0, revenue: 0 };
+    return {
+      segment,
+      label: RFM_SEGMENT_LABELS[segment],
+      customerCount: stat.count,
+      customerShare: shareOf(stat.count, selected.count),
+      revenue: stat.revenue,
+      revenueShare: shareOf(stat.revenue, selected.revenue),
+      benchmarkCustomerShare: mean(benchmarks.map((item) => shareOf(item.segments.get(segment)?.count ?? 0, item.count))),
+      benchmarkRevenueShare: mean(benchmarks.map((item) => shareOf(item.segments.get(segment)?.revenue ?? 0, item.revenue)))
+    };
+  });
+
+  const matrix: RfmMatrixCell[] = [];
+  for (let recencyScore = 5; recencyScore >= 1; recencyScore -= 1) {
+    for (let frequencyMonetaryScore = 1; frequencyMonetaryScore <= 5; frequencyMonetaryScore += 1) {
+      const key = cellKey(recencyScore, frequencyMonetaryScore);
+      const customerCount = selected.cells.get(key) ?? 0;
+      matrix.push({
+        recencyScore,
+        frequencyMonetaryScore,
+        // 구매 1회 고객은 FM 점수와 무관하게 신규로 보지만, 격자 색은 구매 2회 이상 기준으로 칠한다.
+        segment: segmentOf(recencyScore, frequencyMonetaryScore, 2),
+        customerCount,
+        customerShare: shareOf(customerCount, selected.count),
+        benchmarkCustomerShare: mean(benchmarks.map((item) => shareOf(item.cells.get(key) ?? 0, item.count)))
+      });
+    }
+  }
+
+  return {
+    referenceDate: referenceTime > 0 ? new Date(referenceTime).toISOString().slice(0, 10) : null,
+    breakpoints,
+    customerCount: selected.count,
+    benchmarkAgencyCount: benchmarks.length,
+    segments,
+    matrix
+  };
+}
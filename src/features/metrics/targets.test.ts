@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+
+import { filterDatasetByPeriod } from "@/features/metrics/calculate";
+import { buildTargetTracking } from "@/features/metrics/targets";
+import type { AnalysisDataset, PreparedProduct, SalesTargetEntry } from "@/types/domain";
+
+function target(period: string, amount: number, category: string | null = null, agency = "DM신"): SalesTargetEntry {
+  return { id: `${agency}-${category ?? "total"}-${period}`, agency, category, period, amount, updatedAt: "2024-01-01T00:00:00.000Z" };
+}
+
+/** DM신 주문 [수주번호, 금액, 주문일시]와 제품 줄로 데이터셋을 만든다. */
+function sales(rows: Array<[string, number, string]>, products: PreparedProduct[] = []): AnalysisDataset {
+  return {
+    orders: rows.map(([orderNo, orderAmount, date]) => ({
+      orderNo,
+      bizNo: `b-${orderNo}`,
+      agency: "DM신",
+      memberType: "",
+      orderAmount,
+      orderDate: new Date(date),
+      city: "",
+      district: "",
+      dong: ""
+    })),
+    customers: [],
+    products
+  };
+}
+
+function track(source: AnalysisDataset, from: string, to: string, targets: SalesTargetEntry[]) {
+  const { dataset: filtered, coverage } = filterDatasetByPeriod(source, { from, to });
+  return buildTargetTracking(filtered, "DM신", coverage, targets);
+}
+
+describe("buildTargetTracking", () => {
+  it("데이터 마지막 주문일까지의 페이스와 런레이트를 계산하고, 부족분은 양수로 나타낸다", () => {
+    const source = sales([["o1", 300, "2024-04-05"], ["o2", 200, "2024-04-10"]]);
+    const tracking = track(source, "2024-04-01", "2024-04-30", [target("2024-04", 3000)]);
+
+    expect(tracking).toMatchObject({ from: "2024-04-01", to: "2024-04-30", asOf: "2024-04-10", elapsedDays: 10, totalDays: 30 });
+    expect(tracking?.total).toEqual({
+      target: 3000,
+      actual: 500,
+      attainment: (500 / 3000) * 100,
+      targetToDate: 1000,
+      pace: 50,
+      runRateProjection: 1500,
+      gapToTarget: 2500,
+      projectedGap: 1500,
+      remainingDays: 20
+    });
+  });
+
+  it("런레이트가 목표를 넘으면 예상 차이가 음수가 되고, 남은 금액은 아직 양수다", () => {
+    const source = sales([["o1", 1500, "2024-04-10"]]);
+    const total = track(source, "2024-04-01", "2024-04-30", [target("2024-04", 3000)])?.total;
+
+    expect(total?.pace).toBe(150);
+    expect(total?.runRateProjection).toBe(4500);
+    expect(total?.projectedGap).toBe(-1500);
+    expect(total?.gapToTarget).toBe(1500);
+  });
+
+  it("월 목표가 없는 달은 연간 목표의 1/12을 쓰고, 기간에 걸친 달은 일수로 나눈다", () => {
+    const source = sales([["o1", 100, "2024-04-20"], ["o2", 100, "2024-05-31"]]);
+    const tracking = track(source, "2024-04-16", "2024-05-31", [target("2024-04", 3000), target("2024", 12_000)]);
+
+    expect(tracking?.months).toEqual([
+      { month: "2024-04", target: 1500, actual: 100 },
+      { month: "2024-05", target: 1000, actual: 100 }
+    ]);
+    expect(tracking?.total?.target).toBe(2500);
+    expect(tracking?.total?.remainingDays).toBe(0);
+  });
+
+  it("실적 월을 UTC 기준으로 묶는다", () => {
+    // Asia/Seoul로는 5월 1일 새벽이지만 UTC로는 4월 30일 주문이다.
+    const source = sales([["o1", 300, "2024-04-01"], ["o2", 700, "2024-04-30T20:00:00.000Z"]]);
+    const tracking = buildTargetTracking(
+      source,
+      "DM신",
+      filterDatasetByPeriod(source).coverage,
+      [target("2024-04", 1000), target("2024-05", 1000)]
+    );
+
+    expect(tracking?.months).toEqual([{ month: "2024-04", target: 1000, actual: 1000 }]);
+    expect(tracking?.total?.attainment).toBe(100);
+  });
+
+  it("중분류 목표는 페이스가 낮은 순으로 정렬하고, 다른 대리점 목표는 무시한다", () => {
+    const source = sales(
+      [["o1", 1000, "2024-04-30"]],
+      [
+        { orderNo: "o1", midCategory: "책상", quantity: 1, salesAmount: 600, isNewProduct: false },
+        { orderNo: "o1", midCategory: "의자", quantity: 1, salesAmount: 400, isNewProduct: false }
+      ]
+    );
+    const tracking = track(source, "2024-04-01", "2024-04-30", [
+      target("2024-04", 500, "책상"),
+      target("2024-04", 800, "의자"),
+      target("2024-04", 9999, null, "DM구")
+    ]);
+
+    expect(tracking?.total).toBeNull();
+    expect(tracking?.categories.map((item) => [item.category, item.pace])).toEqual([
+      ["의자", 50],
+      ["책상", 120]
+    ]);
+    expect(track(source, "2024-04-01", "2024-04-30", [target("2024-04", 9999, null, "DM구")])).toBeNull();
+  });
+});
@@ -0,0 +1,191 @@
+import type {
+  AnalysisDataset,
+  CategoryTargetProgress,
+  PeriodCoverage,
+  SalesTargetEntry,
+  TargetMonth,
+  TargetProgress,
+  TargetTracking
+} from "@/types/domain";
+
+/**
+ * 대리점 총매출·중분류 매출 목표 대비 실적.
+ * 분석 기간(지정하지 않으면 데이터 전체 기간)의 달마다 월 목표, 없으면 연간 목표의 1/12을 쓰고,
+ * 기간이 달의 일부만 걸치면 일수 비율로 나눈다. 목표가 있는 달의 실적만 목표와 비교한다.
+ * 기준일은 기간 끝과 데이터 마지막 주문일 중 이른 날이며, 런레이트는 기준일까지의 일평균 매출을 기간 끝까지 이어 간 값이다.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface MonthWindow {
+  month: string;
+  daysInMonth: number;
+  windowDays: number;
+  elapsedDays: number;
+}
+
+function dayNumber(key: string): number {
+  return Math.floor(Date.parse(key) / DAY_MS);
+}
+
+function overlapDays(fromDay: number, toDay: number, startDay: number, endDay: number): number {
+  return Math.max(0, Math.min(toDay, endDay) - Math.max(fromDay, startDay) + 1);
+}
+
+function monthIndex(key: string): number {
+  return Number(key.slice(0, 4)) * 12 + Number(key.slice(5, 7)) - 1;
+}
+
+function monthWindows(from: string, to: string, asOf: string): MonthWindow[] {
+  const fromDay = dayNumber(from);
+  const toDay = dayNumber(to);
+  const asOfDay = dayNumber(asOf);
+  const windows: MonthWindow[] = [];
+
+  for (let index = monthIndex(from); index <= monthIndex(to); index += 1) {
+    const year = Math.floor(index / 12);
+    const month = index % 12;
+    const startDay = Math.floor(Date.UTC(year, month, 1) / DAY_MS);
+    const endDay = Math.floor(Date.UTC(year, month + 1, 0) / DAY_MS);
+    windows.push({
+      month: `${year}-${String(month + 1).padStart(2, "0")}`,
+      daysInMonth: endDay - startDay + 1,
+      windowDays: overlapDays(fromDay, toDay, startDay, endDay),
+      elapsedDays: overlapDays(fromDay, asOfDay, startDay, endDay)
+    });
+  }
+  return windows;
+}
+
+/** 월 목표가 있으면 월 목표, 없으면 연간 목표의 1/12. 둘 다 없으면 null. */
+function monthlyTarget(targets: SalesTargetEntry[], category: string | null, month: string): number | null {
+  const matches = targets.filter((target) => target.category === category);
+  const monthly = matches.find((target) => target.period === month);
+  if (monthly) {
+    return monthly.amount;
+  }
+  const annual = matches.find((target) => target.period === month.slice(0, 4));
+  return annual ? annual.amount / 12 : null;
+}
+
+function progressFor(
+  windows: MonthWindow[],
+  targetOf: (month: string) => number | null,
+  actualOf: (month: string) => number
+): TargetProgress | null {
+  let target = 0;
+  let targetToDate = 0;
+  let actual = 0;
+  let windowDays = 0;
+  let elapsedDays = 0;
+  let covered = false;
+
+  for (const window of windows) {
+    const monthTarget = targetOf(window.month);
+    if (monthTarget === null || window.windowDays === 0) {
+      continue;
+    }
+    covered = true;
+    target += (monthTarget * window.windowDays) / window.daysInMonth;
+    targetToDate += (monthTarget * window.elapsedDays) / window.daysInMonth;
+    actual += actualOf(window.month);
+    windowDays += window.windowDays;
+    elapsedDays += window.elapsedDays;
+  }
+
+  if (!covered) {
+    return null;
+  }
+
+  const runRateProjection = elapsedDays > 0 ? (actual * windowDays) / elapsedDays : actual;
+  return {
+    target,
+    actual,
+    attainment: target > 0 ? (actual / target) * 100 : 0,
+    targetToDate,
+    pace: targetToDate > 0 ? (actual / targetToDate) * 100 : 0,
+    runRateProjection,
+    gapToTarget: target - actual,
+    projectedGap: target - runRateProjection,
+    remainingDays: windowDays - elapsedDays
+  };
+}
+
+export function buildTargetTracking(
+  dataset: AnalysisDataset,
+  agency: string,
+  coverage: PeriodCoverage,
+  targets: SalesTargetEntry[]
+): TargetTracking | null {
+  const agencyTargets = targets.filter((target) => target.agency === agency);
+  const from = coverage.from ?? coverage.availableFrom;
+  const to = coverage.to ?? coverage.availableTo;
+  if (agencyTargets.length === 0 || !from || !to || from > to) {
+    return null;
+  }
+
+  const asOf = coverage.availableTo && coverage.availableTo < to ? coverage.availableTo : to;
+  const windows = monthWindows(from, to, asOf);
+
+  const salesByMonth = new Map<string, number>();
+  const categorySales = new Map<string, Map<string, number>>();
+  const orderMonth = new Map<string, string>();
+  for (const order of dataset.orders) {
+    if (order.agency !== agency || !order.orderDate) {
+      continue;
+    }
+    const month = order.orderDate.toISOString().slice(0, 7);
+    salesByMonth.set(month, (salesByMonth.get(month) ?? 0) + order.orderAmount);
+    orderMonth.set(order.orderNo, month);
+  }
+  for (const product of dataset.products) {
+    const month = orderMonth.get(product.orderNo);
+    if (!month || !product.midCategory) {
+      continue;
+    }
+    const byMonth = categorySales.get(product.midCategory) ?? new Map<string, number>();
+    byMonth.set(month, (byMonth.get(month) ?? 0) + product.salesAmount);
+    categorySales.set(product.midCategory, byMonth);
+  }
+
+  const total = progressFor(
+    windows,
+    (month) => monthlyTarget(agencyTargets, null, month),
+    (month) => salesByMonth.get(month) ?? 0
+  );
+  const categoryNames = Array.from(new Set(agencyTargets.flatMap((target) => (target.category ? [target.category] : []))));
+  const categories = categoryNames
+    .flatMap((category): CategoryTargetProgress[] => {
+      const progress = progressFor(
+        windows,
+        (month) => monthlyTarget(agencyTargets, category, month),
+        (month) => categorySales.get(category)?.get(month) ?? 0
+      );
+      return progress ? [{ category, ...progress }] : [];
+    })
+    .sort((a, b) => a.pace - b.pace);
+
+  if (!total && categories.length === 0) {
+    return null;
+  }
+
+  const months: TargetMonth[] = windows.map((window) => {
+    const monthTarget = monthlyTarget(agencyTargets, null, window.month);
+    return {
+      month: window.month,
+      target: monthTarget === null ? null : (monthTarget * window.windowDays) / window.daysInMonth,
+      actual: salesByMonth.get(window.month) ?? 0
+    };
+  });
+
+  return {
+    from,
+    to,
+    asOf,
+    elapsedDays: windows.reduce((sum, window) => sum + window.elapsedDays, 0),
+    totalDays: windows.reduce((sum, window) => sum + window.windowDays, 0),
+    total,
+    months,
+    categories
+  };
+}
@@ -1,28 +1,29 @@
-const AGENCY_ALIAS_MAP: Record<string, string> = {
-  DM대전둔산2: "DM대구칠성",
-  DM송파오금: "DM공간플러스"
-};
+import { isEntryActive, readAgencyRegistry } from "@/lib/agency-registry";
+import type { AgencyRegistry } from "@/types/domain";
 
-const CLUB_1000_SET = new Set([
-  "DM대구칠성",
-  "DM공간플러스",
-  "DM부산센텀",
-  "DM송파문정",
-  "DM오피스그룹",
-  "DM에스엔피",
-  "DM더라이즈",
-  "DM드림OC"
-]);
-
-export function normalizeAgencyName(name: string): string {
+/**
+ * 대리점명을 표준명으로 변환한다. `at`은 주문일자이며, 해당 시점에 유효했던 별칭 규칙만 적용한다.
+ * 날짜가 없으면 현재 시점 규칙을 사용한다. 여러 행을 변환할 때는 레지스트리를 한 번 읽어 넘긴다.
+ */
+export function normalizeAgencyName(name: string, at: Date | null = null, registry: AgencyRegistry = readAgencyRegistry()): string {
   const trimmed = (name || "").trim();
-  return AGENCY_ALIAS_MAP[trimmed] ?? trimmed;
+  const when = at ?? new Date();
+
+  const match = registry
+    .aliases.filter((entry) => entry.alias === trimmed && isEntryActive(entry, when))
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+
+  return match?.canonical ?? trimmed;
 }
 
-export function isClub1000Agency(name: string): boolean {
-  return CLUB_1000_SET.has(normalizeAgencyName(name));
+export function getClub1000Agencies(at: Date | null = null): string[] {
+  const when = at ?? new Date();
+  const members = readAgencyRegistry()
+    .club1000.filter((entry) => isEntryActive(entry, when))
+    .map((entry) => entry.agency);
+  return Array.from(new Set(members));
 }
 
-export function getClub1000Agencies(): string[] {
-  return Array.from(CLUB_1000_SET);
+export function isClub1000Agency(name: string, at: Date | null = null): boolean {
+  return getClub1000Agencies(at).includes(normalizeAgencyName(name, at));
 }
@@ -1,12 +1,15 @@
 import { z } from "zod";
 
+import type { ColumnAliasMatch } from "@/types/domain";
+
 const REQUIRED_COLUMNS = {
   orders: ["수주번호", "사업자 등록번호", "실적대리점", "수주금액"],
   customers: ["사업자 등록번호"],
-  products: ["수주번호"]
+  products: ["수주번호"],
+  targets: ["대리점", "기간", "목표금액"]
 } as const;
 
-type CsvSource = keyof typeof REQUIRED_COLUMNS;
+export type CsvSource = keyof typeof REQUIRED_COLUMNS;
 
 const COLUMN_ALIASES: Record<CsvSource, Record<string, string[]>> = {
   orders: {
@@ -30,6 +33,12 @@ const COLUMN_ALIASES: Record<CsvSource, Record<string, string[]>> = {
     수량: ["수량", "판매수량", "qty", "quantity"],
     신제품구분: ["신제품구분", "신제품여부", "신제품", "new_product", "is_new_product"],
     수주금액: ["수주금액", "주문금액", "품목금액", "amount", "sales_amount"]
+  },
+  targets: {
+    대리점: ["대리점", "대리점명", "실적대리점", "agency", "agency_name"],
+    중분류: ["중분류", "카테고리(중분류)", "제품군", "category", "mid_category"],
+    기간: ["기간", "목표기간", "목표월", "연월", "월", "연도", "period", "month", "year"],
+    목표금액: ["목표금액", "목표매출", "목표", "target", "target_amount"]
   }
 };
 
@@ -72,6 +81,38 @@ function findMissingColumns(normalizedHeaders: Set<string>, source: CsvSource):
   return missing;
 }
 
+/**
+ * 헤더 목록이 소스별 컬럼 정의와 얼마나 맞는지 점수화한다.
+ * 필수 컬럼 일치를 선택 컬럼보다 크게 가중해 XLSX 시트/헤더 행 자동 선택에 쓴다.
+ */
+export function scoreHeaderMatch(headers: string[], source: CsvSource): number {
+  const normalizedHeaders = new Set(headers.map((header) => normalizeHeader(header)).filter(Boolean));
+  const required = new Set<string>(REQUIRED_COLUMNS[source]);
+
+  return Object.entries(COLUMN_ALIASES[source]).reduce((score, [column, aliases]) => {
+    if (!hasAnyAlias(normalizedHeaders, aliases)) {
+      return score;
+    }
+    return score + (required.has(column) ? 10 : 1);
+  }, 0);
+}
+
+/** 소스별 정규 컬럼마다 실제 파일에서 어떤 헤더가 매칭됐는지 반환한다. */
+export function matchColumnAliases(rows: RawCsvRecord[], source: CsvSource): ColumnAliasMatch[] {
+  const rawHeaders = Array.from(collectHeaders(rows).raw);
+  const required = new Set<string>(REQUIRED_COLUMNS[source]);
+
+  return Object.entries(COLUMN_ALIASES[source]).map(([column, aliases]) => {
+    const normalizedAliases = aliases.map((alias) => normalizeHeader(alias));
+    const matchedHeader =
+      normalizedAliases
+        .map((alias) => rawHeaders.find((header) => normalizeHeader(header) === alias))
+        .find((header): header is string => Boolean(header)) ?? null;
+
+    return { column, required: required.has(column), matchedHeader };
+  });
+}
+
 function tryShiftedHeader(rows: RawCsvRecord[], source: CsvSource): RawCsvRecord[] | null {
   if (rows.length < 2) {
     return null;
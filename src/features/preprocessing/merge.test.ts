@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { buildAnalysisDataset, prepareCustomers, prepareOrders } from "@/features/preprocessing/merge";
+import type { AgencyRegistry } from "@/types/domain";
+
+// 2024-06-01부터 DM구 → DM신으로 통합된 레지스트리
+const registry = vi.hoisted<AgencyRegistry>(() => ({
+  version: 1,
+  updatedAt: "2024-06-01T00:00:00.000Z",
+  aliases: [{ id: "alias-1", alias: "DM구", canonical: "DM신", effectiveFrom: "2024-06-01", retiredFrom: null }],
+  club1000: []
+}));
+
+vi.mock("@/lib/agency-registry", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/agency-registry")>()),
+  readAgencyRegistry: () => registry
+}));
+
+function orderRow(orderNo: string, agency: string, amount: string, date: string) {
+  return { 수주번호: orderNo, 사업자등록번호: "b1", 실적대리점: agency, 수주금액: amount, 기준일자: date };
+}
+
+describe("prepareOrders", () => {
+  it("주문일자에 유효했던 별칭만 적용한다", () => {
+    const orders = prepareOrders([orderRow("o1", "DM구", "100", "2024-03-01"), orderRow("o2", "DM구", "200", "2024-07-01")]);
+
+    expect(orders.map((order) => order.agency)).toEqual(["DM구", "DM신"]);
+  });
+
+  it("해석하지 못한 금액·날짜를 필드별로 센다", () => {
+    const issues = {};
+    const [order] = prepareOrders([orderRow("o1", "DM신", "12만", "2024-13-45")], issues);
+
+    expect(order.orderAmount).toBe(0);
+    expect(order.orderDate).toBeNull();
+    expect(issues).toEqual({ orderAmount: 1, orderDate: 1 });
+  });
+});
+
+describe("prepareCustomers", () => {
+  it("별칭 규칙이 바뀐 전후의 주문 대리점마다 고객 레코드를 만들어 모든 주문이 고객과 이어진다", () => {
+    const orders = prepareOrders([orderRow("o1", "DM구", "100", "2024-03-01"), orderRow("o2", "DM구", "200", "2024-07-01")]);
+    const customers = prepareCustomers([{ 사업자등록번호: "b1", 실적대리점: "DM구", 회사명: "고객" }], orders);
+
+    expect(customers.map((customer) => [customer.agency, customer.firstOrderAmount])).toEqual([
+      ["DM신", 200],
+      ["DM구", 100]
+    ]);
+
+    const dataset = buildAnalysisDataset(orders, customers, []);
+    expect(dataset.orders).toHaveLength(2);
+    expect(dataset.customers.map((customer) => customer.agency).sort()).toEqual(["DM구", "DM신"]);
+  });
+
+  it("최초주문금액이 있으면 주문으로 대체하지 않는다", () => {
+    const orders = prepareOrders([orderRow("o1", "DM신", "100", "2024-07-01")]);
+    const [customer] = prepareCustomers([{ 사업자등록번호: "b1", 실적대리점: "DM신", 최초주문금액: "5,000" }], orders);
+
+    expect(customer.firstOrderAmount).toBe(5000);
+  });
+});
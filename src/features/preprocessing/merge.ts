@@ -1,40 +1,85 @@
 import type { AnalysisDataset, PreparedCustomer, PreparedOrder, PreparedProduct } from "@/types/domain";
 import { normalizeAgencyName } from "@/features/preprocessing/agency-normalization";
 import { pickValue, type RawCsvRecord } from "@/features/preprocessing/csv-schema";
+import { readAgencyRegistry } from "@/lib/agency-registry";
 
-function parseNumber(value: string): number {
+/** 값은 있었지만 숫자/날짜로 해석하지 못해 0 또는 null로 처리된 필드별 건수. */
+export type ParseIssueField = "orderAmount" | "orderDate" | "firstOrderAmount" | "quantity" | "salesAmount";
+export type ParseIssueCounts = Partial<Record<ParseIssueField, number>>;
+
+export type OrderDropReason = "nonPositiveAmount" | "missingOrderNo" | "missingBizNo" | "missingAgency";
+
+function noteIssue(issues: ParseIssueCounts | undefined, field: ParseIssueField) {
+  if (issues) {
+    issues[field] = (issues[field] ?? 0) + 1;
+  }
+}
+
+function parseNumber(value: string, onInvalid?: () => void): number {
   const normalized = value.replace(/,/g, "").trim();
   if (!normalized) {
     return 0;
   }
   const numeric = Number(normalized);
-  return Number.isFinite(numeric) ? numeric : 0;
+  if (!Number.isFinite(numeric)) {
+    onInvalid?.();
+    return 0;
+  }
+  return numeric;
 }
 
-function parseDate(value: string): Date | null {
+function parseDate(value: string, onInvalid?: () => void): Date | null {
   if (!value) {
     return null;
   }
   const normalized = value.replace(/\./g, "-").trim();
   const parsed = new Date(normalized);
-  return Number.isNaN(parsed.getTime()) ? null : parsed;
+  if (Number.isNaN(parsed.getTime())) {
+    onInvalid?.();
+    return null;
+  }
+  return parsed;
 }
 
-function customerKey(bizNo: string, agency: string): string {
+export function customerKey(bizNo: string, agency: string): string {
   return `${bizNo}::${agency}`;
 }
 
-export function prepareOrders(rows: RawCsvRecord[]): PreparedOrder[] {
+export function orderDropReason(order: PreparedOrder): OrderDropReason | null {
+  if (order.orderAmount <= 0) {
+    return "nonPositiveAmount";
+  }
+  if (!order.orderNo) {
+    return "missingOrderNo";
+  }
+  if (!order.bizNo) {
+    return "missingBizNo";
+  }
+  if (!order.agency) {
+    return "missingAgency";
+  }
+  return null;
+}
+
+export function prepareOrders(rows: RawCsvRecord[], issues?: ParseIssueCounts): PreparedOrder[] {
+  const registry = readAgencyRegistry();
   return rows.map((row) => {
-    const agency = normalizeAgencyName(pickValue(row, ["실적대리점", "대리점", "대리점명", "agency", "agency_name"]));
+    const orderDate = parseDate(
+      pickValue(row, ["기준일자", "기준일자일", "주문일자", "수주일자", "일자", "date", "order_date"]),
+      () => noteIssue(issues, "orderDate")
+    );
+    const agency = normalizeAgencyName(pickValue(row, ["실적대리점", "대리점", "대리점명", "agency", "agency_name"]), orderDate, registry);
 
     return {
       orderNo: pickValue(row, ["수주번호", "주문번호", "오더번호", "order_no", "orderno"]),
       bizNo: pickValue(row, ["사업자 등록번호", "사업자등록번호", "사업자번호", "biz_no", "business_no"]),
       agency,
       memberType: pickValue(row, ["회원구분", "회원 구분", "member_type", "membership_type"]),
-      orderAmount: parseNumber(pickValue(row, ["수주금액", "주문금액", "매출금액", "합계금액", "order_amount", "sales_amount"])),
-      orderDate: parseDate(pickValue(row, ["기준일자", "기준일자일", "주문일자", "수주일자", "일자", "date", "order_date"])),
+      orderAmount: parseNumber(
+        pickValue(row, ["수주금액", "주문금액", "매출금액", "합계금액", "order_amount", "sales_amount"]),
+        () => noteIssue(issues, "orderAmount")
+      ),
+      orderDate,
       city: pickValue(row, ["시", "시도", "광역시도", "city"]),
       district: pickValue(row, ["구", "시군구", "군구", "district"]),
       dong: pickValue(row, ["동", "읍면동", "행정동", "법정동", "town"])
@@ -42,11 +87,22 @@ export function prepareOrders(rows: RawCsvRecord[]): PreparedOrder[] {
   });
 }
 
-export function prepareCustomers(rows: RawCsvRecord[], orders: PreparedOrder[]): PreparedCustomer[] {
+/**
+ * 고객 행의 대리점명은 주문과 같은 규칙으로 맞춘다. 주문은 주문일자에 유효했던 별칭으로 정규화되므로,
+ * 같은 사업자번호 주문의 일자마다 고객 대리점명을 다시 정규화해 주문 쪽 대리점명과 같아지는 이름마다 고객 레코드를 만든다.
+ * 별칭 규칙이 바뀌기 전후로 주문이 있는 고객은 대리점명별로 여러 레코드가 된다.
+ */
+export function prepareCustomers(rows: RawCsvRecord[], orders: PreparedOrder[], issues?: ParseIssueCounts): PreparedCustomer[] {
+  const registry = readAgencyRegistry();
+  const ordersByBiz = new Map<string, PreparedOrder[]>();
   const oldestOrderAmountByExact = new Map<string, { date: Date; amount: number }>();
   const oldestOrderAmountByBiz = new Map<string, { date: Date; amount: number }>();
 
   for (const order of orders) {
+    const bizOrders = ordersByBiz.get(order.bizNo) ?? [];
+    bizOrders.push(order);
+    ordersByBiz.set(order.bizNo, bizOrders);
+
     if (!order.orderDate || order.orderAmount <= 0) {
       continue;
     }
@@ -63,18 +119,24 @@ export function prepareCustomers(rows: RawCsvRecord[], orders: PreparedOrder[]):
     }
   }
 
-  return rows.map((row) => {
-    const agency = normalizeAgencyName(pickValue(row, ["실적대리점", "대리점", "대리점명", "agency", "agency_name"]));
+  return rows.flatMap((row) => {
+    const rawAgency = pickValue(row, ["실적대리점", "대리점", "대리점명", "agency", "agency_name"]);
     const bizNo = pickValue(row, ["사업자 등록번호", "사업자등록번호", "사업자번호", "biz_no", "business_no"]);
-    const exactKey = customerKey(bizNo, agency);
+    const agencies = new Set([normalizeAgencyName(rawAgency, null, registry)]);
+    for (const order of ordersByBiz.get(bizNo) ?? []) {
+      const agencyAtOrder = normalizeAgencyName(rawAgency, order.orderDate, registry);
+      if (agencyAtOrder === order.agency) {
+        agencies.add(agencyAtOrder);
+      }
+    }
 
-    const firstOrderRaw = parseNumber(pickValue(row, ["최초주문금액", "최초주문 금액", "first_order_amount", "first_amount"]));
-    const imputedExact = oldestOrderAmountByExact.get(exactKey)?.amount ?? 0;
+    const firstOrderRaw = parseNumber(pickValue(row, ["최초주문금액", "최초주문 금액", "first_order_amount", "first_amount"]), () =>
+      noteIssue(issues, "firstOrderAmount")
+    );
     const imputedBiz = oldestOrderAmountByBiz.get(bizNo)?.amount ?? 0;
 
-    return {
+    const base = {
       bizNo,
-      agency,
       customerName: pickValue(row, ["회사명", "고객명", "상호", "고객사명", "customer_name", "company_name"]),
       memberType: pickValue(row, ["회원구분", "회원 구분", "member_type", "membership_type"]),
       industryMajor: pickValue(row, [
@@ -96,18 +158,25 @@ export function prepareCustomers(rows: RawCsvRecord[], orders: PreparedOrder[]):
         "업종(세부)",
         "industry_detail",
         "sub_industry"
-      ]),
-      firstOrderAmount: firstOrderRaw > 0 ? firstOrderRaw : imputedExact || imputedBiz
+      ])
     };
+
+    return Array.from(agencies, (agency) => ({
+      ...base,
+      agency,
+      firstOrderAmount: firstOrderRaw > 0 ? firstOrderRaw : (oldestOrderAmountByExact.get(customerKey(bizNo, agency))?.amount ?? 0) || imputedBiz
+    }));
   });
 }
 
-export function prepareProducts(rows: RawCsvRecord[]): PreparedProduct[] {
+export function prepareProducts(rows: RawCsvRecord[], issues?: ParseIssueCounts): PreparedProduct[] {
   return rows.map((row) => ({
     orderNo: pickValue(row, ["수주번호", "주문번호", "오더번호", "order_no", "orderno"]),
     midCategory: pickValue(row, ["카테고리(중분류)", "카테고리중분류", "중분류", "품목중분류", "mid_category"]),
-    quantity: parseNumber(pickValue(row, ["수량", "판매수량", "qty", "quantity"])),
-    salesAmount: parseNumber(pickValue(row, ["수주금액", "주문금액", "품목금액", "amount", "sales_amount"])),
+    quantity: parseNumber(pickValue(row, ["수량", "판매수량", "qty", "quantity"]), () => noteIssue(issues, "quantity")),
+    salesAmount: parseNumber(pickValue(row, ["수주금액", "주문금액", "품목금액", "amount", "sales_amount"]), () =>
+      noteIssue(issues, "salesAmount")
+    ),
     isNewProduct: ["신제품", "Y", "1", "TRUE"].includes(
       pickValue(row, ["신제품구분", "신제품여부", "신제품", "new_product", "is_new_product"]).toUpperCase()
     )
@@ -131,7 +200,7 @@ export function buildAnalysisDataset(
   customers: PreparedCustomer[],
   products: PreparedProduct[]
 ): AnalysisDataset {
-  const validOrders = orders.filter((order) => order.orderAmount > 0 && order.orderNo && order.bizNo && order.agency);
+  const validOrders = orders.filter((order) => orderDropReason(order) === null);
   const customerIndices = buildCustomerIndices(customers);
 
   const matchedCustomers = validOrders
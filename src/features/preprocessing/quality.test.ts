@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { buildAnalysisDataset, prepareCustomers, prepareOrders, prepareProducts } from "@/features/preprocessing/merge";
+import { buildDataQualityReport } from "@/features/preprocessing/quality";
+import type { AgencyRegistry } from "@/types/domain";
+
+const registry = vi.hoisted<AgencyRegistry>(() => ({
+  version: 1,
+  updatedAt: "2024-06-01T00:00:00.000Z",
+  aliases: [{ id: "alias-1", alias: "DM구", canonical: "DM신", effectiveFrom: "2024-06-01", retiredFrom: null }],
+  club1000: []
+}));
+
+vi.mock("@/lib/agency-registry", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/agency-registry")>()),
+  readAgencyRegistry: () => registry
+}));
+
+describe("buildDataQualityReport", () => {
+  it("고객 총계는 업로드한 행 수로 두고 별칭으로 늘어난 레코드는 따로 센다", () => {
+    const orders = prepareOrders([
+      { 수주번호: "o1", 사업자등록번호: "b1", 실적대리점: "DM구", 수주금액: "100", 기준일자: "2024-03-01" },
+      { 수주번호: "o2", 사업자등록번호: "b1", 실적대리점: "DM구", 수주금액: "200", 기준일자: "2024-07-01" },
+      { 수주번호: "o3", 사업자등록번호: "b2", 실적대리점: "DM신", 수주금액: "0", 기준일자: "2024-07-02" }
+    ]);
+    const customerRows = [
+      { 사업자등록번호: "b1", 실적대리점: "DM구" },
+      { 사업자등록번호: "b2", 실적대리점: "DM신", 최초주문금액: "확인 필요" }
+    ];
+    const parseIssues = {};
+    const customers = prepareCustomers(customerRows, orders, parseIssues);
+    const products = prepareProducts([
+      { 수주번호: "o1", 중분류: "책상", 판매금액: "100" },
+      { 수주번호: "o9", 중분류: "의자", 판매금액: "50" }
+    ]);
+    const dataset = buildAnalysisDataset(orders, customers, products);
+
+    const report = buildDataQualityReport({
+      sources: [],
+      orders,
+      customerRowCount: customerRows.length,
+      customers,
+      products,
+      dataset,
+      parseIssues
+    });
+
+    expect(report.customers).toEqual({ total: 2, records: 3, expandedByAlias: 1, matched: 2, unparseableFirstOrderAmount: 1 });
+    expect(report.orders).toMatchObject({ total: 3, kept: 2, droppedNonPositiveAmount: 1, unmatchedCustomer: 0 });
+    expect(report.products).toMatchObject({ total: 2, kept: 1, unknownOrder: 1 });
+  });
+});
@@ -0,0 +1,86 @@
+import type {
+  AnalysisDataset,
+  DataQualityReport,
+  DataSource,
+  PreparedCustomer,
+  PreparedOrder,
+  PreparedProduct,
+  SourceParseReport
+} from "@/types/domain";
+import { matchColumnAliases, type RawCsvRecord } from "@/features/preprocessing/csv-schema";
+import { customerKey, orderDropReason, type ParseIssueCounts } from "@/features/preprocessing/merge";
+import type { ParsedTable } from "@/lib/csv/parse";
+
+interface BuildDataQualityReportParams {
+  sources: SourceParseReport[];
+  orders: PreparedOrder[];
+  /** 별칭 규칙으로 한 행이 여러 대리점 레코드로 나뉘기 전의 고객 행 수 */
+  customerRowCount: number;
+  customers: PreparedCustomer[];
+  products: PreparedProduct[];
+  dataset: AnalysisDataset;
+  parseIssues: ParseIssueCounts;
+}
+
+export function describeSource(source: DataSource, table: ParsedTable, rows: RawCsvRecord[]): SourceParseReport {
+  return {
+    source,
+    format: table.format,
+    encoding: table.encoding ?? null,
+    delimiter: table.delimiter ?? null,
+    sheetName: table.sheetName ?? null,
+    rowCount: rows.length,
+    columns: matchColumnAliases(rows, source)
+  };
+}
+
+export function buildDataQualityReport(params: BuildDataQualityReportParams): DataQualityReport {
+  const { orders, customerRowCount, customers, products, dataset, parseIssues } = params;
+
+  const dropped = {
+    nonPositiveAmount: 0,
+    missingOrderNo: 0,
+    missingBizNo: 0,
+    missingAgency: 0
+  };
+  for (const order of orders) {
+    const reason = orderDropReason(order);
+    if (reason) {
+      dropped[reason] += 1;
+    }
+  }
+
+  const customerKeys = new Set(customers.map((customer) => customerKey(customer.bizNo, customer.agency)));
+  const unmatchedCustomer = dataset.orders.filter((order) => !customerKeys.has(customerKey(order.bizNo, order.agency))).length;
+  const missingDate = dataset.orders.filter((order) => !order.orderDate).length;
+
+  return {
+    sources: params.sources,
+    orders: {
+      total: orders.length,
+      kept: dataset.orders.length,
+      droppedNonPositiveAmount: dropped.nonPositiveAmount,
+      droppedMissingOrderNo: dropped.missingOrderNo,
+      droppedMissingBizNo: dropped.missingBizNo,
+      droppedMissingAgency: dropped.missingAgency,
+      unparseableAmount: parseIssues.orderAmount ?? 0,
+      unparseableDate: parseIssues.orderDate ?? 0,
+      missingDate,
+      unmatchedCustomer
+    },
+    customers: {
+      total: customerRowCount,
+      records: customers.length,
+      expandedByAlias: customers.length - customerRowCount,
+      matched: dataset.customers.length,
+      unparseableFirstOrderAmount: parseIssues.firstOrderAmount ?? 0
+    },
+    products: {
+      total: products.length,
+      kept: dataset.products.length,
+      unknownOrder: products.length - dataset.products.length,
+      unparseableQuantity: parseIssues.quantity ?? 0,
+      unparseableAmount: parseIssues.salesAmount ?? 0
+    }
+  };
+}
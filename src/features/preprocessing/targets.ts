@@ -0,0 +1,49 @@
+import { normalizeAgencyName } from "@/features/preprocessing/agency-normalization";
+import { pickValue, type RawCsvRecord } from "@/features/preprocessing/csv-schema";
+import type { SalesTargetInput } from "@/lib/sales-targets";
+
+/** 2025-03, 2025.3, 202503, 2025년 3월, 2025 등을 YYYY-MM 또는 YYYY로 맞춘다. */
+function normalizeTargetPeriod(value: string): string | null {
+  const compact = value.replace(/\s/g, "").replace(/년/g, "-").replace(/월$/, "");
+  const match = compact.match(/^(\d{4})(?:[-./]?(\d{1,2}))?-?$/);
+  if (!match) {
+    return null;
+  }
+  if (!match[2]) {
+    return match[1];
+  }
+  const month = Number(match[2]);
+  return month >= 1 && month <= 12 ? `${match[1]}-${String(month).padStart(2, "0")}` : null;
+}
+
+/** 목표 업로드 파일의 행을 목표 입력으로 바꾼다. 대리점명은 주문 데이터와 같은 별칭 규칙으로 표준화한다. */
+export function prepareSalesTargets(rows: RawCsvRecord[]): SalesTargetInput[] {
+  return rows.flatMap((row, index) => {
+    const agency = pickValue(row, ["대리점", "대리점명", "실적대리점", "agency", "agency_name"]);
+    const rawPeriod = pickValue(row, ["기간", "목표기간", "목표월", "연월", "월", "연도", "period", "month", "year"]);
+    const rawAmount = pickValue(row, ["목표금액", "목표매출", "목표", "target", "target_amount"]);
+    if (!agency && !rawPeriod && !rawAmount) {
+      return [];
+    }
+
+    // 헤더가 1행이라 데이터는 2행부터
+    const line = index + 2;
+    const period = normalizeTargetPeriod(rawPeriod);
+    if (!period) {
+      throw new Error(`목표 파일 ${line}행: 기간 형식을 알 수 없습니다 (${rawPeriod || "빈 값"}).`);
+    }
+    const amount = Number(rawAmount.replace(/,/g, ""));
+    if (!rawAmount || !Number.isFinite(amount)) {
+      throw new Error(`목표 파일 ${line}행: 목표금액을 숫자로 읽을 수 없습니다 (${rawAmount || "빈 값"}).`);
+    }
+
+    return [
+      {
+        agency: normalizeAgencyName(agency),
+        category: pickValue(row, ["중분류", "카테고리(중분류)", "제품군", "category", "mid_category"]) || null,
+        period,
+        amount
+      }
+    ];
+  });
+}
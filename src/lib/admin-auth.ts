@@ -0,0 +1,21 @@
+import crypto from "crypto";
+
+/**
+ * 인사이트 프리셋·대리점 레지스트리·매출 목표처럼 모든 사용자의 분석 결과를 바꾸는 변경 API와 전체 데이터셋 목록의 관리자 확인.
+ * `Authorization: Bearer <ADMIN_API_TOKEN>` 헤더가 맞으면 null, 아니면 사용자에게 보여줄 오류 문구를 반환한다.
+ * 토큰을 설정하지 않으면 개발 환경에서만 허용하고 운영(production)에서는 변경을 막는다.
+ */
+export function adminAuthError(request: Request): string | null {
+  const token = process.env.ADMIN_API_TOKEN?.trim();
+  if (!token) {
+    return process.env.NODE_ENV === "production" ? "ADMIN_API_TOKEN이 설정되지 않아 변경할 수 없습니다." : null;
+  }
+
+  const provided = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() ?? "";
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(provided);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return "관리자 토큰이 필요합니다.";
+  }
+  return null;
+}
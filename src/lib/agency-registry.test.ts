@@ -0,0 +1,43 @@
+import fs from "node:fs";
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+import { addAgencyAlias, addClub1000Member, readAgencyRegistry, retireAgencyAlias } from "@/lib/agency-registry";
+import { normalizeAgencyName } from "@/features/preprocessing/agency-normalization";
+
+// 모듈을 불러오기 전에 레지스트리 파일 경로를 임시 파일로 돌린다.
+const registryPath = vi.hoisted(() => {
+  const target = `${process.env.TMPDIR || "/tmp"}/agency-registry-${process.pid}-${Date.now()}.json`;
+  process.env.AGENCY_REGISTRY_PATH = target;
+  return target;
+});
+
+afterAll(() => {
+  fs.rmSync(registryPath, { force: true });
+});
+
+describe("agency registry", () => {
+  it("파일이 없으면 기본 매핑을 쓰고, 추가한 별칭은 적용 시작일부터 반영한다", () => {
+    expect(readAgencyRegistry().version).toBe(0);
+
+    const entry = addAgencyAlias({ alias: "DM구", canonical: "DM신", effectiveFrom: "2024-06-01" });
+    expect(readAgencyRegistry().version).toBe(1);
+    expect(normalizeAgencyName("DM구", new Date("2024-05-31"))).toBe("DM구");
+    expect(normalizeAgencyName("DM구", new Date("2024-06-01"))).toBe("DM신");
+
+    retireAgencyAlias(entry.id, "2024-09-01");
+    expect(normalizeAgencyName("DM구", new Date("2024-09-01"))).toBe("DM구");
+  });
+
+  it("존재하지 않는 날짜는 기간 필터와 같은 규칙으로 거절한다", () => {
+    expect(() => addAgencyAlias({ alias: "DM가", canonical: "DM나", effectiveFrom: "2024-02-30" })).toThrow(/실제 날짜/);
+    expect(() => addClub1000Member({ agency: "DM나", effectiveFrom: "2023-02-29" })).toThrow(/실제 날짜/);
+    expect(() => addClub1000Member({ agency: "DM나", effectiveFrom: "2024/03/01" })).toThrow(/실제 날짜/);
+    expect(readAgencyRegistry().club1000.some((item) => item.agency === "DM나")).toBe(false);
+  });
+
+  it("같은 별칭이 겹치는 기간에 다시 등록되면 거절한다", () => {
+    addAgencyAlias({ alias: "DM다", canonical: "DM라", effectiveFrom: "2024-01-01" });
+
+    expect(() => addAgencyAlias({ alias: "DM다", canonical: "DM마", effectiveFrom: "2024-03-01" })).toThrow(/이미 등록/);
+  });
+});
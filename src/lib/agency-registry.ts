@@ -0,0 +1,169 @@
+import crypto from "crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { isCalendarDateKey } from "@/lib/date-key";
+import type { AgencyAliasEntry, AgencyRegistry, Club1000Entry } from "@/types/domain";
+
+const REGISTRY_PATH = process.env.AGENCY_REGISTRY_PATH || path.join(process.cwd(), "data", "agency-registry.json");
+
+// 레지스트리 파일이 아직 없을 때 사용하는 초기값 (기존 하드코딩 매핑)
+const SEED_EFFECTIVE_FROM = "2000-01-01";
+const SEED_ALIASES: Array<[string, string]> = [
+  ["DM대전둔산2", "DM대구칠성"],
+  ["DM송파오금", "DM공간플러스"]
+];
+const SEED_CLUB_1000 = ["DM대구칠성", "DM공간플러스", "DM부산센텀", "DM송파문정", "DM오피스그룹", "DM에스엔피", "DM더라이즈", "DM드림OC"];
+
+let cached: { mtimeMs: number; registry: AgencyRegistry } | null = null;
+
+function seedRegistry(): AgencyRegistry {
+  return {
+    version: 0,
+    updatedAt: new Date(0).toISOString(),
+    aliases: SEED_ALIASES.map(([alias, canonical], index) => ({
+      id: `seed-alias-${index + 1}`,
+      alias,
+      canonical,
+      effectiveFrom: SEED_EFFECTIVE_FROM,
+      retiredFrom: null
+    })),
+    club1000: SEED_CLUB_1000.map((agency, index) => ({
+      id: `seed-club-${index + 1}`,
+      agency,
+      effectiveFrom: SEED_EFFECTIVE_FROM,
+      retiredFrom: null
+    }))
+  };
+}
+
+function todayKey(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function assertDateKey(value: string, label: string) {
+  if (!isCalendarDateKey(value)) {
+    throw new Error(`${label}은(는) YYYY-MM-DD 형식의 실제 날짜여야 합니다.`);
+  }
+}
+
+export function readAgencyRegistry(): AgencyRegistry {
+  if (!fs.existsSync(REGISTRY_PATH)) {
+    if (!cached || cached.mtimeMs !== -1) {
+      cached = { mtimeMs: -1, registry: seedRegistry() };
+    }
+    return cached.registry;
+  }
+
+  const { mtimeMs } = fs.statSync(REGISTRY_PATH);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.registry;
+  }
+
+  try {
+    const registry = JSON.parse(fs.readFileSync(REGISTRY_PATH, "utf-8")) as AgencyRegistry;
+    cached = { mtimeMs, registry };
+    return registry;
+  } catch {
+    throw new Error(`대리점 레지스트리 파일을 읽을 수 없습니다: ${REGISTRY_PATH}`);
+  }
+}
+
+function writeAgencyRegistry(registry: AgencyRegistry): AgencyRegistry {
+  const next: AgencyRegistry = { ...registry, version: registry.version + 1, updatedAt: new Date().toISOString() };
+  fs.mkdirSync(path.dirname(REGISTRY_PATH), { recursive: true });
+  const tempPath = `${REGISTRY_PATH}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(next, null, 2), "utf-8");
+  fs.renameSync(tempPath, REGISTRY_PATH);
+  cached = null;
+  return next;
+}
+
+/** `at` 시점에 적용되는 항목인지 여부. effectiveFrom 포함, retiredFrom 미포함. */
+export function isEntryActive(entry: { effectiveFrom: string; retiredFrom: string | null }, at: Date): boolean {
+  const time = at.getTime();
+  if (time < new Date(entry.effectiveFrom).getTime()) {
+    return false;
+  }
+  return !entry.retiredFrom || time < new Date(entry.retiredFrom).getTime();
+}
+
+function retireEntry<T extends { id: string; effectiveFrom: string; retiredFrom: string | null }>(
+  entries: T[],
+  id: string,
+  retiredFrom: string | undefined
+): T[] {
+  const target = entries.find((entry) => entry.id === id);
+  if (!target) {
+    throw new Error("해당 항목을 찾을 수 없습니다.");
+  }
+  if (target.retiredFrom) {
+    throw new Error(`이미 ${target.retiredFrom}부터 종료된 항목입니다.`);
+  }
+
+  const date = retiredFrom ?? todayKey();
+  assertDateKey(date, "종료일");
+  if (date <= target.effectiveFrom) {
+    throw new Error("종료일은 적용 시작일 이후여야 합니다.");
+  }
+
+  return entries.map((entry) => (entry.id === id ? { ...entry, retiredFrom: date } : entry));
+}
+
+export function addAgencyAlias(input: { alias: string; canonical: string; effectiveFrom?: string }): AgencyAliasEntry {
+  const alias = input.alias.trim();
+  const canonical = input.canonical.trim();
+  const effectiveFrom = input.effectiveFrom ?? todayKey();
+  assertDateKey(effectiveFrom, "적용 시작일");
+
+  if (!alias || !canonical || alias === canonical) {
+    throw new Error("별칭과 표준 대리점명은 서로 다른 값이어야 합니다.");
+  }
+
+  const registry = readAgencyRegistry();
+  const overlapping = registry.aliases.find(
+    (entry) => entry.alias === alias && (!entry.retiredFrom || entry.retiredFrom > effectiveFrom)
+  );
+  if (overlapping) {
+    throw new Error(`'${alias}' 별칭이 이미 등록되어 있습니다. 기존 항목을 종료한 뒤 다시 등록해주세요.`);
+  }
+
+  const entry: AgencyAliasEntry = { id: crypto.randomUUID(), alias, canonical, effectiveFrom, retiredFrom: null };
+  writeAgencyRegistry({ ...registry, aliases: [...registry.aliases, entry] });
+  return entry;
+}
+
+export function retireAgencyAlias(id: string, retiredFrom?: string): AgencyAliasEntry {
+  const registry = readAgencyRegistry();
+  const aliases = retireEntry(registry.aliases, id, retiredFrom);
+  writeAgencyRegistry({ ...registry, aliases });
+  return aliases.find((entry) => entry.id === id) as AgencyAliasEntry;
+}
+
+export function addClub1000Member(input: { agency: string; effectiveFrom?: string }): Club1000Entry {
+  const agency = input.agency.trim();
+  const effectiveFrom = input.effectiveFrom ?? todayKey();
+  assertDateKey(effectiveFrom, "적용 시작일");
+
+  if (!agency) {
+    throw new Error("대리점명을 입력해주세요.");
+  }
+
+  const registry = readAgencyRegistry();
+  const overlapping = registry.club1000.find(
+    (entry) => entry.agency === agency && (!entry.retiredFrom || entry.retiredFrom > effectiveFrom)
+  );
+  if (overlapping) {
+    throw new Error(`'${agency}'은(는) 이미 Club 1000 회원으로 등록되어 있습니다.`);
+  }
+
+  const entry: Club1000Entry = { id: crypto.randomUUID(), agency, effectiveFrom, retiredFrom: null };
+  writeAgencyRegistry({ ...registry, club1000: [...registry.club1000, entry] });
+  return entry;
+}
+
+export function retireClub1000Member(id: string, retiredFrom?: string): Club1000Entry {
+  const registry = readAgencyRegistry();
+  const club1000 = retireEntry(registry.club1000, id, retiredFrom);
+  writeAgencyRegistry({ ...registry, club1000 });
+  return club1000.find((entry) => entry.id === id) as Club1000Entry;
+}
@@ -1,5 +1,7 @@
 import Papa from "papaparse";
 
+import { readXlsxWorkbook } from "@/lib/csv/xlsx";
+
 const ENCODING_CANDIDATES = ["utf-8", "euc-kr", "cp949", "utf-16le", "utf-16be"] as const;
 const DELIMITER_CANDIDATES = [",", ";", "\t", "|", "，"] as const;
 
@@ -8,6 +10,8 @@ type CsvRow = Record<string, string>;
 interface ParseCandidate {
   rows: CsvRow[];
   score: number;
+  delimiter: string;
+  encoding?: string;
 }
 
 export interface ParseCsvBufferOptions {
@@ -15,8 +19,21 @@ export interface ParseCsvBufferOptions {
   delimiters?: readonly string[];
   exhaustive?: boolean;
   includeMatrix?: boolean;
+  sheetName?: string;
+  scoreHeaders?: (headers: string[]) => number;
+}
+
+export interface ParsedTable {
+  rows: CsvRow[];
+  format: "csv" | "xlsx";
+  encoding?: string;
+  delimiter?: string;
+  sheetName?: string;
+  sheetNames?: string[];
 }
 
+const XLSX_HEADER_SCAN_ROWS = 10;
+
 function uniqueStrings(values: readonly string[]): string[] {
   return Array.from(new Set(values.map((value) => value.trim()).filter(Boolean)));
 }
@@ -110,7 +127,7 @@ function parseWithHeader(text: string, delimiter?: string): ParseCandidate | nul
   const quality = rowsQualityScore(rows);
   const score = rows.length * 10 + headerCount * 3 - mismatchCount - errorCount * 2 + quality;
 
-  return { rows, score };
+  return { rows, score, delimiter: result.meta.delimiter };
 }
 
 function uniqueHeaders(headers: string[]): string[] {
@@ -124,19 +141,11 @@ function uniqueHeaders(headers: string[]): string[] {
   });
 }
 
-function parseWithMatrix(text: string, delimiter?: string): ParseCandidate | null {
-  const result = Papa.parse<string[]>(text, {
-    header: false,
-    delimiter,
-    skipEmptyLines: "greedy"
-  });
-
-  const matrix = result.data.filter((row): row is string[] => Array.isArray(row));
-  if (matrix.length < 2) {
-    return null;
-  }
+function isHeaderLikeRow(row: string[]): boolean {
+  return row.filter((value) => String(value ?? "").trim().length > 0).length >= 2;
+}
 
-  const headerIndex = matrix.findIndex((row) => row.filter((value) => String(value ?? "").trim().length > 0).length >= 2);
+function rowsFromMatrix(matrix: string[][], headerIndex: number): CsvRow[] | null {
   if (headerIndex < 0 || headerIndex >= matrix.length - 1) {
     return null;
   }
@@ -157,13 +166,30 @@ function parseWithMatrix(text: string, delimiter?: string): ParseCandidate | nul
     })
     .filter((row) => Object.values(row).some((value) => value.length > 0));
 
-  if (rows.length === 0) {
+  return rows.length > 0 ? rows : null;
+}
+
+function parseWithMatrix(text: string, delimiter?: string): ParseCandidate | null {
+  const result = Papa.parse<string[]>(text, {
+    header: false,
+    delimiter,
+    skipEmptyLines: "greedy"
+  });
+
+  const matrix = result.data.filter((row): row is string[] => Array.isArray(row));
+  if (matrix.length < 2) {
     return null;
   }
 
+  const rows = rowsFromMatrix(matrix, matrix.findIndex(isHeaderLikeRow));
+  if (!rows) {
+    return null;
+  }
+
+  const headerCount = Object.keys(rows[0]).length;
   const quality = rowsQualityScore(rows);
-  const score = rows.length * 8 + headers.length * 3 - result.errors.length * 2 + quality;
-  return { rows, score };
+  const score = rows.length * 8 + headerCount * 3 - result.errors.length * 2 + quality;
+  return { rows, score, delimiter: result.meta.delimiter };
 }
 
 function isLikelyXlsx(buffer: ArrayBufferLike): boolean {
@@ -209,20 +235,94 @@ function collectCandidatesFromBuffer(
     if (!text) {
       continue;
     }
-    candidates.push(...collectCandidates(text, delimiters, includeMatrix));
+    candidates.push(...collectCandidates(text, delimiters, includeMatrix).map((candidate) => ({ ...candidate, encoding })));
   }
 
   return candidates;
 }
 
-export async function parseCsvFile(file: File): Promise<Record<string, string>[]> {
+function pickXlsxHeaderIndex(matrix: string[][], scoreHeaders?: (headers: string[]) => number): number {
+  const firstHeaderLike = matrix.findIndex(isHeaderLikeRow);
+  if (!scoreHeaders || firstHeaderLike < 0) {
+    return firstHeaderLike;
+  }
+
+  let bestIndex = firstHeaderLike;
+  let bestScore = -Infinity;
+  const scanEnd = Math.min(matrix.length, firstHeaderLike + XLSX_HEADER_SCAN_ROWS);
+
+  for (let index = firstHeaderLike; index < scanEnd; index += 1) {
+    if (!isHeaderLikeRow(matrix[index])) {
+      continue;
+    }
+    const score = scoreHeaders(matrix[index].map((cell) => String(cell ?? "").trim()));
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  }
+
+  return bestIndex;
+}
+
+function parseXlsxBuffer(buffer: ArrayBufferLike, options: ParseCsvBufferOptions): ParsedTable {
+  const sheets = readXlsxWorkbook(buffer);
+  const sheetNames = sheets.map((sheet) => sheet.name);
+
+  if (sheets.length === 0) {
+    throw new Error("XLSX 파싱 오류: 읽을 수 있는 시트가 없습니다.");
+  }
+
+  const requestedSheet = options.sheetName?.trim();
+  const targetSheets = requestedSheet ? sheets.filter((sheet) => sheet.name.trim() === requestedSheet) : sheets;
+  if (targetSheets.length === 0) {
+    throw new Error(`XLSX 파싱 오류: '${requestedSheet}' 시트를 찾지 못했습니다. | 시트 목록: ${sheetNames.join(", ")}`);
+  }
+
+  const candidates = targetSheets
+    .map((sheet, order) => {
+      const headerIndex = pickXlsxHeaderIndex(sheet.matrix, options.scoreHeaders);
+      const rows = rowsFromMatrix(sheet.matrix, headerIndex);
+      if (!rows) {
+        return null;
+      }
+      const headerScore = options.scoreHeaders ? options.scoreHeaders(Object.keys(rows[0] ?? {})) : 0;
+      return { sheet, rows, headerScore, order };
+    })
+    .filter((candidate): candidate is NonNullable<typeof candidate> => Boolean(candidate));
+
+  if (candidates.length === 0) {
+    throw new Error(`XLSX 파싱 오류: 헤더와 데이터 행이 있는 시트를 찾지 못했습니다. | 시트 목록: ${sheetNames.join(", ")}`);
+  }
+
+  const best = candidates.sort(
+    (a, b) => b.headerScore - a.headerScore || Number(a.sheet.hidden) - Number(b.sheet.hidden) || a.order - b.order
+  )[0];
+
+  return {
+    rows: best.rows,
+    format: "xlsx",
+    sheetName: best.sheet.name,
+    sheetNames
+  };
+}
+
+export async function parseCsvFile(file: File, options: ParseCsvBufferOptions = {}): Promise<Record<string, string>[]> {
+  return (await parseTableFile(file, options)).rows;
+}
+
+export async function parseTableFile(file: File, options: ParseCsvBufferOptions = {}): Promise<ParsedTable> {
   const buffer = await file.arrayBuffer();
-  return parseCsvBuffer(buffer);
+  return parseTableBuffer(buffer, options);
 }
 
 export function parseCsvBuffer(buffer: ArrayBufferLike, options: ParseCsvBufferOptions = {}): Record<string, string>[] {
+  return parseTableBuffer(buffer, options).rows;
+}
+
+export function parseTableBuffer(buffer: ArrayBufferLike, options: ParseCsvBufferOptions = {}): ParsedTable {
   if (isLikelyXlsx(buffer)) {
-    throw new Error("CSV 파싱 오류: 업로드한 파일이 XLSX 형식입니다. CSV(쉼표로 분리)로 저장한 파일을 업로드해주세요.");
+    return parseXlsxBuffer(buffer, options);
   }
 
   const defaultEncodings = [...ENCODING_CANDIDATES];
@@ -243,14 +343,11 @@ export function parseCsvBuffer(buffer: ArrayBufferLike, options: ParseCsvBufferO
   }
 
   if (candidates.length === 0) {
-    if (isLikelyXlsx(buffer)) {
-      throw new Error("CSV 파싱 오류: 업로드한 파일이 CSV가 아니라 XLSX 형식으로 보입니다. 엑셀에서 CSV(쉼표로 분리)로 다시 저장해주세요.");
-    }
     throw new Error(
       "CSV 파싱 오류: 형식을 인식하지 못했습니다. 인코딩(UTF-8/CP949/UTF-16)과 구분자(, ; 탭 |)를 확인해주세요."
     );
   }
 
   const best = candidates.sort((a, b) => b.score - a.score)[0];
-  return best.rows;
+  return { rows: best.rows, format: "csv", encoding: best.encoding, delimiter: best.delimiter };
 }
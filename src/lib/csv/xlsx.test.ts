@@ -0,0 +1,154 @@
+import zlib from "node:zlib";
+import { describe, expect, it } from "vitest";
+
+import { parseTableBuffer } from "@/lib/csv/parse";
+import { readXlsxWorkbook } from "@/lib/csv/xlsx";
+
+interface ZipFile {
+  name: string;
+  content: string | Buffer;
+  deflate?: boolean;
+  /** 중앙 디렉터리에 적을 압축 해제 크기. 생략하면 실제 크기 */
+  declaredSize?: number;
+}
+
+// CRC는 파서가 검사하지 않으므로 0으로 둔 최소 ZIP
+function buildZip(files: ZipFile[], options: { zip64Locator?: boolean } = {}): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(encoder.encode(file.name));
+    const raw = typeof file.content === "string" ? Buffer.from(encoder.encode(file.content)) : file.content;
+    const data = file.deflate ? zlib.deflateRawSync(raw) : raw;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(file.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(file.deflate ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(file.declaredSize ?? raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const locator = Buffer.alloc(options.zip64Locator ? 20 : 0);
+  if (options.zip64Locator) {
+    locator.writeUInt32LE(0x07064b50, 0);
+  }
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(files.length, 8);
+  eocd.writeUInt16LE(files.length, 10);
+  eocd.writeUInt32LE(centralSize, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  const bytes = Buffer.concat([...locals, ...centrals, locator, eocd]);
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function buildWorkbook(sheets: Array<{ name: string; rowsXml: string; hidden?: boolean }>, options: { zip64Locator?: boolean } = {}): ArrayBuffer {
+  const workbook = `<?xml version="1.0"?><workbook xmlns:r="r"><sheets>${sheets
+    .map((sheet, index) => `<sheet name="${sheet.name}" sheetId="${index + 1}" r:id="rId${index + 1}"${sheet.hidden ? ' state="hidden"' : ""}/>`)
+    .join("")}</sheets></workbook>`;
+  const rels = `<?xml version="1.0"?><Relationships>${sheets
+    .map((_, index) => `<Relationship Id="rId${index + 1}" Target="worksheets/sheet${index + 1}.xml"/>`)
+    .join("")}</Relationships>`;
+  const styles = `<styleSheet><cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs></styleSheet>`;
+  const sharedStrings = `<sst><si><t>수주번호</t></si><si><t>수주금액</t></si><si><r><t>기준</t></r><r><t>일자</t></r></si></sst>`;
+
+  return buildZip(
+    [
+      { name: "xl/workbook.xml", content: workbook },
+      { name: "xl/_rels/workbook.xml.rels", content: rels },
+      { name: "xl/styles.xml", content: styles },
+      { name: "xl/sharedStrings.xml", content: sharedStrings, deflate: true },
+      ...sheets.map((sheet, index) => ({
+        name: `xl/worksheets/sheet${index + 1}.xml`,
+        content: `<worksheet><sheetData>${sheet.rowsXml}</sheetData></worksheet>`,
+        deflate: true
+      }))
+    ],
+    options
+  );
+}
+
+const ORDER_ROWS =
+  '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>' +
+  '<row r="2"><c r="A2" t="inlineStr"><is><t>SO-1</t></is></c><c r="B2"><v>1500000</v></c><c r="C2" s="1"><v>45292</v></c></row>';
+
+describe("readXlsxWorkbook", () => {
+  it("공유 문자열, 인라인 문자열, 날짜 서식을 읽는다", () => {
+    const [sheet] = readXlsxWorkbook(buildWorkbook([{ name: "수주", rowsXml: ORDER_ROWS }]));
+
+    expect(sheet.name).toBe("수주");
+    expect(sheet.matrix).toEqual([
+      ["수주번호", "수주금액", "기준일자"],
+      ["SO-1", "1500000", "2024-01-01"]
+    ]);
+  });
+
+  it("서식만 걸린 먼 행·열로 배열을 키우지 않고 빈 행을 건너뛴다", () => {
+    const rowsXml =
+      ORDER_ROWS +
+      '<row r="3"><c r="A3" s="1"/><c r="XFD3" s="1"/></row>' +
+      '<row r="5"><c r="A5" t="inlineStr"><is><t>SO-2</t></is></c><c r="B5"><v>2000</v></c></row>' +
+      '<row r="1048576"><c r="XFD1048576" s="1"/></row>';
+    const [sheet] = readXlsxWorkbook(buildWorkbook([{ name: "수주", rowsXml }]));
+
+    expect(sheet.matrix).toHaveLength(3);
+    expect(sheet.matrix[2]).toEqual(["SO-2", "2000"]);
+  });
+
+  it("ZIP64 파일은 명확한 오류로 거절한다", () => {
+    const buffer = buildWorkbook([{ name: "수주", rowsXml: ORDER_ROWS }], { zip64Locator: true });
+
+    expect(() => readXlsxWorkbook(buffer)).toThrow(/ZIP64/);
+  });
+
+  it("압축을 푼 크기가 상한을 넘는 항목은 선언된 크기로 먼저 거절한다", () => {
+    const buffer = buildZip([{ name: "xl/workbook.xml", content: "<workbook/>", deflate: true, declaredSize: 2 ** 31 }]);
+
+    expect(() => readXlsxWorkbook(buffer)).toThrow(/100MB를 넘는/);
+  });
+
+  it("크기를 속인 항목도 해제 중에 상한에서 멈춘다", () => {
+    const bomb = Buffer.alloc(101 * 1024 * 1024, 0x20);
+    const buffer = buildZip([{ name: "xl/workbook.xml", content: bomb, deflate: true, declaredSize: 1024 }]);
+
+    expect(buffer.byteLength).toBeLessThan(1024 * 1024);
+    expect(() => readXlsxWorkbook(buffer)).toThrow(/100MB를 넘는/);
+  });
+
+  it("ZIP이 아니면 손상 오류를 낸다", () => {
+    expect(() => readXlsxWorkbook(new TextEncoder().encode("수주번호,수주금액").buffer)).toThrow(/압축 구조/);
+  });
+});
+
+describe("parseTableBuffer (XLSX)", () => {
+  it("헤더 점수가 높은 시트를 고르고, 지정한 시트가 없으면 시트 목록과 함께 실패한다", () => {
+    const buffer = buildWorkbook([
+      { name: "요약", rowsXml: '<row r="1"><c r="A1" t="inlineStr"><is><t>메모</t></is></c><c r="B1" t="inlineStr"><is><t>비고</t></is></c></row><row r="2"><c r="A2"><v>1</v></c><c r="B2"><v>2</v></c></row>' },
+      { name: "수주", rowsXml: ORDER_ROWS }
+    ]);
+
+    const table = parseTableBuffer(buffer, { scoreHeaders: (headers) => (headers.includes("수주번호") ? 1 : 0) });
+    expect(table.sheetName).toBe("수주");
+    expect(table.rows).toEqual([{ 수주번호: "SO-1", 수주금액: "1500000", 기준일자: "2024-01-01" }]);
+
+    expect(() => parseTableBuffer(buffer, { sheetName: "없음" })).toThrow(/시트 목록: 요약, 수주/);
+  });
+});
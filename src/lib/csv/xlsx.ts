@@ -0,0 +1,317 @@
+import zlib from "node:zlib";
+
+export interface XlsxSheet {
+  name: string;
+  hidden: boolean;
+  matrix: string[][];
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_ERROR = "XLSX 파싱 오류: ZIP64 형식(대용량) 압축 파일은 지원하지 않습니다. 엑셀에서 다시 저장하거나 CSV로 내보내 올려주세요.";
+// 작은 파일이 압축을 풀면 수 GB가 되는 경우(zip bomb)를 막기 위한 항목당 상한. 선언된 크기는 믿을 수 없어 해제 중에도 자른다.
+const MAX_ENTRY_BYTES = 100 * 1024 * 1024;
+const ENTRY_TOO_LARGE_ERROR = `XLSX 파싱 오류: 압축을 푼 크기가 ${MAX_ENTRY_BYTES / 1024 / 1024}MB를 넘는 시트가 있습니다. 파일을 나누거나 CSV로 내보내 올려주세요.`;
+
+// 엑셀 기본 제공 날짜/시간 서식 ID (한국어 로캘의 27~36, 50~58 포함)
+const BUILTIN_DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+function readZipEntries(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const minOffset = Math.max(0, bytes.length - 65_557);
+  let eocdOffset = -1;
+
+  for (let offset = bytes.length - 22; offset >= minOffset; offset -= 1) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      eocdOffset = offset;
+      break;
+    }
+  }
+
+  if (eocdOffset < 0) {
+    throw new Error("XLSX 파싱 오류: 압축 구조를 읽을 수 없습니다. 파일이 손상되었는지 확인해주세요.");
+  }
+
+  const entryCount = view.getUint16(eocdOffset + 10, true);
+  let cursor = view.getUint32(eocdOffset + 16, true);
+  // ZIP64 파일은 EOCD의 개수·오프셋이 0xFFFF...로 채워져 있어 그대로 읽으면 엉뚱한 위치를 읽게 된다.
+  const hasZip64Locator = eocdOffset >= 20 && view.getUint32(eocdOffset - 20, true) === ZIP64_LOCATOR_SIGNATURE;
+  if (hasZip64Locator || entryCount === 0xffff || cursor === 0xffffffff) {
+    throw new Error(ZIP64_ERROR);
+  }
+  const entries = new Map<string, ZipEntry>();
+  const decoder = new TextDecoder("utf-8");
+
+  for (let index = 0; index < entryCount; index += 1) {
+    if (view.getUint32(cursor, true) !== CENTRAL_SIGNATURE) {
+      break;
+    }
+
+    const method = view.getUint16(cursor + 10, true);
+    const compressedSize = view.getUint32(cursor + 20, true);
+    const uncompressedSize = view.getUint32(cursor + 24, true);
+    const nameLength = view.getUint16(cursor + 28, true);
+    const extraLength = view.getUint16(cursor + 30, true);
+    const commentLength = view.getUint16(cursor + 32, true);
+    const localHeaderOffset = view.getUint32(cursor + 42, true);
+    if (compressedSize === 0xffffffff || uncompressedSize === 0xffffffff || localHeaderOffset === 0xffffffff) {
+      throw new Error(ZIP64_ERROR);
+    }
+    const name = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+
+    entries.set(name.replace(/^\//, ""), { method, compressedSize, uncompressedSize, localHeaderOffset });
+    cursor += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function readZipText(bytes: Uint8Array, entries: Map<string, ZipEntry>, name: string): string | null {
+  const entry = entries.get(name);
+  if (!entry) {
+    return null;
+  }
+  if (entry.uncompressedSize > MAX_ENTRY_BYTES || entry.compressedSize > MAX_ENTRY_BYTES) {
+    throw new Error(ENTRY_TOO_LARGE_ERROR);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const offset = entry.localHeaderOffset;
+  if (view.getUint32(offset, true) !== LOCAL_SIGNATURE) {
+    return null;
+  }
+
+  const nameLength = view.getUint16(offset + 26, true);
+  const extraLength = view.getUint16(offset + 28, true);
+  const start = offset + 30 + nameLength + extraLength;
+  const data = bytes.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder("utf-8").decode(data);
+  }
+  if (entry.method === 8) {
+    try {
+      return new TextDecoder("utf-8").decode(zlib.inflateRawSync(data, { maxOutputLength: MAX_ENTRY_BYTES }));
+    } catch (error) {
+      if (error instanceof RangeError) {
+        throw new Error(ENTRY_TOO_LARGE_ERROR);
+      }
+      throw error;
+    }
+  }
+  return null;
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    if (entity.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }[entity] ?? "";
+  });
+}
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = decodeXmlEntities(match[2]);
+  }
+  return attributes;
+}
+
+function readRichText(xml: string): string {
+  const withoutPhonetic = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+  const parts = Array.from(withoutPhonetic.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), (match) => decodeXmlEntities(match[1]));
+  return parts.join("");
+}
+
+function readSharedStrings(xml: string | null): string[] {
+  if (!xml) {
+    return [];
+  }
+  return Array.from(xml.matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g), (match) => readRichText(match[1]));
+}
+
+function isDateFormatCode(formatCode: string): boolean {
+  const stripped = formatCode
+    .replace(/"[^"]*"/g, "")
+    .replace(/\\./g, "")
+    .replace(/\[[^\]]*\]/g, "");
+  return /[ymd]/i.test(stripped) && !/^general$/i.test(stripped.trim());
+}
+
+function readDateStyleIndexes(xml: string | null): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!xml) {
+    return dateStyles;
+  }
+
+  const customDateFormats = new Set<number>();
+  for (const match of xml.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+    const attributes = readAttributes(match[1]);
+    if (isDateFormatCode(attributes.formatCode ?? "")) {
+      customDateFormats.add(Number(attributes.numFmtId));
+    }
+  }
+
+  const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? "";
+  Array.from(cellXfs.matchAll(/<xf\b([^>]*?)\/?>/g)).forEach((match, index) => {
+    const numFmtId = Number(readAttributes(match[1]).numFmtId ?? 0);
+    if (BUILTIN_DATE_FORMAT_IDS.has(numFmtId) || customDateFormats.has(numFmtId)) {
+      dateStyles.add(index);
+    }
+  });
+
+  return dateStyles;
+}
+
+function columnIndex(reference: string | undefined): number | null {
+  const letters = reference?.match(/^[A-Z]+/i)?.[0];
+  if (!letters) {
+    return null;
+  }
+  let index = 0;
+  for (const letter of letters.toUpperCase()) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function serialToDateText(serial: number, date1904: boolean): string {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  const date = new Date(epoch + Math.round(serial * 86_400_000));
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  if (Number.isInteger(serial)) {
+    return day;
+  }
+  return `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+}
+
+function numericText(raw: string): string {
+  const numeric = Number(raw);
+  return Number.isFinite(numeric) ? String(numeric) : raw;
+}
+
+// 빈 행은 CSV의 빈 줄처럼 건너뛰고, 셀 값이 있는 열까지만 채워 서식만 걸린 행/열로 배열이 커지지 않게 한다.
+function readSheetMatrix(xml: string, sharedStrings: string[], dateStyles: Set<number>, date1904: boolean): string[][] {
+  const matrix: string[][] = [];
+
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const cells: Array<[number, string]> = [];
+    let nextColumn = 0;
+
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = readAttributes(cellMatch[1]);
+      const body = cellMatch[2] ?? "";
+      const column = columnIndex(attributes.r) ?? nextColumn;
+      nextColumn = column + 1;
+
+      const raw = decodeXmlEntities(body.match(/<v\b[^>]*>([\s\S]*?)<\/v>/)?.[1] ?? "");
+      let value = "";
+
+      switch (attributes.t) {
+        case "s":
+          value = sharedStrings[Number(raw)] ?? "";
+          break;
+        case "inlineStr":
+          value = readRichText(body.match(/<is\b[^>]*>([\s\S]*?)<\/is>/)?.[1] ?? "");
+          break;
+        case "b":
+          value = raw === "1" ? "TRUE" : "FALSE";
+          break;
+        case "str":
+        case "e":
+          value = raw;
+          break;
+        default:
+          if (raw && dateStyles.has(Number(attributes.s ?? -1)) && Number.isFinite(Number(raw))) {
+            value = serialToDateText(Number(raw), date1904);
+          } else {
+            value = raw ? numericText(raw) : "";
+          }
+      }
+
+      const text = value.trim();
+      if (text) {
+        cells.push([column, text]);
+      }
+    }
+
+    if (cells.length === 0) {
+      continue;
+    }
+
+    const row: string[] = new Array(Math.max(...cells.map(([column]) => column)) + 1).fill("");
+    for (const [column, text] of cells) {
+      row[column] = text;
+    }
+    matrix.push(row);
+  }
+
+  return matrix;
+}
+
+function resolveSheetPath(target: string): string {
+  if (target.startsWith("/")) {
+    return target.slice(1);
+  }
+  return `xl/${target}`.replace(/\/\.\//g, "/");
+}
+
+export function readXlsxWorkbook(buffer: ArrayBufferLike): XlsxSheet[] {
+  const bytes = new Uint8Array(buffer);
+  const entries = readZipEntries(bytes);
+
+  const workbookXml = readZipText(bytes, entries, "xl/workbook.xml");
+  if (!workbookXml) {
+    throw new Error("XLSX 파싱 오류: 통합 문서(workbook.xml)를 찾지 못했습니다. 암호가 걸린 파일이거나 XLSX 형식이 아닙니다.");
+  }
+
+  const relsXml = readZipText(bytes, entries, "xl/_rels/workbook.xml.rels") ?? "";
+  const targetsById = new Map<string, string>();
+  for (const match of relsXml.matchAll(/<Relationship\b([^>]*?)\/?>/g)) {
+    const attributes = readAttributes(match[1]);
+    if (attributes.Id && attributes.Target) {
+      targetsById.set(attributes.Id, resolveSheetPath(attributes.Target));
+    }
+  }
+
+  const sharedStrings = readSharedStrings(readZipText(bytes, entries, "xl/sharedStrings.xml"));
+  const dateStyles = readDateStyleIndexes(readZipText(bytes, entries, "xl/styles.xml"));
+  const workbookPr = workbookXml.match(/<workbookPr\b([^>]*?)\/?>/)?.[1] ?? "";
+  const date1904 = ["1", "true"].includes(readAttributes(workbookPr).date1904 ?? "");
+
+  const sheets: XlsxSheet[] = [];
+  for (const match of workbookXml.matchAll(/<sheet\b([^>]*?)\/?>/g)) {
+    const attributes = readAttributes(match[1]);
+    const target = targetsById.get(attributes["r:id"] ?? "");
+    const sheetXml = target ? readZipText(bytes, entries, target) : null;
+    if (!sheetXml) {
+      continue;
+    }
+
+    sheets.push({
+      name: attributes.name ?? `Sheet${sheets.length + 1}`,
+      hidden: attributes.state === "hidden" || attributes.state === "veryHidden",
+      matrix: readSheetMatrix(sheetXml, sharedStrings, dateStyles, date1904)
+    });
+  }
+
+  return sheets;
+}
@@ -0,0 +1,43 @@
+import type { AnalysisDataset, DatasetMeta, PreparedOrder } from "@/types/domain";
+import type { SaveDatasetInput } from "@/lib/datasets/repository";
+
+export function buildDatasetMeta(id: string, dataset: AnalysisDataset, input: SaveDatasetInput): DatasetMeta {
+  return {
+    id,
+    name: input.name,
+    owner: input.owner,
+    source: input.source,
+    uploadedAt: new Date().toISOString(),
+    agencies: Array.from(new Set(dataset.orders.map((order) => order.agency))).sort((a, b) => a.localeCompare(b, "ko-KR")),
+    counts: {
+      orders: dataset.orders.length,
+      customers: dataset.customers.length,
+      products: dataset.products.length
+    }
+  };
+}
+
+/** 저장소에 JSON으로 쓰는 데이터셋. 주문일자는 ISO 문자열로 바뀌므로 읽을 때 deserializeDataset으로 되돌린다. */
+export interface SerializedDataset extends Omit<AnalysisDataset, "orders"> {
+  orders: Array<Omit<PreparedOrder, "orderDate"> & { orderDate: string | null }>;
+}
+
+export function serializeDataset(dataset: AnalysisDataset): SerializedDataset {
+  return {
+    ...dataset,
+    orders: dataset.orders.map((order) => ({
+      ...order,
+      orderDate: order.orderDate ? order.orderDate.toISOString() : null
+    }))
+  };
+}
+
+export function deserializeDataset(record: SerializedDataset): AnalysisDataset {
+  return {
+    ...record,
+    orders: record.orders.map((order) => ({
+      ...order,
+      orderDate: order.orderDate ? new Date(order.orderDate) : null
+    }))
+  };
+}
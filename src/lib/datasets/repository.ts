@@ -0,0 +1,36 @@
+import type { AnalysisDataset, DataQualityReport, DatasetMeta } from "@/types/domain";
+import { createSqliteDatasetRepository } from "@/lib/datasets/sqlite-repository";
+import { createTmpDatasetRepository } from "@/lib/datasets/tmp-repository";
+
+export interface SaveDatasetInput {
+  name: string;
+  owner: string | null;
+  source: DatasetMeta["source"];
+  quality: DataQualityReport | null;
+}
+
+export interface StoredDataset {
+  meta: DatasetMeta;
+  dataset: AnalysisDataset;
+  quality: DataQualityReport | null;
+}
+
+export interface DatasetRepository {
+  save(dataset: AnalysisDataset, input: SaveDatasetInput): Promise<DatasetMeta>;
+  get(id: string): Promise<StoredDataset | null>;
+  list(filter?: { owner?: string }): Promise<DatasetMeta[]>;
+}
+
+let repository: DatasetRepository | null = null;
+
+/**
+ * `DATASET_STORE`로 구현체를 고른다. `sqlite`(기본, 영구 보관) 또는 `tmp`(메모리 + /tmp, 2시간 TTL).
+ * Vercel처럼 쓰기 가능한 디스크가 /tmp뿐인 환경에서는 기본값이 `tmp`다.
+ */
+export function getDatasetRepository(): DatasetRepository {
+  if (!repository) {
+    const store = process.env.DATASET_STORE || (process.env.VERCEL ? "tmp" : "sqlite");
+    repository = store === "tmp" ? createTmpDatasetRepository() : createSqliteDatasetRepository();
+  }
+  return repository;
+}
@@ -0,0 +1,125 @@
+import crypto from "crypto";
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+import type { DataQualityReport, DatasetMeta } from "@/types/domain";
+import { buildDatasetMeta, deserializeDataset, serializeDataset, type SerializedDataset } from "@/lib/datasets/dataset-record";
+import type { DatasetRepository, StoredDataset } from "@/lib/datasets/repository";
+
+interface DatasetRow {
+  id: string;
+  name: string;
+  owner: string | null;
+  source: DatasetMeta["source"];
+  uploaded_at: string;
+  agencies: string;
+  counts: string;
+  quality: string | null;
+}
+
+const DB_PATH = process.env.DATASET_SQLITE_PATH || path.join(process.cwd(), "data", "datasets.sqlite");
+// 분석 요청마다 큰 JSON을 다시 파싱하지 않도록 최근 데이터셋 몇 개만 메모리에 둔다.
+const CACHE_SIZE = 4;
+
+function openDatabase(): Database.Database {
+  fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+  const db = new Database(DB_PATH);
+  db.pragma("journal_mode = WAL");
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS datasets (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      owner TEXT,
+      source TEXT NOT NULL,
+      uploaded_at TEXT NOT NULL,
+      agencies TEXT NOT NULL,
+      counts TEXT NOT NULL,
+      quality TEXT,
+      payload TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS datasets_owner_uploaded_at ON datasets (owner, uploaded_at);
+  `);
+  return db;
+}
+
+function rowToMeta(row: DatasetRow): DatasetMeta {
+  return {
+    id: row.id,
+    name: row.name,
+    owner: row.owner,
+    source: row.source,
+    uploadedAt: row.uploaded_at,
+    agencies: JSON.parse(row.agencies) as string[],
+    counts: JSON.parse(row.counts) as DatasetMeta["counts"]
+  };
+}
+
+export function createSqliteDatasetRepository(): DatasetRepository {
+  const db = openDatabase();
+  const cache = new Map<string, StoredDataset>();
+
+  const insertStatement = db.prepare(`
+    INSERT INTO datasets (id, name, owner, source, uploaded_at, agencies, counts, quality, payload)
+    VALUES (@id, @name, @owner, @source, @uploadedAt, @agencies, @counts, @quality, @payload)
+  `);
+  const selectStatement = db.prepare<[string], DatasetRow & { payload: string }>("SELECT * FROM datasets WHERE id = ?");
+  const listStatement = db.prepare<[], DatasetRow>(
+    "SELECT id, name, owner, source, uploaded_at, agencies, counts, quality FROM datasets ORDER BY uploaded_at DESC"
+  );
+  const listByOwnerStatement = db.prepare<[string], DatasetRow>(
+    "SELECT id, name, owner, source, uploaded_at, agencies, counts, quality FROM datasets WHERE owner = ? ORDER BY uploaded_at DESC"
+  );
+
+  function remember(stored: StoredDataset) {
+    cache.delete(stored.meta.id);
+    cache.set(stored.meta.id, stored);
+    if (cache.size > CACHE_SIZE) {
+      cache.delete(cache.keys().next().value as string);
+    }
+  }
+
+  return {
+    async save(dataset, input) {
+      const meta = buildDatasetMeta(crypto.randomUUID(), dataset, input);
+      insertStatement.run({
+        id: meta.id,
+        name: meta.name,
+        owner: meta.owner,
+        source: meta.source,
+        uploadedAt: meta.uploadedAt,
+        agencies: JSON.stringify(meta.agencies),
+        counts: JSON.stringify(meta.counts),
+        quality: input.quality ? JSON.stringify(input.quality) : null,
+        payload: JSON.stringify(serializeDataset(dataset))
+      });
+      remember({ meta, dataset, quality: input.quality });
+      return meta;
+    },
+
+    async get(id) {
+      const cached = cache.get(id);
+      if (cached) {
+        remember(cached);
+        return cached;
+      }
+
+      const row = selectStatement.get(id);
+      if (!row) {
+        return null;
+      }
+
+      const stored: StoredDataset = {
+        meta: rowToMeta(row),
+        quality: row.quality ? (JSON.parse(row.quality) as DataQualityReport) : null,
+        dataset: deserializeDataset(JSON.parse(row.payload) as SerializedDataset)
+      };
+      remember(stored);
+      return stored;
+    },
+
+    async list(filter = {}) {
+      const rows = filter.owner ? listByOwnerStatement.all(filter.owner) : listStatement.all();
+      return rows.map(rowToMeta);
+    }
+  };
+}
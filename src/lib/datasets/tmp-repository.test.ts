@@ -0,0 +1,56 @@
+import fs from "node:fs";
+import path from "node:path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createTmpDatasetRepository } from "@/lib/datasets/tmp-repository";
+import type { AnalysisDataset } from "@/types/domain";
+
+const SESSION_DIR = path.join("/tmp", "desker-sales-sessions");
+
+const dataset: AnalysisDataset = {
+  orders: [
+    { orderNo: "o1", bizNo: "b1", agency: "DM신", memberType: "", orderAmount: 100, orderDate: new Date("2024-03-01T00:00:00.000Z"), city: "", district: "", dong: "" },
+    { orderNo: "o2", bizNo: "b2", agency: "DM가", memberType: "", orderAmount: 200, orderDate: null, city: "", district: "", dong: "" }
+  ],
+  customers: [],
+  products: []
+};
+
+const savedIds: string[] = [];
+
+afterEach(() => {
+  vi.useRealTimers();
+  for (const id of savedIds.splice(0)) {
+    fs.rmSync(path.join(SESSION_DIR, `${id}.json`), { force: true });
+    fs.rmSync(path.join(SESSION_DIR, `${id}.meta.json`), { force: true });
+  }
+});
+
+describe("createTmpDatasetRepository", () => {
+  it("저장한 데이터셋을 다른 인스턴스에서도 주문일자를 Date로 되돌려 읽는다", async () => {
+    const meta = await createTmpDatasetRepository().save(dataset, { name: "3월", owner: "kim", source: "upload", quality: null });
+    savedIds.push(meta.id);
+
+    expect(meta).toMatchObject({ name: "3월", owner: "kim", agencies: ["DM가", "DM신"], counts: { orders: 2, customers: 0, products: 0 } });
+
+    const stored = await createTmpDatasetRepository().get(meta.id);
+    expect(stored?.dataset.orders[0].orderDate).toEqual(new Date("2024-03-01T00:00:00.000Z"));
+    expect(stored?.dataset.orders[1].orderDate).toBeNull();
+  });
+
+  it("업로드 후 2시간이 지나면 목록과 조회에서 사라지고 파일도 지운다", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-05-01T00:00:00.000Z"));
+    const repository = createTmpDatasetRepository();
+    const meta = await repository.save(dataset, { name: "5월", owner: "lee", source: "upload", quality: null });
+    savedIds.push(meta.id);
+
+    vi.setSystemTime(new Date("2024-05-01T01:59:00.000Z"));
+    expect((await repository.list({ owner: "lee" })).map((item) => item.id)).toEqual([meta.id]);
+    expect(await repository.list({ owner: "park" })).toEqual([]);
+
+    vi.setSystemTime(new Date("2024-05-01T02:00:01.000Z"));
+    expect(await repository.get(meta.id)).toBeNull();
+    expect(fs.existsSync(path.join(SESSION_DIR, `${meta.id}.json`))).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import crypto from "crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { DataQualityReport, DatasetMeta } from "@/types/domain";
+import { buildDatasetMeta, deserializeDataset, serializeDataset, type SerializedDataset } from "@/lib/datasets/dataset-record";
+import type { DatasetRepository, StoredDataset } from "@/lib/datasets/repository";
+
+interface PersistedDataset {
+  meta: DatasetMeta;
+  dataset: SerializedDataset;
+  quality: DataQualityReport | null;
+}
+
+const TTL_MS = 2 * 60 * 60 * 1000;
+const SESSION_DIR = path.join("/tmp", "desker-sales-sessions");
+
+function ensureSessionDir() {
+  if (!fs.existsSync(SESSION_DIR)) {
+    fs.mkdirSync(SESSION_DIR, { recursive: true });
+  }
+}
+
+function sessionFilePath(id: string): string {
+  return path.join(SESSION_DIR, `${id}.json`);
+}
+
+/** 목록 조회·만료 확인은 수 MB인 데이터셋 파일 대신 이 메타 파일만 읽는다. */
+function metaFilePath(id: string): string {
+  return path.join(SESSION_DIR, `${id}.meta.json`);
+}
+
+function persistedIds(): string[] {
+  if (!fs.existsSync(SESSION_DIR)) {
+    return [];
+  }
+  return fs
+    .readdirSync(SESSION_DIR)
+    .filter((file) => file.endsWith(".json") && !file.endsWith(".meta.json"))
+    .map((file) => file.replace(/\.json$/, ""));
+}
+
+function isExpired(meta: DatasetMeta, now: number): boolean {
+  return now - new Date(meta.uploadedAt).getTime() > TTL_MS;
+}
+
+function deletePersisted(id: string) {
+  fs.rmSync(sessionFilePath(id), { force: true });
+  fs.rmSync(metaFilePath(id), { force: true });
+}
+
+function readPersisted(id: string): StoredDataset | null {
+  const filePath = sessionFilePath(id);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8")) as PersistedDataset;
+    if (!parsed.meta) {
+      return null;
+    }
+    return { meta: parsed.meta, quality: parsed.quality ?? null, dataset: deserializeDataset(parsed.dataset) };
+  } catch {
+    return null;
+  }
+}
+
+/** 메타 파일이 없는 이전 저장분은 데이터셋 파일에서 한 번 읽어 메타 파일을 만들어 둔다. */
+function readPersistedMeta(id: string): DatasetMeta | null {
+  const metaPath = metaFilePath(id);
+  if (fs.existsSync(metaPath)) {
+    try {
+      return JSON.parse(fs.readFileSync(metaPath, "utf-8")) as DatasetMeta;
+    } catch {
+      return null;
+    }
+  }
+
+  const persisted = readPersisted(id);
+  if (!persisted) {
+    return null;
+  }
+  fs.writeFileSync(metaPath, JSON.stringify(persisted.meta), "utf-8");
+  return persisted.meta;
+}
+
+/** 기존 세션 저장소 동작: 프로세스 메모리 + /tmp JSON 파일, 업로드 후 2시간이 지나면 삭제된다. */
+export function createTmpDatasetRepository(): DatasetRepository {
+  const store = new Map<string, StoredDataset>();
+
+  function sweepExpired() {
+    const now = Date.now();
+
+    for (const [id, stored] of store.entries()) {
+      if (isExpired(stored.meta, now)) {
+        store.delete(id);
+        deletePersisted(id);
+      }
+    }
+
+    for (const id of persistedIds()) {
+      const meta = store.get(id)?.meta ?? readPersistedMeta(id);
+      if (!meta || isExpired(meta, now)) {
+        deletePersisted(id);
+      }
+    }
+  }
+
+  function readAllMeta(): DatasetMeta[] {
+    const ids = new Set([...store.keys(), ...persistedIds()]);
+    return Array.from(ids)
+      .map((id) => store.get(id)?.meta ?? readPersistedMeta(id))
+      .filter((meta): meta is DatasetMeta => Boolean(meta));
+  }
+
+  return {
+    async save(dataset, input) {
+      sweepExpired();
+      const meta = buildDatasetMeta(crypto.randomUUID(), dataset, input);
+      const stored: StoredDataset = { meta, dataset, quality: input.quality };
+      store.set(meta.id, stored);
+
+      ensureSessionDir();
+      const filePayload: PersistedDataset = { meta, quality: input.quality, dataset: serializeDataset(dataset) };
+      fs.writeFileSync(sessionFilePath(meta.id), JSON.stringify(filePayload), "utf-8");
+      fs.writeFileSync(metaFilePath(meta.id), JSON.stringify(meta), "utf-8");
+      return meta;
+    },
+
+    async get(id) {
+      sweepExpired();
+
+      const inMemory = store.get(id);
+      if (inMemory) {
+        return inMemory;
+      }
+
+      const persisted = readPersisted(id);
+      if (!persisted) {
+        return null;
+      }
+
+      store.set(id, persisted);
+      return persisted;
+    },
+
+    async list(filter = {}) {
+      sweepExpired();
+      return readAllMeta()
+        .filter((meta) => !filter.owner || meta.owner === filter.owner)
+        .sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+    }
+  };
+}
@@ -0,0 +1,13 @@
+export const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * YYYY-MM-DD 형식이면서 실제로 있는 날짜인지 확인한다.
+ * `new Date("2024-02-30")`처럼 없는 날짜도 유효한 Date가 되는 경우가 있어 UTC 날짜로 되돌렸을 때 같은 문자열인지 본다.
+ */
+export function isCalendarDateKey(value: string): boolean {
+  if (!DATE_KEY_PATTERN.test(value)) {
+    return false;
+  }
+  const time = Date.parse(value);
+  return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === value;
+}
@@ -0,0 +1,43 @@
+import fs from "node:fs";
+import { afterAll, describe, expect, it, vi } from "vitest";
+
+import { createInsightPreset, findActiveInsightPreset, readInsightPresetCatalog, updateInsightPreset } from "@/lib/insight-presets";
+
+const catalogPath = vi.hoisted(() => {
+  const target = `${process.env.TMPDIR || "/tmp"}/insight-presets-${process.pid}-${Date.now()}.json`;
+  process.env.INSIGHT_PRESETS_PATH = target;
+  return target;
+});
+
+afterAll(() => {
+  fs.rmSync(catalogPath, { force: true });
+});
+
+const fields = { title: "계절성", objective: "월별 계절성을 해석한다.", focus: ["성수기"], outputHint: "3개 불릿" };
+
+describe("insight preset placement", () => {
+  it("섹션 자리가 생기기 전에 저장된 기본 프리셋은 기본 자리를 이어받는다", () => {
+    const seed = readInsightPresetCatalog();
+    const stored = {
+      ...seed,
+      presets: seed.presets.map(({ placement: _placement, ...preset }) => preset),
+      history: []
+    };
+    fs.writeFileSync(catalogPath, JSON.stringify(stored), "utf-8");
+
+    expect(findActiveInsightPreset("geo_insight")?.placement).toEqual({ section: "geo", kind: "insight" });
+    expect(findActiveInsightPreset("growth_interpretation")?.placement).toBeNull();
+  });
+
+  it("API로 추가한 프리셋을 비어 있는 섹션 자리에 연결한다", () => {
+    expect(() => createInsightPreset({ id: "seasonality", ...fields, placement: { section: "geo", kind: "insight" } })).toThrow(/geo_insight/);
+    expect(() => createInsightPreset({ id: "seasonality", ...fields, placement: { section: "growth", kind: "insight" } })).toThrow(/대시보드에 없는/);
+
+    updateInsightPreset("geo_insight", { placement: null });
+    const preset = createInsightPreset({ id: "seasonality", ...fields, placement: { section: "geo", kind: "insight" } });
+
+    expect(preset.placement).toEqual({ section: "geo", kind: "insight" });
+    expect(findActiveInsightPreset("geo_insight")?.placement).toBeNull();
+    expect(createInsightPreset({ id: "seasonality_extra", ...fields }).placement).toBeNull();
+  });
+});
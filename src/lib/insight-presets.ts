@@ -0,0 +1,298 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { AnalysisResult, InsightPlacement, InsightPreset, InsightPresetCatalog, InsightSectionId } from "@/types/domain";
+
+const CATALOG_PATH = process.env.INSIGHT_PRESETS_PATH || path.join(process.cwd(), "data", "insight-presets.json");
+const PRESET_ID_PATTERN = /^[a-z][a-z0-9_]{2,49}$/;
+
+/** 새 프리셋이 analysisSnapshot으로 요청할 수 있는 분석 결과 필드 */
+export const INSIGHT_SNAPSHOT_KEYS = [
+  "kpis",
+  "b2bRegionAll",
+  "regionAll",
+  "regionMain",
+  "regionExpansion",
+  "regionRegistrationPotential",
+  "regionCommonIndustries",
+  "growthCustomers",
+  "growthScatter",
+  "dormancy",
+  "atRiskCustomers",
+  "rfm",
+  "cohorts",
+  "monthlyNewProducts",
+  "crossSellRatio",
+  "marketBasket",
+  "categoryMix",
+  "targets"
+] as const satisfies ReadonlyArray<keyof AnalysisResult>;
+
+export const INSIGHT_SECTION_IDS = [
+  "geo",
+  "region",
+  "regionCommon",
+  "growth",
+  "retention",
+  "targets",
+  "monthly",
+  "weakProduct",
+  "strongProduct"
+] as const satisfies ReadonlyArray<InsightSectionId>;
+
+// 카탈로그 파일이 아직 없을 때 사용하는 초기값 (대시보드 섹션에 연결된 기본 프리셋). 종료할 수 없다.
+const SEED_PRESETS: Array<Pick<InsightPreset, "id" | "title" | "objective" | "focus" | "outputHint"> & { placement: InsightPlacement | null }> = [
+  {
+    id: "geo_interpretation",
+    title: "지역별 매출 분포 해석",
+    objective: "지역 분포 패턴을 해석한다.",
+    focus: ["주요 권역 집중도", "저비중 권역 확장 여지", "평균 대비 편차"],
+    outputHint: "해석형 문장 위주로 3~4개 불릿",
+    placement: { section: "geo", kind: "interpretation" }
+  },
+  {
+    id: "geo_insight",
+    title: "지역별 매출 분포 인사이트",
+    objective: "지역 기반 실행안을 제시한다.",
+    focus: ["핵심 권역 유지 전략", "확장 권역 전환 전략", "우선순위 실행안"],
+    outputHint: "실행형 제안 3~4개 불릿",
+    placement: { section: "geo", kind: "insight" }
+  },
+  {
+    id: "region_interpretation",
+    title: "핵심/공략 지역 Top5 해석",
+    objective: "핵심비중/추가매출/등록회원추가 지역 구조를 해석한다.",
+    focus: ["핵심비중 Top5", "추가 매출 발생 가능 지역 Top5", "등록회원 추가 발생 가능 지역 Top5"],
+    outputHint: "해석형 문장 위주로 3~4개 불릿",
+    placement: { section: "region", kind: "interpretation" }
+  },
+  {
+    id: "region_insight",
+    title: "핵심/공략 지역 Top5 인사이트",
+    objective: "지역 리스트 기반 실행 전략을 제시한다.",
+    focus: ["핵심 지역 유지 전략", "추가 매출 발생 가능 지역 공략 전략", "등록회원 확장 전략"],
+    outputHint: "실행형 제안 3~4개 불릿",
+    placement: { section: "region", kind: "insight" }
+  },
+  {
+    id: "region_common_industry_insight",
+    title: "공통 지역 업종 분포 배경 해석",
+    objective: "공통 지역의 주요 업종이 많은 이유를 설명한다.",
+    focus: ["공통 지역 3~4개", "지역별 상위 업종 3개", "업종 분포 배경"],
+    outputHint: "지역별 1문장 근거 + 가능하면 출처 표기",
+    placement: { section: "regionCommon", kind: "insight" }
+  },
+  {
+    id: "growth_interpretation",
+    title: "성장 가능 고객 버블차트 해석",
+    objective: "전체/선택 대리점 분포를 해석한다.",
+    focus: ["회색(전체) 분포", "빨간색(선택 대리점) 분포", "평균선 기반 위치 해석"],
+    outputHint: "전체 분포 2개 + 선택 대리점 2개 불릿",
+    placement: null
+  },
+  {
+    id: "retention_insight",
+    title: "이탈 위험 고객 인사이트",
+    objective: "평소 주문 간격보다 오래 주문이 없는 고객을 해석하고 유지 실행안을 제시한다.",
+    focus: ["평소 주문 간격 대비 공백", "고위험·고매출 고객 우선순위", "재구매 유도 실행안"],
+    outputHint: "현황 해석 1~2개 + 실행형 제안 2개 불릿",
+    placement: { section: "retention", kind: "insight" }
+  },
+  {
+    id: "target_pacing_insight",
+    title: "목표 달성 페이스 인사이트",
+    objective: "매출 목표 대비 달성률과 페이스를 해석하고 기간 말 달성 가능성과 만회 방안을 제시한다.",
+    focus: ["경과 일수 대비 달성률(페이스)", "런레이트 기준 기간 말 예상 매출과 목표 차이", "페이스가 뒤처진 제품군"],
+    outputHint: "현황 해석 2개 + 실행형 제안 2개 불릿",
+    placement: { section: "targets", kind: "insight" }
+  },
+  {
+    id: "cross_sell_interpretation",
+    title: "크로스셀링 비중 해석",
+    objective: "동시구매/단독구매 구조를 해석한다.",
+    focus: ["동시구매 비중", "현재 포트폴리오 성숙도", "개선 시사점"],
+    outputHint: "해석형 3~4개 불릿",
+    placement: { section: "monthly", kind: "interpretation" }
+  },
+  {
+    id: "weak_products_interpretation",
+    title: "저판매 제품군 해석",
+    objective: "클럽1000 대비 저판매 제품군의 원인을 해석한다.",
+    focus: ["갭 원인 가설", "우선 개선 제품군", "영업 전환 포인트"],
+    outputHint: "원인+시사점 3~4개 불릿",
+    placement: { section: "weakProduct", kind: "interpretation" }
+  },
+  {
+    id: "strong_products_interpretation",
+    title: "고판매 제품군 해석",
+    objective: "클럽1000 대비 고판매 제품군의 성공 요인을 해석한다.",
+    focus: ["성공 요인", "재현 가능한 요소", "확장 포인트"],
+    outputHint: "성공요인+재현전략 3~4개 불릿",
+    placement: { section: "strongProduct", kind: "interpretation" }
+  }
+];
+
+export const BUILTIN_INSIGHT_PRESET_IDS = SEED_PRESETS.map((preset) => preset.id);
+// 대시보드가 코멘트 창을 그리는 섹션 자리는 기본 프리셋이 연결된 자리와 같다.
+const DASHBOARD_PLACEMENTS = SEED_PRESETS.flatMap((preset) => (preset.placement ? [preset.placement] : []));
+
+let cached: { mtimeMs: number; catalog: InsightPresetCatalog } | null = null;
+
+function seedCatalog(): InsightPresetCatalog {
+  const updatedAt = new Date(0).toISOString();
+  return {
+    version: 0,
+    updatedAt,
+    presets: SEED_PRESETS.map((preset) => ({ ...preset, snapshotKeys: [], version: 1, updatedAt, retiredAt: null })),
+    history: []
+  };
+}
+
+export function readInsightPresetCatalog(): InsightPresetCatalog {
+  if (!fs.existsSync(CATALOG_PATH)) {
+    if (!cached || cached.mtimeMs !== -1) {
+      cached = { mtimeMs: -1, catalog: seedCatalog() };
+    }
+    return cached.catalog;
+  }
+
+  const { mtimeMs } = fs.statSync(CATALOG_PATH);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.catalog;
+  }
+
+  try {
+    const stored = JSON.parse(fs.readFileSync(CATALOG_PATH, "utf-8")) as InsightPresetCatalog;
+    // 카탈로그 파일이 만들어진 뒤 추가된 기본 프리셋도 대시보드 섹션에서 쓸 수 있도록 합친다.
+    // 섹션 연결이 생기기 전에 저장된 기본 프리셋은 기본 섹션을 이어받는다.
+    const seeds = seedCatalog().presets;
+    const presets = stored.presets.map((preset) =>
+      preset.placement === undefined ? { ...preset, placement: seeds.find((seed) => seed.id === preset.id)?.placement ?? null } : preset
+    );
+    const missing = seeds.filter((seed) => !presets.some((preset) => preset.id === seed.id));
+    const catalog = { ...stored, presets: [...presets, ...missing] };
+    cached = { mtimeMs, catalog };
+    return catalog;
+  } catch {
+    throw new Error(`인사이트 프리셋 파일을 읽을 수 없습니다: ${CATALOG_PATH}`);
+  }
+}
+
+function writeInsightPresetCatalog(catalog: InsightPresetCatalog): InsightPresetCatalog {
+  const next: InsightPresetCatalog = { ...catalog, version: catalog.version + 1, updatedAt: new Date().toISOString() };
+  fs.mkdirSync(path.dirname(CATALOG_PATH), { recursive: true });
+  const tempPath = `${CATALOG_PATH}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(next, null, 2), "utf-8");
+  fs.renameSync(tempPath, CATALOG_PATH);
+  cached = null;
+  return next;
+}
+
+/** 현재 사용 중인(종료되지 않은) 프리셋. 없으면 null. */
+export function findActiveInsightPreset(id: string): InsightPreset | null {
+  return readInsightPresetCatalog().presets.find((preset) => preset.id === id && !preset.retiredAt) ?? null;
+}
+
+export interface InsightPresetInput {
+  title: string;
+  objective: string;
+  focus: string[];
+  outputHint: string;
+  snapshotKeys?: string[];
+  /** null이면 "추가 인사이트"에 표시한다. */
+  placement?: InsightPlacement | null;
+}
+
+function normalizeInput(input: InsightPresetInput): Required<InsightPresetInput> {
+  const title = input.title.trim();
+  const objective = input.objective.trim();
+  const outputHint = input.outputHint.trim();
+  const focus = input.focus.map((item) => item.trim()).filter(Boolean);
+  if (!title || !objective || !outputHint || focus.length === 0) {
+    throw new Error("제목, 목적, 중점 항목, 출력 힌트를 모두 입력해주세요.");
+  }
+
+  const snapshotKeys = [...new Set(input.snapshotKeys ?? [])];
+  const unknown = snapshotKeys.filter((key) => !(INSIGHT_SNAPSHOT_KEYS as readonly string[]).includes(key));
+  if (unknown.length > 0) {
+    throw new Error(`지원하지 않는 스냅샷 필드입니다: ${unknown.join(", ")}`);
+  }
+
+  return { title, objective, focus, outputHint, snapshotKeys, placement: input.placement ?? null };
+}
+
+// 한 섹션의 해석·인사이트 자리에는 사용 중인 프리셋 하나만 연결한다.
+function assertPlacementAvailable(catalog: InsightPresetCatalog, id: string, placement: InsightPlacement | null) {
+  if (placement && !DASHBOARD_PLACEMENTS.some((slot) => slot.section === placement.section && slot.kind === placement.kind)) {
+    throw new Error(`대시보드에 없는 섹션 자리입니다: ${placement.section}/${placement.kind}`);
+  }
+  const taken =
+    placement &&
+    catalog.presets.find(
+      (preset) => preset.id !== id && !preset.retiredAt && preset.placement?.section === placement.section && preset.placement.kind === placement.kind
+    );
+  if (taken) {
+    throw new Error(`'${taken.id}' 프리셋이 이미 같은 섹션 자리(${placement.section}/${placement.kind})를 쓰고 있습니다.`);
+  }
+}
+
+export function createInsightPreset(input: InsightPresetInput & { id: string }): InsightPreset {
+  const id = input.id.trim();
+  if (!PRESET_ID_PATTERN.test(id)) {
+    throw new Error("프리셋 id는 영문 소문자로 시작하는 3~50자의 소문자·숫자·밑줄 조합이어야 합니다.");
+  }
+
+  const catalog = readInsightPresetCatalog();
+  if (catalog.presets.some((preset) => preset.id === id)) {
+    throw new Error(`'${id}' 프리셋이 이미 있습니다. 종료된 프리셋은 수정으로 다시 사용할 수 있습니다.`);
+  }
+
+  const fields = normalizeInput(input);
+  assertPlacementAvailable(catalog, id, fields.placement);
+  const preset: InsightPreset = {
+    id,
+    ...fields,
+    version: 1,
+    updatedAt: new Date().toISOString(),
+    retiredAt: null
+  };
+  writeInsightPresetCatalog({ ...catalog, presets: [...catalog.presets, preset] });
+  return preset;
+}
+
+function replacePreset(catalog: InsightPresetCatalog, id: string, update: (current: InsightPreset) => Omit<InsightPreset, "version" | "updatedAt">) {
+  const current = catalog.presets.find((preset) => preset.id === id);
+  if (!current) {
+    throw new Error("해당 프리셋을 찾을 수 없습니다.");
+  }
+
+  const next: InsightPreset = { ...update(current), version: current.version + 1, updatedAt: new Date().toISOString() };
+  writeInsightPresetCatalog({
+    ...catalog,
+    presets: catalog.presets.map((preset) => (preset.id === id ? next : preset)),
+    history: [...catalog.history, current]
+  });
+  return next;
+}
+
+/** 프리셋 내용을 고치고 버전을 올린다. 이전 버전은 history에 남는다. 종료된 프리셋은 다시 사용 상태가 된다. */
+export function updateInsightPreset(id: string, patch: Partial<InsightPresetInput>): InsightPreset {
+  const catalog = readInsightPresetCatalog();
+  return replacePreset(catalog, id, (current) => {
+    const fields = normalizeInput({ ...current, ...patch });
+    assertPlacementAvailable(catalog, id, fields.placement);
+    return { ...current, ...fields, retiredAt: null };
+  });
+}
+
+export function retireInsightPreset(id: string): InsightPreset {
+  if (BUILTIN_INSIGHT_PRESET_IDS.includes(id)) {
+    throw new Error("대시보드 섹션에 연결된 기본 프리셋은 종료할 수 없습니다. 내용을 수정해주세요.");
+  }
+
+  const catalog = readInsightPresetCatalog();
+  const current = catalog.presets.find((preset) => preset.id === id);
+  if (current?.retiredAt) {
+    throw new Error(`이미 ${current.retiredAt.slice(0, 10)}에 종료된 프리셋입니다.`);
+  }
+  return replacePreset(catalog, id, (preset) => ({ ...preset, retiredAt: new Date().toISOString() }));
+}
@@ -0,0 +1,91 @@
+import { postJson, postSse } from "@/lib/llm/http";
+import type { LlmCompletionRequest, LlmMessage, LlmProvider } from "@/lib/llm/provider";
+
+interface AnthropicOptions {
+  apiKey: string;
+  model: string;
+  timeoutMs: number;
+}
+
+const ANTHROPIC_ENDPOINT = "https://api.anthropic.com/v1/messages";
+const ANTHROPIC_VERSION = "2023-06-01";
+const MAX_TOKENS = 2048;
+
+/** Messages API는 system을 별도 필드로 받고, user/assistant가 번갈아 와야 하므로 연속된 같은 역할은 합친다. */
+function toAnthropicMessages(messages: LlmMessage[]) {
+  const turns: Array<{ role: "user" | "assistant"; content: string }> = [];
+  for (const message of messages) {
+    if (message.role === "system") {
+      continue;
+    }
+    const last = turns[turns.length - 1];
+    if (last && last.role === message.role) {
+      last.content = `${last.content}\n\n${message.content}`;
+      continue;
+    }
+    turns.push({ role: message.role, content: message.content });
+  }
+  return turns;
+}
+
+function requestBody(options: AnthropicOptions, request: LlmCompletionRequest) {
+  const system = request.messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content)
+    .join("\n\n");
+
+  return {
+    model: options.model,
+    max_tokens: MAX_TOKENS,
+    temperature: request.temperature ?? 0.2,
+    ...(system ? { system } : {}),
+    messages: toAnthropicMessages(request.messages)
+  };
+}
+
+export function createAnthropicProvider(options: AnthropicOptions): LlmProvider {
+  const headers = {
+    "x-api-key": options.apiKey,
+    "anthropic-version": ANTHROPIC_VERSION
+  };
+
+  return {
+    name: "anthropic",
+    model: options.model,
+
+    async complete(request) {
+      const payload = (await postJson(ANTHROPIC_ENDPOINT, headers, requestBody(options, request), options.timeoutMs, request.signal)) as { content?: Array<{ type?: string; text?: string }> } | null;
+
+      const text = payload?.content
+        ?.filter((block) => block.type === "text")
+        .map((block) => block.text ?? "")
+        .join("")
+        .trim();
+      return text || null;
+    },
+
+    async stream(request, onDelta) {
+      let text = "";
+      const ok = await postSse(
+        ANTHROPIC_ENDPOINT,
+        headers,
+        { ...requestBody(options, request), stream: true },
+        options.timeoutMs,
+        (data) => {
+          try {
+            const event = JSON.parse(data) as { type?: string; delta?: { type?: string; text?: string } };
+            if (event.type === "content_block_delta" && event.delta?.type === "text_delta" && event.delta.text) {
+              text += event.delta.text;
+              onDelta(event.delta.text);
+            }
+          } catch {
+            // ping 등 처리하지 않는 이벤트는 무시한다.
+          }
+        },
+        request.signal
+      );
+
+      return ok ? text.trim() || null : null;
+    }
+  };
+}
@@ -0,0 +1,95 @@
+import { readSseStream } from "@/lib/sse";
+
+/** 호출부의 signal(클라이언트 연결 종료 등)이 중단되면 이 요청도 함께 중단한다. */
+function linkAbort(controller: AbortController, signal: AbortSignal | undefined): () => void {
+  if (!signal) {
+    return () => undefined;
+  }
+  if (signal.aborted) {
+    controller.abort();
+    return () => undefined;
+  }
+  const onAbort = () => controller.abort();
+  signal.addEventListener("abort", onAbort, { once: true });
+  return () => signal.removeEventListener("abort", onAbort);
+}
+
+/** LLM HTTP 호출 공통부: 제한 시간 내 JSON 응답을 받지 못하면 null을 반환한다. */
+export async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<unknown | null> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const unlink = linkAbort(controller, signal);
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    return (await response.json()) as unknown;
+  } catch {
+    return null;
+  } finally {
+    clearTimeout(timeout);
+    unlink();
+  }
+}
+
+/**
+ * 스트리밍 응답(SSE)의 data 줄을 순서대로 onData에 넘긴다.
+ * timeoutMs는 전체 생성 시간이 아니라 첫 응답까지, 그리고 이벤트 사이의 최대 대기 시간이다.
+ * 정상 종료하면 true, 응답 오류·시간 초과·중단이면 false (이미 넘긴 조각은 되돌리지 않는다).
+ */
+export async function postSse(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs: number,
+  onData: (data: string) => void,
+  signal?: AbortSignal
+): Promise<boolean> {
+  const controller = new AbortController();
+  let timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const resetTimeout = () => {
+    clearTimeout(timeout);
+    timeout = setTimeout(() => controller.abort(), timeoutMs);
+  };
+  const unlink = linkAbort(controller, signal);
+
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "text/event-stream", ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+
+    if (!response.ok || !response.body) {
+      return false;
+    }
+
+    resetTimeout();
+    await readSseStream(response.body, (event) => {
+      resetTimeout();
+      onData(event.data);
+    });
+    return true;
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeout);
+    unlink();
+  }
+}
@@ -0,0 +1,43 @@
+import type { LlmCompletionRequest, LlmProvider } from "@/lib/llm/provider";
+
+const STREAM_CHUNK_SIZE = 8;
+
+function mockResponse(request: LlmCompletionRequest, fixedResponse: string | null): string {
+  if (fixedResponse) {
+    return fixedResponse;
+  }
+
+  const lastUser = [...request.messages].reverse().find((message) => message.role === "user");
+  const firstLine = lastUser?.content.split("\n").find((line) => line.trim()) ?? "";
+  return JSON.stringify({
+    messages: [
+      `[mock] ${firstLine.trim()}`,
+      `[mock] 대화 메시지 ${request.messages.length}개를 받았습니다.`,
+      "[mock] 출처: 내부 데이터"
+    ]
+  });
+}
+
+/**
+ * 네트워크 없이 라우트를 검증하기 위한 결정적 응답.
+ * `fixedResponse`가 있으면 그대로 반환하고, 없으면 마지막 사용자 메시지를 요약한 `{"messages":[...]}`를 만든다.
+ */
+export function createMockProvider(fixedResponse: string | null): LlmProvider {
+  return {
+    name: "mock",
+    model: "mock",
+
+    async complete(request) {
+      return mockResponse(request, fixedResponse);
+    },
+
+    /** 응답을 고정 길이 조각으로 나눠 흘려보낸다. */
+    async stream(request, onDelta) {
+      const text = mockResponse(request, fixedResponse);
+      for (let index = 0; index < text.length; index += STREAM_CHUNK_SIZE) {
+        onDelta(text.slice(index, index + STREAM_CHUNK_SIZE));
+      }
+      return text;
+    }
+  };
+}
@@ -0,0 +1,69 @@
+import { postJson, postSse } from "@/lib/llm/http";
+import type { LlmProvider, LlmProviderName } from "@/lib/llm/provider";
+
+interface OpenAiCompatibleOptions {
+  name: LlmProviderName;
+  baseUrl: string;
+  apiKey: string | null;
+  model: string;
+  timeoutMs: number;
+}
+
+/** OpenAI Chat Completions 형식. Ollama, vLLM 등 호환 서버도 baseUrl만 바꿔 같은 구현을 쓴다. */
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions): LlmProvider {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: options.name,
+    model: options.model,
+
+    async complete(request) {
+      const payload = (await postJson(
+        endpoint,
+        options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {},
+        {
+          model: options.model,
+          temperature: request.temperature ?? 0.2,
+          messages: request.messages
+        },
+        options.timeoutMs,
+        request.signal
+      )) as { choices?: Array<{ message?: { content?: string | null } }> } | null;
+
+      return payload?.choices?.[0]?.message?.content?.trim() || null;
+    },
+
+    async stream(request, onDelta) {
+      let text = "";
+      const ok = await postSse(
+        endpoint,
+        options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {},
+        {
+          model: options.model,
+          temperature: request.temperature ?? 0.2,
+          messages: request.messages,
+          stream: true
+        },
+        options.timeoutMs,
+        (data) => {
+          if (data === "[DONE]") {
+            return;
+          }
+          try {
+            const chunk = JSON.parse(data) as { choices?: Array<{ delta?: { content?: string | null } }> };
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) {
+              text += delta;
+              onDelta(delta);
+            }
+          } catch {
+            // keep-alive 주석 등 JSON이 아닌 줄은 무시한다.
+          }
+        },
+        request.signal
+      );
+
+      return ok ? text.trim() || null : null;
+    }
+  };
+}
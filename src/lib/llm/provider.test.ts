@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { extractJsonText, getLlmProvider } from "@/lib/llm/provider";
+
+beforeEach(() => {
+  for (const name of ["LLM_PROVIDER", "OPENAI_API_KEY", "ANTHROPIC_API_KEY", "LLM_BASE_URL", "LLM_MODEL", "LLM_MOCK_RESPONSE"]) {
+    vi.stubEnv(name, "");
+  }
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getLlmProvider", () => {
+  it("LLM_PROVIDER가 없으면 API 키로 공급자를 추론하고, 키도 없으면 null", () => {
+    expect(getLlmProvider()).toBeNull();
+
+    vi.stubEnv("ANTHROPIC_API_KEY", "sk-ant");
+    expect(getLlmProvider()?.name).toBe("anthropic");
+
+    vi.stubEnv("OPENAI_API_KEY", "sk-openai");
+    expect(getLlmProvider()).toMatchObject({ name: "openai", model: "gpt-4o-mini" });
+  });
+
+  it("지정한 공급자의 설정이 빠졌거나 모르는 이름이면 null", () => {
+    vi.stubEnv("LLM_PROVIDER", "openai-compatible");
+    expect(getLlmProvider()).toBeNull();
+
+    vi.stubEnv("LLM_BASE_URL", "http://localhost:11434/v1");
+    vi.stubEnv("LLM_MODEL", "llama3.1");
+    expect(getLlmProvider()).toMatchObject({ name: "openai-compatible", model: "llama3.1" });
+
+    vi.stubEnv("LLM_PROVIDER", "gemini");
+    expect(getLlmProvider()).toBeNull();
+  });
+
+  it("mock 공급자는 고정 응답을 그대로 주고 스트리밍은 조각을 이어 붙이면 같은 텍스트가 된다", async () => {
+    vi.stubEnv("LLM_PROVIDER", "Mock");
+    vi.stubEnv("LLM_MOCK_RESPONSE", '{"messages":["고정 응답입니다."]}');
+    const provider = getLlmProvider();
+    const request = { messages: [{ role: "user" as const, content: "요청" }] };
+
+    expect(await provider?.complete(request)).toBe('{"messages":["고정 응답입니다."]}');
+
+    const deltas: string[] = [];
+    const streamed = await provider?.stream(request, (delta) => deltas.push(delta));
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join("")).toBe(streamed);
+  });
+
+  it("고정 응답이 없으면 마지막 사용자 메시지 첫 줄로 결정적인 응답을 만든다", async () => {
+    vi.stubEnv("LLM_PROVIDER", "mock");
+    const raw = await getLlmProvider()?.complete({
+      messages: [
+        { role: "system", content: "시스템" },
+        { role: "user", content: "\n대리점: DM신\n비교기준: 전체 평균" }
+      ]
+    });
+
+    expect(JSON.parse(raw ?? "")).toEqual({
+      messages: ["[mock] 대리점: DM신", "[mock] 대화 메시지 2개를 받았습니다.", "[mock] 출처: 내부 데이터"]
+    });
+  });
+});
+
+describe("extractJsonText", () => {
+  it("코드 블록으로 감싼 JSON의 본문만 꺼낸다", () => {
+    expect(extractJsonText('설명\n```json\n{"messages":[]}\n```')).toBe('{"messages":[]}');
+    expect(extractJsonText(' {"messages":[]} ')).toBe('{"messages":[]}');
+  });
+});
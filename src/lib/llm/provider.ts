@@ -0,0 +1,101 @@
+import { createAnthropicProvider } from "@/lib/llm/anthropic-provider";
+import { createMockProvider } from "@/lib/llm/mock-provider";
+import { createOpenAiCompatibleProvider } from "@/lib/llm/openai-provider";
+
+export type LlmProviderName = "openai" | "anthropic" | "openai-compatible" | "mock";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  /** 중단되면 진행 중인 HTTP 호출을 멈추고 null을 반환한다. */
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  /** 응답 본문 텍스트. 호출 실패·시간 초과·빈 응답이면 null (호출부는 규칙 기반 문구로 대체한다). */
+  complete(request: LlmCompletionRequest): Promise<string | null>;
+  /** complete와 같지만 생성되는 텍스트 조각을 onDelta로 먼저 흘려보낸다. 반환값은 전체 텍스트. */
+  stream(request: LlmCompletionRequest, onDelta: (text: string) => void): Promise<string | null>;
+}
+
+const DEFAULT_TIMEOUT_MS = 20_000;
+
+function resolveProviderName(): LlmProviderName | null {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  if (configured) {
+    if (configured === "openai" || configured === "anthropic" || configured === "openai-compatible" || configured === "mock") {
+      return configured;
+    }
+    return null;
+  }
+
+  if (process.env.OPENAI_API_KEY) {
+    return "openai";
+  }
+  if (process.env.ANTHROPIC_API_KEY) {
+    return "anthropic";
+  }
+  return null;
+}
+
+/**
+ * `LLM_PROVIDER`(openai | anthropic | openai-compatible | mock)로 구현체를 고른다.
+ * 지정하지 않으면 설정된 API 키로 추론하고(OpenAI → Anthropic), 사용할 수 있는 공급자가 없으면 null.
+ */
+export function getLlmProvider(): LlmProvider | null {
+  const timeoutMs = Number(process.env.LLM_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+
+  switch (resolveProviderName()) {
+    case "openai": {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        return null;
+      }
+      return createOpenAiCompatibleProvider({
+        name: "openai",
+        baseUrl: "https://api.openai.com/v1",
+        apiKey,
+        model: process.env.OPENAI_MODEL || "gpt-4o-mini",
+        timeoutMs
+      });
+    }
+    case "anthropic": {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        return null;
+      }
+      return createAnthropicProvider({ apiKey, model: process.env.ANTHROPIC_MODEL || "claude-sonnet-4-5", timeoutMs });
+    }
+    case "openai-compatible": {
+      const baseUrl = process.env.LLM_BASE_URL;
+      const model = process.env.LLM_MODEL;
+      if (!baseUrl || !model) {
+        return null;
+      }
+      return createOpenAiCompatibleProvider({
+        name: "openai-compatible",
+        baseUrl,
+        apiKey: process.env.LLM_API_KEY || null,
+        model,
+        timeoutMs
+      });
+    }
+    case "mock":
+      return createMockProvider(process.env.LLM_MOCK_RESPONSE || null);
+    default:
+      return null;
+  }
+}
+
+/** 일부 모델은 JSON을 ```json 코드 블록으로 감싸 반환하므로 본문만 꺼낸다. */
+export function extractJsonText(raw: string): string {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return (fenced ? fenced[1] : raw).trim();
+}
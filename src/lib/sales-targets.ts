@@ -0,0 +1,104 @@
+import crypto from "crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { SalesTargetCatalog, SalesTargetEntry } from "@/types/domain";
+
+const TARGETS_PATH = process.env.SALES_TARGETS_PATH || path.join(process.cwd(), "data", "sales-targets.json");
+const PERIOD_PATTERN = /^\d{4}(-(0[1-9]|1[0-2]))?$/;
+
+export interface SalesTargetInput {
+  agency: string;
+  category?: string | null;
+  period: string;
+  amount: number;
+}
+
+let cached: { mtimeMs: number; catalog: SalesTargetCatalog } | null = null;
+
+function emptyCatalog(): SalesTargetCatalog {
+  return { version: 0, updatedAt: new Date(0).toISOString(), targets: [] };
+}
+
+function targetKey(target: { agency: string; category: string | null; period: string }): string {
+  return `${target.agency}::${target.category ?? ""}::${target.period}`;
+}
+
+export function readSalesTargets(): SalesTargetCatalog {
+  if (!fs.existsSync(TARGETS_PATH)) {
+    if (!cached || cached.mtimeMs !== -1) {
+      cached = { mtimeMs: -1, catalog: emptyCatalog() };
+    }
+    return cached.catalog;
+  }
+
+  const { mtimeMs } = fs.statSync(TARGETS_PATH);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.catalog;
+  }
+
+  try {
+    const catalog = JSON.parse(fs.readFileSync(TARGETS_PATH, "utf-8")) as SalesTargetCatalog;
+    cached = { mtimeMs, catalog };
+    return catalog;
+  } catch {
+    throw new Error(`매출 목표 파일을 읽을 수 없습니다: ${TARGETS_PATH}`);
+  }
+}
+
+function writeSalesTargets(catalog: SalesTargetCatalog): SalesTargetCatalog {
+  const next: SalesTargetCatalog = { ...catalog, version: catalog.version + 1, updatedAt: new Date().toISOString() };
+  fs.mkdirSync(path.dirname(TARGETS_PATH), { recursive: true });
+  const tempPath = `${TARGETS_PATH}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(next, null, 2), "utf-8");
+  fs.renameSync(tempPath, TARGETS_PATH);
+  cached = null;
+  return next;
+}
+
+/** 같은 대리점·중분류·기간의 목표가 있으면 금액을 바꾸고, 없으면 추가한다. 업로드 파일도 이 함수로 한 번에 반영한다. */
+export function upsertSalesTargets(inputs: SalesTargetInput[]): SalesTargetEntry[] {
+  if (inputs.length === 0) {
+    throw new Error("등록할 목표가 없습니다.");
+  }
+
+  const updatedAt = new Date().toISOString();
+  const normalized = inputs.map((input) => {
+    const agency = input.agency.trim();
+    const category = input.category?.trim() || null;
+    const period = input.period.trim();
+    if (!agency) {
+      throw new Error("대리점명을 입력해주세요.");
+    }
+    if (!PERIOD_PATTERN.test(period)) {
+      throw new Error(`목표 기간은 YYYY-MM(월) 또는 YYYY(연간) 형식이어야 합니다: ${period}`);
+    }
+    if (!Number.isFinite(input.amount) || input.amount < 0) {
+      throw new Error(`목표금액은 0 이상의 숫자여야 합니다: ${agency} ${period}`);
+    }
+    return { agency, category, period, amount: input.amount };
+  });
+
+  const catalog = readSalesTargets();
+  const byKey = new Map(catalog.targets.map((target) => [targetKey(target), target]));
+  const saved: SalesTargetEntry[] = [];
+  for (const input of normalized) {
+    const existing = byKey.get(targetKey(input));
+    const entry: SalesTargetEntry = { id: existing?.id ?? crypto.randomUUID(), ...input, updatedAt };
+    byKey.set(targetKey(input), entry);
+    saved.push(entry);
+  }
+
+  writeSalesTargets({ ...catalog, targets: Array.from(byKey.values()) });
+  return saved;
+}
+
+export function deleteSalesTarget(id: string): SalesTargetEntry {
+  const catalog = readSalesTargets();
+  const target = catalog.targets.find((entry) => entry.id === id);
+  if (!target) {
+    throw new Error("해당 목표를 찾을 수 없습니다.");
+  }
+
+  writeSalesTargets({ ...catalog, targets: catalog.targets.filter((entry) => entry.id !== id) });
+  return target;
+}
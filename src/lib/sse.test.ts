@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+
+import { createSseParser, readSseStream, sseResponse, type SseEvent } from "@/lib/sse";
+
+describe("createSseParser", () => {
+  it("조각으로 나뉜 이벤트를 빈 줄 단위로 모아 넘긴다", () => {
+    const events: SseEvent[] = [];
+    const push = createSseParser((event) => events.push(event));
+
+    push("event: partial\ndata: {\"a\"");
+    expect(events).toEqual([]);
+    push(":1}\r\n\r\ndata: 첫 줄\ndata: 둘째 줄\n\n: 주석\n\n");
+
+    expect(events).toEqual([
+      { event: "partial", data: '{"a":1}' },
+      { event: "message", data: "첫 줄\n둘째 줄" }
+    ]);
+  });
+});
+
+describe("sseResponse", () => {
+  it("보낸 순서대로 흘려보내고, run이 실패하면 error 이벤트 뒤에 닫는다", async () => {
+    const response = sseResponse(async (send) => {
+      send("result", { presetId: "geo_insight" });
+      throw new Error("생성 실패");
+    });
+    const events: SseEvent[] = [];
+    await readSseStream(response.body as ReadableStream<Uint8Array>, (event) => events.push(event));
+
+    expect(response.headers.get("Content-Type")).toBe("text/event-stream; charset=utf-8");
+    expect(events).toEqual([
+      { event: "result", data: '{"presetId":"geo_insight"}' },
+      { event: "error", data: '{"error":"생성 실패"}' }
+    ]);
+  });
+
+  it("클라이언트가 연결을 끊으면 signal이 중단된다", async () => {
+    let aborted: Promise<void> = Promise.resolve();
+    const response = sseResponse(async (send, signal) => {
+      aborted = new Promise((resolve) => signal.addEventListener("abort", () => resolve()));
+      send("partial", { messages: [] });
+      await aborted;
+    });
+
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+    await reader.read();
+    await reader.cancel();
+
+    await expect(aborted).resolves.toBeUndefined();
+  });
+});
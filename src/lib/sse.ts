@@ -0,0 +1,100 @@
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+/** text/event-stream 조각을 이어 붙여 완성된 이벤트 단위로 넘긴다. event 필드가 없으면 "message". */
+export function createSseParser(onEvent: (event: SseEvent) => void): (chunk: string) => void {
+  let buffer = "";
+
+  return (chunk) => {
+    buffer += chunk.replace(/\r\n?/g, "\n");
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary >= 0) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).replace(/^ /, ""));
+        }
+      }
+      if (data.length > 0) {
+        onEvent({ event, data: data.join("\n") });
+      }
+    }
+  };
+}
+
+export async function readSseStream(body: ReadableStream<Uint8Array>, onEvent: (event: SseEvent) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const push = createSseParser(onEvent);
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      push(`${decoder.decode()}\n\n`);
+      return;
+    }
+    push(decoder.decode(value, { stream: true }));
+  }
+}
+
+/**
+ * run 안에서 send로 보낸 이벤트를 순서대로 흘려보내고, run이 끝나면 스트림을 닫는다.
+ * 클라이언트가 연결을 끊으면 signal이 중단되고, 그 뒤의 send는 무시한다. run은 signal을 LLM 호출에 넘겨 함께 멈춘다.
+ */
+export function sseResponse(run: (send: (event: string, data: unknown) => void, signal: AbortSignal) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) {
+          return;
+        }
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          closed = true;
+          abort.abort();
+        }
+      };
+
+      try {
+        await run(send, abort.signal);
+      } catch (error) {
+        send("error", { error: error instanceof Error ? error.message : "스트리밍 오류" });
+      } finally {
+        if (!closed) {
+          closed = true;
+          try {
+            controller.close();
+          } catch {
+            // 이미 취소된 스트림
+          }
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      abort.abort();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive"
+    }
+  });
+}
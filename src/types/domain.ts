@@ -1,5 +1,8 @@
 export type BenchmarkMode = "overall" | "club1000";
 
+/** 선택 대리점 자체의 성장률 비교 대상: 직전 동일 길이 기간 또는 전년 동기. */
+export type ComparisonMode = "previousPeriod" | "yearOverYear";
+
 export interface PreparedOrder {
   orderNo: string;
   bizNo: string;
@@ -36,12 +39,164 @@ export interface AnalysisDataset {
   products: PreparedProduct[];
 }
 
+export interface DatasetMeta {
+  id: string;
+  name: string;
+  owner: string | null;
+  source: "upload" | "default";
+  uploadedAt: string;
+  agencies: string[];
+  counts: {
+    orders: number;
+    customers: number;
+    products: number;
+  };
+}
+
+export interface AgencyAliasEntry {
+  id: string;
+  alias: string;
+  canonical: string;
+  effectiveFrom: string;
+  retiredFrom: string | null;
+}
+
+export interface Club1000Entry {
+  id: string;
+  agency: string;
+  effectiveFrom: string;
+  retiredFrom: string | null;
+}
+
+export interface AgencyRegistry {
+  version: number;
+  updatedAt: string;
+  aliases: AgencyAliasEntry[];
+  club1000: Club1000Entry[];
+}
+
+/** 대리점(또는 대리점 × 중분류) 매출 목표. period는 월 목표 "YYYY-MM" 또는 연간 목표 "YYYY". */
+export interface SalesTargetEntry {
+  id: string;
+  agency: string;
+  /** null이면 대리점 총매출 목표 */
+  category: string | null;
+  period: string;
+  amount: number;
+  updatedAt: string;
+}
+
+export interface SalesTargetCatalog {
+  version: number;
+  updatedAt: string;
+  targets: SalesTargetEntry[];
+}
+
+export type DataSource = "orders" | "customers" | "products";
+
+export interface ColumnAliasMatch {
+  column: string;
+  required: boolean;
+  matchedHeader: string | null;
+}
+
+export interface SourceParseReport {
+  source: DataSource;
+  format: "csv" | "xlsx";
+  encoding: string | null;
+  delimiter: string | null;
+  sheetName: string | null;
+  rowCount: number;
+  columns: ColumnAliasMatch[];
+}
+
+export interface DataQualityReport {
+  sources: SourceParseReport[];
+  orders: {
+    total: number;
+    kept: number;
+    droppedNonPositiveAmount: number;
+    droppedMissingOrderNo: number;
+    droppedMissingBizNo: number;
+    droppedMissingAgency: number;
+    unparseableAmount: number;
+    unparseableDate: number;
+    missingDate: number;
+    unmatchedCustomer: number;
+  };
+  customers: {
+    /** 업로드한 고객 행 수 */
+    total: number;
+    /** 대리점 별칭 전후로 나뉜 고객 레코드 수. matched는 이 레코드 기준이다. */
+    records: number;
+    expandedByAlias: number;
+    matched: number;
+    unparseableFirstOrderAmount: number;
+  };
+  products: {
+    total: number;
+    kept: number;
+    unknownOrder: number;
+    unparseableQuantity: number;
+    unparseableAmount: number;
+  };
+}
+
 export interface KpiCard {
   id: string;
   label: string;
   value: string;
   delta: number;
   tone: "up" | "down" | "neutral";
+  priorValue: string | null;
+  priorDelta: number | null;
+  priorTone: "up" | "down" | "neutral" | null;
+  /** 목표와 같은 지표의 카드만 채운다. 목표는 매출 금액 기준이라 총 매출 카드만 해당하고, 중분류 목표는 AnalysisResult.targets.categories로 반환한다. */
+  target: TargetProgress | null;
+}
+
+/** 분석 기간 목표 대비 실적. 월 목표가 없으면 연간 목표의 1/12을 쓰고, 기간에 걸친 달은 일수로 나눈다. */
+export interface TargetProgress {
+  target: number;
+  actual: number;
+  /** actual / target (%) */
+  attainment: number;
+  /** 기준일까지 일할 계산한 목표 */
+  targetToDate: number;
+  /** actual / targetToDate (%), 100 이상이면 목표 페이스 이상 */
+  pace: number;
+  /** 기준일까지의 일평균 매출을 기간 말까지 이어 간 예상 매출 */
+  runRateProjection: number;
+  /** target - actual. 양수면 부족분, 음수면 이미 초과 달성 */
+  gapToTarget: number;
+  /** target - runRateProjection. gapToTarget과 같이 양수면 기간 말 예상 부족분, 음수면 예상 초과분 */
+  projectedGap: number;
+  /** 목표가 있는 달 중 기준일 이후 남은 일수 */
+  remainingDays: number;
+}
+
+export interface CategoryTargetProgress extends TargetProgress {
+  category: string;
+}
+
+export interface TargetMonth {
+  month: string;
+  /** 분석 기간에 걸친 만큼 일할 계산한 목표, 목표가 없으면 null */
+  target: number | null;
+  actual: number;
+}
+
+export interface TargetTracking {
+  from: string;
+  to: string;
+  /** 실적 기준일: 기간 끝과 데이터 마지막 주문일 중 이른 날 */
+  asOf: string;
+  elapsedDays: number;
+  totalDays: number;
+  /** 총매출 목표가 하나도 없으면 null */
+  total: TargetProgress | null;
+  months: TargetMonth[];
+  categories: CategoryTargetProgress[];
 }
 
 export interface RegionStat {
@@ -105,15 +260,418 @@ export interface GrowthScatterSummary {
   minPurchaseCount: number;
 }
 
+export type DormancyRiskLevel = "high" | "medium";
+
+/** 평소 주문 간격보다 오래 주문이 없는 반복 구매 고객 */
+export interface AtRiskCustomer {
+  bizNo: string;
+  customerName: string;
+  agency: string;
+  lastOrderDate: string;
+  daysSinceLastOrder: number;
+  purchaseCount: number;
+  /** 주문일 간격의 중앙값 (일) */
+  typicalGapDays: number;
+  /** daysSinceLastOrder / typicalGapDays */
+  riskScore: number;
+  riskLevel: DormancyRiskLevel;
+  cumulativeAmount: number;
+}
+
+export interface DormancySummary {
+  /** 경과일 기준일: 분석 기간 데이터의 마지막 주문일 */
+  referenceDate: string | null;
+  /** 주문일이 2일 이상인 반복 구매 고객 수 (평가 대상) */
+  evaluatedCount: number;
+  /** 주문일이 하루뿐이라 간격을 알 수 없어 제외한 고객 수 */
+  oneTimeCount: number;
+  atRiskCount: number;
+  highRiskCount: number;
+  atRiskAmount: number;
+  riskThreshold: number;
+  highRiskThreshold: number;
+}
+
+export type RfmSegmentId =
+  | "champions"
+  | "loyal"
+  | "newCustomers"
+  | "potentialLoyalists"
+  | "cantLose"
+  | "atRisk"
+  | "needAttention"
+  | "hibernating"
+  | "lost";
+
+export interface RfmSegmentStat {
+  segment: RfmSegmentId;
+  label: string;
+  customerCount: number;
+  /** 선택 대리점 고객 중 비중 (%) */
+  customerShare: number;
+  revenue: number;
+  /** 선택 대리점 매출 중 비중 (%) */
+  revenueShare: number;
+  /** 비교 대리점별 고객 비중의 평균 (%) */
+  benchmarkCustomerShare: number;
+  /** 비교 대리점별 매출 비중의 평균 (%) */
+  benchmarkRevenueShare: number;
+}
+
+/** R 점수(최근성) × FM 점수(구매횟수·금액 점수 평균, 반올림) 격자 한 칸 */
+export interface RfmMatrixCell {
+  recencyScore: number;
+  frequencyMonetaryScore: number;
+  segment: RfmSegmentId;
+  customerCount: number;
+  customerShare: number;
+  benchmarkCustomerShare: number;
+}
+
+export interface RfmSummary {
+  /** 최근성 기준일: 분석 기간 데이터의 마지막 주문일 */
+  referenceDate: string | null;
+  /** 전체 고객 기준 5분위 경계 (20/40/60/80%) */
+  breakpoints: {
+    recencyDays: number[];
+    frequency: number[];
+    monetary: number[];
+  };
+  customerCount: number;
+  benchmarkAgencyCount: number;
+  segments: RfmSegmentStat[];
+  matrix: RfmMatrixCell[];
+}
+
+export interface CohortCell {
+  /** 첫 주문월로부터 지난 개월 수 (0 = 첫 주문월) */
+  offset: number;
+  activeCustomers: number;
+  /** 해당 월에 주문한 고객 비중 (%) */
+  retention: number;
+  /** 첫 주문월부터 해당 월까지의 누적 매출 */
+  cumulativeRevenue: number;
+  revenuePerCustomer: number;
+  /** 같은 첫 주문월의 비교 대리점 고객 전체 기준. 비교 고객이 없으면 null */
+  benchmarkRetention: number | null;
+  benchmarkRevenuePerCustomer: number | null;
+}
+
+export interface CohortRow {
+  /** 첫 주문월 (YYYY-MM) */
+  cohort: string;
+  customerCount: number;
+  benchmarkCustomerCount: number;
+  /** 분석 기간 안에서 관측 가능한 개월까지만 담는다. */
+  cells: CohortCell[];
+}
+
+/** 개월 차별 코호트 평균 (관측 가능한 코호트의 고객 수 가중 평균) */
+export interface CohortCurvePoint {
+  offset: number;
+  retention: number;
+  revenuePerCustomer: number;
+  benchmarkRetention: number | null;
+  benchmarkRevenuePerCustomer: number | null;
+}
+
+export interface CohortAnalysis {
+  maxOffset: number;
+  benchmarkAgencyCount: number;
+  rows: CohortRow[];
+  average: CohortCurvePoint[];
+}
+
+/** 중분류 연관 규칙: antecedent를 산 주문이 consequent도 함께 산 정도 */
+export interface AssociationRule {
+  antecedent: string[];
+  consequent: string;
+  /** antecedent와 consequent를 모두 포함한 주문 수 */
+  orderCount: number;
+  /** 전체 주문 중 해당 조합 주문 비중 (%) */
+  support: number;
+  /** antecedent 주문 중 consequent도 포함한 비중 (%) */
+  confidence: number;
+  /** confidence / consequent 단독 비중. 1보다 크면 함께 팔리는 경향 */
+  lift: number;
+}
+
+/** Club 1000에서는 강하게 함께 팔리지만 선택 대리점에서는 드문 조합 */
+export interface MissingPairing {
+  antecedent: string[];
+  consequent: string;
+  clubConfidence: number;
+  clubLift: number;
+  agencyConfidence: number;
+  /** 선택 대리점에서 antecedent를 포함한 주문 수 */
+  agencyAntecedentOrders: number;
+  agencyOrderCount: number;
+  /** Club 1000 수준의 confidence라면 추가로 함께 팔렸을 주문 수 */
+  opportunityOrders: number;
+}
+
+export interface MarketBasket {
+  orderCount: number;
+  benchmarkOrderCount: number;
+  clubOrderCount: number;
+  /** 규칙으로 인정하는 최소 조합 주문 수 */
+  minOrderCount: number;
+  agencyRules: AssociationRule[];
+  benchmarkRules: AssociationRule[];
+  missingPairings: MissingPairing[];
+}
+
 export interface MonthlyNewProduct {
   month: string;
   quantity: number;
   amount: number;
 }
 
+export interface MonthlyValue {
+  month: string;
+  value: number;
+}
+
+/** holtWinters: 12개월 계절성 + 추세, holt: 감쇠 추세만 (24개월 미만) */
+export type ForecastMethod = "holtWinters" | "holt";
+
+export interface ForecastPoint extends MonthlyValue {
+  lower: number;
+  upper: number;
+}
+
+/** 마지막 months개월을 빼고 학습해 맞춰 본 오차. 실제값이 모두 0이면 mape는 null. */
+export interface ForecastBacktest {
+  months: number;
+  mae: number;
+  mape: number | null;
+}
+
+export interface ForecastSeries {
+  method: ForecastMethod;
+  /** 첫 주문월부터 빈 달을 0으로 채운 학습 구간 */
+  history: MonthlyValue[];
+  forecast: ForecastPoint[];
+  backtest: ForecastBacktest | null;
+}
+
+/** 월별 이력이 6개월 미만이면 시리즈는 null */
+export interface SalesForecast {
+  horizon: number;
+  /** 신뢰구간 수준(%) */
+  confidenceLevel: number;
+  /** 집계 중인 달이라 학습에서 뺀 마지막 달 */
+  excludedPartialMonth: string | null;
+  sales: ForecastSeries | null;
+  newProductQuantity: ForecastSeries | null;
+}
+
+export interface CategoryMixStat {
+  category: string;
+  agencySales: number;
+  /** 선택 대리점 제품 매출 중 해당 중분류 비중 (%) */
+  agencyShare: number;
+  /** Club 1000 대리점별 비중의 평균 (%) */
+  clubShare: number;
+  /** agencyShare - clubShare (%p) */
+  shareGap: number;
+}
+
+export interface CategoryMix {
+  clubAgencyCount: number;
+  all: CategoryMixStat[];
+  overIndexed: CategoryMixStat[];
+  underIndexed: CategoryMixStat[];
+}
+
+/** 분석 기간 (YYYY-MM-DD, 양 끝 포함). null이면 해당 방향으로 제한 없음. */
+export interface AnalysisPeriod {
+  from: string | null;
+  to: string | null;
+}
+
+export interface PeriodCoverage extends AnalysisPeriod {
+  availableFrom: string | null;
+  availableTo: string | null;
+  includedOrders: number;
+  outOfRangeOrders: number;
+  undatedOrders: number;
+  undatedExcluded: boolean;
+}
+
+export type LeaderboardMetric =
+  | "sales"
+  | "orderCount"
+  | "newProductRatio"
+  | "crossSellRatio"
+  | "highPotentialCount"
+  | "averageGrowthMultiplier";
+
+export interface LeaderboardRow {
+  agency: string;
+  isClub1000: boolean;
+  values: Record<LeaderboardMetric, number>;
+  /** 1위부터 시작하는 순위 (동률은 같은 순위) */
+  ranks: Record<LeaderboardMetric, number>;
+  /** 상위 몇 %인지 (0~100, 작을수록 상위) */
+  topPercents: Record<LeaderboardMetric, number>;
+}
+
+export interface Leaderboard {
+  scope: BenchmarkMode;
+  period: PeriodCoverage;
+  rows: LeaderboardRow[];
+}
+
+export interface CustomerOrderLine {
+  midCategory: string;
+  quantity: number;
+  salesAmount: number;
+  isNewProduct: boolean;
+}
+
+export interface CustomerOrder {
+  orderNo: string;
+  /** YYYY-MM-DD. 주문일자가 없으면 null */
+  orderDate: string | null;
+  orderAmount: number;
+  memberType: string;
+  region: string;
+  lines: CustomerOrderLine[];
+}
+
+export interface CustomerTimelinePoint {
+  month: string;
+  orderCount: number;
+  amount: number;
+}
+
+export interface CustomerCategoryStat {
+  category: string;
+  quantity: number;
+  salesAmount: number;
+  newProductSales: number;
+  /** 고객 제품 매출 중 해당 중분류 비중 (%) */
+  share: number;
+}
+
+/** 고객 한 곳(사업자번호 + 대리점)의 주문 상세. 분석 기간이 지정되면 기간 내 주문만 담는다. */
+export interface CustomerDetail {
+  bizNo: string;
+  agency: string;
+  customerName: string;
+  memberType: string;
+  industryMajor: string;
+  industryDetail: string;
+  firstOrderAmount: number;
+  cumulativeAmount: number;
+  purchaseCount: number;
+  growthMultiplier: number;
+  period: PeriodCoverage;
+  /** 최근 주문부터 정렬, 주문일자가 없는 주문은 마지막 */
+  orders: CustomerOrder[];
+  timeline: CustomerTimelinePoint[];
+  categoryMix: CustomerCategoryStat[];
+  recommendations: CategoryRecommendation[];
+}
+
+/** 추천 근거: 같은 업종 대분류, 비슷한 평균 주문금액 구간, 전체 고객의 제품군 동시구매 */
+export type RecommendationSignal = "industry" | "orderSize" | "coPurchase";
+
+/** 고객이 아직 사지 않은 제품군 추천. 비율은 비교 고객 중 해당 제품군을 산 고객 비중(%)이며, 비교 고객이 부족하면 null. */
+export interface CategoryRecommendation {
+  category: string;
+  /** 근거별 비율의 가중 평균 (0~100) */
+  score: number;
+  primarySignal: RecommendationSignal;
+  industryRate: number | null;
+  industryPeerCount: number;
+  orderSizeRate: number | null;
+  orderSizePeerCount: number;
+  /** 고객이 이미 산 제품군 중 이 제품군을 함께 산 비율이 가장 높은 제품군 */
+  coPurchaseWith: string | null;
+  coPurchaseRate: number | null;
+  /** 같은 주문금액 구간에서 이 제품군을 산 고객의 평균 구매금액 */
+  typicalSalesAmount: number;
+  /** score × typicalSalesAmount, 콜 리스트 우선순위에 쓴다 */
+  expectedSales: number;
+}
+
+export interface CustomerRecommendation {
+  bizNo: string;
+  customerName: string;
+  agency: string;
+  industryMajor: string;
+  purchaseCount: number;
+  cumulativeAmount: number;
+  averageOrderAmount: number;
+  /** 평균 주문금액 5분위 구간 (1이 가장 작음) */
+  orderSizeBand: number;
+  lastOrderDate: string | null;
+  ownedCategories: string[];
+  recommendations: CategoryRecommendation[];
+}
+
+/** 섹션별 AI 코멘트 대화 한 줄. assistant는 코멘트 문장, user는 수정 요청. */
+export interface InsightMessage {
+  role: "assistant" | "user";
+  content: string;
+  /** assistant 문장을 만든 프리셋 버전 */
+  presetVersion?: number;
+}
+
+/** 대시보드에서 프리셋 문구를 보여주는 섹션 */
+export type InsightSectionId =
+  | "geo"
+  | "region"
+  | "regionCommon"
+  | "growth"
+  | "retention"
+  | "targets"
+  | "monthly"
+  | "weakProduct"
+  | "strongProduct";
+
+export type InsightMessageKind = "interpretation" | "insight";
+
+export interface InsightPlacement {
+  section: InsightSectionId;
+  kind: InsightMessageKind;
+}
+
+export interface InsightPreset {
+  id: string;
+  title: string;
+  objective: string;
+  focus: string[];
+  outputHint: string;
+  /** 대시보드가 analysisSnapshot에 담을 AnalysisResult 필드. 기본 프리셋은 섹션별 스냅샷을 쓰므로 비어 있다. */
+  snapshotKeys: string[];
+  /** 문구를 표시할 대시보드 섹션. 없으면 "추가 인사이트"에 표시한다. */
+  placement?: InsightPlacement | null;
+  /** 수정할 때마다 1씩 올라가는 프리셋별 버전 */
+  version: number;
+  updatedAt: string;
+  retiredAt: string | null;
+}
+
+export interface InsightPresetCatalog {
+  version: number;
+  updatedAt: string;
+  presets: InsightPreset[];
+  /** 수정·종료로 대체된 이전 버전들 (생성 문구의 presetVersion 추적용) */
+  history: InsightPreset[];
+}
+
 export interface AnalysisResult {
   agency: string;
   benchmark: BenchmarkMode;
+  period: PeriodCoverage;
+  comparison: {
+    mode: ComparisonMode;
+    from: string;
+    to: string;
+  } | null;
   kpis: KpiCard[];
   b2bRegionAll: RegionStat[];
   regionAll: RegionStat[];
@@ -123,9 +681,19 @@ export interface AnalysisResult {
   regionCommonIndustries: CommonRegionIndustry[];
   growthCustomers: GrowthCustomer[];
   growthScatter: GrowthScatterSummary;
+  dormancy: DormancySummary;
+  /** 이탈 위험 고객 (고위험 우선, 같은 등급은 누적금액 순) */
+  atRiskCustomers: AtRiskCustomer[];
+  rfm: RfmSummary;
+  cohorts: CohortAnalysis;
   monthlyNewProducts: MonthlyNewProduct[];
+  forecast: SalesForecast;
+  /** 선택 대리점에 분석 기간과 겹치는 목표가 없으면 null */
+  targets: TargetTracking | null;
   crossSellRatio: {
     solo: number;
     crossSell: number;
   };
+  marketBasket: MarketBasket;
+  categoryMix: CategoryMix;
 }
@@ -0,0 +1,17 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+// 월 집계가 서버 시간대에 흔들리지 않는지 확인하도록 UTC가 아닌 시간대에서 돌린다.
+process.env.TZ = "Asia/Seoul";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url))
+    }
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"]
+  }
+});